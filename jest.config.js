@@ -0,0 +1,19 @@
+const nextJest = require('next/jest');
+
+const createJestConfig = nextJest({ dir: './' });
+
+const jestConfig = createJestConfig({
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/src/**/__tests__/**/*.test.ts'],
+});
+
+// nanoid only ships ES modules and the db schema imports it, so it has to be transformed too
+module.exports = async () => {
+  const config = await jestConfig();
+  return {
+    ...config,
+    transformIgnorePatterns: config.transformIgnorePatterns.map(pattern =>
+      pattern === '/node_modules/' ? '/node_modules/(?!nanoid/)' : pattern
+    ),
+  };
+};
@@ -0,0 +1,78 @@
+/**
+ * RecipeUp service worker
+ * Keeps the grocery list and pantry pages loadable without a connection. List data
+ * and queued changes live in the page's local storage (see src/lib/offline).
+ */
+
+const CACHE_VERSION = 'recipeup-v1';
+const PAGE_CACHE = `${CACHE_VERSION}-pages`;
+const ASSET_CACHE = `${CACHE_VERSION}-assets`;
+
+const OFFLINE_PAGES = ['/grocery-lists', '/pantry'];
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => !key.startsWith(CACHE_VERSION)).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Sent on logout: the cached pages show the previous user's lists and pantry
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'CLEAR_USER_DATA') {
+    event.waitUntil(caches.delete(PAGE_CACHE));
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  // Build assets are content-hashed, so the cached copy is always valid
+  if (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/icons/')) {
+    event.respondWith(cacheFirst(request, ASSET_CACHE));
+    return;
+  }
+
+  if (request.mode === 'navigate' && OFFLINE_PAGES.some((page) => url.pathname === page || url.pathname.startsWith(`${page}/`))) {
+    event.respondWith(networkFirst(request, PAGE_CACHE));
+  }
+});
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request, cacheName) {
+  try {
+    const response = await fetch(request);
+    // Don't cache the login page a signed-out visit redirects to
+    if (response.ok && !response.redirected) {
+      const cache = await caches.open(cacheName);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    throw error;
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { confirmTwoFactorEnrollment } from '../../../../../lib/auth';
+import { apiHandler, parseJsonBody, ApiError } from '../../../../../lib/api';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const confirmTwoFactorSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, 'Enter the 6-digit code from your authenticator app'),
+});
+
+// ============================================================================
+// POST /api/auth/2fa/confirm - Turn on 2FA with a code from the new secret
+// ============================================================================
+
+export const POST = apiHandler({ auth: 'required' }, async (request, { user: currentUser }) => {
+  const { code } = await parseJsonBody(request, confirmTwoFactorSchema);
+
+  const result = await confirmTwoFactorEnrollment(currentUser.id, code);
+
+  if ('error' in result) {
+    const statusCode = result.error.code === 'INVALID_CODE' ? 400 : result.error.code === 'USER_NOT_FOUND' ? 404 : 409;
+    throw new ApiError(statusCode, result.error.code, result.error.message);
+  }
+
+  return NextResponse.json({
+    message: 'Two-factor authentication enabled',
+    recoveryCodes: result.recoveryCodes, // Shown once; only hashes are kept
+  });
+});
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { disableTwoFactor } from '../../../../../lib/auth';
+import { apiHandler, parseJsonBody, ApiError } from '../../../../../lib/api';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const disableTwoFactorSchema = z.object({
+  password: z.string().default(''), // Ignored for accounts without a password
+  code: z.string().min(1, 'Authentication code is required').max(32, 'Invalid authentication code'),
+});
+
+// ============================================================================
+// POST /api/auth/2fa/disable
+// ============================================================================
+
+export const POST = apiHandler({ auth: 'required' }, async (request, { user: currentUser }) => {
+  const { password, code } = await parseJsonBody(request, disableTwoFactorSchema);
+
+  const result = await disableTwoFactor(currentUser.id, password, code);
+
+  if ('error' in result) {
+    const statusCodes: Partial<Record<typeof result.error.code, number>> = {
+      USER_NOT_FOUND: 404,
+      TWO_FACTOR_DISABLED: 409,
+      INVALID_CREDENTIALS: 403,
+    };
+    throw new ApiError(statusCodes[result.error.code] ?? 400, result.error.code, result.error.message);
+  }
+
+  return NextResponse.json({ message: 'Two-factor authentication disabled' });
+});
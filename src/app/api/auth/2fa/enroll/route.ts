@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { beginTwoFactorEnrollment } from '../../../../../lib/auth';
+import { apiHandler, ConflictError, NotFoundError } from '../../../../../lib/api';
+
+// ============================================================================
+// POST /api/auth/2fa/enroll - Start TOTP enrollment
+// ============================================================================
+
+export const POST = apiHandler({ auth: 'required' }, async (request, { user: currentUser }) => {
+  const result = await beginTwoFactorEnrollment(currentUser.id);
+
+  if ('error' in result) {
+    if (result.error.code === 'USER_NOT_FOUND') {
+      throw new NotFoundError(result.error.message, { code: result.error.code });
+    }
+    throw new ConflictError(result.error.message, { code: result.error.code });
+  }
+
+  // Show otpauthUri as a QR code, with the secret for manual entry
+  return NextResponse.json({
+    secret: result.secret,
+    otpauthUri: result.otpauthUri,
+  });
+});
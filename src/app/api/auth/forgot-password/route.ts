@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requestPasswordReset } from '../../../../lib/auth';
+import { apiHandler, parseJsonBody } from '../../../../lib/api';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+});
+
+// ============================================================================
+// POST /api/auth/forgot-password
+// ============================================================================
+
+export const POST = apiHandler(async (request) => {
+  const { email } = await parseJsonBody(request, forgotPasswordSchema);
+
+  await requestPasswordReset(email);
+
+  // Same response whether or not the email has an account
+  return NextResponse.json({
+    message: 'If an account exists for that email, we\'ve sent a link to reset the password.',
+  });
+});
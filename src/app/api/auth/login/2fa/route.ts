@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { completeTwoFactorLogin } from '../../../../../lib/auth';
+import { apiHandler, parseJsonBody, AuthenticationError, RateLimitError } from '../../../../../lib/api';
+import { consumeClientRateLimit, formatRetryAfter, LOGIN_IP_LIMIT } from '../../../../../lib/rate-limit';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: z.string().min(1, 'Authentication code is required').max(32, 'Invalid authentication code'),
+});
+
+// ============================================================================
+// POST /api/auth/login/2fa - Exchange a login challenge and code for a session
+// ============================================================================
+
+export const POST = apiHandler(async (request) => {
+  const limit = await consumeClientRateLimit(LOGIN_IP_LIMIT, request);
+  if (!limit.allowed) {
+    throw new RateLimitError(
+      `Too many sign-in attempts. Please try again in ${formatRetryAfter(limit.retryAfterSeconds)}.`,
+      limit.retryAfterSeconds
+    );
+  }
+
+  const { challengeToken, code } = await parseJsonBody(request, twoFactorLoginSchema);
+
+  const result = await completeTwoFactorLogin(challengeToken, code);
+
+  if ('error' in result) {
+    if (result.error.retryAfterSeconds) {
+      throw new RateLimitError(result.error.message, result.error.retryAfterSeconds, { code: result.error.code });
+    }
+    throw new AuthenticationError(result.error.message, { code: result.error.code });
+  }
+
+  // Return success response
+  return NextResponse.json({
+    message: 'Login successful',
+    user: {
+      id: result.user.id,
+      email: result.user.email,
+      username: result.user.username,
+      firstName: result.user.firstName,
+      lastName: result.user.lastName,
+      avatarUrl: result.user.avatarUrl,
+      role: result.user.role,
+      subscriptionTier: result.user.subscriptionTier,
+      emailVerified: result.user.emailVerified,
+      measurementSystem: result.user.measurementSystem,
+    },
+  });
+});
@@ -1,6 +1,8 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { login } from '../../../../lib/auth';
+import { apiHandler, parseJsonBody, AuthenticationError, RateLimitError } from '../../../../lib/api';
+import { consumeClientRateLimit, formatRetryAfter, LOGIN_IP_LIMIT } from '../../../../lib/rate-limit';
 
 // ============================================================================
 // Validation Schema
@@ -15,54 +17,50 @@ const loginSchema = z.object({
 // POST /api/auth/login
 // ============================================================================
 
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    
-    // Validate request body
-    const validationResult = loginSchema.safeParse(body);
-    if (!validationResult.success) {
-      return NextResponse.json(
-        {
-          error: 'Validation failed',
-          details: validationResult.error.errors,
-        },
-        { status: 400 }
-      );
-    }
+export const POST = apiHandler(async (request) => {
+  const limit = await consumeClientRateLimit(LOGIN_IP_LIMIT, request);
+  if (!limit.allowed) {
+    throw new RateLimitError(
+      `Too many sign-in attempts. Please try again in ${formatRetryAfter(limit.retryAfterSeconds)}.`,
+      limit.retryAfterSeconds
+    );
+  }
 
-    const { email, password } = validationResult.data;
+  const { email, password } = await parseJsonBody(request, loginSchema);
 
-    // Attempt login
-    const result = await login(email, password);
+  // Attempt login
+  const result = await login(email, password);
 
-    if ('error' in result) {
-      return NextResponse.json(
-        { error: result.error.message },
-        { status: 401 }
-      );
+  if ('error' in result) {
+    if (result.error.retryAfterSeconds) {
+      throw new RateLimitError(result.error.message, result.error.retryAfterSeconds, { code: result.error.code });
     }
+    throw new AuthenticationError(result.error.message, { code: result.error.code });
+  }
 
-    // Return success response
+  // Password was right but the account needs a code too; see /api/auth/login/2fa
+  if ('twoFactorRequired' in result) {
     return NextResponse.json({
-      message: 'Login successful',
-      user: {
-        id: result.user.id,
-        email: result.user.email,
-        username: result.user.username,
-        firstName: result.user.firstName,
-        lastName: result.user.lastName,
-        avatarUrl: result.user.avatarUrl,
-        role: result.user.role,
-        subscriptionTier: result.user.subscriptionTier,
-        emailVerified: result.user.emailVerified,
-      },
+      message: 'Two-factor authentication required',
+      twoFactorRequired: true,
+      challengeToken: result.challengeToken,
     });
-  } catch (error) {
-    console.error('Login API error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
   }
-}
\ No newline at end of file
+
+  // Return success response
+  return NextResponse.json({
+    message: 'Login successful',
+    user: {
+      id: result.user.id,
+      email: result.user.email,
+      username: result.user.username,
+      firstName: result.user.firstName,
+      lastName: result.user.lastName,
+      avatarUrl: result.user.avatarUrl,
+      role: result.user.role,
+      subscriptionTier: result.user.subscriptionTier,
+      emailVerified: result.user.emailVerified,
+      measurementSystem: result.user.measurementSystem,
+    },
+  });
+});
\ No newline at end of file
@@ -1,23 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { logout } from '../../../../lib/auth';
+import { apiHandler } from '../../../../lib/api';
 
 // ============================================================================
 // POST /api/auth/logout
 // ============================================================================
 
-export async function POST(request: NextRequest) {
-  try {
-    // Clear the auth cookie
-    await logout();
+export const POST = apiHandler(async () => {
+  // Clear the auth cookie
+  await logout();
 
-    return NextResponse.json({
-      message: 'Logout successful',
-    });
-  } catch (error) {
-    console.error('Logout API error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+  return NextResponse.json({
+    message: 'Logout successful',
+  });
+});
\ No newline at end of file
@@ -1,39 +1,59 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getCurrentUser } from '../../../../lib/auth';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '../../../../lib/db';
+import { users } from '../../../../lib/db/schema';
+import { apiHandler, parseJsonBody } from '../../../../lib/api';
+import { eq } from 'drizzle-orm';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const updatePreferencesSchema = z.object({
+  measurementSystem: z.enum(['us', 'metric']).optional(),
+});
 
 // ============================================================================
 // GET /api/auth/me
 // ============================================================================
 
-export async function GET(request: NextRequest) {
-  try {
-    const user = await getCurrentUser();
-
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Not authenticated' },
-        { status: 401 }
-      );
-    }
-
-    return NextResponse.json({
-      user: {
-        id: user.id,
-        email: user.email,
-        username: user.username,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        avatarUrl: user.avatarUrl,
-        role: user.role,
-        subscriptionTier: user.subscriptionTier,
-        emailVerified: user.emailVerified,
-      },
-    });
-  } catch (error) {
-    console.error('Get current user API error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+export const GET = apiHandler({ auth: 'required', scope: 'profile:read' }, async (request, { user }) => {
+  return NextResponse.json({
+    user: {
+      id: user.id,
+      email: user.email,
+      username: user.username,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      avatarUrl: user.avatarUrl,
+      role: user.role,
+      subscriptionTier: user.subscriptionTier,
+      emailVerified: user.emailVerified,
+      measurementSystem: user.measurementSystem,
+    },
+  });
+});
+
+// ============================================================================
+// PUT /api/auth/me - Update current user preferences
+// ============================================================================
+
+export const PUT = apiHandler({ auth: 'required', scope: 'profile:write' }, async (request, { user: currentUser }) => {
+  const updates = await parseJsonBody(request, updatePreferencesSchema);
+
+  const [updatedUser] = await db
+    .update(users)
+    .set({
+      ...updates,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, currentUser.id))
+    .returning({ measurementSystem: users.measurementSystem });
+
+  return NextResponse.json({
+    message: 'Preferences updated successfully',
+    preferences: {
+      measurementSystem: updatedUser.measurementSystem,
+    },
+  });
+});
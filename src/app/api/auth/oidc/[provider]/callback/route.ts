@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getOidcProvider,
+  completeOidcCallback,
+  loginWithOidc,
+  OIDC_FLOW_COOKIE_NAME,
+} from '../../../../../../lib/auth';
+
+// ============================================================================
+// GET /api/auth/oidc/[provider]/callback - Finish signing in after the provider redirects back
+// ============================================================================
+
+// Not wrapped in apiHandler, for the same reason as the sign-in route: JSON errors would
+// strand the user on a bare error body, so each outcome is a redirect to a page instead.
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { provider: string } }
+) {
+  // The browser arrives from the provider, so every outcome is a redirect to a page
+  const redirectTo = (path: string) => {
+    const response = NextResponse.redirect(new URL(path, request.url));
+    response.cookies.set(OIDC_FLOW_COOKIE_NAME, '', { path: '/api/auth/oidc', maxAge: 0 });
+    return response;
+  };
+  const loginError = (error: string) => redirectTo(`/auth/login?error=${encodeURIComponent(error)}`);
+
+  try {
+    const provider = getOidcProvider(params.provider);
+    if (!provider) {
+      return loginError('unknown_provider');
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+
+    // The user declined, or the provider refused the request
+    if (searchParams.get('error')) {
+      return loginError(searchParams.get('error') === 'access_denied' ? 'access_denied' : 'provider_error');
+    }
+
+    const callback = await completeOidcCallback(
+      provider,
+      { code: searchParams.get('code'), state: searchParams.get('state') },
+      request.cookies.get(OIDC_FLOW_COOKIE_NAME)?.value
+    );
+
+    if ('error' in callback) {
+      return loginError(callback.error);
+    }
+
+    const result = await loginWithOidc(provider, callback.claims);
+
+    if ('error' in result) {
+      return loginError(result.error);
+    }
+
+    if ('twoFactorRequired' in result) {
+      const query = new URLSearchParams({ challenge: result.challengeToken, returnTo: callback.returnTo });
+      return redirectTo(`/auth/login?${query.toString()}`);
+    }
+
+    return redirectTo(callback.returnTo);
+  } catch (error) {
+    console.error('OIDC callback API error:', error);
+    return loginError('provider_error');
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getOidcProvider,
+  beginOidcLogin,
+  OIDC_FLOW_COOKIE_NAME,
+  OIDC_FLOW_TTL_SECONDS,
+} from '../../../../../lib/auth';
+
+// ============================================================================
+// GET /api/auth/oidc/[provider] - Send the browser to the provider to sign in
+// ============================================================================
+
+// Not wrapped in apiHandler: this is a browser navigation, so failures redirect to the
+// login page with an error rather than answering with a JSON error body.
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { provider: string } }
+) {
+  try {
+    const provider = getOidcProvider(params.provider);
+    if (!provider) {
+      return NextResponse.redirect(new URL('/auth/login?error=unknown_provider', request.url));
+    }
+
+    const { authorizationUrl, flowState } = await beginOidcLogin(
+      provider,
+      request.nextUrl.searchParams.get('returnTo')
+    );
+
+    const response = NextResponse.redirect(authorizationUrl);
+    response.cookies.set(OIDC_FLOW_COOKIE_NAME, flowState, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax', // Sent on the provider's top-level redirect back to the callback
+      maxAge: OIDC_FLOW_TTL_SECONDS,
+      path: '/api/auth/oidc',
+    });
+
+    return response;
+  } catch (error) {
+    console.error('OIDC login API error:', error);
+    return NextResponse.redirect(new URL('/auth/login?error=provider_error', request.url));
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { getOidcProviders } from '../../../../lib/auth';
+import { apiHandler } from '../../../../lib/api';
+
+// ============================================================================
+// GET /api/auth/oidc - List the identity providers users can sign in with
+// ============================================================================
+
+export const GET = apiHandler(async () => {
+  const providers = getOidcProviders().map(provider => ({
+    id: provider.id,
+    name: provider.name,
+  }));
+
+  return NextResponse.json({ providers });
+});
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { refreshSession, removeAuthCookie } from '../../../../lib/auth';
+import { apiHandler, AuthenticationError } from '../../../../lib/api';
+
+// ============================================================================
+// POST /api/auth/refresh - Rotate the refresh cookie and issue a new access token
+// ============================================================================
+
+export const POST = apiHandler(async () => {
+  const result = await refreshSession();
+
+  if ('error' in result) {
+    // Drop cookies that can never work again so clients stop retrying
+    await removeAuthCookie();
+    throw new AuthenticationError(result.error.message, { code: result.error.code });
+  }
+
+  return NextResponse.json({
+    message: 'Session refreshed',
+  });
+});
@@ -1,6 +1,8 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { register } from '../../../../lib/auth';
+import { apiHandler, parseJsonBody, BadRequestError, ConflictError, RateLimitError } from '../../../../lib/api';
+import { consumeClientRateLimit, formatRetryAfter, REGISTER_IP_LIMIT } from '../../../../lib/rate-limit';
 
 // ============================================================================
 // Validation Schema
@@ -25,64 +27,50 @@ const registerSchema = z.object({
 // POST /api/auth/register
 // ============================================================================
 
-export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    
-    // Validate request body
-    const validationResult = registerSchema.safeParse(body);
-    if (!validationResult.success) {
-      return NextResponse.json(
-        {
-          error: 'Validation failed',
-          details: validationResult.error.errors,
-        },
-        { status: 400 }
-      );
-    }
+export const POST = apiHandler(async (request) => {
+  const limit = await consumeClientRateLimit(REGISTER_IP_LIMIT, request);
+  if (!limit.allowed) {
+    throw new RateLimitError(
+      `Too many accounts created from this network. Please try again in ${formatRetryAfter(limit.retryAfterSeconds)}.`,
+      limit.retryAfterSeconds
+    );
+  }
 
-    const { email, username, password, firstName, lastName } = validationResult.data;
+  const { email, username, password, firstName, lastName } = await parseJsonBody(request, registerSchema);
 
-    // Attempt registration
-    const result = await register({
-      email,
-      username,
-      password,
-      firstName,
-      lastName,
-    });
+  // Attempt registration
+  const result = await register({
+    email,
+    username,
+    password,
+    firstName,
+    lastName,
+  });
 
-    if ('error' in result) {
-      const statusCode = result.error.code === 'EMAIL_TAKEN' || result.error.code === 'USERNAME_TAKEN' ? 409 : 400;
-      return NextResponse.json(
-        { error: result.error.message },
-        { status: statusCode }
-      );
+  if ('error' in result) {
+    if (result.error.code === 'EMAIL_TAKEN' || result.error.code === 'USERNAME_TAKEN') {
+      throw new ConflictError(result.error.message, { code: result.error.code });
     }
+    throw new BadRequestError(result.error.message, { code: result.error.code });
+  }
 
-    // Return success response
-    return NextResponse.json(
-      {
-        message: 'Registration successful',
-        user: {
-          id: result.user.id,
-          email: result.user.email,
-          username: result.user.username,
-          firstName: result.user.firstName,
-          lastName: result.user.lastName,
-          avatarUrl: result.user.avatarUrl,
-          role: result.user.role,
-          subscriptionTier: result.user.subscriptionTier,
-          emailVerified: result.user.emailVerified,
-        },
+  // Return success response
+  return NextResponse.json(
+    {
+      message: 'Registration successful',
+      user: {
+        id: result.user.id,
+        email: result.user.email,
+        username: result.user.username,
+        firstName: result.user.firstName,
+        lastName: result.user.lastName,
+        avatarUrl: result.user.avatarUrl,
+        role: result.user.role,
+        subscriptionTier: result.user.subscriptionTier,
+        emailVerified: result.user.emailVerified,
+        measurementSystem: result.user.measurementSystem,
       },
-      { status: 201 }
-    );
-  } catch (error) {
-    console.error('Registration API error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+    },
+    { status: 201 }
+  );
+});
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { resetPassword, removeAuthCookie } from '../../../../lib/auth';
+import { apiHandler, parseJsonBody, BadRequestError } from '../../../../lib/api';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: z
+    .string()
+    .min(8, 'Password must be at least 8 characters')
+    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/, 'Password must contain at least one lowercase letter, one uppercase letter, and one number'),
+});
+
+// ============================================================================
+// POST /api/auth/reset-password
+// ============================================================================
+
+export const POST = apiHandler(async (request) => {
+  const { token, password } = await parseJsonBody(request, resetPasswordSchema);
+
+  const result = await resetPassword(token, password);
+
+  if ('error' in result) {
+    throw new BadRequestError(result.error.message, { code: result.error.code });
+  }
+
+  // Every existing session is now invalid, including any in this browser
+  await removeAuthCookie();
+
+  return NextResponse.json({
+    message: 'Your password has been reset. Please sign in with your new password.',
+  });
+});
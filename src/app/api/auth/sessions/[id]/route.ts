@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { revokeSession, removeAuthCookie } from '../../../../../lib/auth';
+import { apiHandler, NotFoundError } from '../../../../../lib/api';
+
+// ============================================================================
+// DELETE /api/auth/sessions/[id] - Sign one device out
+// ============================================================================
+
+export const DELETE = apiHandler<{ id: string }>({ auth: 'required' }, async (request, { params, user: currentUser }) => {
+  const revoked = await revokeSession(currentUser.id, params.id);
+  if (!revoked) {
+    throw new NotFoundError('Session not found');
+  }
+
+  // Revoking this device's own session is the same as logging out
+  if (params.id === currentUser.sessionId) {
+    await removeAuthCookie();
+  }
+
+  return NextResponse.json({ message: 'Session revoked' });
+});
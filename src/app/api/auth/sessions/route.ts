@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { listSessions, revokeAllSessions, removeAuthCookie } from '../../../../lib/auth';
+import { apiHandler } from '../../../../lib/api';
+
+// ============================================================================
+// GET /api/auth/sessions - Devices the user is signed in on
+// ============================================================================
+
+export const GET = apiHandler({ auth: 'required' }, async (request, { user: currentUser }) => {
+  const sessions = await listSessions(currentUser.id, currentUser.sessionId);
+
+  return NextResponse.json({ sessions });
+});
+
+// ============================================================================
+// DELETE /api/auth/sessions - Sign out everywhere (?except=current keeps this device)
+// ============================================================================
+
+export const DELETE = apiHandler({ auth: 'required' }, async (request, { user: currentUser }) => {
+  const keepCurrent = request.nextUrl.searchParams.get('except') === 'current';
+  const revokedCount = await revokeAllSessions(
+    currentUser.id,
+    'revoked',
+    keepCurrent ? currentUser.sessionId : undefined
+  );
+
+  if (!keepCurrent) {
+    await removeAuthCookie();
+  }
+
+  return NextResponse.json({
+    message: keepCurrent ? 'Signed out of all other devices' : 'Signed out of all devices',
+    revokedCount,
+  });
+});
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { revokeAccessToken } from '../../../../../lib/auth';
+import { apiHandler, NotFoundError } from '../../../../../lib/api';
+
+// ============================================================================
+// DELETE /api/auth/tokens/[id] - Revoke a personal access token
+// ============================================================================
+
+export const DELETE = apiHandler<{ id: string }>({ auth: 'required' }, async (request, { params, user: currentUser }) => {
+  const revoked = await revokeAccessToken(currentUser.id, params.id);
+  if (!revoked) {
+    throw new NotFoundError('Token not found');
+  }
+
+  return NextResponse.json({ message: 'Token revoked' });
+});
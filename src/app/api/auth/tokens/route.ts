@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAccessToken, listAccessTokens, TOKEN_SCOPES } from '../../../../lib/auth';
+import { apiHandler, parseJsonBody } from '../../../../lib/api';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const createTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Token name is required').max(100, 'Token name is too long'),
+  scopes: z.array(z.enum(TOKEN_SCOPES)).min(1, 'Choose at least one scope'),
+  expiresInDays: z.number().int().min(1).max(365).optional(), // Omit for a token that never expires
+});
+
+// ============================================================================
+// GET /api/auth/tokens - List the user's personal access tokens
+// ============================================================================
+
+export const GET = apiHandler({ auth: 'required' }, async (request, { user: currentUser }) => {
+  const tokens = await listAccessTokens(currentUser.id);
+
+  return NextResponse.json({
+    tokens,
+    availableScopes: TOKEN_SCOPES,
+  });
+});
+
+// ============================================================================
+// POST /api/auth/tokens - Create a personal access token
+// ============================================================================
+
+// No scope, so only a signed-in session gets through: one token can't mint another
+export const POST = apiHandler({ auth: 'required' }, async (request, { user: currentUser }) => {
+  const { name, scopes, expiresInDays } = await parseJsonBody(request, createTokenSchema);
+
+  const { token, accessToken } = await createAccessToken(currentUser.id, {
+    name,
+    scopes,
+    expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+  });
+
+  return NextResponse.json(
+    {
+      message: 'Copy this token now; it won\'t be shown again',
+      token,
+      accessToken,
+    },
+    { status: 201 }
+  );
+});
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { resendVerificationEmail } from '../../../../../lib/auth';
+import { apiHandler, ConflictError, NotFoundError, RateLimitError } from '../../../../../lib/api';
+
+// ============================================================================
+// POST /api/auth/verify-email/resend
+// ============================================================================
+
+export const POST = apiHandler({ auth: 'required' }, async (request, { user: currentUser }) => {
+  const result = await resendVerificationEmail(currentUser.id);
+
+  if ('error' in result) {
+    if (result.error.retryAfterSeconds) {
+      throw new RateLimitError(result.error.message, result.error.retryAfterSeconds);
+    }
+    if (result.error.code === 'USER_NOT_FOUND') {
+      throw new NotFoundError(result.error.message, { code: result.error.code });
+    }
+    throw new ConflictError(result.error.message, { code: result.error.code });
+  }
+
+  return NextResponse.json({
+    message: `We've sent a new verification link to ${currentUser.email}.`,
+  });
+});
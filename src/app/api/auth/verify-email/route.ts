@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { verifyEmail } from '../../../../lib/auth';
+import { apiHandler } from '../../../../lib/api';
+
+// ============================================================================
+// GET /api/auth/verify-email - Consume the link from a verification email
+// ============================================================================
+
+export const GET = apiHandler(async (request) => {
+  // People arrive here from their inbox, so send them to a page rather than raw JSON
+  const resultUrl = (status: 'verified' | 'expired' | 'invalid') =>
+    new URL(`/auth/verify-email?status=${status}`, request.url);
+
+  const token = request.nextUrl.searchParams.get('token');
+  if (!token) {
+    return NextResponse.redirect(resultUrl('invalid'));
+  }
+
+  const result = await verifyEmail(token);
+
+  if ('error' in result) {
+    return NextResponse.redirect(resultUrl(result.error.code === 'TOKEN_EXPIRED' ? 'expired' : 'invalid'));
+  }
+
+  return NextResponse.redirect(resultUrl('verified'));
+});
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { db } from '../../../../../../lib/db';
+import { recipeCollectionItems } from '../../../../../../lib/db/schema';
+import { apiHandler, ForbiddenError, NotFoundError } from '../../../../../../lib/api';
+import { getCollectionAccess } from '../../../../../../lib/collections';
+import { eq, and } from 'drizzle-orm';
+
+// ============================================================================
+// DELETE /api/collections/[id]/recipes/[recipeId] - Remove recipe from collection
+// ============================================================================
+
+export const DELETE = apiHandler<{ id: string; recipeId: string }>({ auth: 'required', scope: 'collections:write' }, async (request, { params, user: currentUser }) => {
+  const { id, recipeId } = params;
+
+  const access = await getCollectionAccess(id, currentUser.id);
+  if (!access) {
+    throw new NotFoundError('Collection not found');
+  }
+
+  if (!access.canEditItems) {
+    throw new ForbiddenError('Access denied to this collection');
+  }
+
+  const [deletedItem] = await db
+    .delete(recipeCollectionItems)
+    .where(and(eq(recipeCollectionItems.collectionId, id), eq(recipeCollectionItems.recipeId, recipeId)))
+    .returning({ id: recipeCollectionItems.id });
+
+  if (!deletedItem) {
+    throw new NotFoundError('Recipe is not in this collection');
+  }
+
+  return NextResponse.json({
+    message: 'Recipe removed from collection',
+  });
+});
@@ -0,0 +1,113 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '../../../../../lib/db';
+import { recipeCollections, recipeCollectionItems } from '../../../../../lib/db/schema';
+import { apiHandler, parseJsonBody, ConflictError, ForbiddenError, NotFoundError } from '../../../../../lib/api';
+import {
+  getCollectionAccess,
+  getNextItemPosition,
+  getRecipeSnapshot,
+  reorderCollectionItems,
+} from '../../../../../lib/collections';
+import { eq, and } from 'drizzle-orm';
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const addRecipeSchema = z.object({
+  recipeId: z.string().min(1, 'Recipe ID is required'), // Local id or external "<provider>:<id>"
+});
+
+const reorderRecipesSchema = z.object({
+  recipeIds: z.array(z.string().min(1)).max(500),
+});
+
+// ============================================================================
+// POST /api/collections/[id]/recipes - Add recipe to collection
+// ============================================================================
+
+export const POST = apiHandler<{ id: string }>({ auth: 'required', scope: 'collections:write' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
+
+  const { recipeId } = await parseJsonBody(request, addRecipeSchema);
+
+  const access = await getCollectionAccess(id, currentUser.id);
+  if (!access) {
+    throw new NotFoundError('Collection not found');
+  }
+
+  if (!access.canEditItems) {
+    throw new ForbiddenError('Access denied to this collection');
+  }
+
+  const [existingItem] = await db
+    .select({ id: recipeCollectionItems.id })
+    .from(recipeCollectionItems)
+    .where(and(eq(recipeCollectionItems.collectionId, id), eq(recipeCollectionItems.recipeId, recipeId)))
+    .limit(1);
+
+  if (existingItem) {
+    throw new ConflictError('Recipe is already in this collection');
+  }
+
+  const snapshot = await getRecipeSnapshot(recipeId, currentUser.id);
+  if (!snapshot) {
+    throw new NotFoundError('Recipe not found');
+  }
+
+  const [newItem] = await db
+    .insert(recipeCollectionItems)
+    .values({
+      collectionId: id,
+      recipeId,
+      position: await getNextItemPosition(id),
+      title: snapshot.title,
+      imageUrl: snapshot.imageUrl,
+      addedBy: currentUser.id,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  await db
+    .update(recipeCollections)
+    .set({ updatedAt: new Date() })
+    .where(eq(recipeCollections.id, id));
+
+  return NextResponse.json(
+    {
+      message: 'Recipe added to collection',
+      item: newItem,
+    },
+    { status: 201 }
+  );
+});
+
+// ============================================================================
+// PUT /api/collections/[id]/recipes - Reorder recipes in collection
+// ============================================================================
+
+export const PUT = apiHandler<{ id: string }>({ auth: 'required', scope: 'collections:write' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
+
+  const { recipeIds } = await parseJsonBody(request, reorderRecipesSchema);
+
+  const access = await getCollectionAccess(id, currentUser.id);
+  if (!access) {
+    throw new NotFoundError('Collection not found');
+  }
+
+  if (!access.canEditItems) {
+    throw new ForbiddenError('Access denied to this collection');
+  }
+
+  const reordered = await reorderCollectionItems(id, recipeIds);
+  if (!reordered) {
+    throw new ConflictError('Recipe order must list every recipe in the collection exactly once');
+  }
+
+  return NextResponse.json({
+    message: 'Collection order updated',
+    recipeIds,
+  });
+});
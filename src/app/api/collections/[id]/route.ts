@@ -0,0 +1,153 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '../../../../lib/db';
+import { recipeCollections, recipeCollectionItems, recipes, familyGroupMembers } from '../../../../lib/db/schema';
+import { apiHandler, parseJsonBody, ForbiddenError, NotFoundError } from '../../../../lib/api';
+import { getCollectionAccess } from '../../../../lib/collections';
+import { isExternalRecipeId, parseExternalRecipeId } from '../../../../lib/recipe-providers';
+import { eq, and, asc } from 'drizzle-orm';
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const updateCollectionSchema = z.object({
+  name: z.string().min(1, 'Collection name is required').max(100, 'Name is too long').optional(),
+  description: z.string().max(500, 'Description is too long').nullable().optional(),
+  familyGroupId: z.string().min(1).nullable().optional(), // null stops sharing with the family
+  isPublic: z.boolean().optional(),
+});
+
+// ============================================================================
+// GET /api/collections/[id] - Get collection with its recipes
+// ============================================================================
+
+export const GET = apiHandler<{ id: string }>({ auth: 'required', scope: 'collections:read' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
+
+  const access = await getCollectionAccess(id, currentUser.id);
+  if (!access) {
+    throw new NotFoundError('Collection not found');
+  }
+
+  // Local recipes are read live; Spoonacular ones from the snapshot taken when added
+  const items = await db
+    .select({
+      recipeId: recipeCollectionItems.recipeId,
+      position: recipeCollectionItems.position,
+      title: recipeCollectionItems.title,
+      imageUrl: recipeCollectionItems.imageUrl,
+      addedBy: recipeCollectionItems.addedBy,
+      addedAt: recipeCollectionItems.addedAt,
+      localTitle: recipes.title,
+      localImageUrl: recipes.imageUrl,
+      readyInMinutes: recipes.readyInMinutes,
+      servings: recipes.servings,
+    })
+    .from(recipeCollectionItems)
+    .leftJoin(recipes, eq(recipeCollectionItems.recipeId, recipes.id))
+    .where(eq(recipeCollectionItems.collectionId, id))
+    .orderBy(asc(recipeCollectionItems.position), asc(recipeCollectionItems.addedAt));
+
+  return NextResponse.json({
+    collection: {
+      ...access.collection,
+      isOwner: access.isOwner,
+      canEditItems: access.canEditItems,
+      recipes: items
+        // Local recipes deleted since they were collected drop out
+        .filter(item => isExternalRecipeId(item.recipeId) || item.localTitle !== null)
+        .map(item => ({
+          id: item.recipeId,
+          title: item.localTitle ?? item.title ?? 'Untitled recipe',
+          imageUrl: item.localImageUrl ?? item.imageUrl ?? '',
+          readyInMinutes: item.readyInMinutes,
+          servings: item.servings,
+          sourceType: parseExternalRecipeId(item.recipeId)?.provider ?? 'user',
+          position: item.position,
+          addedBy: item.addedBy,
+          addedAt: item.addedAt,
+        })),
+    },
+  });
+});
+
+// ============================================================================
+// PUT /api/collections/[id] - Update collection
+// ============================================================================
+
+export const PUT = apiHandler<{ id: string }>({ auth: 'required', scope: 'collections:write' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
+
+  const updateData = await parseJsonBody(request, updateCollectionSchema);
+
+  const access = await getCollectionAccess(id, currentUser.id);
+  if (!access) {
+    throw new NotFoundError('Collection not found');
+  }
+
+  if (!access.isOwner) {
+    throw new ForbiddenError('Only the collection owner can update it');
+  }
+
+  if (updateData.familyGroupId) {
+    // Check if user is a member of the family group
+    const [membership] = await db
+      .select({ role: familyGroupMembers.role })
+      .from(familyGroupMembers)
+      .where(
+        and(
+          eq(familyGroupMembers.familyGroupId, updateData.familyGroupId),
+          eq(familyGroupMembers.userId, currentUser.id)
+        )
+      )
+      .limit(1);
+
+    if (!membership) {
+      throw new ForbiddenError('Access denied to family group');
+    }
+  }
+
+  const [updatedCollection] = await db
+    .update(recipeCollections)
+    .set({
+      ...(updateData.name && { name: updateData.name.trim() }),
+      ...(updateData.description !== undefined && { description: updateData.description?.trim() || null }),
+      ...(updateData.familyGroupId !== undefined && { familyGroupId: updateData.familyGroupId }),
+      ...(updateData.isPublic !== undefined && { isPublic: updateData.isPublic }),
+      updatedAt: new Date(),
+    })
+    .where(eq(recipeCollections.id, id))
+    .returning();
+
+  return NextResponse.json({
+    message: 'Collection updated successfully',
+    collection: updatedCollection,
+  });
+});
+
+// ============================================================================
+// DELETE /api/collections/[id] - Delete collection
+// ============================================================================
+
+export const DELETE = apiHandler<{ id: string }>({ auth: 'required', scope: 'collections:write' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
+
+  const access = await getCollectionAccess(id, currentUser.id);
+  if (!access) {
+    throw new NotFoundError('Collection not found');
+  }
+
+  if (!access.isOwner) {
+    throw new ForbiddenError('Only the collection owner can delete it');
+  }
+
+  // Items are removed by the cascade
+  await db
+    .delete(recipeCollections)
+    .where(eq(recipeCollections.id, id));
+
+  return NextResponse.json({
+    message: 'Collection deleted successfully',
+  });
+});
@@ -0,0 +1,176 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '../../../lib/db';
+import { recipeCollections, recipeCollectionItems, familyGroups, familyGroupMembers, users } from '../../../lib/db/schema';
+import { apiHandler, parseJsonBody, ForbiddenError } from '../../../lib/api';
+import { eq, and, or, desc, inArray, count } from 'drizzle-orm';
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const createCollectionSchema = z.object({
+  name: z.string().min(1, 'Collection name is required').max(100, 'Name is too long'),
+  description: z.string().max(500, 'Description is too long').optional(),
+  familyGroupId: z.string().min(1).nullable().optional(), // Share with everyone in the family group
+  isPublic: z.boolean().default(false),
+});
+
+const scopeSchema = z.enum(['mine', 'family', 'public']).optional();
+
+// ============================================================================
+// GET /api/collections - Get collections
+// ============================================================================
+
+export const GET = apiHandler({ auth: 'required', scope: 'collections:read' }, async (request, { user: currentUser }) => {
+  const { searchParams } = new URL(request.url);
+  const scope = scopeSchema.parse(searchParams.get('scope') || undefined);
+  const recipeId = searchParams.get('recipe_id'); // Flags the collections that already hold this recipe
+  const limit = parseInt(searchParams.get('limit') || '50');
+  const offset = parseInt(searchParams.get('offset') || '0');
+
+  const memberships = await db
+    .select({ familyGroupId: familyGroupMembers.familyGroupId })
+    .from(familyGroupMembers)
+    .where(eq(familyGroupMembers.userId, currentUser.id));
+  const familyGroupIds = memberships.map(membership => membership.familyGroupId);
+
+  const ownCondition = eq(recipeCollections.userId, currentUser.id);
+  const familyCondition = familyGroupIds.length > 0
+    ? inArray(recipeCollections.familyGroupId, familyGroupIds)
+    : undefined;
+
+  // Without a scope, list everything the user can add recipes to
+  const whereCondition =
+    scope === 'mine' ? ownCondition
+    : scope === 'family' ? familyCondition
+    : scope === 'public' ? eq(recipeCollections.isPublic, true)
+    : or(ownCondition, familyCondition);
+
+  if (!whereCondition) {
+    return NextResponse.json({
+      collections: [],
+      pagination: { limit, offset, hasMore: false },
+    });
+  }
+
+  const collections = await db
+    .select({
+      id: recipeCollections.id,
+      name: recipeCollections.name,
+      description: recipeCollections.description,
+      isPublic: recipeCollections.isPublic,
+      familyGroupId: recipeCollections.familyGroupId,
+      userId: recipeCollections.userId,
+      createdAt: recipeCollections.createdAt,
+      updatedAt: recipeCollections.updatedAt,
+      familyGroupName: familyGroups.name,
+      ownerUsername: users.username,
+    })
+    .from(recipeCollections)
+    .innerJoin(users, eq(recipeCollections.userId, users.id))
+    .leftJoin(familyGroups, eq(recipeCollections.familyGroupId, familyGroups.id))
+    .where(whereCondition)
+    .orderBy(desc(recipeCollections.updatedAt))
+    .limit(limit)
+    .offset(offset);
+
+  const collectionIds = collections.map(collection => collection.id);
+  const itemCounts = new Map<string, number>();
+  const containingIds = new Set<string>();
+
+  if (collectionIds.length > 0) {
+    const counts = await db
+      .select({ collectionId: recipeCollectionItems.collectionId, itemCount: count() })
+      .from(recipeCollectionItems)
+      .where(inArray(recipeCollectionItems.collectionId, collectionIds))
+      .groupBy(recipeCollectionItems.collectionId);
+    counts.forEach(row => itemCounts.set(row.collectionId, row.itemCount));
+
+    if (recipeId) {
+      const containing = await db
+        .select({ collectionId: recipeCollectionItems.collectionId })
+        .from(recipeCollectionItems)
+        .where(
+          and(
+            inArray(recipeCollectionItems.collectionId, collectionIds),
+            eq(recipeCollectionItems.recipeId, recipeId)
+          )
+        );
+      containing.forEach(row => containingIds.add(row.collectionId));
+    }
+  }
+
+  return NextResponse.json({
+    collections: collections.map(collection => ({
+      id: collection.id,
+      name: collection.name,
+      description: collection.description,
+      isPublic: collection.isPublic,
+      familyGroup: collection.familyGroupId
+        ? { id: collection.familyGroupId, name: collection.familyGroupName }
+        : null,
+      owner: {
+        id: collection.userId,
+        username: collection.ownerUsername,
+      },
+      itemCount: itemCounts.get(collection.id) || 0,
+      isOwner: collection.userId === currentUser.id,
+      canEditItems: collection.userId === currentUser.id
+        || (!!collection.familyGroupId && familyGroupIds.includes(collection.familyGroupId)),
+      ...(recipeId && { containsRecipe: containingIds.has(collection.id) }),
+      createdAt: collection.createdAt,
+      updatedAt: collection.updatedAt,
+    })),
+    pagination: {
+      limit,
+      offset,
+      hasMore: collections.length === limit,
+    },
+  });
+});
+
+// ============================================================================
+// POST /api/collections - Create collection
+// ============================================================================
+
+export const POST = apiHandler({ auth: 'required', scope: 'collections:write' }, async (request, { user: currentUser }) => {
+  const { name, description, familyGroupId, isPublic } = await parseJsonBody(request, createCollectionSchema);
+
+  if (familyGroupId) {
+    // Check if user is a member of the family group
+    const [membership] = await db
+      .select({ role: familyGroupMembers.role })
+      .from(familyGroupMembers)
+      .where(
+        and(
+          eq(familyGroupMembers.familyGroupId, familyGroupId),
+          eq(familyGroupMembers.userId, currentUser.id)
+        )
+      )
+      .limit(1);
+
+    if (!membership) {
+      throw new ForbiddenError('Access denied to family group');
+    }
+  }
+
+  const [newCollection] = await db
+    .insert(recipeCollections)
+    .values({
+      userId: currentUser.id,
+      familyGroupId: familyGroupId || null,
+      name: name.trim(),
+      description: description?.trim() || null,
+      isPublic,
+    })
+    .returning();
+
+  return NextResponse.json(
+    {
+      message: 'Collection created successfully',
+      collection: newCollection,
+    },
+    { status: 201 }
+  );
+});
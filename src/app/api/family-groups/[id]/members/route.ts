@@ -1,8 +1,8 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { db } from '../../../../../lib/db';
 import { familyGroups, familyGroupMembers, users } from '../../../../../lib/db/schema';
-import { requireAuth, verifyBearerToken } from '../../../../../lib/auth';
+import { apiHandler, parseJsonBody, ForbiddenError, NotFoundError } from '../../../../../lib/api';
 import { eq, and, ne } from 'drizzle-orm';
 
 // ============================================================================
@@ -23,343 +23,236 @@ const removeMemberSchema = z.object({
 // GET /api/family-groups/[id]/members - Get family group members
 // ============================================================================
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const { id } = params;
-    
-    // Get current user
-    const authHeader = request.headers.get('authorization');
-    const currentUser = authHeader ? await verifyBearerToken(authHeader) : null;
-    
-    if (!currentUser) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
-    }
-
-    // Check if user is a member of this family group
-    const [membership] = await db
-      .select({ role: familyGroupMembers.role })
-      .from(familyGroupMembers)
-      .where(
-        and(
-          eq(familyGroupMembers.familyGroupId, id),
-          eq(familyGroupMembers.userId, currentUser.id)
-        )
+export const GET = apiHandler<{ id: string }>({ auth: 'required', scope: 'family:read' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
+
+  // Check if user is a member of this family group
+  const [membership] = await db
+    .select({ role: familyGroupMembers.role })
+    .from(familyGroupMembers)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, id),
+        eq(familyGroupMembers.userId, currentUser.id)
       )
-      .limit(1);
+    )
+    .limit(1);
 
-    if (!membership) {
-      return NextResponse.json(
-        { error: 'Family group not found' },
-        { status: 404 }
-      );
-    }
-
-    // Get all members with user details
-    const members = await db
-      .select({
-        id: familyGroupMembers.id,
-        userId: familyGroupMembers.userId,
-        role: familyGroupMembers.role,
-        nickname: familyGroupMembers.nickname,
-        joinedAt: familyGroupMembers.joinedAt,
-        invitedBy: familyGroupMembers.invitedBy,
-        // User details
-        username: users.username,
-        firstName: users.firstName,
-        lastName: users.lastName,
-        avatarUrl: users.avatarUrl,
-        emailVerified: users.emailVerified,
-      })
-      .from(familyGroupMembers)
-      .leftJoin(users, eq(familyGroupMembers.userId, users.id))
-      .where(eq(familyGroupMembers.familyGroupId, id))
-      .orderBy(familyGroupMembers.joinedAt);
-
-    return NextResponse.json({
-      members: members.map(member => ({
-        id: member.id,
-        userId: member.userId,
-        role: member.role,
-        nickname: member.nickname,
-        joinedAt: member.joinedAt,
-        invitedBy: member.invitedBy,
-        user: {
-          username: member.username,
-          firstName: member.firstName,
-          lastName: member.lastName,
-          avatarUrl: member.avatarUrl,
-          emailVerified: member.emailVerified,
-        },
-        isCurrentUser: member.userId === currentUser.id,
-        canManage: membership.role === 'admin' && member.userId !== currentUser.id,
-      })),
-      currentUserRole: membership.role,
-    });
-  } catch (error) {
-    console.error('Get family group members error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+  if (!membership) {
+    throw new NotFoundError('Family group not found');
   }
-}
+
+  // Get all members with user details
+  const members = await db
+    .select({
+      id: familyGroupMembers.id,
+      userId: familyGroupMembers.userId,
+      role: familyGroupMembers.role,
+      nickname: familyGroupMembers.nickname,
+      joinedAt: familyGroupMembers.joinedAt,
+      invitedBy: familyGroupMembers.invitedBy,
+      // User details
+      username: users.username,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      avatarUrl: users.avatarUrl,
+      emailVerified: users.emailVerified,
+    })
+    .from(familyGroupMembers)
+    .leftJoin(users, eq(familyGroupMembers.userId, users.id))
+    .where(eq(familyGroupMembers.familyGroupId, id))
+    .orderBy(familyGroupMembers.joinedAt);
+
+  return NextResponse.json({
+    members: members.map(member => ({
+      id: member.id,
+      userId: member.userId,
+      role: member.role,
+      nickname: member.nickname,
+      joinedAt: member.joinedAt,
+      invitedBy: member.invitedBy,
+      user: {
+        username: member.username,
+        firstName: member.firstName,
+        lastName: member.lastName,
+        avatarUrl: member.avatarUrl,
+        emailVerified: member.emailVerified,
+      },
+      isCurrentUser: member.userId === currentUser.id,
+      canManage: membership.role === 'admin' && member.userId !== currentUser.id,
+    })),
+    currentUserRole: membership.role,
+  });
+});
 
 // ============================================================================
 // PUT /api/family-groups/[id]/members - Update member
 // ============================================================================
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const { id } = params;
-    const currentUser = await requireAuth();
-
-    const body = await request.json();
-    
-    // Validate request body
-    const validationResult = updateMemberSchema.safeParse(body);
-    if (!validationResult.success) {
-      return NextResponse.json(
-        {
-          error: 'Validation failed',
-          details: validationResult.error.errors,
-        },
-        { status: 400 }
-      );
-    }
+export const PUT = apiHandler<{ id: string }>({ auth: 'required', scope: 'family:write' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
 
-    const { userId, role, nickname } = validationResult.data;
-
-    // Check if current user is an admin of this family group
-    const [currentUserMembership] = await db
-      .select({ role: familyGroupMembers.role })
-      .from(familyGroupMembers)
-      .where(
-        and(
-          eq(familyGroupMembers.familyGroupId, id),
-          eq(familyGroupMembers.userId, currentUser.id)
-        )
+  const { userId, role, nickname } = await parseJsonBody(request, updateMemberSchema);
+
+  // Check if current user is an admin of this family group
+  const [currentUserMembership] = await db
+    .select({ role: familyGroupMembers.role })
+    .from(familyGroupMembers)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, id),
+        eq(familyGroupMembers.userId, currentUser.id)
       )
-      .limit(1);
+    )
+    .limit(1);
 
-    if (!currentUserMembership) {
-      return NextResponse.json(
-        { error: 'Family group not found' },
-        { status: 404 }
-      );
-    }
+  if (!currentUserMembership) {
+    throw new NotFoundError('Family group not found');
+  }
 
-    // Check if target member exists
-    const [targetMembership] = await db
-      .select({ id: familyGroupMembers.id, role: familyGroupMembers.role })
-      .from(familyGroupMembers)
-      .where(
-        and(
-          eq(familyGroupMembers.familyGroupId, id),
-          eq(familyGroupMembers.userId, userId)
-        )
+  // Check if target member exists
+  const [targetMembership] = await db
+    .select({ id: familyGroupMembers.id, role: familyGroupMembers.role })
+    .from(familyGroupMembers)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, id),
+        eq(familyGroupMembers.userId, userId)
       )
-      .limit(1);
-
-    if (!targetMembership) {
-      return NextResponse.json(
-        { error: 'Member not found' },
-        { status: 404 }
-      );
-    }
+    )
+    .limit(1);
 
-    // Permission checks
-    if (userId === currentUser.id) {
-      // Users can only update their own nickname
-      if (role !== undefined) {
-        return NextResponse.json(
-          { error: 'You cannot change your own role' },
-          { status: 403 }
-        );
-      }
-    } else {
-      // Only admins can update other members
-      if (currentUserMembership.role !== 'admin') {
-        return NextResponse.json(
-          { error: 'Only admins can update other members' },
-          { status: 403 }
-        );
-      }
-    }
+  if (!targetMembership) {
+    throw new NotFoundError('Member not found');
+  }
 
-    // Build update object
-    const updates: any = {};
-    
+  // Permission checks
+  if (userId === currentUser.id) {
+    // Users can only update their own nickname
     if (role !== undefined) {
-      updates.role = role;
+      throw new ForbiddenError('You cannot change your own role');
     }
-    
-    if (nickname !== undefined) {
-      updates.nickname = nickname?.trim() || null;
+  } else {
+    // Only admins can update other members
+    if (currentUserMembership.role !== 'admin') {
+      throw new ForbiddenError('Only admins can update other members');
     }
+  }
 
-    // Update member
-    const [updatedMember] = await db
-      .update(familyGroupMembers)
-      .set(updates)
-      .where(
-        and(
-          eq(familyGroupMembers.familyGroupId, id),
-          eq(familyGroupMembers.userId, userId)
-        )
-      )
-      .returning();
-
-    return NextResponse.json({
-      message: 'Member updated successfully',
-      member: updatedMember,
-    });
-  } catch (error) {
-    console.error('Update family group member error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+  // Build update object
+  const updates: any = {};
+  
+  if (role !== undefined) {
+    updates.role = role;
+  }
+  
+  if (nickname !== undefined) {
+    updates.nickname = nickname?.trim() || null;
   }
-}
+
+  // Update member
+  const [updatedMember] = await db
+    .update(familyGroupMembers)
+    .set(updates)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, id),
+        eq(familyGroupMembers.userId, userId)
+      )
+    )
+    .returning();
+
+  return NextResponse.json({
+    message: 'Member updated successfully',
+    member: updatedMember,
+  });
+});
 
 // ============================================================================
 // DELETE /api/family-groups/[id]/members - Remove member
 // ============================================================================
 
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const { id } = params;
-    const currentUser = await requireAuth();
-
-    const body = await request.json();
-    
-    // Validate request body
-    const validationResult = removeMemberSchema.safeParse(body);
-    if (!validationResult.success) {
-      return NextResponse.json(
-        {
-          error: 'Validation failed',
-          details: validationResult.error.errors,
-        },
-        { status: 400 }
-      );
-    }
+export const DELETE = apiHandler<{ id: string }>({ auth: 'required', scope: 'family:write' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
 
-    const { userId } = validationResult.data;
-
-    // Get family group and current user's membership
-    const [familyGroup] = await db
-      .select({ 
-        id: familyGroups.id,
-        createdBy: familyGroups.createdBy,
-        name: familyGroups.name,
-      })
-      .from(familyGroups)
-      .where(eq(familyGroups.id, id))
-      .limit(1);
-
-    if (!familyGroup) {
-      return NextResponse.json(
-        { error: 'Family group not found' },
-        { status: 404 }
-      );
-    }
+  const { userId } = await parseJsonBody(request, removeMemberSchema);
+
+  // Get family group and current user's membership
+  const [familyGroup] = await db
+    .select({ 
+      id: familyGroups.id,
+      createdBy: familyGroups.createdBy,
+      name: familyGroups.name,
+    })
+    .from(familyGroups)
+    .where(eq(familyGroups.id, id))
+    .limit(1);
+
+  if (!familyGroup) {
+    throw new NotFoundError('Family group not found');
+  }
 
-    const [currentUserMembership] = await db
-      .select({ role: familyGroupMembers.role })
-      .from(familyGroupMembers)
-      .where(
-        and(
-          eq(familyGroupMembers.familyGroupId, id),
-          eq(familyGroupMembers.userId, currentUser.id)
-        )
+  const [currentUserMembership] = await db
+    .select({ role: familyGroupMembers.role })
+    .from(familyGroupMembers)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, id),
+        eq(familyGroupMembers.userId, currentUser.id)
       )
-      .limit(1);
+    )
+    .limit(1);
 
-    if (!currentUserMembership) {
-      return NextResponse.json(
-        { error: 'Family group not found' },
-        { status: 404 }
-      );
-    }
+  if (!currentUserMembership) {
+    throw new NotFoundError('Family group not found');
+  }
 
-    // Check if target member exists
-    const [targetMembership] = await db
-      .select({ id: familyGroupMembers.id, role: familyGroupMembers.role })
-      .from(familyGroupMembers)
-      .where(
-        and(
-          eq(familyGroupMembers.familyGroupId, id),
-          eq(familyGroupMembers.userId, userId)
-        )
+  // Check if target member exists
+  const [targetMembership] = await db
+    .select({ id: familyGroupMembers.id, role: familyGroupMembers.role })
+    .from(familyGroupMembers)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, id),
+        eq(familyGroupMembers.userId, userId)
       )
-      .limit(1);
+    )
+    .limit(1);
 
-    if (!targetMembership) {
-      return NextResponse.json(
-        { error: 'Member not found' },
-        { status: 404 }
-      );
+  if (!targetMembership) {
+    throw new NotFoundError('Member not found');
+  }
+
+  // Permission checks
+  if (userId === currentUser.id) {
+    // Users can leave the group themselves (unless they're the owner)
+    if (familyGroup.createdBy === currentUser.id) {
+      throw new ForbiddenError('Group owners cannot leave their own group. Delete the group instead.');
+    }
+  } else {
+    // Only admins can remove other members
+    if (currentUserMembership.role !== 'admin') {
+      throw new ForbiddenError('Only admins can remove other members');
     }
 
-    // Permission checks
-    if (userId === currentUser.id) {
-      // Users can leave the group themselves (unless they're the owner)
-      if (familyGroup.createdBy === currentUser.id) {
-        return NextResponse.json(
-          { error: 'Group owners cannot leave their own group. Delete the group instead.' },
-          { status: 403 }
-        );
-      }
-    } else {
-      // Only admins can remove other members
-      if (currentUserMembership.role !== 'admin') {
-        return NextResponse.json(
-          { error: 'Only admins can remove other members' },
-          { status: 403 }
-        );
-      }
-
-      // Cannot remove the group owner
-      if (userId === familyGroup.createdBy) {
-        return NextResponse.json(
-          { error: 'Cannot remove the group owner' },
-          { status: 403 }
-        );
-      }
+    // Cannot remove the group owner
+    if (userId === familyGroup.createdBy) {
+      throw new ForbiddenError('Cannot remove the group owner');
     }
+  }
 
-    // Remove member
-    await db
-      .delete(familyGroupMembers)
-      .where(
-        and(
-          eq(familyGroupMembers.familyGroupId, id),
-          eq(familyGroupMembers.userId, userId)
-        )
-      );
-
-    const action = userId === currentUser.id ? 'left' : 'removed from';
-    return NextResponse.json({
-      message: `Member ${action} family group successfully`,
-    });
-  } catch (error) {
-    console.error('Remove family group member error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
+  // Remove member
+  await db
+    .delete(familyGroupMembers)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, id),
+        eq(familyGroupMembers.userId, userId)
+      )
     );
-  }
-}
\ No newline at end of file
+
+  const action = userId === currentUser.id ? 'left' : 'removed from';
+  return NextResponse.json({
+    message: `Member ${action} family group successfully`,
+  });
+});
\ No newline at end of file
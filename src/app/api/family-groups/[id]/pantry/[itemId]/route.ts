@@ -0,0 +1,123 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '../../../../../../lib/db';
+import { pantryItems, familyGroupMembers } from '../../../../../../lib/db/schema';
+import { apiHandler, parseJsonBody, NotFoundError } from '../../../../../../lib/api';
+import { ingredientKey, normalizeIngredient } from '../../../../../../lib/ingredients';
+import { learnCategories } from '../../../../../../lib/categories';
+import { eq, and } from 'drizzle-orm';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const updatePantryItemSchema = z.object({
+  name: z.string().min(1, 'Item name is required').max(100, 'Item name is too long').optional(),
+  amount: z.string().max(50).optional(),
+  unit: z.string().max(50).optional(),
+  category: z.string().optional(),
+  notes: z.string().max(500, 'Notes are too long').nullable().optional(),
+});
+
+// ============================================================================
+// PUT /api/family-groups/[id]/pantry/[itemId] - Update pantry item
+// ============================================================================
+
+export const PUT = apiHandler<{ id: string; itemId: string }>({ auth: 'required', scope: 'pantry:write' }, async (request, { params, user: currentUser }) => {
+  const { id, itemId } = params;
+
+  const updateData = await parseJsonBody(request, updatePantryItemSchema);
+
+  // Check if user is a member of this family group
+  const [membership] = await db
+    .select({ role: familyGroupMembers.role })
+    .from(familyGroupMembers)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, id),
+        eq(familyGroupMembers.userId, currentUser.id)
+      )
+    )
+    .limit(1);
+
+  if (!membership) {
+    throw new NotFoundError('Family group not found');
+  }
+
+  const [existingItem] = await db
+    .select()
+    .from(pantryItems)
+    .where(and(eq(pantryItems.id, itemId), eq(pantryItems.familyGroupId, id)))
+    .limit(1);
+
+  if (!existingItem) {
+    throw new NotFoundError('Pantry item not found');
+  }
+
+  const item = normalizeIngredient({
+    name: updateData.name ?? existingItem.name,
+    amount: updateData.amount ?? existingItem.amount,
+    unit: updateData.unit ?? existingItem.unit,
+  });
+
+  const [updatedItem] = await db
+    .update(pantryItems)
+    .set({
+      name: item.name,
+      normalizedName: ingredientKey(item.name),
+      amount: item.amount,
+      unit: item.unit,
+      ...(updateData.category && { category: updateData.category }),
+      ...(updateData.notes !== undefined && { notes: updateData.notes?.trim() || null }),
+      updatedBy: currentUser.id,
+      updatedAt: new Date(),
+    })
+    .where(eq(pantryItems.id, itemId))
+    .returning();
+
+  if (updateData.category && updateData.category !== existingItem.category) {
+    await learnCategories(id, currentUser.id, [{ name: updatedItem.name, category: updateData.category }]);
+  }
+
+  return NextResponse.json({
+    message: 'Pantry item updated successfully',
+    pantryItem: updatedItem,
+  });
+});
+
+// ============================================================================
+// DELETE /api/family-groups/[id]/pantry/[itemId] - Remove pantry item
+// ============================================================================
+
+export const DELETE = apiHandler<{ id: string; itemId: string }>({ auth: 'required', scope: 'pantry:write' }, async (request, { params, user: currentUser }) => {
+  const { id, itemId } = params;
+
+  // Check if user is a member of this family group
+  const [membership] = await db
+    .select({ role: familyGroupMembers.role })
+    .from(familyGroupMembers)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, id),
+        eq(familyGroupMembers.userId, currentUser.id)
+      )
+    )
+    .limit(1);
+
+  if (!membership) {
+    throw new NotFoundError('Family group not found');
+  }
+
+  const [deletedItem] = await db
+    .delete(pantryItems)
+    .where(and(eq(pantryItems.id, itemId), eq(pantryItems.familyGroupId, id)))
+    .returning({ id: pantryItems.id });
+
+  if (!deletedItem) {
+    throw new NotFoundError('Pantry item not found');
+  }
+
+  return NextResponse.json({
+    message: 'Pantry item removed successfully',
+  });
+});
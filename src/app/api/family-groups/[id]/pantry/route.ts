@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '../../../../../lib/db';
+import { pantryItems, familyGroupMembers } from '../../../../../lib/db/schema';
+import { apiHandler, parseJsonBody, NotFoundError } from '../../../../../lib/api';
+import { ingredientKey, normalizeIngredient } from '../../../../../lib/ingredients';
+import { categorizeIngredient } from '../../../../../lib/grocery';
+import { getLearnedCategories } from '../../../../../lib/categories';
+import { eq, and, asc } from 'drizzle-orm';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const createPantryItemSchema = z.object({
+  name: z.string().min(1, 'Item name is required').max(100, 'Item name is too long'),
+  amount: z.string().max(50).default(''),
+  unit: z.string().max(50).default(''),
+  category: z.string().optional(),
+  notes: z.string().max(500, 'Notes are too long').optional(),
+});
+
+// ============================================================================
+// GET /api/family-groups/[id]/pantry - List pantry items
+// ============================================================================
+
+export const GET = apiHandler<{ id: string }>({ auth: 'required', scope: 'pantry:read' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
+
+  // Check if user is a member of this family group
+  const [membership] = await db
+    .select({ role: familyGroupMembers.role })
+    .from(familyGroupMembers)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, id),
+        eq(familyGroupMembers.userId, currentUser.id)
+      )
+    )
+    .limit(1);
+
+  if (!membership) {
+    throw new NotFoundError('Family group not found');
+  }
+
+  const items = await db
+    .select()
+    .from(pantryItems)
+    .where(eq(pantryItems.familyGroupId, id))
+    .orderBy(asc(pantryItems.category), asc(pantryItems.name));
+
+  return NextResponse.json({ pantryItems: items });
+});
+
+// ============================================================================
+// POST /api/family-groups/[id]/pantry - Add pantry item
+// ============================================================================
+
+export const POST = apiHandler<{ id: string }>({ auth: 'required', scope: 'pantry:write' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
+
+  const data = await parseJsonBody(request, createPantryItemSchema);
+
+  // Check if user is a member of this family group
+  const [membership] = await db
+    .select({ role: familyGroupMembers.role })
+    .from(familyGroupMembers)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, id),
+        eq(familyGroupMembers.userId, currentUser.id)
+      )
+    )
+    .limit(1);
+
+  if (!membership) {
+    throw new NotFoundError('Family group not found');
+  }
+
+  // "2 cups flour" typed into the name field is split into amount, unit and name
+  const item = normalizeIngredient(data);
+
+  const [newItem] = await db
+    .insert(pantryItems)
+    .values({
+      familyGroupId: id,
+      name: item.name.trim(),
+      normalizedName: ingredientKey(item.name),
+      amount: item.amount,
+      unit: item.unit,
+      category: item.category || categorizeIngredient(item.name, await getLearnedCategories(id)),
+      notes: item.notes?.trim() || null,
+      updatedBy: currentUser.id,
+    })
+    .returning();
+
+  return NextResponse.json(
+    {
+      message: 'Pantry item added successfully',
+      pantryItem: newItem,
+    },
+    { status: 201 }
+  );
+});
@@ -0,0 +1,118 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '../../../../../../lib/db';
+import { storeProfiles, familyGroupMembers } from '../../../../../../lib/db/schema';
+import { apiHandler, parseJsonBody, NotFoundError } from '../../../../../../lib/api';
+import { eq, and, ne } from 'drizzle-orm';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const storeAisleSchema = z.object({
+  name: z.string().min(1, 'Aisle name is required').max(50, 'Aisle name is too long'),
+  categories: z.array(z.string().min(1)).max(20),
+});
+
+const updateStoreProfileSchema = z.object({
+  name: z.string().min(1, 'Store name is required').max(100, 'Store name is too long').optional(),
+  aisles: z.array(storeAisleSchema).max(50).optional(),
+  isDefault: z.boolean().optional(),
+});
+
+// ============================================================================
+// PUT /api/family-groups/[id]/stores/[storeId] - Update store profile
+// ============================================================================
+
+export const PUT = apiHandler<{ id: string; storeId: string }>({ auth: 'required', scope: 'family:write' }, async (request, { params, user: currentUser }) => {
+  const { id, storeId } = params;
+
+  const updateData = await parseJsonBody(request, updateStoreProfileSchema);
+
+  // Check if user is a member of this family group
+  const [membership] = await db
+    .select({ role: familyGroupMembers.role })
+    .from(familyGroupMembers)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, id),
+        eq(familyGroupMembers.userId, currentUser.id)
+      )
+    )
+    .limit(1);
+
+  if (!membership) {
+    throw new NotFoundError('Family group not found');
+  }
+
+  const updatedStore = await db.transaction(async (tx) => {
+    const [store] = await tx
+      .update(storeProfiles)
+      .set({
+        ...(updateData.name && { name: updateData.name.trim() }),
+        ...(updateData.aisles && {
+          aisles: updateData.aisles.map(aisle => ({ name: aisle.name.trim(), categories: aisle.categories })),
+        }),
+        ...(updateData.isDefault !== undefined && { isDefault: updateData.isDefault }),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(storeProfiles.id, storeId), eq(storeProfiles.familyGroupId, id)))
+      .returning();
+
+    // Only one store per family is the default
+    if (store && updateData.isDefault) {
+      await tx
+        .update(storeProfiles)
+        .set({ isDefault: false })
+        .where(and(eq(storeProfiles.familyGroupId, id), ne(storeProfiles.id, storeId)));
+    }
+
+    return store;
+  });
+
+  if (!updatedStore) {
+    throw new NotFoundError('Store profile not found');
+  }
+
+  return NextResponse.json({
+    message: 'Store profile updated successfully',
+    storeProfile: updatedStore,
+  });
+});
+
+// ============================================================================
+// DELETE /api/family-groups/[id]/stores/[storeId] - Delete store profile
+// ============================================================================
+
+export const DELETE = apiHandler<{ id: string; storeId: string }>({ auth: 'required', scope: 'family:write' }, async (request, { params, user: currentUser }) => {
+  const { id, storeId } = params;
+
+  // Check if user is a member of this family group
+  const [membership] = await db
+    .select({ role: familyGroupMembers.role })
+    .from(familyGroupMembers)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, id),
+        eq(familyGroupMembers.userId, currentUser.id)
+      )
+    )
+    .limit(1);
+
+  if (!membership) {
+    throw new NotFoundError('Family group not found');
+  }
+
+  const [deletedStore] = await db
+    .delete(storeProfiles)
+    .where(and(eq(storeProfiles.id, storeId), eq(storeProfiles.familyGroupId, id)))
+    .returning({ id: storeProfiles.id });
+
+  if (!deletedStore) {
+    throw new NotFoundError('Store profile not found');
+  }
+
+  return NextResponse.json({
+    message: 'Store profile deleted successfully',
+  });
+});
@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '../../../../../lib/db';
+import { storeProfiles, familyGroupMembers } from '../../../../../lib/db/schema';
+import { apiHandler, parseJsonBody, NotFoundError } from '../../../../../lib/api';
+import { eq, and, asc, desc } from 'drizzle-orm';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const storeAisleSchema = z.object({
+  name: z.string().min(1, 'Aisle name is required').max(50, 'Aisle name is too long'),
+  categories: z.array(z.string().min(1)).max(20),
+});
+
+const createStoreProfileSchema = z.object({
+  name: z.string().min(1, 'Store name is required').max(100, 'Store name is too long'),
+  aisles: z.array(storeAisleSchema).max(50).default([]),
+  isDefault: z.boolean().default(false),
+});
+
+// ============================================================================
+// GET /api/family-groups/[id]/stores - List store profiles
+// ============================================================================
+
+export const GET = apiHandler<{ id: string }>({ auth: 'required', scope: 'family:read' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
+
+  // Check if user is a member of this family group
+  const [membership] = await db
+    .select({ role: familyGroupMembers.role })
+    .from(familyGroupMembers)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, id),
+        eq(familyGroupMembers.userId, currentUser.id)
+      )
+    )
+    .limit(1);
+
+  if (!membership) {
+    throw new NotFoundError('Family group not found');
+  }
+
+  const stores = await db
+    .select()
+    .from(storeProfiles)
+    .where(eq(storeProfiles.familyGroupId, id))
+    .orderBy(desc(storeProfiles.isDefault), asc(storeProfiles.name));
+
+  return NextResponse.json({ storeProfiles: stores });
+});
+
+// ============================================================================
+// POST /api/family-groups/[id]/stores - Create store profile
+// ============================================================================
+
+export const POST = apiHandler<{ id: string }>({ auth: 'required', scope: 'family:write' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
+
+  const { name, aisles, isDefault } = await parseJsonBody(request, createStoreProfileSchema);
+
+  // Check if user is a member of this family group
+  const [membership] = await db
+    .select({ role: familyGroupMembers.role })
+    .from(familyGroupMembers)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, id),
+        eq(familyGroupMembers.userId, currentUser.id)
+      )
+    )
+    .limit(1);
+
+  if (!membership) {
+    throw new NotFoundError('Family group not found');
+  }
+
+  const newStore = await db.transaction(async (tx) => {
+    // Only one store per family is the default
+    if (isDefault) {
+      await tx
+        .update(storeProfiles)
+        .set({ isDefault: false })
+        .where(eq(storeProfiles.familyGroupId, id));
+    }
+
+    const [store] = await tx
+      .insert(storeProfiles)
+      .values({
+        familyGroupId: id,
+        name: name.trim(),
+        aisles: aisles.map(aisle => ({ name: aisle.name.trim(), categories: aisle.categories })),
+        isDefault,
+        createdBy: currentUser.id,
+      })
+      .returning();
+
+    return store;
+  });
+
+  return NextResponse.json(
+    {
+      message: 'Store profile created successfully',
+      storeProfile: newStore,
+    },
+    { status: 201 }
+  );
+});
@@ -1,8 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { db } from '../../../../lib/db';
 import { familyGroups, familyGroupMembers, users } from '../../../../lib/db/schema';
-import { requireAuth } from '../../../../lib/auth';
+import { requiresVerifiedEmail } from '../../../../lib/auth';
+import { apiHandler, parseJsonBody, ConflictError, ForbiddenError, NotFoundError, RateLimitError } from '../../../../lib/api';
+import {
+  consumeClientRateLimit,
+  consumeRateLimit,
+  formatRetryAfter,
+  FAMILY_JOIN_USER_LIMIT,
+  FAMILY_JOIN_IP_LIMIT,
+} from '../../../../lib/rate-limit';
 import { eq, and } from 'drizzle-orm';
 
 // ============================================================================
@@ -18,123 +26,107 @@ const joinFamilyGroupSchema = z.object({
 // POST /api/family-groups/join - Join family group with invite code
 // ============================================================================
 
-export async function POST(request: NextRequest) {
-  try {
-    const currentUser = await requireAuth();
+export const POST = apiHandler({ auth: 'required', scope: 'family:write' }, async (request, { user: currentUser }) => {
+  if (!currentUser.emailVerified && requiresVerifiedEmail('family')) {
+    throw new ForbiddenError('Please verify your email address before joining a family group', {
+      code: 'EMAIL_NOT_VERIFIED',
+    });
+  }
 
-    const body = await request.json();
-    
-    // Validate request body
-    const validationResult = joinFamilyGroupSchema.safeParse(body);
-    if (!validationResult.success) {
-      return NextResponse.json(
-        {
-          error: 'Validation failed',
-          details: validationResult.error.errors,
-        },
-        { status: 400 }
-      );
-    }
+  // Checked before the code so guesses are limited whether or not they match
+  const userLimit = await consumeRateLimit(FAMILY_JOIN_USER_LIMIT, currentUser.id);
+  const ipLimit = await consumeClientRateLimit(FAMILY_JOIN_IP_LIMIT, request);
+  if (!userLimit.allowed || !ipLimit.allowed) {
+    const retryAfterSeconds = Math.max(userLimit.retryAfterSeconds, ipLimit.retryAfterSeconds);
+    throw new RateLimitError(
+      `Too many attempts to join a family group. Please try again in ${formatRetryAfter(retryAfterSeconds)}.`,
+      retryAfterSeconds
+    );
+  }
 
-    const { inviteCode, nickname } = validationResult.data;
+  const { inviteCode, nickname } = await parseJsonBody(request, joinFamilyGroupSchema);
 
-    // Find family group by invite code
-    const [familyGroup] = await db
-      .select({
-        id: familyGroups.id,
-        name: familyGroups.name,
-        description: familyGroups.description,
-        settings: familyGroups.settings,
-        createdBy: familyGroups.createdBy,
-        // Creator info
-        creatorUsername: users.username,
-        creatorFirstName: users.firstName,
-        creatorLastName: users.lastName,
-      })
-      .from(familyGroups)
-      .leftJoin(users, eq(familyGroups.createdBy, users.id))
-      .where(eq(familyGroups.inviteCode, inviteCode.toUpperCase()))
-      .limit(1);
+  // Find family group by invite code
+  const [familyGroup] = await db
+    .select({
+      id: familyGroups.id,
+      name: familyGroups.name,
+      description: familyGroups.description,
+      settings: familyGroups.settings,
+      createdBy: familyGroups.createdBy,
+      // Creator info
+      creatorUsername: users.username,
+      creatorFirstName: users.firstName,
+      creatorLastName: users.lastName,
+    })
+    .from(familyGroups)
+    .leftJoin(users, eq(familyGroups.createdBy, users.id))
+    .where(eq(familyGroups.inviteCode, inviteCode.toUpperCase()))
+    .limit(1);
 
-    if (!familyGroup) {
-      return NextResponse.json(
-        { error: 'Invalid invite code' },
-        { status: 404 }
-      );
-    }
+  if (!familyGroup) {
+    throw new NotFoundError('Invalid invite code');
+  }
 
-    // Check if user is already a member
-    const [existingMembership] = await db
-      .select({ id: familyGroupMembers.id })
-      .from(familyGroupMembers)
-      .where(
-        and(
-          eq(familyGroupMembers.familyGroupId, familyGroup.id),
-          eq(familyGroupMembers.userId, currentUser.id)
-        )
+  // Check if user is already a member
+  const [existingMembership] = await db
+    .select({ id: familyGroupMembers.id })
+    .from(familyGroupMembers)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, familyGroup.id),
+        eq(familyGroupMembers.userId, currentUser.id)
       )
-      .limit(1);
+    )
+    .limit(1);
 
-    if (existingMembership) {
-      return NextResponse.json(
-        { error: 'You are already a member of this family group' },
-        { status: 409 }
-      );
-    }
+  if (existingMembership) {
+    throw new ConflictError('You are already a member of this family group');
+  }
 
-    // Check if member invites are allowed (unless joining your own group)
-    const settings = familyGroup.settings as any;
-    if (familyGroup.createdBy !== currentUser.id && !settings?.allowMemberInvites) {
-      return NextResponse.json(
-        { error: 'This family group is not accepting new members' },
-        { status: 403 }
-      );
-    }
+  // Check if member invites are allowed (unless joining your own group)
+  const settings = familyGroup.settings as any;
+  if (familyGroup.createdBy !== currentUser.id && !settings?.allowMemberInvites) {
+    throw new ForbiddenError('This family group is not accepting new members');
+  }
 
-    // Add user as member
-    const [newMembership] = await db
-      .insert(familyGroupMembers)
-      .values({
-        familyGroupId: familyGroup.id,
-        userId: currentUser.id,
-        role: 'member',
-        nickname: nickname?.trim() || null,
-        invitedBy: familyGroup.createdBy, // For now, attribute to the creator
-      })
-      .returning();
+  // Add user as member
+  const [newMembership] = await db
+    .insert(familyGroupMembers)
+    .values({
+      familyGroupId: familyGroup.id,
+      userId: currentUser.id,
+      role: 'member',
+      nickname: nickname?.trim() || null,
+      invitedBy: familyGroup.createdBy, // For now, attribute to the creator
+    })
+    .returning();
 
-    // Get member count
-    const memberCount = await db
-      .select({ count: eq(familyGroupMembers.familyGroupId, familyGroup.id) })
-      .from(familyGroupMembers)
-      .where(eq(familyGroupMembers.familyGroupId, familyGroup.id));
+  // Get member count
+  const memberCount = await db
+    .select({ count: eq(familyGroupMembers.familyGroupId, familyGroup.id) })
+    .from(familyGroupMembers)
+    .where(eq(familyGroupMembers.familyGroupId, familyGroup.id));
 
-    return NextResponse.json({
-      message: `Successfully joined "${familyGroup.name}"!`,
-      familyGroup: {
-        id: familyGroup.id,
-        name: familyGroup.name,
-        description: familyGroup.description,
-        settings: familyGroup.settings,
-        memberCount: memberCount.length,
-        userRole: 'member',
-        userNickname: newMembership.nickname,
-        userJoinedAt: newMembership.joinedAt,
-        isOwner: false,
-        creator: {
-          id: familyGroup.createdBy,
-          username: familyGroup.creatorUsername,
-          firstName: familyGroup.creatorFirstName,
-          lastName: familyGroup.creatorLastName,
-        },
+  return NextResponse.json({
+    message: `Successfully joined "${familyGroup.name}"!`,
+    familyGroup: {
+      id: familyGroup.id,
+      name: familyGroup.name,
+      description: familyGroup.description,
+      settings: familyGroup.settings,
+      memberCount: memberCount.length,
+      userRole: 'member',
+      userNickname: newMembership.nickname,
+      userJoinedAt: newMembership.joinedAt,
+      isOwner: false,
+      creator: {
+        id: familyGroup.createdBy,
+        username: familyGroup.creatorUsername,
+        firstName: familyGroup.creatorFirstName,
+        lastName: familyGroup.creatorLastName,
       },
-      membership: newMembership,
-    });
-  } catch (error) {
-    console.error('Join family group error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+    },
+    membership: newMembership,
+  });
+});
\ No newline at end of file
@@ -0,0 +1,198 @@
+import { db } from '../../../../../lib/db';
+import { groceryLists, familyGroupMembers } from '../../../../../lib/db/schema';
+import { apiHandler, ForbiddenError, NotFoundError } from '../../../../../lib/api';
+import { GroceryListEvent, subscribeToGroceryList } from '../../../../../lib/realtime';
+import { applyGroceryOperations, convertGroceryItems, GroceryListItems, GroceryOperation } from '../../../../../lib/grocery';
+import { UnitSystem } from '../../../../../lib/units';
+import { eq, and } from 'drizzle-orm';
+
+export const dynamic = 'force-dynamic';
+
+const VERSION_POLL_INTERVAL_MS = 5000;
+const KEEP_ALIVE_INTERVAL_MS = 25000;
+
+// ============================================================================
+// GET /api/grocery-lists/[id]/events - Stream live changes (server-sent events)
+// ============================================================================
+
+export const GET = apiHandler<{ id: string }>({ auth: 'required', scope: 'grocery:read' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
+
+  const [groceryList] = await db
+    .select({
+      familyGroupId: groceryLists.familyGroupId,
+      ingredients: groceryLists.ingredients,
+      additionalItems: groceryLists.additionalItems,
+      status: groceryLists.status,
+      version: groceryLists.version,
+    })
+    .from(groceryLists)
+    .where(eq(groceryLists.id, id))
+    .limit(1);
+
+  if (!groceryList) {
+    throw new NotFoundError('Grocery list not found');
+  }
+
+  if (!(await isFamilyMember(groceryList.familyGroupId, currentUser.id))) {
+    throw new ForbiddenError('Access denied to this grocery list');
+  }
+
+  const encoder = new TextEncoder();
+  let lastVersion = groceryList.version;
+  // The list as stored, kept up to date from the events so edits can be converted in full
+  let lists: GroceryListItems = { ingredients: [], additionalItems: [] };
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (event: GroceryListEvent) => {
+        lastVersion = Math.max(lastVersion, event.version);
+        lists = event.type === 'snapshot' ? event.lists : applyGroceryOperations(lists, event.operations).lists;
+        const localized = localizeEvent(event, lists, currentUser.measurementSystem);
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(localized)}\n\n`));
+      };
+
+      // Start every connection from a known state
+      send({
+        type: 'snapshot',
+        version: groceryList.version,
+        lists: {
+          ingredients: groceryList.ingredients,
+          additionalItems: groceryList.additionalItems || [],
+        },
+        status: groceryList.status,
+      });
+
+      const unsubscribe = subscribeToGroceryList(id, send);
+
+      const close = (eventType: string) => {
+        controller.enqueue(encoder.encode(`event: ${eventType}\ndata: {}\n\n`));
+        cleanup();
+        controller.close();
+      };
+
+      // Changes made through another server instance never reach this process's
+      // subscribers, so fall back to a snapshot whenever the stored version moves on.
+      // Membership is checked again too, so someone removed from the family stops
+      // receiving updates.
+      const pollTimer = setInterval(async () => {
+        try {
+          const [latest] = await db
+            .select({
+              familyGroupId: groceryLists.familyGroupId,
+              ingredients: groceryLists.ingredients,
+              additionalItems: groceryLists.additionalItems,
+              status: groceryLists.status,
+              version: groceryLists.version,
+            })
+            .from(groceryLists)
+            .where(eq(groceryLists.id, id))
+            .limit(1);
+
+          if (!latest) {
+            close('deleted');
+          } else if (!(await isFamilyMember(latest.familyGroupId, currentUser.id))) {
+            close('forbidden');
+          } else if (latest.version > lastVersion) {
+            send({
+              type: 'snapshot',
+              version: latest.version,
+              lists: {
+                ingredients: latest.ingredients,
+                additionalItems: latest.additionalItems || [],
+              },
+              status: latest.status,
+            });
+          }
+        } catch (error) {
+          console.error('Grocery list event poll error:', error);
+        }
+      }, VERSION_POLL_INTERVAL_MS);
+
+      const keepAliveTimer = setInterval(() => {
+        controller.enqueue(encoder.encode(': keep-alive\n\n'));
+      }, KEEP_ALIVE_INTERVAL_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(pollTimer);
+        clearInterval(keepAliveTimer);
+      };
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+async function isFamilyMember(familyGroupId: string, userId: string): Promise<boolean> {
+  const [membership] = await db
+    .select({ role: familyGroupMembers.role })
+    .from(familyGroupMembers)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, familyGroupId),
+        eq(familyGroupMembers.userId, userId)
+      )
+    )
+    .limit(1);
+
+  return !!membership;
+}
+
+/**
+ * Expresses quantities in the subscriber's measurement system, matching GET responses.
+ * Edits only carry the fields that changed, so an edited ingredient's amount and unit are
+ * taken, converted together, from the item as the edit left it in `lists`.
+ */
+function localizeEvent(event: GroceryListEvent, lists: GroceryListItems, measurementSystem: UnitSystem): GroceryListEvent {
+  if (event.type === 'snapshot') {
+    return {
+      ...event,
+      lists: {
+        ...event.lists,
+        ingredients: convertGroceryItems(event.lists.ingredients, measurementSystem),
+      },
+    };
+  }
+
+  return {
+    ...event,
+    operations: event.operations.map((operation): GroceryOperation => {
+      if (operation.op === 'add' && operation.list === 'ingredients' && 'amount' in operation.item) {
+        return { ...operation, item: convertGroceryItems([operation.item], measurementSystem)[0] };
+      }
+      if (operation.op === 'edit' && (operation.changes.amount !== undefined || operation.changes.unit !== undefined)) {
+        const item = lists.ingredients.find(ingredient => ingredient.id === operation.itemId);
+        if (!item) {
+          return operation;
+        }
+        const [converted] = convertGroceryItems([item], measurementSystem);
+        return { ...operation, changes: { ...operation.changes, amount: converted.amount, unit: converted.unit } };
+      }
+      return operation;
+    }),
+  };
+}
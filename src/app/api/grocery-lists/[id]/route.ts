@@ -1,15 +1,20 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { db } from '../../../../lib/db';
 import { groceryLists, familyGroups, familyGroupMembers } from '../../../../lib/db/schema';
-import { requireAuth } from '../../../../lib/auth';
-import { eq, and } from 'drizzle-orm';
+import { apiHandler, parseJsonBody, ForbiddenError, NotFoundError } from '../../../../lib/api';
+import { applyGroceryOperations, assignItemIds, convertGroceryItems, GroceryOperation } from '../../../../lib/grocery';
+import { restockPantry } from '../../../../lib/pantry';
+import { findRecategorizedItems, learnCategories } from '../../../../lib/categories';
+import { publishGroceryListEvent } from '../../../../lib/realtime';
+import { eq, and, sql } from 'drizzle-orm';
 
 // ============================================================================
 // Validation Schemas
 // ============================================================================
 
 const groceryItemSchema = z.object({
+  id: z.string().optional(),
   name: z.string().min(1, 'Item name is required'),
   amount: z.string().default(''),
   unit: z.string().default(''),
@@ -17,9 +22,16 @@ const groceryItemSchema = z.object({
   checked: z.boolean().default(false),
   recipeSources: z.array(z.string()).optional(),
   notes: z.string().optional(),
+  breakdown: z.array(z.object({
+    recipeId: z.string(),
+    recipeName: z.string(),
+    amount: z.string(),
+    unit: z.string(),
+  })).optional(),
 });
 
 const additionalItemSchema = z.object({
+  id: z.string().optional(),
   name: z.string().min(1, 'Item name is required'),
   category: z.string().default('other'),
   checked: z.boolean().default(false),
@@ -31,148 +43,148 @@ const updateGroceryListSchema = z.object({
   ingredients: z.array(groceryItemSchema).optional(),
   additionalItems: z.array(additionalItemSchema).optional(),
   status: z.enum(['active', 'completed']).optional(),
+  restockPantry: z.boolean().optional(), // With status 'completed', add checked items to the pantry
+});
+
+const itemChangesSchema = z.object({
+  name: z.string().min(1, 'Item name is required').optional(),
+  amount: z.string().optional(),
+  unit: z.string().optional(),
+  category: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+const operationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('check'), itemId: z.string().min(1) }),
+  z.object({ op: z.literal('uncheck'), itemId: z.string().min(1) }),
+  z.object({ op: z.literal('edit'), itemId: z.string().min(1), changes: itemChangesSchema }),
+  z.object({
+    op: z.literal('add'),
+    list: z.enum(['ingredients', 'additionalItems']).default('ingredients'),
+    item: groceryItemSchema,
+  }),
+  z.object({ op: z.literal('remove'), itemId: z.string().min(1) }),
+]);
+
+const patchGroceryListSchema = z.object({
+  operations: z.array(operationSchema).min(1, 'At least one operation is required').max(100),
 });
 
 // ============================================================================
 // GET /api/grocery-lists/[id] - Get specific grocery list
 // ============================================================================
 
-export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
-  try {
-    const currentUser = await requireAuth();
-    const { id } = params;
-
-    // Get grocery list with family group info
-    const [groceryListData] = await db
-      .select({
-        id: groceryLists.id,
-        familyGroupId: groceryLists.familyGroupId,
-        mealPlanId: groceryLists.mealPlanId,
-        name: groceryLists.name,
-        createdBy: groceryLists.createdBy,
-        ingredients: groceryLists.ingredients,
-        additionalItems: groceryLists.additionalItems,
-        status: groceryLists.status,
-        completedAt: groceryLists.completedAt,
-        createdAt: groceryLists.createdAt,
-        updatedAt: groceryLists.updatedAt,
-        // Family group info
-        familyGroupName: familyGroups.name,
-      })
-      .from(groceryLists)
-      .innerJoin(familyGroups, eq(groceryLists.familyGroupId, familyGroups.id))
-      .where(eq(groceryLists.id, id))
-      .limit(1);
-
-    if (!groceryListData) {
-      return NextResponse.json(
-        { error: 'Grocery list not found' },
-        { status: 404 }
-      );
-    }
+export const GET = apiHandler<{ id: string }>({ auth: 'required', scope: 'grocery:read' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
+
+  // Get grocery list with family group info
+  const [groceryListData] = await db
+    .select({
+      id: groceryLists.id,
+      familyGroupId: groceryLists.familyGroupId,
+      mealPlanId: groceryLists.mealPlanId,
+      name: groceryLists.name,
+      createdBy: groceryLists.createdBy,
+      ingredients: groceryLists.ingredients,
+      additionalItems: groceryLists.additionalItems,
+      status: groceryLists.status,
+      version: groceryLists.version,
+      completedAt: groceryLists.completedAt,
+      createdAt: groceryLists.createdAt,
+      updatedAt: groceryLists.updatedAt,
+      // Family group info
+      familyGroupName: familyGroups.name,
+    })
+    .from(groceryLists)
+    .innerJoin(familyGroups, eq(groceryLists.familyGroupId, familyGroups.id))
+    .where(eq(groceryLists.id, id))
+    .limit(1);
+
+  if (!groceryListData) {
+    throw new NotFoundError('Grocery list not found');
+  }
 
-    // Check if user is a member of the family group
-    const [membership] = await db
-      .select({ role: familyGroupMembers.role })
-      .from(familyGroupMembers)
-      .where(
-        and(
-          eq(familyGroupMembers.familyGroupId, groceryListData.familyGroupId),
-          eq(familyGroupMembers.userId, currentUser.id)
-        )
+  // Check if user is a member of the family group
+  const [membership] = await db
+    .select({ role: familyGroupMembers.role })
+    .from(familyGroupMembers)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, groceryListData.familyGroupId),
+        eq(familyGroupMembers.userId, currentUser.id)
       )
-      .limit(1);
+    )
+    .limit(1);
 
-    if (!membership) {
-      return NextResponse.json(
-        { error: 'Access denied to this grocery list' },
-        { status: 403 }
-      );
-    }
+  if (!membership) {
+    throw new ForbiddenError('Access denied to this grocery list');
+  }
 
-    // Calculate completion stats
-    const allItems = [
-      ...(groceryListData.ingredients as any[] || []),
-      ...(groceryListData.additionalItems as any[] || [])
-    ];
-    const checkedItems = allItems.filter(item => item.checked);
-
-    return NextResponse.json({
-      groceryList: {
-        id: groceryListData.id,
-        familyGroupId: groceryListData.familyGroupId,
-        mealPlanId: groceryListData.mealPlanId,
-        name: groceryListData.name,
-        ingredients: groceryListData.ingredients,
-        additionalItems: groceryListData.additionalItems,
-        status: groceryListData.status,
-        completedAt: groceryListData.completedAt,
-        createdAt: groceryListData.createdAt,
-        updatedAt: groceryListData.updatedAt,
-        familyGroup: {
-          id: groceryListData.familyGroupId,
-          name: groceryListData.familyGroupName,
-        },
-        completionStats: {
-          totalItems: allItems.length,
-          checkedItems: checkedItems.length,
-          percentageComplete: allItems.length > 0 ? Math.round((checkedItems.length / allItems.length) * 100) : 0,
-        },
-        isOwner: groceryListData.createdBy === currentUser.id,
+  // Calculate completion stats
+  const allItems = [
+    ...(groceryListData.ingredients as any[] || []),
+    ...(groceryListData.additionalItems as any[] || [])
+  ];
+  const checkedItems = allItems.filter(item => item.checked);
+
+  return NextResponse.json({
+    groceryList: {
+      id: groceryListData.id,
+      familyGroupId: groceryListData.familyGroupId,
+      mealPlanId: groceryListData.mealPlanId,
+      name: groceryListData.name,
+      ingredients: convertGroceryItems(groceryListData.ingredients as any[] || [], currentUser.measurementSystem),
+      additionalItems: groceryListData.additionalItems,
+      status: groceryListData.status,
+      version: groceryListData.version,
+      completedAt: groceryListData.completedAt,
+      createdAt: groceryListData.createdAt,
+      updatedAt: groceryListData.updatedAt,
+      familyGroup: {
+        id: groceryListData.familyGroupId,
+        name: groceryListData.familyGroupName,
       },
-    });
-  } catch (error) {
-    console.error('Get grocery list error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
-}
+      completionStats: {
+        totalItems: allItems.length,
+        checkedItems: checkedItems.length,
+        percentageComplete: allItems.length > 0 ? Math.round((checkedItems.length / allItems.length) * 100) : 0,
+      },
+      isOwner: groceryListData.createdBy === currentUser.id,
+    },
+  });
+});
 
 // ============================================================================
 // PUT /api/grocery-lists/[id] - Update grocery list
 // ============================================================================
 
-export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
-  try {
-    const currentUser = await requireAuth();
-    const { id } = params;
-
-    const body = await request.json();
-    
-    // Validate request body
-    const validationResult = updateGroceryListSchema.safeParse(body);
-    if (!validationResult.success) {
-      return NextResponse.json(
-        {
-          error: 'Validation failed',
-          details: validationResult.error.errors,
-        },
-        { status: 400 }
-      );
-    }
+export const PUT = apiHandler<{ id: string }>({ auth: 'required', scope: 'grocery:write' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
+
+  const updateData = await parseJsonBody(request, updateGroceryListSchema);
 
-    // Get grocery list to check family group membership
-    const [existingList] = await db
+  const { existingList, updatedGroceryList, restockedItems } = await db.transaction(async (tx) => {
+    // Lock the row so only one request can complete the list and restock the pantry
+    const [existingList] = await tx
       .select({
         id: groceryLists.id,
         familyGroupId: groceryLists.familyGroupId,
         createdBy: groceryLists.createdBy,
+        status: groceryLists.status,
+        ingredients: groceryLists.ingredients,
+        additionalItems: groceryLists.additionalItems,
       })
       .from(groceryLists)
       .where(eq(groceryLists.id, id))
+      .for('update')
       .limit(1);
 
     if (!existingList) {
-      return NextResponse.json(
-        { error: 'Grocery list not found' },
-        { status: 404 }
-      );
+      throw new NotFoundError('Grocery list not found');
     }
 
     // Check if user is a member of the family group
-    const [membership] = await db
+    const [membership] = await tx
       .select({ role: familyGroupMembers.role })
       .from(familyGroupMembers)
       .where(
@@ -184,73 +196,104 @@ export async function PUT(request: NextRequest, { params }: { params: { id: stri
       .limit(1);
 
     if (!membership) {
-      return NextResponse.json(
-        { error: 'Access denied to this grocery list' },
-        { status: 403 }
-      );
+      throw new ForbiddenError('Access denied to this grocery list');
     }
 
-    const updateData = validationResult.data;
-
     // Update grocery list
-    const [updatedGroceryList] = await db
+    const [updatedGroceryList] = await tx
       .update(groceryLists)
       .set({
         ...(updateData.name && { name: updateData.name.trim() }),
-        ...(updateData.ingredients && { ingredients: updateData.ingredients }),
-        ...(updateData.additionalItems && { additionalItems: updateData.additionalItems }),
+        ...(updateData.ingredients && { ingredients: assignItemIds(updateData.ingredients) }),
+        ...(updateData.additionalItems && { additionalItems: assignItemIds(updateData.additionalItems) }),
         ...(updateData.status && { 
           status: updateData.status,
           ...(updateData.status === 'completed' && { completedAt: new Date() })
         }),
+        version: sql`${groceryLists.version} + 1`,
         updatedAt: new Date(),
       })
       .where(eq(groceryLists.id, id))
       .returning();
 
-    return NextResponse.json({
-      message: 'Grocery list updated successfully',
-      groceryList: updatedGroceryList,
-    });
-  } catch (error) {
-    console.error('Update grocery list error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
-}
+    // Restock the pantry once, when the list is first completed
+    let restockedItems = 0;
+    if (updateData.status === 'completed' && updateData.restockPantry && existingList.status !== 'completed') {
+      const purchasedItems = [
+        ...(updatedGroceryList.ingredients || []),
+        ...(updatedGroceryList.additionalItems || []),
+      ].filter(item => item.checked);
+
+      restockedItems = await restockPantry(existingList.familyGroupId, currentUser.id, purchasedItems, tx);
+    }
+
+    return { existingList, updatedGroceryList, restockedItems };
+  });
+
+  // Whole-list replacements are pushed as a snapshot to everyone viewing the list
+  publishGroceryListEvent(id, {
+    type: 'snapshot',
+    version: updatedGroceryList.version,
+    lists: {
+      ingredients: updatedGroceryList.ingredients,
+      additionalItems: updatedGroceryList.additionalItems || [],
+    },
+    status: updatedGroceryList.status,
+  });
+
+  // Remember categories changed by hand for the family's next lists
+  const recategorizedItems = [
+    ...findRecategorizedItems(existingList.ingredients, updatedGroceryList.ingredients),
+    ...findRecategorizedItems(existingList.additionalItems || [], updatedGroceryList.additionalItems || []),
+  ];
+  await learnCategories(existingList.familyGroupId, currentUser.id, recategorizedItems);
+
+  return NextResponse.json({
+    message: 'Grocery list updated successfully',
+    groceryList: {
+      ...updatedGroceryList,
+      ingredients: convertGroceryItems(updatedGroceryList.ingredients, currentUser.measurementSystem),
+    },
+    ...(updateData.restockPantry && { restockedItems }),
+  });
+});
 
 // ============================================================================
-// DELETE /api/grocery-lists/[id] - Delete grocery list
+// PATCH /api/grocery-lists/[id] - Apply item operations
 // ============================================================================
 
-export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
-  try {
-    const currentUser = await requireAuth();
-    const { id } = params;
+export const PATCH = apiHandler<{ id: string }>({ auth: 'required', scope: 'grocery:write' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
 
-    // Get grocery list to check ownership
-    const [existingList] = await db
+  const { operations: requested } = await parseJsonBody(request, patchGroceryListSchema);
+
+  // New items get their ids here so every client replays the same operation
+  const operations: GroceryOperation[] = requested.map(operation =>
+    operation.op === 'add'
+      ? { ...operation, item: assignItemIds([operation.item])[0] }
+      : operation
+  );
+
+  const result = await db.transaction(async (tx) => {
+    // Lock the row so concurrent patches apply one after another against the latest items
+    const [existingList] = await tx
       .select({
-        id: groceryLists.id,
         familyGroupId: groceryLists.familyGroupId,
-        createdBy: groceryLists.createdBy,
-        name: groceryLists.name,
+        ingredients: groceryLists.ingredients,
+        additionalItems: groceryLists.additionalItems,
+        version: groceryLists.version,
       })
       .from(groceryLists)
       .where(eq(groceryLists.id, id))
+      .for('update')
       .limit(1);
 
     if (!existingList) {
-      return NextResponse.json(
-        { error: 'Grocery list not found' },
-        { status: 404 }
-      );
+      throw new NotFoundError('Grocery list not found');
     }
 
     // Check if user is a member of the family group
-    const [membership] = await db
+    const [membership] = await tx
       .select({ role: familyGroupMembers.role })
       .from(familyGroupMembers)
       .where(
@@ -262,36 +305,119 @@ export async function DELETE(request: NextRequest, { params }: { params: { id: s
       .limit(1);
 
     if (!membership) {
-      return NextResponse.json(
-        { error: 'Access denied to this grocery list' },
-        { status: 403 }
-      );
+      throw new ForbiddenError('Access denied to this grocery list');
     }
 
-    // Only the creator or family group admin can delete the grocery list
-    const isOwner = existingList.createdBy === currentUser.id;
-    const isAdmin = membership.role === 'admin';
+    const { lists, applied } = applyGroceryOperations(
+      {
+        ingredients: existingList.ingredients,
+        additionalItems: existingList.additionalItems || [],
+      },
+      operations
+    );
 
-    if (!isOwner && !isAdmin) {
-      return NextResponse.json(
-        { error: 'Only the grocery list creator or family group admin can delete it' },
-        { status: 403 }
-      );
+    if (applied.length === 0) {
+      return { version: existingList.version, applied, lists, familyGroupId: existingList.familyGroupId };
     }
 
-    // Delete grocery list
-    await db
-      .delete(groceryLists)
-      .where(eq(groceryLists.id, id));
+    const [updatedList] = await tx
+      .update(groceryLists)
+      .set({
+        ingredients: lists.ingredients,
+        additionalItems: lists.additionalItems,
+        version: existingList.version + 1,
+        updatedAt: new Date(),
+      })
+      .where(eq(groceryLists.id, id))
+      .returning({ version: groceryLists.version });
+
+    return { version: updatedList.version, applied, lists, familyGroupId: existingList.familyGroupId };
+  });
+
+  if (result.applied.length > 0) {
+    const recategorizedIds = new Set(result.applied.flatMap(operation =>
+      operation.op === 'edit' && operation.changes.category ? [operation.itemId] : []
+    ));
+    if (recategorizedIds.size > 0) {
+      // Remember categories changed by hand for the family's next lists
+      await learnCategories(
+        result.familyGroupId,
+        currentUser.id,
+        [...result.lists.ingredients, ...result.lists.additionalItems].filter(item => recategorizedIds.has(item.id!))
+      );
+    }
 
-    return NextResponse.json({
-      message: 'Grocery list deleted successfully',
+    publishGroceryListEvent(id, {
+      type: 'patch',
+      version: result.version,
+      operations: result.applied,
+      actor: { id: currentUser.id, username: currentUser.username },
     });
-  } catch (error) {
-    console.error('Delete grocery list error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
   }
-}
\ No newline at end of file
+
+  return NextResponse.json({
+    message: 'Grocery list updated successfully',
+    version: result.version,
+    applied: result.applied,
+    skipped: operations.length - result.applied.length,
+    ingredients: convertGroceryItems(result.lists.ingredients, currentUser.measurementSystem),
+    additionalItems: result.lists.additionalItems,
+  });
+});
+
+// ============================================================================
+// DELETE /api/grocery-lists/[id] - Delete grocery list
+// ============================================================================
+
+export const DELETE = apiHandler<{ id: string }>({ auth: 'required', scope: 'grocery:write' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
+
+  // Get grocery list to check ownership
+  const [existingList] = await db
+    .select({
+      id: groceryLists.id,
+      familyGroupId: groceryLists.familyGroupId,
+      createdBy: groceryLists.createdBy,
+      name: groceryLists.name,
+    })
+    .from(groceryLists)
+    .where(eq(groceryLists.id, id))
+    .limit(1);
+
+  if (!existingList) {
+    throw new NotFoundError('Grocery list not found');
+  }
+
+  // Check if user is a member of the family group
+  const [membership] = await db
+    .select({ role: familyGroupMembers.role })
+    .from(familyGroupMembers)
+    .where(
+      and(
+        eq(familyGroupMembers.familyGroupId, existingList.familyGroupId),
+        eq(familyGroupMembers.userId, currentUser.id)
+      )
+    )
+    .limit(1);
+
+  if (!membership) {
+    throw new ForbiddenError('Access denied to this grocery list');
+  }
+
+  // Only the creator or family group admin can delete the grocery list
+  const isOwner = existingList.createdBy === currentUser.id;
+  const isAdmin = membership.role === 'admin';
+
+  if (!isOwner && !isAdmin) {
+    throw new ForbiddenError('Only the grocery list creator or family group admin can delete it');
+  }
+
+  // Delete grocery list
+  await db
+    .delete(groceryLists)
+    .where(eq(groceryLists.id, id));
+
+  return NextResponse.json({
+    message: 'Grocery list deleted successfully',
+  });
+});
\ No newline at end of file
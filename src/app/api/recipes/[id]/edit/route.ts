@@ -1,8 +1,10 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { db } from '../../../../../lib/db';
 import { recipes } from '../../../../../lib/db/schema';
-import { requireAuth } from '../../../../../lib/auth';
+import { apiHandler, parseJsonBody, BadRequestError, ForbiddenError, NotFoundError } from '../../../../../lib/api';
+import { normalizeIngredient } from '../../../../../lib/ingredients';
+import { isExternalRecipeId } from '../../../../../lib/recipe-providers';
 import { eq, and } from 'drizzle-orm';
 
 // ============================================================================
@@ -11,7 +13,7 @@ import { eq, and } from 'drizzle-orm';
 
 const ingredientSchema = z.object({
   name: z.string().min(1, 'Ingredient name is required'),
-  amount: z.string().min(1, 'Amount is required'),
+  amount: z.string().default(''),
   unit: z.string(),
   notes: z.string().optional(),
   category: z.string().optional(),
@@ -79,173 +81,122 @@ const updateRecipeSchema = z.object({
 // PUT /api/recipes/[id]/edit - Update recipe
 // ============================================================================
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const { id } = params;
-    const currentUser = await requireAuth();
-
-    // Spoonacular recipes cannot be edited
-    if (id.startsWith('spoon_')) {
-      return NextResponse.json(
-        { error: 'External recipes cannot be edited' },
-        { status: 400 }
-      );
-    }
+export const PUT = apiHandler<{ id: string }>({ auth: 'required', scope: 'recipes:write' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
 
-    const body = await request.json();
-    
-    // Validate request body
-    const validationResult = updateRecipeSchema.safeParse(body);
-    if (!validationResult.success) {
-      return NextResponse.json(
-        {
-          error: 'Validation failed',
-          details: validationResult.error.errors,
-        },
-        { status: 400 }
-      );
-    }
+  // External recipes cannot be edited
+  if (isExternalRecipeId(id)) {
+    throw new BadRequestError('External recipes cannot be edited');
+  }
 
-    const data = validationResult.data;
-
-    // Check if recipe exists and user owns it
-    const [existingRecipe] = await db
-      .select({
-        id: recipes.id,
-        userId: recipes.userId,
-        title: recipes.title,
-        prepTimeMinutes: recipes.prepTimeMinutes,
-        cookTimeMinutes: recipes.cookTimeMinutes,
-      })
-      .from(recipes)
-      .where(eq(recipes.id, id))
-      .limit(1);
-
-    if (!existingRecipe) {
-      return NextResponse.json(
-        { error: 'Recipe not found' },
-        { status: 404 }
-      );
-    }
+  const data = await parseJsonBody(request, updateRecipeSchema);
+
+  // Check if recipe exists and user owns it
+  const [existingRecipe] = await db
+    .select({
+      id: recipes.id,
+      userId: recipes.userId,
+      title: recipes.title,
+      prepTimeMinutes: recipes.prepTimeMinutes,
+      cookTimeMinutes: recipes.cookTimeMinutes,
+    })
+    .from(recipes)
+    .where(eq(recipes.id, id))
+    .limit(1);
+
+  if (!existingRecipe) {
+    throw new NotFoundError('Recipe not found');
+  }
 
-    if (existingRecipe.userId !== currentUser.id) {
-      return NextResponse.json(
-        { error: 'You can only edit your own recipes' },
-        { status: 403 }
-      );
-    }
+  if (existingRecipe.userId !== currentUser.id) {
+    throw new ForbiddenError('You can only edit your own recipes');
+  }
 
-    // Calculate ready time if timing fields are being updated
-    let readyInMinutes: number | null = null;
-    const newPrepTime = data.prepTimeMinutes !== undefined ? data.prepTimeMinutes : existingRecipe.prepTimeMinutes;
-    const newCookTime = data.cookTimeMinutes !== undefined ? data.cookTimeMinutes : existingRecipe.cookTimeMinutes;
-    
-    if (newPrepTime && newCookTime) {
-      readyInMinutes = newPrepTime + newCookTime;
-    } else if (newCookTime) {
-      readyInMinutes = newCookTime;
-    } else if (newPrepTime) {
-      readyInMinutes = newPrepTime;
-    }
+  // Calculate ready time if timing fields are being updated
+  let readyInMinutes: number | null = null;
+  const newPrepTime = data.prepTimeMinutes !== undefined ? data.prepTimeMinutes : existingRecipe.prepTimeMinutes;
+  const newCookTime = data.cookTimeMinutes !== undefined ? data.cookTimeMinutes : existingRecipe.cookTimeMinutes;
+  
+  if (newPrepTime && newCookTime) {
+    readyInMinutes = newPrepTime + newCookTime;
+  } else if (newCookTime) {
+    readyInMinutes = newCookTime;
+  } else if (newPrepTime) {
+    readyInMinutes = newPrepTime;
+  }
+
+  // Build update object (only include fields that were provided)
+  const updateData: any = {
+    updatedAt: new Date(),
+  };
 
-    // Build update object (only include fields that were provided)
-    const updateData: any = {
-      updatedAt: new Date(),
-    };
-
-    // Add fields that were provided in the request
-    Object.entries(data).forEach(([key, value]) => {
-      if (value !== undefined) {
-        updateData[key] = value;
-      }
-    });
-
-    // Add calculated ready time if timing was updated
-    if (readyInMinutes !== null) {
-      updateData.readyInMinutes = readyInMinutes;
+  // Add fields that were provided in the request
+  Object.entries(data).forEach(([key, value]) => {
+    if (value !== undefined) {
+      updateData[key] = value;
     }
+  });
 
-    // Update recipe
-    const [updatedRecipe] = await db
-      .update(recipes)
-      .set(updateData)
-      .where(eq(recipes.id, id))
-      .returning();
-
-    return NextResponse.json({
-      message: 'Recipe updated successfully',
-      recipe: updatedRecipe,
-    });
-  } catch (error) {
-    console.error('Update recipe error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+  // Keep ingredient amounts and units in canonical form
+  if (data.ingredients) {
+    updateData.ingredients = data.ingredients.map(normalizeIngredient);
   }
-}
+
+  // Add calculated ready time if timing was updated
+  if (readyInMinutes !== null) {
+    updateData.readyInMinutes = readyInMinutes;
+  }
+
+  // Update recipe
+  const [updatedRecipe] = await db
+    .update(recipes)
+    .set(updateData)
+    .where(eq(recipes.id, id))
+    .returning();
+
+  return NextResponse.json({
+    message: 'Recipe updated successfully',
+    recipe: updatedRecipe,
+  });
+});
 
 // ============================================================================
 // DELETE /api/recipes/[id]/edit - Delete recipe
 // ============================================================================
 
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const { id } = params;
-    const currentUser = await requireAuth();
-
-    // Spoonacular recipes cannot be deleted (they're not in our DB anyway)
-    if (id.startsWith('spoon_')) {
-      return NextResponse.json(
-        { error: 'External recipes cannot be deleted' },
-        { status: 400 }
-      );
-    }
+export const DELETE = apiHandler<{ id: string }>({ auth: 'required', scope: 'recipes:write' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
 
-    // Check if recipe exists and user owns it
-    const [existingRecipe] = await db
-      .select({
-        id: recipes.id,
-        userId: recipes.userId,
-        title: recipes.title,
-      })
-      .from(recipes)
-      .where(eq(recipes.id, id))
-      .limit(1);
-
-    if (!existingRecipe) {
-      return NextResponse.json(
-        { error: 'Recipe not found' },
-        { status: 404 }
-      );
-    }
+  // External recipes cannot be deleted (they're not in our DB anyway)
+  if (isExternalRecipeId(id)) {
+    throw new BadRequestError('External recipes cannot be deleted');
+  }
 
-    if (existingRecipe.userId !== currentUser.id) {
-      return NextResponse.json(
-        { error: 'You can only delete your own recipes' },
-        { status: 403 }
-      );
-    }
+  // Check if recipe exists and user owns it
+  const [existingRecipe] = await db
+    .select({
+      id: recipes.id,
+      userId: recipes.userId,
+      title: recipes.title,
+    })
+    .from(recipes)
+    .where(eq(recipes.id, id))
+    .limit(1);
+
+  if (!existingRecipe) {
+    throw new NotFoundError('Recipe not found');
+  }
 
-    // Delete recipe (this will cascade to related tables due to foreign key constraints)
-    await db
-      .delete(recipes)
-      .where(eq(recipes.id, id));
-
-    return NextResponse.json({
-      message: 'Recipe deleted successfully',
-    });
-  } catch (error) {
-    console.error('Delete recipe error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+  if (existingRecipe.userId !== currentUser.id) {
+    throw new ForbiddenError('You can only delete your own recipes');
   }
-}
\ No newline at end of file
+
+  // Delete recipe (this will cascade to related tables due to foreign key constraints)
+  await db
+    .delete(recipes)
+    .where(eq(recipes.id, id));
+
+  return NextResponse.json({
+    message: 'Recipe deleted successfully',
+  });
+});
\ No newline at end of file
@@ -1,8 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { db } from '../../../../../lib/db';
 import { recipeFavorites, recipes } from '../../../../../lib/db/schema';
-import { requireAuth } from '../../../../../lib/auth';
+import { apiHandler, parseJsonBody, ConflictError, NotFoundError } from '../../../../../lib/api';
+import { isExternalRecipeId } from '../../../../../lib/recipe-providers';
 import { eq, and } from 'drizzle-orm';
 
 // ============================================================================
@@ -18,224 +19,146 @@ const favoriteSchema = z.object({
 // POST /api/recipes/[id]/favorite - Add to favorites
 // ============================================================================
 
-export async function POST(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const { id: recipeId } = params;
-    const currentUser = await requireAuth();
-
-    const body = await request.json().catch(() => ({}));
-    
-    // Validate request body
-    const validationResult = favoriteSchema.safeParse(body);
-    if (!validationResult.success) {
-      return NextResponse.json(
-        {
-          error: 'Validation failed',
-          details: validationResult.error.errors,
-        },
-        { status: 400 }
-      );
+export const POST = apiHandler<{ id: string }>({ auth: 'required', scope: 'recipes:write' }, async (request, { params, user: currentUser }) => {
+  const { id: recipeId } = params;
+
+  const body = await request.json().catch(() => ({}));
+  
+  // Validate request body
+  const { notes, rating } = favoriteSchema.parse(body);
+
+  // External recipes can still be favorited (they're stored as favorites without being in our recipes table)
+  if (!isExternalRecipeId(recipeId)) {
+    // Check if recipe exists for user recipes
+    const [existingRecipe] = await db
+      .select({ id: recipes.id, visibility: recipes.visibility, userId: recipes.userId })
+      .from(recipes)
+      .where(eq(recipes.id, recipeId))
+      .limit(1);
+
+    if (!existingRecipe) {
+      throw new NotFoundError('Recipe not found');
     }
 
-    const { notes, rating } = validationResult.data;
-
-    // For Spoonacular recipes, we still allow favoriting (they're stored as favorites without being in our recipes table)
-    const isSpoonacularRecipe = /^\d+$/.test(recipeId);
-    
-    if (!isSpoonacularRecipe) {
-      // Check if recipe exists for user recipes
-      const [existingRecipe] = await db
-        .select({ id: recipes.id, visibility: recipes.visibility, userId: recipes.userId })
-        .from(recipes)
-        .where(eq(recipes.id, recipeId))
-        .limit(1);
-
-      if (!existingRecipe) {
-        return NextResponse.json(
-          { error: 'Recipe not found' },
-          { status: 404 }
-        );
-      }
-
-      // Check if recipe is accessible to user
-      if (existingRecipe.visibility === 'private' && existingRecipe.userId !== currentUser.id) {
-        return NextResponse.json(
-          { error: 'Recipe not found' },
-          { status: 404 }
-        );
-      }
+    // Check if recipe is accessible to user
+    if (existingRecipe.visibility === 'private' && existingRecipe.userId !== currentUser.id) {
+      throw new NotFoundError('Recipe not found');
     }
+  }
 
-    // Check if already favorited
-    const [existingFavorite] = await db
-      .select({ id: recipeFavorites.id })
-      .from(recipeFavorites)
-      .where(
-        and(
-          eq(recipeFavorites.recipeId, recipeId),
-          eq(recipeFavorites.userId, currentUser.id)
-        )
+  // Check if already favorited
+  const [existingFavorite] = await db
+    .select({ id: recipeFavorites.id })
+    .from(recipeFavorites)
+    .where(
+      and(
+        eq(recipeFavorites.recipeId, recipeId),
+        eq(recipeFavorites.userId, currentUser.id)
       )
-      .limit(1);
-
-    if (existingFavorite) {
-      return NextResponse.json(
-        { error: 'Recipe is already in your favorites' },
-        { status: 409 }
-      );
-    }
+    )
+    .limit(1);
 
-    // Add to favorites
-    const [newFavorite] = await db
-      .insert(recipeFavorites)
-      .values({
-        recipeId,
-        userId: currentUser.id,
-        notes: notes || null,
-        rating: rating || null,
-      })
-      .returning();
-
-    return NextResponse.json({
-      message: 'Recipe added to favorites',
-      favorite: newFavorite,
-    });
-  } catch (error) {
-    console.error('Add favorite error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+  if (existingFavorite) {
+    throw new ConflictError('Recipe is already in your favorites');
   }
-}
+
+  // Add to favorites
+  const [newFavorite] = await db
+    .insert(recipeFavorites)
+    .values({
+      recipeId,
+      userId: currentUser.id,
+      notes: notes || null,
+      rating: rating || null,
+    })
+    .returning();
+
+  return NextResponse.json({
+    message: 'Recipe added to favorites',
+    favorite: newFavorite,
+  });
+});
 
 // ============================================================================
 // DELETE /api/recipes/[id]/favorite - Remove from favorites
 // ============================================================================
 
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const { id: recipeId } = params;
-    const currentUser = await requireAuth();
-
-    // Check if favorited
-    const [existingFavorite] = await db
-      .select({ id: recipeFavorites.id })
-      .from(recipeFavorites)
-      .where(
-        and(
-          eq(recipeFavorites.recipeId, recipeId),
-          eq(recipeFavorites.userId, currentUser.id)
-        )
+export const DELETE = apiHandler<{ id: string }>({ auth: 'required', scope: 'recipes:write' }, async (request, { params, user: currentUser }) => {
+  const { id: recipeId } = params;
+
+  // Check if favorited
+  const [existingFavorite] = await db
+    .select({ id: recipeFavorites.id })
+    .from(recipeFavorites)
+    .where(
+      and(
+        eq(recipeFavorites.recipeId, recipeId),
+        eq(recipeFavorites.userId, currentUser.id)
       )
-      .limit(1);
+    )
+    .limit(1);
 
-    if (!existingFavorite) {
-      return NextResponse.json(
-        { error: 'Recipe is not in your favorites' },
-        { status: 404 }
-      );
-    }
+  if (!existingFavorite) {
+    throw new NotFoundError('Recipe is not in your favorites');
+  }
 
-    // Remove from favorites
-    await db
-      .delete(recipeFavorites)
-      .where(
-        and(
-          eq(recipeFavorites.recipeId, recipeId),
-          eq(recipeFavorites.userId, currentUser.id)
-        )
-      );
-
-    return NextResponse.json({
-      message: 'Recipe removed from favorites',
-    });
-  } catch (error) {
-    console.error('Remove favorite error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
+  // Remove from favorites
+  await db
+    .delete(recipeFavorites)
+    .where(
+      and(
+        eq(recipeFavorites.recipeId, recipeId),
+        eq(recipeFavorites.userId, currentUser.id)
+      )
     );
-  }
-}
+
+  return NextResponse.json({
+    message: 'Recipe removed from favorites',
+  });
+});
 
 // ============================================================================
 // PUT /api/recipes/[id]/favorite - Update favorite
 // ============================================================================
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const { id: recipeId } = params;
-    const currentUser = await requireAuth();
-
-    const body = await request.json();
-    
-    // Validate request body
-    const validationResult = favoriteSchema.safeParse(body);
-    if (!validationResult.success) {
-      return NextResponse.json(
-        {
-          error: 'Validation failed',
-          details: validationResult.error.errors,
-        },
-        { status: 400 }
-      );
-    }
+export const PUT = apiHandler<{ id: string }>({ auth: 'required', scope: 'recipes:write' }, async (request, { params, user: currentUser }) => {
+  const { id: recipeId } = params;
+
+  const { notes, rating } = await parseJsonBody(request, favoriteSchema);
 
-    const { notes, rating } = validationResult.data;
-
-    // Check if favorited
-    const [existingFavorite] = await db
-      .select({ id: recipeFavorites.id })
-      .from(recipeFavorites)
-      .where(
-        and(
-          eq(recipeFavorites.recipeId, recipeId),
-          eq(recipeFavorites.userId, currentUser.id)
-        )
+  // Check if favorited
+  const [existingFavorite] = await db
+    .select({ id: recipeFavorites.id })
+    .from(recipeFavorites)
+    .where(
+      and(
+        eq(recipeFavorites.recipeId, recipeId),
+        eq(recipeFavorites.userId, currentUser.id)
       )
-      .limit(1);
+    )
+    .limit(1);
 
-    if (!existingFavorite) {
-      return NextResponse.json(
-        { error: 'Recipe is not in your favorites' },
-        { status: 404 }
-      );
-    }
+  if (!existingFavorite) {
+    throw new NotFoundError('Recipe is not in your favorites');
+  }
 
-    // Update favorite
-    const [updatedFavorite] = await db
-      .update(recipeFavorites)
-      .set({
-        notes: notes !== undefined ? notes : undefined,
-        rating: rating !== undefined ? rating : undefined,
-      })
-      .where(
-        and(
-          eq(recipeFavorites.recipeId, recipeId),
-          eq(recipeFavorites.userId, currentUser.id)
-        )
+  // Update favorite
+  const [updatedFavorite] = await db
+    .update(recipeFavorites)
+    .set({
+      notes: notes !== undefined ? notes : undefined,
+      rating: rating !== undefined ? rating : undefined,
+    })
+    .where(
+      and(
+        eq(recipeFavorites.recipeId, recipeId),
+        eq(recipeFavorites.userId, currentUser.id)
       )
-      .returning();
-
-    return NextResponse.json({
-      message: 'Favorite updated successfully',
-      favorite: updatedFavorite,
-    });
-  } catch (error) {
-    console.error('Update favorite error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+    )
+    .returning();
+
+  return NextResponse.json({
+    message: 'Favorite updated successfully',
+    favorite: updatedFavorite,
+  });
+});
\ No newline at end of file
@@ -1,315 +1,296 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { db } from '../../../../lib/db';
 import { recipes, recipeFavorites, recipeReviews, users } from '../../../../lib/db/schema';
-import { verifyBearerToken, requireAuth } from '../../../../lib/auth';
-import { getSpoonacularService } from '../../../../lib/spoonacular';
+import { AuthUser } from '../../../../lib/auth';
+import { apiHandler, parseJsonBody, ApiError, ForbiddenError, InternalServerError, NotFoundError } from '../../../../lib/api';
+import { getRecipeProvider, parseExternalRecipeId, parseLegacyRecipeId, isExternalRecipeId, ExternalRecipeRef } from '../../../../lib/recipe-providers';
+import { normalizeIngredient } from '../../../../lib/ingredients';
+import { recipeVisibleToSql } from '../../../../lib/recipe-search';
+import { scaleIngredients, convertIngredients, convertInstruction, UnitSystem } from '../../../../lib/units';
 import { eq, and, sql, avg, count } from 'drizzle-orm';
 
+const servingsSchema = z.coerce.number().int().min(1).max(100).optional();
+
 // ============================================================================
 // GET /api/recipes/[id]
 // ============================================================================
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: { id: string } }
-) {
-  try {
-    const { id } = params;
-    
-    // Get current user (optional)
-    const authHeader = request.headers.get('authorization');
-    const currentUser = authHeader ? await verifyBearerToken(authHeader) : null;
+export const GET = apiHandler<{ id: string }>({ auth: 'optional', scope: 'recipes:read' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
+  const measurementSystem = currentUser?.measurementSystem || 'us';
 
-    // Check if this is a Spoonacular recipe (numeric ID means it's from Spoonacular)
-    if (/^\d+$/.test(id)) {
-      return await getSpoonacularRecipe(id, currentUser);
-    }
+  // Optional serving count to scale ingredient quantities to
+  const servingsParam = request.nextUrl.searchParams.get('servings');
+  const servings = servingsSchema.parse(servingsParam ?? undefined);
 
-    // Query database recipe with additional data
-    const recipeQuery = db
-      .select({
-        // Recipe fields
-        id: recipes.id,
-        title: recipes.title,
-        description: recipes.description,
-        summary: recipes.summary,
-        userId: recipes.userId,
-        familyGroupId: recipes.familyGroupId,
-        spoonacularId: recipes.spoonacularId,
-        sourceType: recipes.sourceType,
-        sourceUrl: recipes.sourceUrl,
-        prepTimeMinutes: recipes.prepTimeMinutes,
-        cookTimeMinutes: recipes.cookTimeMinutes,
-        readyInMinutes: recipes.readyInMinutes,
-        servings: recipes.servings,
-        imageUrl: recipes.imageUrl,
-        mediaUrls: recipes.mediaUrls,
-        difficulty: recipes.difficulty,
-        healthScore: recipes.healthScore,
-        pricePerServing: recipes.pricePerServing,
-        isVegetarian: recipes.isVegetarian,
-        isVegan: recipes.isVegan,
-        isGlutenFree: recipes.isGlutenFree,
-        isDairyFree: recipes.isDairyFree,
-        isVeryHealthy: recipes.isVeryHealthy,
-        isCheap: recipes.isCheap,
-        isVeryPopular: recipes.isVeryPopular,
-        isSustainable: recipes.isSustainable,
-        weightWatcherSmartPoints: recipes.weightWatcherSmartPoints,
-        gaps: recipes.gaps,
-        fodmapFriendly: recipes.fodmapFriendly,
-        ketogenic: recipes.ketogenic,
-        whole30: recipes.whole30,
-        tags: recipes.tags,
-        dishTypes: recipes.dishTypes,
-        diets: recipes.diets,
-        occasions: recipes.occasions,
-        cuisine: recipes.cuisine,
-        ingredients: recipes.ingredients,
-        instructions: recipes.instructions,
-        equipment: recipes.equipment,
-        winePairing: recipes.winePairing,
-        taste: recipes.taste,
-        nutrition: recipes.nutrition,
-        visibility: recipes.visibility,
-        status: recipes.status,
-        createdAt: recipes.createdAt,
-        updatedAt: recipes.updatedAt,
-        
-        // Author info
-        authorUsername: users.username,
-        authorFirstName: users.firstName,
-        authorLastName: users.lastName,
-        authorAvatarUrl: users.avatarUrl,
-        
-        // User interaction flags
-        ...(currentUser ? {
-          isFavorited: sql<boolean>`EXISTS(
-            SELECT 1 FROM ${recipeFavorites} 
-            WHERE ${recipeFavorites.recipeId} = ${recipes.id} 
-            AND ${recipeFavorites.userId} = ${currentUser.id}
-          )`.as('is_favorited'),
-          userRating: sql<number | null>`(
-            SELECT rating FROM ${recipeReviews} 
-            WHERE ${recipeReviews.recipeId} = ${recipes.id} 
-            AND ${recipeReviews.userId} = ${currentUser.id}
-          )`.as('user_rating'),
-        } : {}),
-      })
-      .from(recipes)
-      .leftJoin(users, eq(recipes.userId, users.id))
-      .where(eq(recipes.id, id));
-
-    const recipeResult = await recipeQuery;
-
-    if (recipeResult.length === 0) {
-      return NextResponse.json(
-        { error: 'Recipe not found' },
-        { status: 404 }
-      );
+  // External recipes are addressed as "<provider>:<id>"
+  const externalRef = parseExternalRecipeId(id);
+  if (externalRef) {
+    return await getExternalRecipe(externalRef, currentUser, servings, measurementSystem);
+  }
+
+  // Query database recipe with additional data
+  const recipeQuery = db
+    .select({
+      // Recipe fields
+      id: recipes.id,
+      title: recipes.title,
+      description: recipes.description,
+      summary: recipes.summary,
+      userId: recipes.userId,
+      familyGroupId: recipes.familyGroupId,
+      spoonacularId: recipes.spoonacularId,
+      sourceType: recipes.sourceType,
+      sourceUrl: recipes.sourceUrl,
+      prepTimeMinutes: recipes.prepTimeMinutes,
+      cookTimeMinutes: recipes.cookTimeMinutes,
+      readyInMinutes: recipes.readyInMinutes,
+      servings: recipes.servings,
+      imageUrl: recipes.imageUrl,
+      mediaUrls: recipes.mediaUrls,
+      difficulty: recipes.difficulty,
+      healthScore: recipes.healthScore,
+      pricePerServing: recipes.pricePerServing,
+      isVegetarian: recipes.isVegetarian,
+      isVegan: recipes.isVegan,
+      isGlutenFree: recipes.isGlutenFree,
+      isDairyFree: recipes.isDairyFree,
+      isVeryHealthy: recipes.isVeryHealthy,
+      isCheap: recipes.isCheap,
+      isVeryPopular: recipes.isVeryPopular,
+      isSustainable: recipes.isSustainable,
+      weightWatcherSmartPoints: recipes.weightWatcherSmartPoints,
+      gaps: recipes.gaps,
+      fodmapFriendly: recipes.fodmapFriendly,
+      ketogenic: recipes.ketogenic,
+      whole30: recipes.whole30,
+      tags: recipes.tags,
+      dishTypes: recipes.dishTypes,
+      diets: recipes.diets,
+      occasions: recipes.occasions,
+      cuisine: recipes.cuisine,
+      ingredients: recipes.ingredients,
+      instructions: recipes.instructions,
+      equipment: recipes.equipment,
+      winePairing: recipes.winePairing,
+      taste: recipes.taste,
+      nutrition: recipes.nutrition,
+      visibility: recipes.visibility,
+      status: recipes.status,
+      createdAt: recipes.createdAt,
+      updatedAt: recipes.updatedAt,
+      
+      // Author info
+      authorUsername: users.username,
+      authorFirstName: users.firstName,
+      authorLastName: users.lastName,
+      authorAvatarUrl: users.avatarUrl,
+      
+      // User interaction flags
+      ...(currentUser ? {
+        isFavorited: sql<boolean>`EXISTS(
+          SELECT 1 FROM ${recipeFavorites} 
+          WHERE ${recipeFavorites.recipeId} = ${recipes.id} 
+          AND ${recipeFavorites.userId} = ${currentUser.id}
+        )`.as('is_favorited'),
+        userRating: sql<number | null>`(
+          SELECT rating FROM ${recipeReviews} 
+          WHERE ${recipeReviews.recipeId} = ${recipes.id} 
+          AND ${recipeReviews.userId} = ${currentUser.id}
+        )`.as('user_rating'),
+      } : {}),
+    })
+    .from(recipes)
+    .leftJoin(users, eq(recipes.userId, users.id))
+    .where(eq(recipes.id, id));
+
+  const recipeResult = await recipeQuery;
+
+  if (recipeResult.length === 0) {
+    // Older links address Spoonacular recipes by bare id, when no local recipe has it
+    const legacyRef = parseLegacyRecipeId(id);
+    if (legacyRef) {
+      return await getExternalRecipe(legacyRef, currentUser, servings, measurementSystem);
     }
+    throw new NotFoundError('Recipe not found');
+  }
 
-    const recipe = recipeResult[0];
+  const recipe = recipeResult[0];
 
-    // Check visibility permissions
-    if (recipe.visibility === 'private' && (!currentUser || recipe.userId !== currentUser.id)) {
-      return NextResponse.json(
-        { error: 'Recipe not found' },
-        { status: 404 }
-      );
-    }
+  // Check visibility permissions
+  if (recipe.visibility === 'private' && (!currentUser || recipe.userId !== currentUser.id)) {
+    throw new NotFoundError('Recipe not found');
+  }
 
-    if (recipe.visibility === 'family') {
-      // TODO: Check family group membership when we implement family features
-      if (!currentUser || recipe.userId !== currentUser.id) {
-        return NextResponse.json(
-          { error: 'Recipe not found' },
-          { status: 404 }
-        );
-      }
+  // Family recipes are shared with everyone in the owner's family groups
+  if (recipe.visibility === 'family' && (!currentUser || recipe.userId !== currentUser.id)) {
+    const [visible] = currentUser
+      ? await db
+          .select({ id: recipes.id })
+          .from(recipes)
+          .where(and(eq(recipes.id, recipe.id), recipeVisibleToSql(currentUser.id)))
+          .limit(1)
+      : [];
+    if (!visible) {
+      throw new NotFoundError('Recipe not found');
     }
-
-    // Get recipe statistics
-    const statsQuery = db
-      .select({
-        averageRating: avg(recipeReviews.rating),
-        reviewCount: count(recipeReviews.id),
-        favoriteCount: sql<number>`(
-          SELECT COUNT(*) FROM ${recipeFavorites} 
-          WHERE ${recipeFavorites.recipeId} = ${recipe.id}
-        )`.as('favorite_count'),
-      })
-      .from(recipeReviews)
-      .where(eq(recipeReviews.recipeId, recipe.id));
-
-    const [stats] = await statsQuery;
-
-    // Get recent reviews (limit 5)
-    const recentReviews = await db
-      .select({
-        id: recipeReviews.id,
-        rating: recipeReviews.rating,
-        review: recipeReviews.review,
-        madeModifications: recipeReviews.madeModifications,
-        modifications: recipeReviews.modifications,
-        wouldMakeAgain: recipeReviews.wouldMakeAgain,
-        difficultyRating: recipeReviews.difficultyRating,
-        actualCookTime: recipeReviews.actualCookTime,
-        createdAt: recipeReviews.createdAt,
-        // Reviewer info
-        reviewerUsername: users.username,
-        reviewerFirstName: users.firstName,
-        reviewerLastName: users.lastName,
-        reviewerAvatarUrl: users.avatarUrl,
-      })
-      .from(recipeReviews)
-      .leftJoin(users, eq(recipeReviews.userId, users.id))
-      .where(eq(recipeReviews.recipeId, recipe.id))
-      .orderBy(sql`${recipeReviews.createdAt} DESC`)
-      .limit(5);
-
-    // Build response
-    const response = {
-      ...recipe,
-      author: {
-        username: recipe.authorUsername,
-        firstName: recipe.authorFirstName,
-        lastName: recipe.authorLastName,
-        avatarUrl: recipe.authorAvatarUrl,
-      },
-      stats: {
-        averageRating: stats.averageRating ? Number(stats.averageRating) : null,
-        reviewCount: Number(stats.reviewCount),
-        favoriteCount: Number(stats.favoriteCount),
-      },
-      recentReviews,
-      // Remove individual author fields from root
-      authorUsername: undefined,
-      authorFirstName: undefined,
-      authorLastName: undefined,
-      authorAvatarUrl: undefined,
-    };
-
-    return NextResponse.json({ recipe: response });
-  } catch (error) {
-    console.error('Get recipe error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
   }
-}
+
+  // Get recipe statistics
+  const statsQuery = db
+    .select({
+      averageRating: avg(recipeReviews.rating),
+      reviewCount: count(recipeReviews.id),
+      favoriteCount: sql<number>`(
+        SELECT COUNT(*) FROM ${recipeFavorites} 
+        WHERE ${recipeFavorites.recipeId} = ${recipe.id}
+      )`.as('favorite_count'),
+    })
+    .from(recipeReviews)
+    .where(eq(recipeReviews.recipeId, recipe.id));
+
+  const [stats] = await statsQuery;
+
+  // Get recent reviews (limit 5)
+  const recentReviews = await db
+    .select({
+      id: recipeReviews.id,
+      rating: recipeReviews.rating,
+      review: recipeReviews.review,
+      madeModifications: recipeReviews.madeModifications,
+      modifications: recipeReviews.modifications,
+      wouldMakeAgain: recipeReviews.wouldMakeAgain,
+      difficultyRating: recipeReviews.difficultyRating,
+      actualCookTime: recipeReviews.actualCookTime,
+      createdAt: recipeReviews.createdAt,
+      // Reviewer info
+      reviewerUsername: users.username,
+      reviewerFirstName: users.firstName,
+      reviewerLastName: users.lastName,
+      reviewerAvatarUrl: users.avatarUrl,
+    })
+    .from(recipeReviews)
+    .leftJoin(users, eq(recipeReviews.userId, users.id))
+    .where(eq(recipeReviews.recipeId, recipe.id))
+    .orderBy(sql`${recipeReviews.createdAt} DESC`)
+    .limit(5);
+
+  // Build response
+  const response = {
+    ...recipe,
+    author: {
+      username: recipe.authorUsername,
+      firstName: recipe.authorFirstName,
+      lastName: recipe.authorLastName,
+      avatarUrl: recipe.authorAvatarUrl,
+    },
+    stats: {
+      averageRating: stats.averageRating ? Number(stats.averageRating) : null,
+      reviewCount: Number(stats.reviewCount),
+      favoriteCount: Number(stats.favoriteCount),
+    },
+    recentReviews,
+    // Remove individual author fields from root
+    authorUsername: undefined,
+    authorFirstName: undefined,
+    authorLastName: undefined,
+    authorAvatarUrl: undefined,
+  };
+
+  return NextResponse.json({ recipe: applyMeasurementSystem(applyServings(response, servings), measurementSystem) });
+});
 
 // ============================================================================
-// Spoonacular Recipe Helper
+// External Recipe Helper
 // ============================================================================
 
-async function getSpoonacularRecipe(id: string, currentUser: any) {
-  try {
-    const spoonacularId = parseInt(id);
-    const spoonacularService = getSpoonacularService();
-    
-    const spoonRecipe = await spoonacularService.getRecipeInformation(spoonacularId, true);
-    
-    // Transform to our format
-    const recipe = {
-      id,
-      title: spoonRecipe.title,
-      description: stripHtml(spoonRecipe.summary),
-      summary: truncateText(stripHtml(spoonRecipe.summary), 200),
-      userId: null,
-      familyGroupId: null,
-      spoonacularId: spoonRecipe.id,
-      sourceType: 'spoonacular',
-      sourceUrl: spoonRecipe.sourceUrl,
-      prepTimeMinutes: spoonRecipe.preparationMinutes || null,
-      cookTimeMinutes: spoonRecipe.cookingMinutes || null,
-      readyInMinutes: spoonRecipe.readyInMinutes,
-      servings: spoonRecipe.servings,
-      imageUrl: spoonRecipe.image,
-      mediaUrls: spoonRecipe.image ? [spoonRecipe.image] : [],
-      difficulty: null,
-      healthScore: spoonRecipe.healthScore,
-      pricePerServing: (spoonRecipe.pricePerServing / 100).toString(),
-      isVegetarian: spoonRecipe.vegetarian,
-      isVegan: spoonRecipe.vegan,
-      isGlutenFree: spoonRecipe.glutenFree,
-      isDairyFree: spoonRecipe.dairyFree,
-      isVeryHealthy: spoonRecipe.veryHealthy,
-      isCheap: spoonRecipe.cheap,
-      isVeryPopular: spoonRecipe.veryPopular,
-      isSustainable: spoonRecipe.sustainable,
-      weightWatcherSmartPoints: spoonRecipe.weightWatcherSmartPoints || null,
-      gaps: spoonRecipe.gaps || null,
-      fodmapFriendly: spoonRecipe.lowFodmap,
-      ketogenic: spoonRecipe.diets?.includes('ketogenic') || false,
-      whole30: spoonRecipe.diets?.includes('whole 30') || false,
-      tags: extractTags(spoonRecipe),
-      dishTypes: spoonRecipe.dishTypes || [],
-      diets: spoonRecipe.diets || [],
-      occasions: spoonRecipe.occasions || [],
-      cuisine: spoonRecipe.cuisines?.[0] || null,
-      ingredients: transformIngredients(spoonRecipe.extendedIngredients || []),
-      instructions: transformInstructions(spoonRecipe.analyzedInstructions || []),
-      equipment: transformEquipment(spoonRecipe.analyzedInstructions || []),
-      winePairing: spoonRecipe.winePairing || null,
-      taste: spoonRecipe.taste || null,
-      nutrition: transformNutrition(spoonRecipe.nutrition),
-      visibility: 'public',
-      status: 'published',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      author: {
-        username: 'spoonacular',
-        firstName: 'Spoonacular',
-        lastName: 'API',
-        avatarUrl: null,
-      },
-      stats: {
-        averageRating: null,
-        reviewCount: 0,
-        favoriteCount: 0,
-      },
-      recentReviews: [],
-      // User interaction flags
-      isFavorited: currentUser ? await checkIsFavorited(spoonacularId.toString(), currentUser.id) : false,
-      userRating: null,
-    };
-
-    console.log('Spoonacular recipe fetched:', recipe.title);
+async function getExternalRecipe(ref: ExternalRecipeRef, currentUser: AuthUser | null, servings: number | undefined, measurementSystem: UnitSystem) {
+  const provider = getRecipeProvider(ref.provider);
+  if (!provider) {
+    throw new NotFoundError('Recipe not found');
+  }
 
-    return NextResponse.json({ recipe });
+  let externalRecipe;
+  try {
+    externalRecipe = await provider.getById(ref.externalId, { includeNutrition: true });
   } catch (error) {
-    console.error('Spoonacular recipe fetch error:', error);
-    
+    console.error('External recipe fetch error:', error);
+
     // Check if it's a rate limit or API key issue
     if (error instanceof Error) {
       if (error.message.includes('Rate limit')) {
-        return NextResponse.json(
-          { error: 'Recipe service is temporarily unavailable due to rate limits' },
-          { status: 429 }
-        );
+        throw new ApiError(429, 'RATE_LIMITED', 'Recipe service is temporarily unavailable due to rate limits');
       }
       if (error.message.includes('API request failed')) {
-        return NextResponse.json(
-          { error: 'Recipe not found or service unavailable' },
-          { status: 404 }
-        );
+        throw new NotFoundError('Recipe not found or service unavailable');
       }
     }
-    
-    return NextResponse.json(
-      { error: 'Failed to fetch recipe from external source', details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    );
+
+    throw new InternalServerError('Failed to fetch recipe from external source');
+  }
+
+  if (!externalRecipe) {
+    throw new NotFoundError('Recipe not found');
   }
+
+  const transformed = provider.transformToRecipe(externalRecipe, { unitSystem: measurementSystem });
+  const recipe = {
+    ...transformed,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    author: {
+      username: provider.name,
+      firstName: provider.label,
+      lastName: null,
+      avatarUrl: null,
+    },
+    stats: {
+      averageRating: null,
+      reviewCount: 0,
+      favoriteCount: 0,
+    },
+    recentReviews: [],
+    // User interaction flags
+    isFavorited: currentUser ? await checkIsFavorited(transformed.id, currentUser.id) : false,
+    userRating: null,
+  };
+
+  return NextResponse.json({ recipe: applyMeasurementSystem(applyServings(recipe, servings), measurementSystem) });
 }
 
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
+/**
+ * Scales ingredient quantities to the requested serving count, keeping the original for reference.
+ */
+function applyServings<T extends { servings?: number | null; ingredients?: any[] | null }>(recipe: T, servings?: number) {
+  if (!servings || !recipe.servings) {
+    return { ...recipe, originalServings: recipe.servings };
+  }
+
+  return {
+    ...recipe,
+    servings,
+    originalServings: recipe.servings,
+    ingredients: scaleIngredients(recipe.ingredients || [], recipe.servings, servings),
+  };
+}
+
+/**
+ * Converts ingredient quantities and oven temperatures to the viewer's measurement system.
+ */
+function applyMeasurementSystem<T extends { ingredients?: any[] | null; instructions?: any[] | null }>(recipe: T, measurementSystem: UnitSystem) {
+  return {
+    ...recipe,
+    ingredients: convertIngredients(recipe.ingredients || [], measurementSystem),
+    instructions: (recipe.instructions || []).map(instruction => convertInstruction(instruction, measurementSystem)),
+    measurementSystem,
+  };
+}
+
 async function checkIsFavorited(recipeId: string, userId: string): Promise<boolean> {
   try {
     const [favorite] = await db
@@ -330,128 +311,13 @@ async function checkIsFavorited(recipeId: string, userId: string): Promise<boole
   }
 }
 
-function stripHtml(html: string): string {
-  return html.replace(/<[^>]*>/g, '').trim();
-}
-
-function truncateText(text: string, maxLength: number): string {
-  if (text.length <= maxLength) return text;
-  return text.substring(0, maxLength).replace(/\s+\S*$/, '') + '...';
-}
-
-function extractTags(recipe: any): string[] {
-  const tags: string[] = [];
-  
-  if (recipe.dishTypes) tags.push(...recipe.dishTypes);
-  if (recipe.cuisines) tags.push(...recipe.cuisines);
-  
-  if (recipe.readyInMinutes <= 20) tags.push('quick');
-  else if (recipe.readyInMinutes >= 60) tags.push('slow');
-  
-  if (recipe.veryHealthy) tags.push('healthy');
-  if (recipe.cheap) tags.push('budget-friendly');
-  if (recipe.veryPopular) tags.push('popular');
-  if (recipe.sustainable) tags.push('sustainable');
-  
-  return Array.from(new Set(tags));
-}
-
-function transformIngredients(ingredients: any[]) {
-  return ingredients.map(ingredient => ({
-    name: ingredient.nameClean || ingredient.name,
-    amount: ingredient.amount.toString(),
-    unit: ingredient.measures.us.unitShort,
-    notes: ingredient.original,
-    category: ingredient.aisle?.toLowerCase() || 'pantry',
-  }));
-}
-
-function transformInstructions(instructions: any[]) {
-  const steps: Array<{
-    step: number;
-    instruction: string;
-    time?: number;
-    temperature?: { value: number; unit: 'F' | 'C' };
-  }> = [];
-
-  instructions.forEach(instructionGroup => {
-    instructionGroup.steps.forEach((step: any) => {
-      steps.push({
-        step: step.number,
-        instruction: step.step,
-        time: step.length?.number,
-        temperature: step.temperature ? {
-          value: step.temperature.number,
-          unit: step.temperature.unit === 'Fahrenheit' ? 'F' : 'C',
-        } : undefined,
-      });
-    });
-  });
-
-  return steps;
-}
-
-function transformEquipment(instructions: any[]) {
-  const equipmentSet = new Set<string>();
-  const equipment: Array<{
-    name: string;
-    imageUrl?: string;
-    spoonacularId?: number;
-  }> = [];
-
-  instructions.forEach(instructionGroup => {
-    instructionGroup.steps.forEach((step: any) => {
-      step.equipment?.forEach((eq: any) => {
-        if (!equipmentSet.has(eq.name)) {
-          equipmentSet.add(eq.name);
-          equipment.push({
-            name: eq.name,
-            imageUrl: `https://spoonacular.com/cdn/equipment_100x100/${eq.image}`,
-            spoonacularId: eq.id,
-          });
-        }
-      });
-    });
-  });
-
-  return equipment;
-}
-
-function transformNutrition(nutrition?: any) {
-  if (!nutrition?.nutrients) return null;
-
-  const nutritionMap: Record<string, string> = {
-    'Calories': 'calories',
-    'Fat': 'fat',
-    'Saturated Fat': 'saturatedFat',
-    'Carbohydrates': 'carbohydrates',
-    'Net Carbohydrates': 'netCarbohydrates',
-    'Sugar': 'sugar',
-    'Cholesterol': 'cholesterol',
-    'Sodium': 'sodium',
-    'Protein': 'protein',
-    'Fiber': 'fiber',
-  };
-
-  const result: Record<string, number> = {};
-  
-  nutrition.nutrients.forEach((nutrient: any) => {
-    const key = nutritionMap[nutrient.name];
-    if (key) {
-      result[key] = nutrient.amount;
-    }
-  });
-
-  return result;
-}
-
 // ============================================================================
 // Validation Schemas for Updates
 // ============================================================================
 
 const ingredientSchema = z.object({
   name: z.string().min(1, 'Ingredient name is required'),
-  amount: z.string().min(1, 'Amount is required'),
+  amount: z.string().default(''),
   unit: z.string(),
   notes: z.string().optional(),
   category: z.string().optional(),
@@ -506,128 +372,85 @@ const updateRecipeSchema = z.object({
 // PUT /api/recipes/[id] - Update recipe
 // ============================================================================
 
-export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
-  try {
-    const currentUser = await requireAuth();
-    const { id } = params;
-    
-    // Only allow editing user-created recipes (not Spoonacular recipes)
-    if (/^\d+$/.test(id)) {
-      return NextResponse.json(
-        { error: 'Cannot edit external recipes' },
-        { status: 403 }
-      );
-    }
-    
-    const body = await request.json();
-
-    // Validate request body
-    const validationResult = updateRecipeSchema.safeParse(body);
-    if (!validationResult.success) {
-      return NextResponse.json(
-        {
-          error: 'Validation failed',
-          details: validationResult.error.errors,
-        },
-        { status: 400 }
-      );
-    }
-
-    const data = validationResult.data;
-
-    // Check if recipe exists and user owns it
-    const existingRecipe = await db
-      .select()
-      .from(recipes)
-      .where(and(
-        eq(recipes.id, id),
-        eq(recipes.userId, currentUser.id)
-      ))
-      .limit(1);
-
-    if (existingRecipe.length === 0) {
-      return NextResponse.json(
-        { error: 'Recipe not found or access denied' },
-        { status: 404 }
-      );
-    }
-
-    // Calculate ready time if timing fields are provided
-    const readyInMinutes = (data.prepTimeMinutes && data.cookTimeMinutes) 
-      ? data.prepTimeMinutes + data.cookTimeMinutes 
-      : data.cookTimeMinutes || data.prepTimeMinutes || existingRecipe[0].readyInMinutes;
-
-    // Update recipe
-    const [updatedRecipe] = await db
-      .update(recipes)
-      .set({
-        ...data,
-        readyInMinutes,
-        updatedAt: new Date(),
-      })
-      .where(eq(recipes.id, id))
-      .returning();
-
-    return NextResponse.json({
-      message: 'Recipe updated successfully',
-      recipe: updatedRecipe,
-    });
-  } catch (error) {
-    console.error('Update recipe error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+export const PUT = apiHandler<{ id: string }>({ auth: 'required', scope: 'recipes:write' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
+  
+  // Only allow editing user-created recipes (not external ones)
+  if (isExternalRecipeId(id)) {
+    throw new ForbiddenError('Cannot edit external recipes');
+  }
+  
+  const data = await parseJsonBody(request, updateRecipeSchema);
+
+  // Check if recipe exists and user owns it
+  const existingRecipe = await db
+    .select()
+    .from(recipes)
+    .where(and(
+      eq(recipes.id, id),
+      eq(recipes.userId, currentUser.id)
+    ))
+    .limit(1);
+
+  if (existingRecipe.length === 0) {
+    throw new NotFoundError('Recipe not found or access denied');
   }
-}
+
+  // Calculate ready time if timing fields are provided
+  const readyInMinutes = (data.prepTimeMinutes && data.cookTimeMinutes) 
+    ? data.prepTimeMinutes + data.cookTimeMinutes 
+    : data.cookTimeMinutes || data.prepTimeMinutes || existingRecipe[0].readyInMinutes;
+
+  // Update recipe
+  const [updatedRecipe] = await db
+    .update(recipes)
+    .set({
+      ...data,
+      ...(data.ingredients && { ingredients: data.ingredients.map(normalizeIngredient) }),
+      readyInMinutes,
+      updatedAt: new Date(),
+    })
+    .where(eq(recipes.id, id))
+    .returning();
+
+  return NextResponse.json({
+    message: 'Recipe updated successfully',
+    recipe: updatedRecipe,
+  });
+});
 
 // ============================================================================
 // DELETE /api/recipes/[id] - Delete recipe
 // ============================================================================
 
-export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
-  try {
-    const currentUser = await requireAuth();
-    const { id } = params;
-
-    // Only allow deleting user-created recipes (not Spoonacular recipes)
-    if (/^\d+$/.test(id)) {
-      return NextResponse.json(
-        { error: 'Cannot delete external recipes' },
-        { status: 403 }
-      );
-    }
+export const DELETE = apiHandler<{ id: string }>({ auth: 'required', scope: 'recipes:write' }, async (request, { params, user: currentUser }) => {
+  const { id } = params;
 
-    // Check if recipe exists and user owns it
-    const existingRecipe = await db
-      .select()
-      .from(recipes)
-      .where(and(
-        eq(recipes.id, id),
-        eq(recipes.userId, currentUser.id)
-      ))
-      .limit(1);
+  // Only allow deleting user-created recipes (not external ones)
+  if (isExternalRecipeId(id)) {
+    throw new ForbiddenError('Cannot delete external recipes');
+  }
 
-    if (existingRecipe.length === 0) {
-      return NextResponse.json(
-        { error: 'Recipe not found or access denied' },
-        { status: 404 }
-      );
-    }
+  // Check if recipe exists and user owns it
+  const existingRecipe = await db
+    .select()
+    .from(recipes)
+    .where(and(
+      eq(recipes.id, id),
+      eq(recipes.userId, currentUser.id)
+    ))
+    .limit(1);
+
+  if (existingRecipe.length === 0) {
+    throw new NotFoundError('Recipe not found or access denied');
+  }
 
-    // Delete recipe
-    await db
-      .delete(recipes)
-      .where(eq(recipes.id, id));
+  // Delete recipe
+  await db
+    .delete(recipes)
+    .where(eq(recipes.id, id));
 
-    return NextResponse.json({
-      message: 'Recipe deleted successfully'
-    });
-  } catch (error) {
-    console.error('Delete recipe error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+  return NextResponse.json({
+    message: 'Recipe deleted successfully'
+  });
+});
\ No newline at end of file
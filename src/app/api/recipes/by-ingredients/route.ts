@@ -0,0 +1,130 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '../../../../lib/db';
+import { recipes } from '../../../../lib/db/schema';
+import { apiHandler, ValidationError } from '../../../../lib/api';
+import { SpoonacularQuotaError } from '../../../../lib/spoonacular';
+import { getDefaultRecipeProvider } from '../../../../lib/recipe-providers';
+import { ingredientKey } from '../../../../lib/ingredients';
+import {
+  IngredientCoverage,
+  parseList,
+  hasIngredientSql,
+  recipeVisibleToSql,
+  scoreIngredientCoverage,
+  compareIngredientCoverage,
+} from '../../../../lib/recipe-search';
+import { eq, and, or, desc } from 'drizzle-orm';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const byIngredientsSchema = z.object({
+  ingredients: z.string().refine(value => parseList(value).length > 0, 'At least one ingredient is required'), // comma-separated
+  source: z.enum(['all', 'user', 'spoonacular']).default('all'), // 'spoonacular' searches the configured external provider
+  limit: z.coerce.number().positive().max(50).default(12),
+});
+
+// Local recipes sharing at least one ingredient are scored in memory; this caps how many
+const CANDIDATE_LIMIT = 200;
+
+interface CookableRecipe extends IngredientCoverage {
+  id: string;
+  title: string;
+  imageUrl: string | null;
+  readyInMinutes: number | null;
+  servings: number | null;
+  sourceType: string | null;
+}
+
+// ============================================================================
+// GET /api/recipes/by-ingredients - Recipes ranked by how much is already on hand
+// ============================================================================
+
+export const GET = apiHandler({ auth: 'optional', scope: 'recipes:read' }, async (request, { user: currentUser }) => {
+  const { searchParams } = new URL(request.url);
+  const validationResult = byIngredientsSchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!validationResult.success) {
+    throw new ValidationError(validationResult.error.errors, 'Invalid search parameters');
+  }
+
+  const params = validationResult.data;
+  const onHand = parseList(params.ingredients);
+  const onHandKeys = onHand.map(ingredientKey).filter(Boolean);
+
+  let externalRecipes: CookableRecipe[] = [];
+  let degraded = false;
+  if (params.source !== 'user') {
+    try {
+      externalRecipes = await findExternalRecipes(onHand, params.limit);
+    } catch (error) {
+      // Out of quota, even an external-only search answers with local recipes
+      if (error instanceof SpoonacularQuotaError) {
+        degraded = true;
+      } else if (params.source === 'spoonacular') {
+        throw error;
+      } else {
+        // Local matches are still worth showing when the provider is unavailable
+        console.error('External ingredient search error:', error);
+      }
+    }
+  }
+
+  let localRecipes: CookableRecipe[] = [];
+  if (params.source !== 'spoonacular' || degraded) {
+    localRecipes = await findLocalRecipes(onHand, onHandKeys, currentUser?.id);
+  }
+
+  const results = [...localRecipes, ...externalRecipes]
+    .sort(compareIngredientCoverage)
+    .slice(0, params.limit);
+
+  return NextResponse.json({
+    recipes: results,
+    ingredients: onHand,
+    stats: {
+      localRecipes: localRecipes.length,
+      spoonacularRecipes: externalRecipes.length,
+    },
+    ...(degraded ? { degraded: true } : {}),
+  });
+});
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+async function findLocalRecipes(onHand: string[], onHandKeys: string[], userId?: string): Promise<CookableRecipe[]> {
+  const candidates = await db
+    .select({
+      id: recipes.id,
+      title: recipes.title,
+      imageUrl: recipes.imageUrl,
+      readyInMinutes: recipes.readyInMinutes,
+      servings: recipes.servings,
+      sourceType: recipes.sourceType,
+      ingredients: recipes.ingredients,
+    })
+    .from(recipes)
+    .where(
+      and(
+        recipeVisibleToSql(userId),
+        eq(recipes.status, 'published'),
+        or(...onHand.map(hasIngredientSql))
+      )
+    )
+    .orderBy(desc(recipes.updatedAt))
+    .limit(CANDIDATE_LIMIT);
+
+  return candidates.map(({ ingredients, ...recipe }) => ({
+    ...recipe,
+    ...scoreIngredientCoverage(ingredients, onHandKeys),
+  }));
+}
+
+async function findExternalRecipes(onHand: string[], limit: number): Promise<CookableRecipe[]> {
+  const provider = getDefaultRecipeProvider();
+  return provider.findByIngredients ? provider.findByIngredients(onHand, limit) : [];
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { apiHandler, parseJsonBody, ApiError } from '../../../../lib/api';
+import { importRecipeFromUrl, importRecipeFromHtml } from '../../../../lib/recipe-import';
+
+// ============================================================================
+// Validation Schema
+// ============================================================================
+
+const importRecipeSchema = z.object({
+  url: z.string().url('Please enter a valid URL').optional(),
+  html: z.string().min(1).max(5 * 1024 * 1024, 'HTML is too large').optional(),
+}).refine(data => data.url || data.html, {
+  message: 'Either url or html is required',
+  path: ['url'],
+});
+
+// ============================================================================
+// POST /api/recipes/import - Extract a recipe draft from a web page
+// ============================================================================
+
+export const POST = apiHandler({ auth: 'required', scope: 'recipes:write' }, async (request, { user: currentUser }) => {
+  const { url, html } = await parseJsonBody(request, importRecipeSchema);
+
+  // Raw HTML takes precedence so clients can import pages they already fetched
+  const result = html
+    ? importRecipeFromHtml(html, currentUser.id, url)
+    : await importRecipeFromUrl(url!, currentUser.id);
+
+  if ('error' in result) {
+    const statusCode = result.error.code === 'FETCH_FAILED' ? 502 : 422;
+    throw new ApiError(statusCode, result.error.code, result.error.message);
+  }
+
+  // The draft is not saved; the client reviews it and submits via POST /api/recipes
+  return NextResponse.json({
+    message: 'Recipe extracted successfully',
+    recipe: result.recipe,
+  });
+});
@@ -1,8 +1,9 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { db } from '../../../lib/db';
 import { recipes } from '../../../lib/db/schema';
-import { verifyBearerToken, requireAuth } from '../../../lib/auth';
+import { apiHandler, parseJsonBody } from '../../../lib/api';
+import { normalizeIngredient } from '../../../lib/ingredients';
 import { eq, desc, and } from 'drizzle-orm';
 
 // ============================================================================
@@ -11,7 +12,7 @@ import { eq, desc, and } from 'drizzle-orm';
 
 const ingredientSchema = z.object({
   name: z.string().min(1, 'Ingredient name is required'),
-  amount: z.string().min(1, 'Amount is required'),
+  amount: z.string().default(''),
   unit: z.string(),
   notes: z.string().optional(),
   category: z.string().optional(),
@@ -39,6 +40,10 @@ const createRecipeSchema = z.object({
   summary: z.string().optional(),
   familyGroupId: z.string().optional(),
   
+  // Source tracking (imported recipes keep a link to the original page)
+  sourceType: z.enum(['user', 'scraped']).default('user'),
+  sourceUrl: z.string().url().optional().nullable(),
+  
   // Timing
   prepTimeMinutes: z.number().positive().optional().nullable(),
   cookTimeMinutes: z.number().positive().optional().nullable(),
@@ -80,181 +85,144 @@ const createRecipeSchema = z.object({
 // GET /api/recipes - Get user's recipes
 // ============================================================================
 
-export async function GET(request: NextRequest) {
-  try {
-    // Require authentication
-    const currentUser = await requireAuth();
-
-    const { searchParams } = new URL(request.url);
-    const status = searchParams.get('status'); // draft, published, archived
-    const visibility = searchParams.get('visibility'); // public, family, private
-    const limit = parseInt(searchParams.get('limit') || '20');
-    const offset = parseInt(searchParams.get('offset') || '0');
-
-    // Build all conditions upfront
-    const whereConditions = [eq(recipes.userId, currentUser.id)];
-    
-    if (status) {
-      whereConditions.push(eq(recipes.status, status as any));
-    }
-    
-    if (visibility) {
-      whereConditions.push(eq(recipes.visibility, visibility as any));
-    }
-
-    // Build complete query
-    const query = db
-      .select({
-        id: recipes.id,
-        title: recipes.title,
-        description: recipes.description,
-        summary: recipes.summary,
-        imageUrl: recipes.imageUrl,
-        cookTimeMinutes: recipes.cookTimeMinutes,
-        prepTimeMinutes: recipes.prepTimeMinutes,
-        readyInMinutes: recipes.readyInMinutes,
-        servings: recipes.servings,
-        healthScore: recipes.healthScore,
-        difficulty: recipes.difficulty,
-        cuisine: recipes.cuisine,
-        tags: recipes.tags,
-        dishTypes: recipes.dishTypes,
-        diets: recipes.diets,
-        isVegetarian: recipes.isVegetarian,
-        isVegan: recipes.isVegan,
-        isGlutenFree: recipes.isGlutenFree,
-        isDairyFree: recipes.isDairyFree,
-        sourceType: recipes.sourceType,
-        visibility: recipes.visibility,
-        status: recipes.status,
-        createdAt: recipes.createdAt,
-        updatedAt: recipes.updatedAt,
-      })
-      .from(recipes)
-      .where(and(...whereConditions))
-      .orderBy(desc(recipes.updatedAt))
-      .limit(limit)
-      .offset(offset);
-
-    const userRecipes = await query;
+export const GET = apiHandler({ auth: 'required', scope: 'recipes:read' }, async (request, { user: currentUser }) => {
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status'); // draft, published, archived
+  const visibility = searchParams.get('visibility'); // public, family, private
+  const limit = parseInt(searchParams.get('limit') || '20');
+  const offset = parseInt(searchParams.get('offset') || '0');
 
-    return NextResponse.json({
-      recipes: userRecipes,
-      pagination: {
-        limit,
-        offset,
-        hasMore: userRecipes.length === limit,
-      },
-    });
-  } catch (error) {
-    console.error('Get user recipes error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+  // Build all conditions upfront
+  const whereConditions = [eq(recipes.userId, currentUser.id)];
+  
+  if (status) {
+    whereConditions.push(eq(recipes.status, status as any));
+  }
+  
+  if (visibility) {
+    whereConditions.push(eq(recipes.visibility, visibility as any));
   }
-}
+
+  // Build complete query
+  const query = db
+    .select({
+      id: recipes.id,
+      title: recipes.title,
+      description: recipes.description,
+      summary: recipes.summary,
+      imageUrl: recipes.imageUrl,
+      cookTimeMinutes: recipes.cookTimeMinutes,
+      prepTimeMinutes: recipes.prepTimeMinutes,
+      readyInMinutes: recipes.readyInMinutes,
+      servings: recipes.servings,
+      healthScore: recipes.healthScore,
+      difficulty: recipes.difficulty,
+      cuisine: recipes.cuisine,
+      tags: recipes.tags,
+      dishTypes: recipes.dishTypes,
+      diets: recipes.diets,
+      isVegetarian: recipes.isVegetarian,
+      isVegan: recipes.isVegan,
+      isGlutenFree: recipes.isGlutenFree,
+      isDairyFree: recipes.isDairyFree,
+      sourceType: recipes.sourceType,
+      visibility: recipes.visibility,
+      status: recipes.status,
+      createdAt: recipes.createdAt,
+      updatedAt: recipes.updatedAt,
+    })
+    .from(recipes)
+    .where(and(...whereConditions))
+    .orderBy(desc(recipes.updatedAt))
+    .limit(limit)
+    .offset(offset);
+
+  const userRecipes = await query;
+
+  return NextResponse.json({
+    recipes: userRecipes,
+    pagination: {
+      limit,
+      offset,
+      hasMore: userRecipes.length === limit,
+    },
+  });
+});
 
 // ============================================================================
 // POST /api/recipes - Create new recipe
 // ============================================================================
 
-export async function POST(request: NextRequest) {
-  try {
-    // Require authentication
-    const currentUser = await requireAuth();
-
-    const body = await request.json();
-    
-    // Validate request body
-    const validationResult = createRecipeSchema.safeParse(body);
-    if (!validationResult.success) {
-      console.error('Recipe validation failed:', validationResult.error.errors);
-      console.error('Request body:', JSON.stringify(body, null, 2));
-      return NextResponse.json(
-        {
-          error: 'Validation failed',
-          details: validationResult.error.errors,
-        },
-        { status: 400 }
-      );
-    }
-
-    const data = validationResult.data;
-
-    // TODO: Validate family group access if familyGroupId is provided
-
-    // Calculate ready time if not provided
-    const readyInMinutes = data.prepTimeMinutes && data.cookTimeMinutes 
-      ? data.prepTimeMinutes + data.cookTimeMinutes 
-      : data.cookTimeMinutes || data.prepTimeMinutes || null;
-
-    // Create recipe
-    const [newRecipe] = await db
-      .insert(recipes)
-      .values({
-        title: data.title,
-        description: data.description || null,
-        summary: data.summary || null,
-        userId: currentUser.id,
-        familyGroupId: data.familyGroupId || null,
-        
-        // Source tracking
-        sourceType: 'user',
-        
-        // Timing
-        prepTimeMinutes: data.prepTimeMinutes || null,
-        cookTimeMinutes: data.cookTimeMinutes || null,
-        readyInMinutes,
-        servings: data.servings,
-        
-        // Media
-        imageUrl: data.imageUrl || null,
-        mediaUrls: data.mediaUrls,
-        
-        // Health metrics
-        difficulty: data.difficulty || null,
-        healthScore: null, // Could be calculated based on ingredients
-        
-        // Dietary flags
-        isVegetarian: data.isVegetarian,
-        isVegan: data.isVegan,
-        isGlutenFree: data.isGlutenFree,
-        isDairyFree: data.isDairyFree,
-        ketogenic: data.ketogenic,
-        whole30: data.whole30,
-        fodmapFriendly: data.fodmapFriendly,
-        
-        // Categorization
-        tags: data.tags,
-        dishTypes: data.dishTypes,
-        diets: data.diets,
-        occasions: data.occasions,
-        cuisine: data.cuisine || null,
-        
-        // Recipe content
-        ingredients: data.ingredients,
-        instructions: data.instructions,
-        equipment: data.equipment,
-        
-        // Visibility and status
-        visibility: data.visibility,
-        status: data.status,
-      })
-      .returning();
-
-    return NextResponse.json(
-      {
-        message: 'Recipe created successfully',
-        recipe: newRecipe,
-      },
-      { status: 201 }
-    );
-  } catch (error) {
-    console.error('Create recipe error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
+export const POST = apiHandler({ auth: 'required', scope: 'recipes:write' }, async (request, { user: currentUser }) => {
+  const data = await parseJsonBody(request, createRecipeSchema);
+
+  // TODO: Validate family group access if familyGroupId is provided
+
+  // Calculate ready time if not provided
+  const readyInMinutes = data.prepTimeMinutes && data.cookTimeMinutes 
+    ? data.prepTimeMinutes + data.cookTimeMinutes 
+    : data.cookTimeMinutes || data.prepTimeMinutes || null;
+
+  // Create recipe
+  const [newRecipe] = await db
+    .insert(recipes)
+    .values({
+      title: data.title,
+      description: data.description || null,
+      summary: data.summary || null,
+      userId: currentUser.id,
+      familyGroupId: data.familyGroupId || null,
+      
+      // Source tracking
+      sourceType: data.sourceType,
+      sourceUrl: data.sourceUrl || null,
+      
+      // Timing
+      prepTimeMinutes: data.prepTimeMinutes || null,
+      cookTimeMinutes: data.cookTimeMinutes || null,
+      readyInMinutes,
+      servings: data.servings,
+      
+      // Media
+      imageUrl: data.imageUrl || null,
+      mediaUrls: data.mediaUrls,
+      
+      // Health metrics
+      difficulty: data.difficulty || null,
+      healthScore: null, // Could be calculated based on ingredients
+      
+      // Dietary flags
+      isVegetarian: data.isVegetarian,
+      isVegan: data.isVegan,
+      isGlutenFree: data.isGlutenFree,
+      isDairyFree: data.isDairyFree,
+      ketogenic: data.ketogenic,
+      whole30: data.whole30,
+      fodmapFriendly: data.fodmapFriendly,
+      
+      // Categorization
+      tags: data.tags,
+      dishTypes: data.dishTypes,
+      diets: data.diets,
+      occasions: data.occasions,
+      cuisine: data.cuisine || null,
+      
+      // Recipe content
+      ingredients: data.ingredients.map(normalizeIngredient),
+      instructions: data.instructions,
+      equipment: data.equipment,
+      
+      // Visibility and status
+      visibility: data.visibility,
+      status: data.status,
+    })
+    .returning();
+
+  return NextResponse.json(
+    {
+      message: 'Recipe created successfully',
+      recipe: newRecipe,
+    },
+    { status: 201 }
+  );
+});
\ No newline at end of file
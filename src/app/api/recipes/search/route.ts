@@ -1,10 +1,25 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { z } from 'zod';
 import { db } from '../../../../lib/db';
 import { recipes, recipeFavorites } from '../../../../lib/db/schema';
-import { verifyBearerToken, getCurrentUser } from '../../../../lib/auth';
-import { getSpoonacularService } from '../../../../lib/spoonacular';
-import { eq, and, or, like, desc, asc, sql, inArray, ilike } from 'drizzle-orm';
+import { AuthUser } from '../../../../lib/auth';
+import { apiHandler, ValidationError } from '../../../../lib/api';
+import { SpoonacularQuotaError } from '../../../../lib/spoonacular';
+import { getDefaultRecipeProvider } from '../../../../lib/recipe-providers';
+import {
+  DIETARY_FILTERS,
+  RecipeSearchFilters,
+  parseList,
+  buildRecipeFilterConditions,
+  buildRecipeOrderBy,
+  buildTextSearch,
+  TextSearch,
+  recipeRatingSql,
+  compareSearchResults,
+  getRecipeFacets,
+  recipeVisibleToSql,
+} from '../../../../lib/recipe-search';
+import { eq, and, or, sql, SQL } from 'drizzle-orm';
 
 // ============================================================================
 // Validation Schema
@@ -17,423 +32,396 @@ const searchParamsSchema = z.object({
   difficulty: z.enum(['EASY', 'MEDIUM', 'HARD']).optional(),
   maxCookTime: z.coerce.number().positive().optional(),
   maxPrepTime: z.coerce.number().positive().optional(),
+  maxReadyTime: z.coerce.number().positive().optional(),
   minHealthScore: z.coerce.number().min(0).max(100).optional(),
   tags: z.string().optional(), // comma-separated
-  source: z.enum(['all', 'user', 'spoonacular']).default('all'),
+  dietary: z.string().optional().refine(
+    value => parseList(value).every(flag => (DIETARY_FILTERS as readonly string[]).includes(flag)),
+    { message: `Dietary filters must be one of: ${DIETARY_FILTERS.join(', ')}` }
+  ), // comma-separated
+  includeIngredients: z.string().optional(), // comma-separated
+  excludeIngredients: z.string().optional(), // comma-separated
+  source: z.enum(['all', 'user', 'spoonacular']).default('all'), // 'spoonacular' searches the configured external provider
   includePrivate: z.coerce.boolean().default(false),
   sortBy: z.enum(['relevance', 'rating', 'cookTime', 'healthScore', 'created']).default('relevance'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  facets: z.coerce.boolean().default(false), // Counts per facet over local recipes
   limit: z.coerce.number().positive().max(50).default(12),
   offset: z.coerce.number().min(0).default(0),
 });
 
+type SearchParams = z.infer<typeof searchParamsSchema>;
+
+const QUOTA_NOTICE = 'External recipes are unavailable until the daily Spoonacular quota resets; showing community recipes only.';
+const UNAVAILABLE_NOTICE = 'External recipes are unavailable right now; showing community recipes only.';
+type SearchUser = AuthUser | null;
+
 // ============================================================================
 // GET /api/recipes/search
 // ============================================================================
 
-export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    console.log('Search request:', request.url);
-    console.log('Search params:', Object.fromEntries(searchParams));
-    
-    const validationResult = searchParamsSchema.safeParse(Object.fromEntries(searchParams));
-    
-    if (!validationResult.success) {
-      console.error('Search validation failed:', validationResult.error.errors);
-      return NextResponse.json(
-        {
-          error: 'Invalid search parameters',
-          details: validationResult.error.errors,
-        },
-        { status: 400 }
-      );
-    }
+export const GET = apiHandler({ auth: 'optional', scope: 'recipes:read' }, async (request, { user: currentUser }) => {
+  const { searchParams } = new URL(request.url);
+  const validationResult = searchParamsSchema.safeParse(Object.fromEntries(searchParams));
 
-    const params = validationResult.data;
-    
-    // Get current user (optional for search)
-    const currentUser = await getCurrentUser().catch(() => null);
+  if (!validationResult.success) {
+    throw new ValidationError(validationResult.error.errors, 'Invalid search parameters');
+  }
 
-    // Parse tags if provided
-    const tagFilters = params.tags ? params.tags.split(',').map(t => t.trim()) : [];
+  const params = validationResult.data;
 
-    // If searching Spoonacular, delegate to Spoonacular service
-    if (params.source === 'spoonacular') {
-      return await searchSpoonacularRecipes(params, tagFilters, currentUser);
-    }
+  const filters = toSearchFilters(params);
 
-    // If searching all sources, combine local and Spoonacular results
-    if (params.source === 'all') {
-      return await searchAllSources(params, tagFilters, currentUser);
+  // If searching externally, delegate to the configured recipe provider
+  let degraded = false;
+  if (params.source === 'spoonacular') {
+    try {
+      return await searchExternalRecipes(params, filters, currentUser);
+    } catch (error) {
+      if (!(error instanceof SpoonacularQuotaError)) throw error;
+      // Out of Spoonacular quota for today, so answer with local recipes instead
+      degraded = true;
     }
+  }
 
-    // Build all where conditions upfront
-    const whereConditions = [];
-
-    // Visibility conditions
-    const visibilityConditions = [eq(recipes.visibility, 'public')];
-    if (currentUser) {
-      // Add user's own recipes
-      visibilityConditions.push(eq(recipes.userId, currentUser.id));
-      
-      // Add family recipes if not including private
-      if (!params.includePrivate) {
-        visibilityConditions.push(eq(recipes.visibility, 'family'));
-      }
-    }
-    whereConditions.push(or(...visibilityConditions));
-
-    // Status filter - only show published recipes
-    whereConditions.push(eq(recipes.status, 'published'));
-
-    // TODO: Apply filters - temporarily disabled for deployment
-    // All filter logic needs to be rewritten to avoid query chaining issues
-    /*
-    if (params.cuisine) {
-      query = query.where(eq(recipes.cuisine, params.cuisine));
-    }
+  // If searching all sources, combine local and Spoonacular results
+  if (params.source === 'all') {
+    return await searchAllSources(params, filters, currentUser);
+  }
 
-    if (params.difficulty) {
-      query = query.where(eq(recipes.difficulty, params.difficulty));
-    }
+  const textSearch = filters.query ? buildTextSearch(filters.query) : undefined;
+  const whereConditions = buildLocalConditions(params, filters, currentUser, textSearch);
+
+  // Build and execute the query
+  const results = await db
+    .select({
+      id: recipes.id,
+      title: recipes.title,
+      description: recipes.description,
+      summary: recipes.summary,
+      imageUrl: recipes.imageUrl,
+      cookTimeMinutes: recipes.cookTimeMinutes,
+      prepTimeMinutes: recipes.prepTimeMinutes,
+      readyInMinutes: recipes.readyInMinutes,
+      servings: recipes.servings,
+      difficulty: recipes.difficulty,
+      healthScore: recipes.healthScore,
+      cuisine: recipes.cuisine,
+      tags: recipes.tags,
+      dishTypes: recipes.dishTypes,
+      diets: recipes.diets,
+      isVegetarian: recipes.isVegetarian,
+      isVegan: recipes.isVegan,
+      isGlutenFree: recipes.isGlutenFree,
+      isDairyFree: recipes.isDairyFree,
+      sourceType: recipes.sourceType,
+      spoonacularId: recipes.spoonacularId,
+      visibility: recipes.visibility,
+      createdAt: recipes.createdAt,
+      userId: recipes.userId,
+      familyGroupId: recipes.familyGroupId,
+      rating: recipeRatingSql,
+      // Rank and highlighted matches when searching by text
+      ...(textSearch ? {
+        relevance: textSearch.rank,
+        highlight: textSearch.highlight,
+      } : {}),
+      // Add favorite status if user is authenticated
+      ...(currentUser ? {
+        isFavorited: sql<boolean>`EXISTS(
+          SELECT 1 FROM ${recipeFavorites} 
+          WHERE ${recipeFavorites.recipeId} = ${recipes.id} 
+          AND ${recipeFavorites.userId} = ${currentUser.id}
+        )`.as('is_favorited')
+      } : {}),
+    })
+    .from(recipes)
+    .where(and(...whereConditions))
+    .orderBy(...buildRecipeOrderBy(filters.sortBy, filters.sortOrder, textSearch?.rank))
+    .limit(params.limit)
+    .offset(params.offset);
+
+  // Get total count for pagination with same filters
+  const [{ count: totalResults }] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(recipes)
+    .where(and(...whereConditions));
+
+  const facets = params.facets
+    ? await getRecipeFacets(facetFilters => buildLocalConditions(params, facetFilters, currentUser, textSearch), filters)
+    : undefined;
+
+  return NextResponse.json({
+    recipes: results,
+    pagination: {
+      limit: params.limit,
+      offset: params.offset,
+      total: totalResults,
+      hasMore: params.offset + params.limit < totalResults,
+    },
+    filters: describeFilters(filters, params.source),
+    facets,
+    ...(degraded ? { degraded: true, notice: QUOTA_NOTICE } : {}),
+  });
+});
 
-    if (params.maxCookTime) {
-      query = query.where(sql`${recipes.cookTimeMinutes} <= ${params.maxCookTime}`);
-    }
+// ============================================================================
+// Combined Search Helper (Local + Spoonacular)
+// ============================================================================
 
-    if (params.maxPrepTime) {
-      query = query.where(sql`${recipes.prepTimeMinutes} <= ${params.maxPrepTime}`);
-    }
-    */
-
-    // Query filter if provided
-    if (params.query) {
-      whereConditions.push(
-        or(
-          ilike(recipes.title, `%${params.query}%`),
-          ilike(recipes.description, `%${params.query}%`),
-          ilike(recipes.cuisine, `%${params.query}%`)
-        )
-      );
+async function searchAllSources(params: SearchParams, filters: RecipeSearchFilters, currentUser: SearchUser) {
+  // Get a mix: up to 6 local recipes and the rest from Spoonacular
+  const spoonacularLimit = params.limit - Math.min(6, params.limit);
+
+  const textSearch = filters.query ? buildTextSearch(filters.query) : undefined;
+  const whereConditions = buildLocalConditions(params, filters, currentUser, textSearch);
+
+  // Get Spoonacular recipes
+  let spoonacularResults: ExternalSearchResult[] = [];
+  let notice: string | undefined;
+  if (spoonacularLimit > 0) {
+    try {
+      // Always get fresh Spoonacular results
+      const external = await findExternalRecipes(filters, spoonacularLimit, 0, currentUser);
+      spoonacularResults = external.recipes;
+    } catch (error) {
+      // Local matches are still worth showing when the provider is unavailable
+      if (error instanceof SpoonacularQuotaError) {
+        notice = QUOTA_NOTICE;
+      } else {
+        console.error('External search error:', error);
+        notice = UNAVAILABLE_NOTICE;
+      }
     }
-
-    // Build and execute the query
-    const results = await db
-      .select({
-        id: recipes.id,
-        title: recipes.title,
-        description: recipes.description,
-        summary: recipes.summary,
-        imageUrl: recipes.imageUrl,
-        cookTimeMinutes: recipes.cookTimeMinutes,
-        prepTimeMinutes: recipes.prepTimeMinutes,
-        readyInMinutes: recipes.readyInMinutes,
-        servings: recipes.servings,
-        difficulty: recipes.difficulty,
-        healthScore: recipes.healthScore,
-        cuisine: recipes.cuisine,
-        tags: recipes.tags,
-        dishTypes: recipes.dishTypes,
-        diets: recipes.diets,
-        isVegetarian: recipes.isVegetarian,
-        isVegan: recipes.isVegan,
-        isGlutenFree: recipes.isGlutenFree,
-        isDairyFree: recipes.isDairyFree,
-        sourceType: recipes.sourceType,
-        spoonacularId: recipes.spoonacularId,
-        visibility: recipes.visibility,
-        createdAt: recipes.createdAt,
-        userId: recipes.userId,
-        familyGroupId: recipes.familyGroupId,
-        // Add favorite status if user is authenticated
-        ...(currentUser ? {
-          isFavorited: sql<boolean>`EXISTS(
-            SELECT 1 FROM ${recipeFavorites} 
-            WHERE ${recipeFavorites.recipeId} = ${recipes.id} 
-            AND ${recipeFavorites.userId} = ${currentUser.id}
-          )`.as('is_favorited')
-        } : {}),
-      })
-      .from(recipes)
-      .where(and(...whereConditions))
-      .orderBy(desc(recipes.updatedAt))
-      .limit(params.limit)
-      .offset(params.offset);
-
-    // Get total count for pagination with same filters
-    const [{ count: totalResults }] = await db
-      .select({ count: sql<number>`count(*)` })
-      .from(recipes)
-      .where(and(...whereConditions));
-
-    return NextResponse.json({
-      recipes: results,
-      pagination: {
-        limit: params.limit,
-        offset: params.offset,
-        total: totalResults,
-        hasMore: params.offset + params.limit < totalResults,
-      },
-      filters: {
-        query: params.query,
-        cuisine: params.cuisine,
-        diet: params.diet,
-        difficulty: params.difficulty,
-        maxCookTime: params.maxCookTime,
-        maxPrepTime: params.maxPrepTime,
-        minHealthScore: params.minHealthScore,
-        tags: tagFilters,
-        source: params.source,
-      },
-    });
-  } catch (error) {
-    console.error('Recipe search error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
   }
+  const degraded = notice !== undefined;
+
+  // Local recipes fill the whole page when Spoonacular results are missing
+  const localLimit = degraded ? params.limit : Math.min(6, params.limit);
+
+  // Get local recipes
+  const localResults = await db
+    .select({
+      id: recipes.id,
+      title: recipes.title,
+      description: recipes.description,
+      summary: recipes.summary,
+      imageUrl: recipes.imageUrl,
+      cookTimeMinutes: recipes.cookTimeMinutes,
+      prepTimeMinutes: recipes.prepTimeMinutes,
+      readyInMinutes: recipes.readyInMinutes,
+      servings: recipes.servings,
+      difficulty: recipes.difficulty,
+      healthScore: recipes.healthScore,
+      cuisine: recipes.cuisine,
+      tags: recipes.tags,
+      dishTypes: recipes.dishTypes,
+      diets: recipes.diets,
+      isVegetarian: recipes.isVegetarian,
+      isVegan: recipes.isVegan,
+      isGlutenFree: recipes.isGlutenFree,
+      isDairyFree: recipes.isDairyFree,
+      sourceType: recipes.sourceType,
+      spoonacularId: recipes.spoonacularId,
+      visibility: recipes.visibility,
+      createdAt: recipes.createdAt,
+      userId: recipes.userId,
+      rating: recipeRatingSql,
+      // Rank and highlighted matches when searching by text
+      ...(textSearch ? {
+        relevance: textSearch.rank,
+        highlight: textSearch.highlight,
+      } : {}),
+      // Add favorite status if user is authenticated
+      ...(currentUser ? {
+        isFavorited: sql<boolean>`EXISTS(
+          SELECT 1 FROM ${recipeFavorites} 
+          WHERE ${recipeFavorites.recipeId} = ${recipes.id} 
+          AND ${recipeFavorites.userId} = ${currentUser.id}
+        )`.as('is_favorited')
+      } : {}),
+    })
+    .from(recipes)
+    .where(and(...whereConditions))
+    .orderBy(...buildRecipeOrderBy(filters.sortBy, filters.sortOrder, textSearch?.rank))
+    .limit(localLimit);
+
+  const facets = params.facets
+    ? await getRecipeFacets(facetFilters => buildLocalConditions(params, facetFilters, currentUser, textSearch), filters)
+    : undefined;
+
+  // Both lists arrive in relevance order, so alternate between them rather than letting one source bury the other
+  const allResults = filters.sortBy === 'relevance'
+    ? interleave<(typeof localResults)[number] | ExternalSearchResult>(localResults, spoonacularResults)
+    : [...localResults, ...spoonacularResults].sort(compareSearchResults(filters.sortBy, filters.sortOrder));
+
+  return NextResponse.json({
+    recipes: allResults.slice(0, params.limit),
+    pagination: {
+      limit: params.limit,
+      offset: params.offset,
+      total: allResults.length,
+      hasMore: false, // Simplified pagination for mixed results
+    },
+    filters: describeFilters(filters, 'all'),
+    facets,
+    source: 'mixed',
+    ...(degraded ? { degraded: true, notice } : {}),
+    stats: {
+      localRecipes: localResults.length,
+      spoonacularRecipes: spoonacularResults.length,
+    }
+  });
 }
 
 // ============================================================================
-// Combined Search Helper (Local + Spoonacular)
+// External Search Helper
 // ============================================================================
 
-async function searchAllSources(params: any, tagFilters: string[], currentUser?: any) {
-  try {
-    // Get a mix: some local recipes and some Spoonacular recipes
-    const localLimit = Math.min(6, params.limit); // Take up to 6 local recipes
-    const spoonacularLimit = params.limit - localLimit; // Rest from Spoonacular
-
-    // Search local recipes first
-    const whereConditions = [];
-    
-    // Visibility conditions for local recipes
-    const visibilityConditions = [eq(recipes.visibility, 'public')];
-    if (currentUser) {
-      visibilityConditions.push(eq(recipes.userId, currentUser.id));
-      visibilityConditions.push(eq(recipes.visibility, 'family'));
-    }
-    whereConditions.push(or(...visibilityConditions));
-    whereConditions.push(eq(recipes.status, 'published'));
-
-    // Query filter if provided
-    if (params.query) {
-      whereConditions.push(
-        or(
-          ilike(recipes.title, `%${params.query}%`),
-          ilike(recipes.description, `%${params.query}%`),
-          ilike(recipes.cuisine, `%${params.query}%`)
-        )
-      );
-    }
-
-    // Get local recipes
-    const localResults = await db
-      .select({
-        id: recipes.id,
-        title: recipes.title,
-        description: recipes.description,
-        summary: recipes.summary,
-        imageUrl: recipes.imageUrl,
-        cookTimeMinutes: recipes.cookTimeMinutes,
-        prepTimeMinutes: recipes.prepTimeMinutes,
-        readyInMinutes: recipes.readyInMinutes,
-        servings: recipes.servings,
-        difficulty: recipes.difficulty,
-        healthScore: recipes.healthScore,
-        cuisine: recipes.cuisine,
-        tags: recipes.tags,
-        dishTypes: recipes.dishTypes,
-        diets: recipes.diets,
-        isVegetarian: recipes.isVegetarian,
-        isVegan: recipes.isVegan,
-        isGlutenFree: recipes.isGlutenFree,
-        isDairyFree: recipes.isDairyFree,
-        sourceType: recipes.sourceType,
-        spoonacularId: recipes.spoonacularId,
-        visibility: recipes.visibility,
-        createdAt: recipes.createdAt,
-        userId: recipes.userId,
-        // Add favorite status if user is authenticated
-        ...(currentUser ? {
-          isFavorited: sql<boolean>`EXISTS(
-            SELECT 1 FROM ${recipeFavorites} 
-            WHERE ${recipeFavorites.recipeId} = ${recipes.id} 
-            AND ${recipeFavorites.userId} = ${currentUser.id}
-          )`.as('is_favorited')
-        } : {}),
-      })
-      .from(recipes)
-      .where(and(...whereConditions))
-      .orderBy(desc(recipes.updatedAt))
-      .limit(localLimit);
-
-    // Get Spoonacular recipes
-    let spoonacularResults = [];
-    if (spoonacularLimit > 0) {
-      const spoonacularParams = {
-        ...params,
-        limit: spoonacularLimit,
-        offset: 0, // Always get fresh Spoonacular results
-        query: params.query || 'popular', // Default to popular if no query
-      };
-      
-      const spoonacularResponse = await searchSpoonacularRecipes(spoonacularParams, tagFilters, currentUser);
-      const spoonacularData = await spoonacularResponse.json();
-      spoonacularResults = spoonacularData.recipes || [];
-    }
+type ExternalSearchResult = Awaited<ReturnType<typeof findExternalRecipes>>['recipes'][number];
 
-    // Combine and shuffle results
-    const allResults = [...localResults, ...spoonacularResults];
-    
-    // Simple shuffle to mix local and external recipes
-    for (let i = allResults.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [allResults[i], allResults[j]] = [allResults[j], allResults[i]];
-    }
+async function searchExternalRecipes(params: SearchParams, filters: RecipeSearchFilters, currentUser: SearchUser) {
+  const { recipes: transformedRecipes, totalResults } = await findExternalRecipes(filters, params.limit, params.offset, currentUser);
 
-    return NextResponse.json({
-      recipes: allResults.slice(0, params.limit),
-      pagination: {
-        limit: params.limit,
-        offset: params.offset,
-        total: allResults.length,
-        hasMore: false, // Simplified pagination for mixed results
-      },
-      filters: {
-        query: params.query,
-        source: 'all',
-      },
-      source: 'mixed',
-      stats: {
-        localRecipes: localResults.length,
-        spoonacularRecipes: spoonacularResults.length,
-      }
-    });
-  } catch (error) {
-    console.error('Combined search error:', error);
-    return NextResponse.json(
-      { error: 'Failed to search recipes from all sources' },
-      { status: 500 }
-    );
-  }
+  return NextResponse.json({
+    recipes: transformedRecipes,
+    pagination: {
+      limit: params.limit,
+      offset: params.offset,
+      total: totalResults,
+      hasMore: params.offset + params.limit < totalResults,
+    },
+    filters: describeFilters(filters, 'spoonacular'),
+    source: 'spoonacular',
+  });
 }
 
-// ============================================================================
-// Spoonacular Search Helper
-// ============================================================================
+// Provider results in the same shape as local ones. Provider errors, quota included, reach the caller.
+async function findExternalRecipes(filters: RecipeSearchFilters, limit: number, offset: number, currentUser: SearchUser) {
+  const provider = getDefaultRecipeProvider();
+  const response = await provider.search(filters, { number: limit, offset });
 
-async function searchSpoonacularRecipes(params: any, tagFilters: string[], currentUser?: any) {
-  try {
-    const spoonacularService = getSpoonacularService();
-    
-    // Transform our params to Spoonacular params
-    const spoonacularParams = {
-      query: params.query,
-      cuisine: params.cuisine,
-      diet: params.diet,
-      maxReadyTime: params.maxCookTime,
-      number: params.limit,
-      offset: params.offset,
-      sort: transformSortParam(params.sortBy),
-      sortDirection: params.sortOrder,
-      addRecipeInformation: true,
-      addRecipeNutrition: false, // Can be made configurable
-    };
+  // Get user's favorites if authenticated
+  let userFavorites: Set<string> = new Set();
+  if (currentUser) {
+    const favorites = await db
+      .select({ recipeId: recipeFavorites.recipeId })
+      .from(recipeFavorites)
+      .where(eq(recipeFavorites.userId, currentUser.id));
 
-    const response = await spoonacularService.searchRecipes(spoonacularParams);
-
-    // Get user's favorites if authenticated
-    let userFavorites: Set<string> = new Set();
-    if (currentUser) {
-      const favorites = await db
-        .select({ recipeId: recipeFavorites.recipeId })
-        .from(recipeFavorites)
-        .where(eq(recipeFavorites.userId, currentUser.id));
-      
-      userFavorites = new Set(favorites.map(f => f.recipeId));
-    }
+    userFavorites = new Set(favorites.map(f => f.recipeId));
+  }
 
-    // Transform Spoonacular results to our format
-    const transformedRecipes = response.results.map(recipe => ({
-      id: `spoon_${recipe.id}`,
+  // Transform provider results to our format
+  const transformedRecipes = response.results.map(result => {
+    const recipe = provider.transformToRecipe(result);
+
+    return {
+      id: recipe.id,
       title: recipe.title,
-      description: stripHtml(recipe.summary),
-      summary: truncateText(stripHtml(recipe.summary), 200),
-      imageUrl: recipe.image,
-      cookTimeMinutes: recipe.cookingMinutes || null,
-      prepTimeMinutes: recipe.preparationMinutes || null,
-      readyInMinutes: recipe.readyInMinutes,
+      description: recipe.description,
+      summary: recipe.summary,
+      imageUrl: recipe.imageUrl,
+      cookTimeMinutes: recipe.cookTimeMinutes,
+      prepTimeMinutes: recipe.prepTimeMinutes,
+      readyInMinutes: recipe.readyInMinutes ?? null,
       servings: recipe.servings,
-      difficulty: null, // Spoonacular doesn't provide this
-      healthScore: recipe.healthScore,
-      cuisine: recipe.cuisines?.[0] || null,
-      tags: [...(recipe.dishTypes || []), ...(recipe.cuisines || [])],
-      dishTypes: recipe.dishTypes || [],
-      diets: recipe.diets || [],
-      isVegetarian: recipe.vegetarian,
-      isVegan: recipe.vegan,
-      isGlutenFree: recipe.glutenFree,
-      isDairyFree: recipe.dairyFree,
-      sourceType: 'spoonacular',
-      spoonacularId: recipe.id,
+      difficulty: recipe.difficulty ?? null,
+      healthScore: recipe.healthScore ?? null,
+      cuisine: recipe.cuisine,
+      tags: recipe.tags,
+      dishTypes: recipe.dishTypes,
+      diets: recipe.diets,
+      isVegetarian: recipe.isVegetarian,
+      isVegan: recipe.isVegan,
+      isGlutenFree: recipe.isGlutenFree,
+      isDairyFree: recipe.isDairyFree,
+      sourceType: recipe.sourceType ?? null,
+      spoonacularId: recipe.spoonacularId ?? null,
       visibility: 'public',
-      createdAt: new Date().toISOString(),
+      createdAt: null, // External recipes have no creation date of their own
       userId: null,
       familyGroupId: null,
-      isFavorited: userFavorites.has(recipe.id.toString()),
-    }));
-
-    return NextResponse.json({
-      recipes: transformedRecipes,
-      pagination: {
-        limit: params.limit,
-        offset: params.offset,
-        total: response.totalResults,
-        hasMore: params.offset + params.limit < response.totalResults,
-      },
-      filters: {
-        query: params.query,
-        cuisine: params.cuisine,
-        diet: params.diet,
-        maxCookTime: params.maxCookTime,
-        source: 'spoonacular',
-      },
-      source: 'spoonacular',
-    });
-  } catch (error) {
-    console.error('Spoonacular search error:', error);
-    return NextResponse.json(
-      { error: 'Failed to search recipes from external source' },
-      { status: 500 }
-    );
-  }
+      rating: recipe.rating,
+      isFavorited: userFavorites.has(recipe.id),
+    };
+  });
+
+  return { recipes: transformedRecipes, totalResults: response.totalResults };
 }
 
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
-function transformSortParam(sortBy: string): "time" | "meta-score" | "popularity" | "healthiness" | "price" | "random" {
-  switch (sortBy) {
-    case 'rating':
-      return 'popularity';
-    case 'cookTime':
-      return 'time';
-    case 'healthScore':
-      return 'healthiness';
-    default:
-      return 'meta-score';
+function toSearchFilters(params: SearchParams): RecipeSearchFilters {
+  return {
+    query: params.query,
+    cuisine: params.cuisine,
+    diet: params.diet,
+    difficulty: params.difficulty,
+    maxCookTime: params.maxCookTime,
+    maxPrepTime: params.maxPrepTime,
+    maxReadyTime: params.maxReadyTime,
+    minHealthScore: params.minHealthScore,
+    tags: parseList(params.tags),
+    dietary: parseList(params.dietary) as RecipeSearchFilters['dietary'],
+    includeIngredients: parseList(params.includeIngredients),
+    excludeIngredients: parseList(params.excludeIngredients),
+    sortBy: params.sortBy,
+    sortOrder: params.sortOrder,
+  };
+}
+
+function buildLocalConditions(params: SearchParams, filters: RecipeSearchFilters, currentUser: SearchUser, textSearch?: TextSearch) {
+  const whereConditions: (SQL | undefined)[] = [];
+
+  // Visibility conditions: family recipes only from people in the user's family groups, and
+  // left out when including private
+  whereConditions.push(
+    currentUser && params.includePrivate
+      ? or(eq(recipes.visibility, 'public'), eq(recipes.userId, currentUser.id))
+      : recipeVisibleToSql(currentUser?.id)
+  );
+
+  // Status filter - only show published recipes
+  whereConditions.push(eq(recipes.status, 'published'));
+
+  // Query filter if provided
+  if (textSearch) {
+    whereConditions.push(textSearch.condition);
   }
+
+  whereConditions.push(...buildRecipeFilterConditions(filters));
+
+  return whereConditions;
 }
 
-function stripHtml(html: string): string {
-  return html.replace(/<[^>]*>/g, '').trim();
+function describeFilters(filters: RecipeSearchFilters, source: SearchParams['source']) {
+  return {
+    query: filters.query,
+    cuisine: filters.cuisine,
+    diet: filters.diet,
+    difficulty: filters.difficulty,
+    maxCookTime: filters.maxCookTime,
+    maxPrepTime: filters.maxPrepTime,
+    maxReadyTime: filters.maxReadyTime,
+    minHealthScore: filters.minHealthScore,
+    tags: filters.tags,
+    dietary: filters.dietary,
+    includeIngredients: filters.includeIngredients,
+    excludeIngredients: filters.excludeIngredients,
+    sortBy: filters.sortBy,
+    sortOrder: filters.sortOrder,
+    source,
+  };
 }
 
-function truncateText(text: string, maxLength: number): string {
-  if (text.length <= maxLength) return text;
-  return text.substring(0, maxLength).replace(/\s+\S*$/, '') + '...';
-}
\ No newline at end of file
+function interleave<T>(first: T[], second: T[]): T[] {
+  const result: T[] = [];
+  for (let i = 0; i < Math.max(first.length, second.length); i++) {
+    if (i < first.length) result.push(first[i]);
+    if (i < second.length) result.push(second[i]);
+  }
+  return result;
+}
@@ -1,12 +1,27 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { AuthLayout } from '../../../components/layouts/auth-layout';
 import { Button } from '../../../components/ui/button';
 import { Input } from '../../../components/ui/input';
 
+// Messages for the error codes the identity provider callback redirects back with
+const OIDC_ERROR_MESSAGES: Record<string, string> = {
+  access_denied: 'Sign-in was cancelled.',
+  unknown_provider: 'That sign-in provider is not available.',
+  invalid_state: 'Your sign-in attempt expired or was interrupted. Please try again.',
+  email_required: 'Your provider did not share an email address, which we need to sign you in.',
+  email_conflict: 'An account with this email already exists. Sign in with your password instead.',
+  provider_error: 'We couldn\'t sign you in with that provider. Please try again.',
+};
+
+interface OidcProvider {
+  id: string;
+  name: string;
+}
+
 export default function LoginPage() {
   const [formData, setFormData] = useState({
     email: '',
@@ -14,8 +29,35 @@ export default function LoginPage() {
   });
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [challengeToken, setChallengeToken] = useState('');
+  const [code, setCode] = useState('');
+  const [providers, setProviders] = useState<OidcProvider[]>([]);
+  const [returnTo, setReturnTo] = useState('/dashboard');
   const router = useRouter();
 
+  useEffect(() => {
+    // Provider sign-in comes back here with a 2FA challenge or an error to show
+    const params = new URLSearchParams(window.location.search);
+    const challenge = params.get('challenge');
+    const oidcError = params.get('error');
+    const next = params.get('returnTo');
+
+    if (challenge) {
+      setChallengeToken(challenge);
+    }
+    if (oidcError) {
+      setError(OIDC_ERROR_MESSAGES[oidcError] || OIDC_ERROR_MESSAGES.provider_error);
+    }
+    if (next && next.startsWith('/') && !next.startsWith('//')) {
+      setReturnTo(next);
+    }
+
+    fetch('/api/auth/oidc')
+      .then(response => (response.ok ? response.json() : { providers: [] }))
+      .then(data => setProviders(data.providers || []))
+      .catch(() => setProviders([]));
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -33,10 +75,48 @@ export default function LoginPage() {
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || 'Login failed');
+        throw new Error(data.error?.message || 'Login failed');
+      }
+
+      if (data.twoFactorRequired) {
+        setChallengeToken(data.challengeToken);
+        return;
+      }
+
+      router.push(returnTo);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/login/2fa', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ challengeToken, code }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        // An expired challenge means starting over from the password
+        if (data.error?.code === 'TOKEN_EXPIRED') {
+          setChallengeToken('');
+          setCode('');
+        }
+        throw new Error(data.error?.message || 'Login failed');
       }
 
-      router.push('/dashboard');
+      router.push(returnTo);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
     } finally {
@@ -51,6 +131,58 @@ export default function LoginPage() {
     }));
   };
 
+  if (challengeToken) {
+    return (
+      <AuthLayout 
+        title="Two-Factor Authentication" 
+        subtitle="Enter the code from your authenticator app"
+      >
+        <form onSubmit={handleCodeSubmit} className="space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <Input
+            label="Authentication Code"
+            name="code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="123456"
+            helperText="Lost your device? Enter one of your recovery codes instead."
+            autoComplete="one-time-code"
+            autoFocus
+            required
+          />
+
+          <Button
+            type="submit"
+            className="w-full"
+            isLoading={isLoading}
+            disabled={isLoading}
+          >
+            {isLoading ? 'Verifying...' : 'Verify'}
+          </Button>
+
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={() => {
+                setChallengeToken('');
+                setCode('');
+                setError('');
+              }}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Back to sign in
+            </button>
+          </div>
+        </form>
+      </AuthLayout>
+    );
+  }
+
   return (
     <AuthLayout 
       title="Welcome Back" 
@@ -92,6 +224,33 @@ export default function LoginPage() {
           {isLoading ? 'Signing in...' : 'Sign In'}
         </Button>
 
+        {providers.length > 0 && (
+          <div className="space-y-3">
+            <div className="relative">
+              <div className="absolute inset-0 flex items-center">
+                <div className="w-full border-t border-gray-200" />
+              </div>
+              <div className="relative flex justify-center text-sm">
+                <span className="bg-white px-2 text-gray-500">or</span>
+              </div>
+            </div>
+
+            {providers.map(provider => (
+              <Button
+                key={provider.id}
+                type="button"
+                variant="outline"
+                className="w-full"
+                onClick={() => {
+                  window.location.href = `/api/auth/oidc/${provider.id}?returnTo=${encodeURIComponent(returnTo)}`;
+                }}
+              >
+                Continue with {provider.name}
+              </Button>
+            ))}
+          </div>
+        )}
+
         <div className="text-center space-y-2">
           <p className="text-sm text-gray-600">
             Don&apos;t have an account?{' '}
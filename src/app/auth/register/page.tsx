@@ -83,12 +83,12 @@ export default function RegisterPage() {
         if (data.errors) {
           setErrors(data.errors);
         } else {
-          setErrors({ general: data.error || 'Registration failed' });
+          setErrors({ general: data.error?.message || 'Registration failed' });
         }
         return;
       }
 
-      router.push('/dashboard');
+      router.push('/auth/verify-email');
     } catch (err) {
       setErrors({ general: 'Registration failed. Please try again.' });
     } finally {
@@ -0,0 +1,185 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { AuthLayout } from '../../../components/layouts/auth-layout';
+import { Button } from '../../../components/ui/button';
+import { Input } from '../../../components/ui/input';
+
+function ResetPasswordForm() {
+  const token = useSearchParams().get('token') || '';
+  const [formData, setFormData] = useState({
+    password: '',
+    confirmPassword: '',
+  });
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.password) {
+      newErrors.password = 'Password is required';
+    } else if (formData.password.length < 8) {
+      newErrors.password = 'Password must be at least 8 characters';
+    }
+
+    if (formData.password !== formData.confirmPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, password: formData.password }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        const passwordIssue = data.error?.details?.find((issue: { path: string[] }) => issue.path[0] === 'password');
+        if (passwordIssue) {
+          setErrors({ password: passwordIssue.message });
+        } else {
+          setErrors({ general: data.error?.message || 'Password reset failed' });
+        }
+        return;
+      }
+
+      setMessage(data.message);
+    } catch (err) {
+      setErrors({ general: 'Password reset failed. Please try again.' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: value,
+    }));
+
+    // Clear error when user starts typing
+    if (errors[name]) {
+      setErrors(prev => ({
+        ...prev,
+        [name]: '',
+      }));
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="space-y-6">
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          This reset link is missing its token. Please use the link from your email, or request a new one.
+        </div>
+        <div className="text-center">
+          <Link 
+            href="/auth/forgot-password" 
+            className="text-sm text-brand-600 hover:text-brand-700 font-medium"
+          >
+            Request a new link
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (message) {
+    return (
+      <div className="space-y-6">
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+          {message}
+        </div>
+        <div className="text-center">
+          <Link 
+            href="/auth/login" 
+            className="text-sm text-brand-600 hover:text-brand-700 font-medium"
+          >
+            Sign in
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {errors.general && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          {errors.general}{' '}
+          <Link href="/auth/forgot-password" className="font-medium underline">
+            Request a new link
+          </Link>
+        </div>
+      )}
+
+      <Input
+        label="New Password"
+        type="password"
+        name="password"
+        value={formData.password}
+        onChange={handleChange}
+        error={errors.password}
+        helperText="At least 8 characters, with upper and lower case letters and a number"
+        placeholder="Choose a new password"
+        required
+      />
+
+      <Input
+        label="Confirm Password"
+        type="password"
+        name="confirmPassword"
+        value={formData.confirmPassword}
+        onChange={handleChange}
+        error={errors.confirmPassword}
+        placeholder="Enter it again"
+        required
+      />
+
+      <Button
+        type="submit"
+        className="w-full"
+        isLoading={isLoading}
+        disabled={isLoading}
+      >
+        {isLoading ? 'Saving...' : 'Reset Password'}
+      </Button>
+    </form>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <AuthLayout 
+      title="Reset Password" 
+      subtitle="Choose a new password for your RecipeUp account"
+    >
+      {/* useSearchParams needs a Suspense boundary to prerender */}
+      <Suspense fallback={null}>
+        <ResetPasswordForm />
+      </Suspense>
+    </AuthLayout>
+  );
+}
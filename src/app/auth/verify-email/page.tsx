@@ -0,0 +1,124 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { AuthLayout } from '../../../components/layouts/auth-layout';
+import { Button } from '../../../components/ui/button';
+
+const STATUS_MESSAGES: Record<string, { tone: 'success' | 'error' | 'info'; text: string }> = {
+  verified: {
+    tone: 'success',
+    text: 'Thanks! Your email address is verified.',
+  },
+  expired: {
+    tone: 'error',
+    text: 'This verification link has expired. Request a new one below.',
+  },
+  invalid: {
+    tone: 'error',
+    text: 'This verification link is invalid or has already been used.',
+  },
+  pending: {
+    tone: 'info',
+    text: 'We sent a link to your email address. Open it to confirm your account.',
+  },
+};
+
+const TONE_CLASSES = {
+  success: 'bg-green-50 border-green-200 text-green-700',
+  error: 'bg-red-50 border-red-200 text-red-700',
+  info: 'bg-brand-50 border-brand-200 text-brand-700',
+};
+
+function VerifyEmailStatus() {
+  const status = useSearchParams().get('status') || 'pending';
+  const statusMessage = STATUS_MESSAGES[status] || STATUS_MESSAGES.pending;
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleResend = async () => {
+    setError('');
+    setMessage('');
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/verify-email/resend', {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+
+      if (response.status === 401) {
+        throw new Error('Please sign in to request a new verification link');
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Could not send verification email');
+      }
+
+      setMessage(data.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not send verification email');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className={`border px-4 py-3 rounded-lg ${TONE_CLASSES[statusMessage.tone]}`}>
+        {statusMessage.text}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg">
+          {message}
+        </div>
+      )}
+
+      {status !== 'verified' && (
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full"
+          onClick={handleResend}
+          isLoading={isLoading}
+          disabled={isLoading}
+        >
+          {isLoading ? 'Sending...' : 'Resend Verification Email'}
+        </Button>
+      )}
+
+      <div className="text-center">
+        <Link 
+          href="/dashboard" 
+          className="text-sm text-brand-600 hover:text-brand-700 font-medium"
+        >
+          Continue to RecipeUp
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <AuthLayout 
+      title="Verify Your Email" 
+      subtitle="Confirm the address on your RecipeUp account"
+    >
+      {/* useSearchParams needs a Suspense boundary to prerender */}
+      <Suspense fallback={null}>
+        <VerifyEmailStatus />
+      </Suspense>
+    </AuthLayout>
+  );
+}
@@ -90,7 +90,7 @@ export function FamilyClient({ user }: { user: any }) {
         setCreateFormData({ name: '', description: '' });
       } else {
         const error = await response.json();
-        alert(`Failed to create family group: ${error.error}`);
+        alert(`Failed to create family group: ${error.error?.message}`);
       }
     } catch (error) {
       console.error('Failed to create family group:', error);
@@ -123,7 +123,7 @@ export function FamilyClient({ user }: { user: any }) {
         setJoinFormData({ inviteCode: '' });
       } else {
         const error = await response.json();
-        alert(`Failed to join family group: ${error.error}`);
+        alert(`Failed to join family group: ${error.error?.message}`);
       }
     } catch (error) {
       console.error('Failed to join family group:', error);
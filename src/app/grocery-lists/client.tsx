@@ -1,14 +1,24 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { DashboardLayout } from '../../components/layouts/dashboard-layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
 import { Button } from '../../components/ui/button';
 import Link from 'next/link';
 import { format } from 'date-fns';
+import { nanoid } from 'nanoid';
+import { applyGroceryOperations, groupItemsByAisle, GroceryOperation, StoreAisle } from '../../lib/grocery';
+import {
+  getQueuedOperations,
+  loadListSnapshots,
+  queueOperation,
+  saveListSnapshots,
+  syncQueuedOperations,
+} from '../../lib/offline';
 
 interface GroceryItem {
+  id?: string;
   name: string;
   amount: string;
   unit: string;
@@ -16,9 +26,16 @@ interface GroceryItem {
   checked: boolean;
   recipeSources?: string[];
   notes?: string;
+  breakdown?: Array<{
+    recipeId: string;
+    recipeName: string;
+    amount: string;
+    unit: string;
+  }>;
 }
 
 interface AdditionalItem {
+  id?: string;
   name: string;
   category: string;
   checked: boolean;
@@ -32,6 +49,7 @@ interface GroceryList {
   ingredients: GroceryItem[];
   additionalItems: AdditionalItem[];
   status: string;
+  version: number;
   completedAt?: string;
   createdAt: string;
   updatedAt: string;
@@ -58,6 +76,13 @@ interface GroceryList {
   isOwner: boolean;
 }
 
+interface StoreProfile {
+  id: string;
+  name: string;
+  aisles: StoreAisle[];
+  isDefault: boolean;
+}
+
 interface FamilyGroup {
   id: string;
   name: string;
@@ -82,9 +107,13 @@ const CATEGORIES = [
   { id: 'pantry', name: '🥫 Pantry', color: 'bg-yellow-100 text-yellow-800' },
   { id: 'frozen', name: '🧊 Frozen', color: 'bg-cyan-100 text-cyan-800' },
   { id: 'bakery', name: '🍞 Bakery', color: 'bg-orange-100 text-orange-800' },
+  { id: 'beverages', name: '🧃 Beverages', color: 'bg-purple-100 text-purple-800' },
   { id: 'other', name: '🛒 Other', color: 'bg-gray-100 text-gray-800' },
 ];
 
+// Failed item updates with these statuses (and any 5xx) are queued and synced later
+const RETRYABLE_STATUSES = new Set([401, 408, 429]);
+
 export function GroceryListsClient({ user }: { user: any }) {
   const searchParams = useSearchParams();
   const mealPlanIdParam = searchParams.get('meal_plan_id');
@@ -97,6 +126,13 @@ export function GroceryListsClient({ user }: { user: any }) {
   const [showGenerateForm, setShowGenerateForm] = useState(!!mealPlanIdParam);
   const [selectedList, setSelectedList] = useState<GroceryList | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  const [usePantry, setUsePantry] = useState(true);
+  const [newItemName, setNewItemName] = useState('');
+  const [isOffline, setIsOffline] = useState(false);
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const [syncMessages, setSyncMessages] = useState<string[]>([]);
+  const [stores, setStores] = useState<StoreProfile[]>([]);
+  const [selectedStoreId, setSelectedStoreId] = useState('');
   
   // Create form state
   const [createFormData, setCreateFormData] = useState({
@@ -150,10 +186,17 @@ export function GroceryListsClient({ user }: { user: any }) {
       if (response.ok) {
         const data = await response.json();
         setGroceryLists(data.groceryLists);
+        return;
       }
     } catch (error) {
       console.error('Failed to load grocery lists:', error);
     }
+
+    // Offline or unreachable: show the lists saved on this device
+    const cachedLists = loadListSnapshots<GroceryList>();
+    if (cachedLists.length > 0) {
+      setGroceryLists(cachedLists);
+    }
   };
 
   const loadFamilyGroups = async () => {
@@ -211,6 +254,7 @@ export function GroceryListsClient({ user }: { user: any }) {
           name: generateFormData.name.trim(),
           ingredients: [], // Let the API extract from meal plan
           additionalItems: [],
+          usePantry,
         }),
       });
 
@@ -230,7 +274,7 @@ export function GroceryListsClient({ user }: { user: any }) {
         }
       } else {
         const error = await response.json();
-        alert(`Failed to generate grocery list: ${error.error}`);
+        alert(`Failed to generate grocery list: ${error.error?.message}`);
       }
     } catch (error) {
       console.error('Failed to generate grocery list:', error);
@@ -240,15 +284,247 @@ export function GroceryListsClient({ user }: { user: any }) {
     }
   };
 
-  const toggleItemChecked = async (listId: string, itemType: 'ingredients' | 'additionalItems', itemIndex: number) => {
+  // Keeps the list overview and the selected list in sync with the latest items
+  const updateListItems = (listId: string, update: (list: GroceryList) => Partial<GroceryList>) => {
+    const apply = (list: GroceryList): GroceryList => {
+      const updated = { ...list, ...update(list) };
+      const allItems = [...updated.ingredients, ...updated.additionalItems];
+      const checkedItems = allItems.filter(item => item.checked).length;
+      return {
+        ...updated,
+        completionStats: {
+          totalItems: allItems.length,
+          checkedItems,
+          percentageComplete: allItems.length > 0 ? Math.round((checkedItems / allItems.length) * 100) : 0,
+        },
+      };
+    };
+
+    setGroceryLists(prev => prev.map(l => l.id === listId ? apply(l) : l));
+    setSelectedList(prev => prev?.id === listId ? apply(prev) : prev);
+  };
+
+  // Keep active lists on the device so they open without a connection
+  useEffect(() => {
+    if (!loading) {
+      saveListSnapshots(groceryLists.filter(list => list.status !== 'completed'));
+    }
+  }, [groceryLists, loading]);
+
+  const queueOperations = (listId: string, operations: GroceryOperation[], base: GroceryItem | AdditionalItem | null) => {
+    operations.forEach(operation => queueOperation(listId, operation, base));
+    setPendingChanges(getQueuedOperations().length);
+  };
+
+  const syncPendingChanges = async () => {
+    if (getQueuedOperations().length === 0) return;
+
+    try {
+      const results = await syncQueuedOperations();
+      const messages = results.flatMap(result => result.messages);
+      if (messages.length > 0) {
+        setSyncMessages(prev => [...prev, ...messages]);
+      }
+      await loadGroceryLists();
+    } catch (error) {
+      console.error('Failed to sync offline changes:', error);
+    } finally {
+      setPendingChanges(getQueuedOperations().length);
+    }
+  };
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOffline(false);
+      syncPendingChanges();
+    };
+    const handleOffline = () => setIsOffline(true);
+
+    setIsOffline(!navigator.onLine);
+    setPendingChanges(getQueuedOperations().length);
+    if (navigator.onLine) {
+      syncPendingChanges();
+    }
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // `base` is the item as it looked before this change, used to resolve conflicts on replay
+  const sendOperations = async (
+    listId: string,
+    operations: GroceryOperation[],
+    base: GroceryItem | AdditionalItem | null = null
+  ) => {
+    if (!navigator.onLine) {
+      queueOperations(listId, operations, base);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/grocery-lists/${listId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ operations }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        updateListItems(listId, () => ({
+          ingredients: data.ingredients,
+          additionalItems: data.additionalItems,
+          version: data.version,
+        }));
+        return;
+      }
+
+      // Worth another try once the server recovers or the session is renewed
+      if (RETRYABLE_STATUSES.has(response.status) || response.status >= 500) {
+        queueOperations(listId, operations, base);
+        return;
+      }
+
+      // Rejected for good; put back what the server actually has
+      const error = await response.json().catch(() => null);
+      await refreshList(listId);
+      alert(`Failed to update the grocery list: ${error?.error?.message || 'Please try again.'}`);
+    } catch (error) {
+      // The request never reached the server; keep the change for the next sync
+      console.error('Failed to update item:', error);
+      queueOperations(listId, operations, base);
+    }
+  };
+
+  const toggleItemChecked = async (listId: string, item: GroceryItem | AdditionalItem) => {
+    if (!item.id) return;
+    const operation: GroceryOperation = { op: item.checked ? 'uncheck' : 'check', itemId: item.id };
+
+    // Show the change right away; the server response carries everyone else's changes too
+    updateListItems(listId, list => applyGroceryOperations(list, [operation]).lists);
+    await sendOperations(listId, [operation], item);
+  };
+
+  const removeItem = async (listId: string, item: GroceryItem | AdditionalItem) => {
+    if (!item.id) return;
+    const operation: GroceryOperation = { op: 'remove', itemId: item.id };
+
+    updateListItems(listId, list => applyGroceryOperations(list, [operation]).lists);
+    await sendOperations(listId, [operation], item);
+  };
+
+  const handleAddItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedList || !newItemName.trim()) return;
+
+    // Ids are assigned here so an item added offline keeps its identity once synced
+    const operation: GroceryOperation = {
+      op: 'add',
+      list: 'additionalItems',
+      item: { id: nanoid(10), name: newItemName.trim(), category: 'other', checked: false },
+    };
+
+    setNewItemName('');
+    updateListItems(selectedList.id, list => applyGroceryOperations(list, [operation]).lists);
+    await sendOperations(selectedList.id, [operation]);
+  };
+
+  const refreshList = async (listId: string) => {
     try {
-      const list = groceryLists.find(l => l.id === listId);
-      if (!list) return;
+      const response = await fetch(`/api/grocery-lists/${listId}`, {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        updateListItems(listId, () => ({
+          ingredients: data.groceryList.ingredients,
+          additionalItems: data.groceryList.additionalItems,
+          status: data.groceryList.status,
+          version: data.groceryList.version,
+        }));
+      }
+    } catch (error) {
+      console.error('Failed to refresh grocery list:', error);
+    }
+  };
+
+  // Live updates from other shoppers on the selected list
+  const selectedListId = selectedList?.id;
+  const selectedVersionRef = useRef(0);
+  selectedVersionRef.current = selectedList?.version ?? 0;
+  useEffect(() => {
+    if (!selectedListId) return;
+
+    const events = new EventSource(`/api/grocery-lists/${selectedListId}/events`);
+
+    events.addEventListener('snapshot', (message) => {
+      const event = JSON.parse((message as MessageEvent).data);
+      updateListItems(selectedListId, list => event.version < list.version ? {} : {
+        ...event.lists,
+        version: event.version,
+        ...(event.status && { status: event.status }),
+      });
+    });
+
+    events.addEventListener('patch', (message) => {
+      const event = JSON.parse((message as MessageEvent).data);
+      if (event.version > selectedVersionRef.current + 1) {
+        // Missed an update in between; reload instead of replaying on stale items
+        refreshList(selectedListId);
+        return;
+      }
+      updateListItems(selectedListId, list => event.version !== list.version + 1 ? {} : {
+        ...applyGroceryOperations(list, event.operations).lists,
+        version: event.version,
+      });
+    });
+
+    return () => events.close();
+  }, [selectedListId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const recategorizeItem = async (listId: string, item: GroceryItem, category: string) => {
+    if (!item.id || item.category === category) return;
+    const operation: GroceryOperation = { op: 'edit', itemId: item.id, changes: { category } };
+
+    // The server remembers the choice for the family's next lists
+    updateListItems(listId, list => applyGroceryOperations(list, [operation]).lists);
+    await sendOperations(listId, [operation], item);
+  };
+
+  // Store layouts of the selected list's family, starting with their default store
+  const selectedFamilyGroupId = selectedList?.familyGroup.id;
+  useEffect(() => {
+    if (!selectedFamilyGroupId) return;
+
+    const loadStores = async () => {
+      try {
+        const response = await fetch(`/api/family-groups/${selectedFamilyGroupId}/stores`, {
+          credentials: 'include',
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          setStores(data.storeProfiles);
+          setSelectedStoreId(data.storeProfiles.find((store: StoreProfile) => store.isDefault)?.id || '');
+        }
+      } catch (error) {
+        console.error('Failed to load stores:', error);
+      }
+    };
 
-      const items = list[itemType];
-      const updatedItems = [...items];
-      updatedItems[itemIndex] = { ...updatedItems[itemIndex], checked: !updatedItems[itemIndex].checked };
+    loadStores();
+  }, [selectedFamilyGroupId]);
 
+  const completeList = async (listId: string) => {
+    try {
+      setSubmitting(true);
       const response = await fetch(`/api/grocery-lists/${listId}`, {
         method: 'PUT',
         headers: {
@@ -256,25 +532,26 @@ export function GroceryListsClient({ user }: { user: any }) {
         },
         credentials: 'include',
         body: JSON.stringify({
-          [itemType]: updatedItems,
+          status: 'completed',
+          restockPantry: true,
         }),
       });
 
       if (response.ok) {
-        // Update local state
-        setGroceryLists(prev => prev.map(l => 
-          l.id === listId 
-            ? { ...l, [itemType]: updatedItems }
-            : l
-        ));
-        
-        // Update selected list if it's the one being modified
+        const data = await response.json();
+        setGroceryLists(prev => prev.map(l => l.id === listId ? { ...l, status: 'completed' } : l));
         if (selectedList?.id === listId) {
-          setSelectedList(prev => prev ? { ...prev, [itemType]: updatedItems } : null);
+          setSelectedList(prev => prev ? { ...prev, status: 'completed' } : null);
         }
+        alert(`Shopping done! ${data.restockedItems} item${data.restockedItems === 1 ? '' : 's'} added to the pantry.`);
+      } else {
+        const error = await response.json();
+        alert(`Failed to complete grocery list: ${error.error?.message}`);
       }
     } catch (error) {
-      console.error('Failed to update item:', error);
+      console.error('Failed to complete grocery list:', error);
+    } finally {
+      setSubmitting(false);
     }
   };
 
@@ -282,6 +559,22 @@ export function GroceryListsClient({ user }: { user: any }) {
     return CATEGORIES.find(cat => cat.id === categoryId) || CATEGORIES[CATEGORIES.length - 1];
   };
 
+  // "As walked" for the chosen store, otherwise grouped by category
+  const selectedStore = stores.find(store => store.id === selectedStoreId);
+  const ingredientGroups = !selectedList
+    ? []
+    : selectedStore
+    ? groupItemsByAisle(selectedList.ingredients, selectedStore.aisles).map(aisle => ({
+        name: aisle.name,
+        color: 'bg-gray-100 text-gray-800',
+        items: aisle.items,
+      }))
+    : CATEGORIES.map(category => ({
+        name: category.name,
+        color: category.color,
+        items: selectedList.ingredients.filter(item => getCategoryInfo(item.category).id === category.id),
+      })).filter(group => group.items.length > 0);
+
   if (loading) {
     return (
       <DashboardLayout user={user}>
@@ -302,6 +595,12 @@ export function GroceryListsClient({ user }: { user: any }) {
             <p className="text-gray-600 mt-2">Smart shopping lists generated from your meal plans</p>
           </div>
           <div className="flex gap-2">
+            <Link href="/pantry">
+              <Button variant="outline">🏠 Pantry</Button>
+            </Link>
+            <Link href="/stores">
+              <Button variant="outline">🏬 Stores</Button>
+            </Link>
             <Button variant="outline" onClick={() => setShowCreateForm(true)}>
               📝 Create Manual List
             </Button>
@@ -311,6 +610,34 @@ export function GroceryListsClient({ user }: { user: any }) {
           </div>
         </div>
 
+        {/* Offline Status */}
+        {(isOffline || pendingChanges > 0) && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-yellow-800">
+            {isOffline
+              ? '📴 You\'re offline. Check-offs and new items are saved on this device and will sync when you reconnect.'
+              : '🔄 Changes made while offline are waiting to sync.'}
+            {pendingChanges > 0 && ` (${pendingChanges} pending change${pendingChanges === 1 ? '' : 's'})`}
+          </div>
+        )}
+
+        {syncMessages.length > 0 && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800">
+            <div className="flex justify-between items-start">
+              <div>
+                <div className="font-medium mb-1">🔄 Your offline changes were merged</div>
+                <ul className="list-disc list-inside space-y-1">
+                  {syncMessages.map((message, index) => (
+                    <li key={index}>{message}</li>
+                  ))}
+                </ul>
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => setSyncMessages([])}>
+                Dismiss
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Generate Form */}
         {showGenerateForm && (
           <Card className="border-brand-200">
@@ -361,6 +688,16 @@ export function GroceryListsClient({ user }: { user: any }) {
                   />
                 </div>
                 
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={usePantry}
+                    onChange={(e) => setUsePantry(e.target.checked)}
+                    className="w-4 h-4 text-brand-600 rounded focus:ring-brand-500"
+                  />
+                  Skip items we already have in the pantry
+                </label>
+                
                 <div className="flex gap-2">
                   <Button type="submit" disabled={submitting}>
                     {submitting ? 'Generating...' : '🛒 Generate Grocery List'}
@@ -423,11 +760,18 @@ export function GroceryListsClient({ user }: { user: any }) {
               <div className="space-y-4">
                 <div className="flex justify-between items-center">
                   <h2 className="text-xl font-semibold">{selectedList.name}</h2>
-                  <Link href={`/grocery-lists/${selectedList.id}`}>
-                    <Button variant="outline" size="sm">
-                      📱 Mobile View
-                    </Button>
-                  </Link>
+                  <div className="flex gap-2">
+                    {selectedList.status !== 'completed' && (
+                      <Button size="sm" onClick={() => completeList(selectedList.id)} disabled={submitting}>
+                        ✅ Done Shopping
+                      </Button>
+                    )}
+                    <Link href={`/grocery-lists/${selectedList.id}`}>
+                      <Button variant="outline" size="sm">
+                        📱 Mobile View
+                      </Button>
+                    </Link>
+                  </div>
                 </div>
 
                 {/* Progress Bar */}
@@ -441,23 +785,54 @@ export function GroceryListsClient({ user }: { user: any }) {
                   {selectedList.completionStats.checkedItems} of {selectedList.completionStats.totalItems} items completed
                 </div>
 
-                {/* Ingredients by Category */}
+                {/* Store Order */}
+                {stores.length > 0 && (
+                  <div className="flex items-center gap-2 text-sm text-gray-700">
+                    <label htmlFor="store-order">🏬 Sort for</label>
+                    <select
+                      id="store-order"
+                      value={selectedStoreId}
+                      onChange={(e) => setSelectedStoreId(e.target.value)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                    >
+                      <option value="">Any store (by category)</option>
+                      {stores.map(store => (
+                        <option key={store.id} value={store.id}>{store.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {/* Quick Add */}
+                <form onSubmit={handleAddItem} className="flex gap-2">
+                  <input
+                    type="text"
+                    value={newItemName}
+                    onChange={(e) => setNewItemName(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                    placeholder="Add an item, e.g. paper towels"
+                  />
+                  <Button type="submit" variant="outline" disabled={!newItemName.trim()}>
+                    ➕ Add
+                  </Button>
+                </form>
+
+                {/* Ingredients by Aisle or Category */}
                 <div className="space-y-4 max-h-96 overflow-y-auto">
-                  {CATEGORIES.map(category => {
-                    const categoryItems = selectedList.ingredients.filter(item => item.category === category.id);
-                    if (categoryItems.length === 0) return null;
+                  {ingredientGroups.map(group => {
+                    const categoryItems = group.items;
 
                     return (
-                      <div key={category.id}>
-                        <div className={`px-2 py-1 rounded text-sm font-medium mb-2 ${category.color}`}>
-                          {category.name} ({categoryItems.length})
+                      <div key={group.name}>
+                        <div className={`px-2 py-1 rounded text-sm font-medium mb-2 ${group.color}`}>
+                          {group.name} ({categoryItems.length})
                         </div>
                         <div className="space-y-2">
                           {categoryItems.map((item, index) => {
                             const actualIndex = selectedList.ingredients.indexOf(item);
                             return (
                               <div 
-                                key={actualIndex}
+                                key={item.id || actualIndex}
                                 className={`flex items-center gap-3 p-2 rounded border ${
                                   item.checked ? 'bg-gray-50 text-gray-500' : 'bg-white'
                                 }`}
@@ -465,14 +840,22 @@ export function GroceryListsClient({ user }: { user: any }) {
                                 <input
                                   type="checkbox"
                                   checked={item.checked}
-                                  onChange={() => toggleItemChecked(selectedList.id, 'ingredients', actualIndex)}
+                                  onChange={() => toggleItemChecked(selectedList.id, item)}
                                   className="w-4 h-4 text-brand-600 rounded focus:ring-brand-500"
                                 />
                                 <div className={`flex-1 ${item.checked ? 'line-through' : ''}`}>
                                   <div className="font-medium">
                                     {item.amount} {item.unit} {item.name}
                                   </div>
-                                  {item.recipeSources && item.recipeSources.length > 0 && (
+                                  {item.breakdown && item.breakdown.length > 0 ? (
+                                    <div className="text-xs text-gray-500">
+                                      📖 {item.breakdown.map(source =>
+                                        source.amount
+                                          ? `${source.recipeName}: ${source.amount}${source.unit ? ` ${source.unit}` : ''}`
+                                          : source.recipeName
+                                      ).join(' · ')}
+                                    </div>
+                                  ) : item.recipeSources && item.recipeSources.length > 0 && (
                                     <div className="text-xs text-gray-500">
                                       📖 {item.recipeSources.length === 1 
                                         ? item.recipeSources[0]
@@ -488,6 +871,24 @@ export function GroceryListsClient({ user }: { user: any }) {
                                     </div>
                                   )}
                                 </div>
+                                <select
+                                  value={getCategoryInfo(item.category).id}
+                                  onChange={(e) => recategorizeItem(selectedList.id, item, e.target.value)}
+                                  className="text-xs border border-gray-200 rounded px-1 py-1 text-gray-600"
+                                  aria-label={`Category for ${item.name}`}
+                                >
+                                  {CATEGORIES.map(category => (
+                                    <option key={category.id} value={category.id}>{category.name}</option>
+                                  ))}
+                                </select>
+                                <button
+                                  type="button"
+                                  onClick={() => removeItem(selectedList.id, item)}
+                                  className="text-gray-400 hover:text-red-600 text-sm"
+                                  aria-label={`Remove ${item.name}`}
+                                >
+                                  ✕
+                                </button>
                               </div>
                             );
                           })}
@@ -505,7 +906,7 @@ export function GroceryListsClient({ user }: { user: any }) {
                       <div className="space-y-2">
                         {selectedList.additionalItems.map((item, index) => (
                           <div 
-                            key={index}
+                            key={item.id || index}
                             className={`flex items-center gap-3 p-2 rounded border ${
                               item.checked ? 'bg-gray-50 text-gray-500' : 'bg-white'
                             }`}
@@ -513,7 +914,7 @@ export function GroceryListsClient({ user }: { user: any }) {
                             <input
                               type="checkbox"
                               checked={item.checked}
-                              onChange={() => toggleItemChecked(selectedList.id, 'additionalItems', index)}
+                              onChange={() => toggleItemChecked(selectedList.id, item)}
                               className="w-4 h-4 text-brand-600 rounded focus:ring-brand-500"
                             />
                             <div className={`flex-1 ${item.checked ? 'line-through' : ''}`}>
@@ -524,6 +925,14 @@ export function GroceryListsClient({ user }: { user: any }) {
                                 </div>
                               )}
                             </div>
+                            <button
+                              type="button"
+                              onClick={() => removeItem(selectedList.id, item)}
+                              className="text-gray-400 hover:text-red-600 text-sm"
+                              aria-label={`Remove ${item.name}`}
+                            >
+                              ✕
+                            </button>
                           </div>
                         ))}
                       </div>
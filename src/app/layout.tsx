@@ -1,9 +1,19 @@
-import type { Metadata } from 'next';
+import type { Metadata, Viewport } from 'next';
+import { ServiceWorkerRegistration } from '../components/pwa/service-worker-registration';
 import './globals.css';
 
 export const metadata: Metadata = {
   title: 'RecipeUp v2',
   description: 'Modern recipe management and family meal planning',
+  appleWebApp: {
+    capable: true,
+    title: 'RecipeUp',
+    statusBarStyle: 'default',
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: '#9333ea',
 };
 
 export default function RootLayout({
@@ -15,6 +25,7 @@ export default function RootLayout({
     <html lang="en">
       <body>
         {children}
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
@@ -0,0 +1,28 @@
+import type { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'RecipeUp',
+    short_name: 'RecipeUp',
+    description: 'Recipes, family meal plans and grocery lists that work in the store',
+    start_url: '/grocery-lists',
+    scope: '/',
+    display: 'standalone',
+    background_color: '#f9fafb',
+    theme_color: '#9333ea',
+    icons: [
+      {
+        src: '/icons/icon.svg',
+        sizes: 'any',
+        type: 'image/svg+xml',
+        purpose: 'any',
+      },
+      {
+        src: '/icons/icon-maskable.svg',
+        sizes: 'any',
+        type: 'image/svg+xml',
+        purpose: 'maskable',
+      },
+    ],
+  };
+}
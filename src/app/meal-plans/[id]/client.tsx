@@ -246,7 +246,7 @@ export function MealPlanDetailClient({ user, mealPlanId }: { user: any; mealPlan
                                 </div>
                               )}
                               {meal.recipeId && (
-                                <Link href={`/recipes/${meal.recipeId}`} target="_blank">
+                                <Link href={`/recipes/${meal.recipeId}${meal.servings ? `?servings=${meal.servings}` : ''}`} target="_blank">
                                   <Button variant="outline" size="sm" className="mt-1 text-xs h-6">
                                     📖 View Recipe
                                   </Button>
@@ -197,7 +197,7 @@ export function MealPlanEditClient({ user, mealPlanId }: { user: any; mealPlanId
         router.push(`/meal-plans/${mealPlanId}`);
       } else {
         const error = await response.json();
-        alert(`Failed to update meal plan: ${error.error}`);
+        alert(`Failed to update meal plan: ${error.error?.message}`);
       }
     } catch (error) {
       console.error('Failed to update meal plan:', error);
@@ -222,7 +222,7 @@ export function MealPlanEditClient({ user, mealPlanId }: { user: any; mealPlanId
         router.push('/meal-plans');
       } else {
         const error = await response.json();
-        alert(`Failed to delete meal plan: ${error.error}`);
+        alert(`Failed to delete meal plan: ${error.error?.message}`);
       }
     } catch (error) {
       console.error('Failed to delete meal plan:', error);
@@ -421,7 +421,7 @@ export function MealPlanEditClient({ user, mealPlanId }: { user: any; mealPlanId
                                 <div className="text-xs font-medium text-brand-800">
                                   📖 {meal.recipeName}
                                 </div>
-                                <Link href={`/recipes/${meal.recipeId}`} target="_blank">
+                                <Link href={`/recipes/${meal.recipeId}${meal.servings ? `?servings=${meal.servings}` : ''}`} target="_blank">
                                   <Button variant="outline" size="sm" className="mt-1 text-xs h-5">
                                     View Recipe
                                   </Button>
@@ -194,7 +194,7 @@ export function MealPlansClient({ user }: { user: any }) {
         });
       } else {
         const error = await response.json();
-        alert(`Failed to create meal plan: ${error.error}`);
+        alert(`Failed to create meal plan: ${error.error?.message}`);
       }
     } catch (error) {
       console.error('Failed to create meal plan:', error);
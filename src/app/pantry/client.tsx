@@ -0,0 +1,332 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { DashboardLayout } from '../../components/layouts/dashboard-layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Button } from '../../components/ui/button';
+import { Input } from '../../components/ui/input';
+import Link from 'next/link';
+
+interface PantryItem {
+  id: string;
+  name: string;
+  amount: string;
+  unit: string;
+  category: string | null;
+  notes: string | null;
+  updatedAt: string;
+}
+
+interface FamilyGroup {
+  id: string;
+  name: string;
+  role: string;
+}
+
+const CATEGORIES = [
+  { id: 'produce', name: '🥬 Produce' },
+  { id: 'meat', name: '🥩 Meat & Seafood' },
+  { id: 'dairy', name: '🥛 Dairy' },
+  { id: 'pantry', name: '🥫 Pantry' },
+  { id: 'frozen', name: '🧊 Frozen' },
+  { id: 'bakery', name: '🍞 Bakery' },
+  { id: 'beverages', name: '🧃 Beverages' },
+  { id: 'other', name: '🛒 Other' },
+];
+
+const EMPTY_FORM = { name: '', amount: '', unit: '' };
+
+export function PantryClient({ user }: { user: any }) {
+  const [familyGroups, setFamilyGroups] = useState<FamilyGroup[]>([]);
+  const [selectedGroupId, setSelectedGroupId] = useState('');
+  const [items, setItems] = useState<PantryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editData, setEditData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    loadFamilyGroups();
+  }, []);
+
+  useEffect(() => {
+    if (selectedGroupId) {
+      loadPantry(selectedGroupId);
+    }
+  }, [selectedGroupId]);
+
+  const loadFamilyGroups = async () => {
+    try {
+      const response = await fetch('/api/family-groups', {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setFamilyGroups(data.familyGroups);
+        if (data.familyGroups.length > 0) {
+          setSelectedGroupId(data.familyGroups[0].id);
+        } else {
+          setLoading(false);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load family groups:', error);
+      setLoading(false);
+    }
+  };
+
+  const loadPantry = async (familyGroupId: string) => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/family-groups/${familyGroupId}/pantry`, {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setItems(data.pantryItems);
+      }
+    } catch (error) {
+      console.error('Failed to load pantry:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) return;
+
+    try {
+      setSubmitting(true);
+      const response = await fetch(`/api/family-groups/${selectedGroupId}/pantry`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(formData),
+      });
+
+      if (response.ok) {
+        setFormData(EMPTY_FORM);
+        await loadPantry(selectedGroupId);
+      } else {
+        const error = await response.json();
+        alert(`Failed to add item: ${error.error?.message}`);
+      }
+    } catch (error) {
+      console.error('Failed to add pantry item:', error);
+      alert('Failed to add item. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const startEditing = (item: PantryItem) => {
+    setEditingId(item.id);
+    setEditData({ name: item.name, amount: item.amount, unit: item.unit });
+  };
+
+  const handleSaveItem = async (itemId: string) => {
+    try {
+      setSubmitting(true);
+      const response = await fetch(`/api/family-groups/${selectedGroupId}/pantry/${itemId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(editData),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setItems(prev => prev.map(item => item.id === itemId ? data.pantryItem : item));
+        setEditingId(null);
+      }
+    } catch (error) {
+      console.error('Failed to update pantry item:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRemoveItem = async (itemId: string) => {
+    try {
+      const response = await fetch(`/api/family-groups/${selectedGroupId}/pantry/${itemId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        setItems(prev => prev.filter(item => item.id !== itemId));
+      }
+    } catch (error) {
+      console.error('Failed to remove pantry item:', error);
+    }
+  };
+
+  const groupedItems = CATEGORIES.map(category => ({
+    ...category,
+    items: items.filter(item => (CATEGORIES.some(c => c.id === item.category) ? item.category : 'other') === category.id),
+  })).filter(category => category.items.length > 0);
+
+  return (
+    <DashboardLayout user={user}>
+      <div className="space-y-8">
+        {/* Header */}
+        <div className="flex justify-between items-start">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Pantry</h1>
+            <p className="text-gray-600 mt-2">What your household already has at home. Generated grocery lists skip these items.</p>
+          </div>
+          <div className="flex gap-2 items-center">
+            {familyGroups.length > 1 && (
+              <select
+                value={selectedGroupId}
+                onChange={(e) => setSelectedGroupId(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+              >
+                {familyGroups.map((group) => (
+                  <option key={group.id} value={group.id}>{group.name}</option>
+                ))}
+              </select>
+            )}
+            <Link href="/grocery-lists">
+              <Button variant="outline">🛒 Grocery Lists</Button>
+            </Link>
+          </div>
+        </div>
+
+        {!loading && familyGroups.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <div className="text-gray-600 mb-4">Join or create a family group to start tracking your pantry.</div>
+              <Link href="/family">
+                <Button>👨‍👩‍👧‍👦 Go to Family</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Add Item */}
+            <Card>
+              <CardHeader>
+                <CardTitle>➕ Add to Pantry</CardTitle>
+                <CardDescription>
+                  Leave the amount empty for staples you always keep stocked, like salt or oil
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleAddItem} className="flex flex-col md:flex-row gap-2">
+                  <div className="flex-1">
+                    <Input
+                      placeholder="Item (e.g. 2 kg flour)"
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="md:w-28">
+                    <Input
+                      placeholder="Amount"
+                      value={formData.amount}
+                      onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                    />
+                  </div>
+                  <div className="md:w-28">
+                    <Input
+                      placeholder="Unit"
+                      value={formData.unit}
+                      onChange={(e) => setFormData({ ...formData, unit: e.target.value })}
+                    />
+                  </div>
+                  <Button type="submit" isLoading={submitting}>
+                    Add
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            {/* Pantry Items */}
+            {loading ? (
+              <div className="text-center py-12">
+                <div className="text-gray-600">Loading pantry...</div>
+              </div>
+            ) : groupedItems.length > 0 ? (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {groupedItems.map((category) => (
+                  <Card key={category.id}>
+                    <CardHeader>
+                      <CardTitle className="text-lg">{category.name}</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-2">
+                        {category.items.map((item) => (
+                          <div key={item.id} className="flex items-center gap-3 p-2 rounded border bg-white">
+                            {editingId === item.id ? (
+                              <>
+                                <div className="flex-1 flex gap-2">
+                                  <Input
+                                    value={editData.name}
+                                    onChange={(e) => setEditData({ ...editData, name: e.target.value })}
+                                  />
+                                  <Input
+                                    className="w-20"
+                                    placeholder="Amount"
+                                    value={editData.amount}
+                                    onChange={(e) => setEditData({ ...editData, amount: e.target.value })}
+                                  />
+                                  <Input
+                                    className="w-20"
+                                    placeholder="Unit"
+                                    value={editData.unit}
+                                    onChange={(e) => setEditData({ ...editData, unit: e.target.value })}
+                                  />
+                                </div>
+                                <Button size="sm" onClick={() => handleSaveItem(item.id)} disabled={submitting}>
+                                  Save
+                                </Button>
+                                <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                                  Cancel
+                                </Button>
+                              </>
+                            ) : (
+                              <>
+                                <div className="flex-1">
+                                  <div className="font-medium">{item.name}</div>
+                                  <div className="text-xs text-gray-500">
+                                    {item.amount ? `${item.amount} ${item.unit}`.trim() : 'Always stocked'}
+                                  </div>
+                                </div>
+                                <Button size="sm" variant="ghost" onClick={() => startEditing(item)}>
+                                  ✏️
+                                </Button>
+                                <Button size="sm" variant="ghost" onClick={() => handleRemoveItem(item.id)}>
+                                  🗑️
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : (
+              <Card>
+                <CardContent className="text-center py-12 text-gray-600">
+                  Your pantry is empty. Add what you have at home, or complete a grocery list to restock it.
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,21 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '../../lib/auth';
+import { PantryClient } from './client';
+
+async function getUser() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      redirect('/auth/login');
+    }
+    return user;
+  } catch (error) {
+    redirect('/auth/login');
+  }
+}
+
+export default async function PantryPage() {
+  const user = await getUser();
+
+  return <PantryClient user={user} />;
+}
\ No newline at end of file
@@ -5,6 +5,7 @@ import { DashboardLayout } from '../../../components/layouts/dashboard-layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../../components/ui/card';
 import { Button } from '../../../components/ui/button';
 import Link from 'next/link';
+import { scaleIngredients } from '../../../lib/units';
 
 interface RecipeDetail {
   id: string;
@@ -60,17 +61,22 @@ interface RecipeDetail {
   
   // Nutrition (if available)
   nutrition?: Record<string, number>;
+
+  // Units the ingredients and temperatures are expressed in
+  measurementSystem?: 'us' | 'metric';
 }
 
 function stripHtml(html: string): string {
   return html.replace(/<[^>]*>/g, '').trim();
 }
 
-export function RecipeDetailClient({ user, recipeId }: { user: any; recipeId: string }) {
+export function RecipeDetailClient({ user, recipeId, initialServings }: { user: any; recipeId: string; initialServings?: number }) {
   const [recipe, setRecipe] = useState<RecipeDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isFavorited, setIsFavorited] = useState(false);
+  const [servings, setServings] = useState<number | null>(initialServings || null);
+  const [isSavingUnits, setIsSavingUnits] = useState(false);
 
   useEffect(() => {
     loadRecipe();
@@ -93,6 +99,7 @@ export function RecipeDetailClient({ user, recipeId }: { user: any; recipeId: st
       const data = await response.json();
       setRecipe(data.recipe);
       setIsFavorited(data.recipe.isFavorited || false);
+      setServings(current => current || data.recipe.servings || null);
     } catch (error) {
       console.error('Failed to load recipe:', error);
       setError('Failed to load recipe. Please try again.');
@@ -101,9 +108,36 @@ export function RecipeDetailClient({ user, recipeId }: { user: any; recipeId: st
     }
   };
 
+  const adjustServings = (delta: number) => {
+    setServings(current => Math.min(100, Math.max(1, (current || 1) + delta)));
+  };
+
+  const handleMeasurementSystemChange = async (measurementSystem: 'us' | 'metric') => {
+    if (recipe?.measurementSystem === measurementSystem) return;
+
+    try {
+      setIsSavingUnits(true);
+      const response = await fetch('/api/auth/me', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ measurementSystem }),
+      });
+
+      if (response.ok) {
+        await loadRecipe();
+      }
+    } catch (error) {
+      console.error('Failed to update measurement system:', error);
+    } finally {
+      setIsSavingUnits(false);
+    }
+  };
+
   const handleFavorite = async () => {
     try {
-      const response = await fetch(`/api/recipes/${recipeId}/favorite/toggle`, {
+      // The loaded recipe's id is the canonical one, even when the page was opened by an old bare id
+      const response = await fetch(`/api/recipes/${recipe?.id ?? recipeId}/favorite/toggle`, {
         method: 'POST',
         credentials: 'include',
       });
@@ -151,6 +185,12 @@ export function RecipeDetailClient({ user, recipeId }: { user: any; recipeId: st
     ['calories', 'fat', 'carbohydrates', 'protein', 'fiber', 'sugar'].includes(key) && value > 0
   ) : [];
 
+  // Ingredient quantities follow the chosen serving count
+  const isScaled = !!servings && !!recipe.servings && servings !== recipe.servings;
+  const scaledIngredients = isScaled
+    ? scaleIngredients(recipe.ingredients || [], recipe.servings, servings!)
+    : recipe.ingredients || [];
+
   return (
     <DashboardLayout user={user}>
       <div className="max-w-4xl mx-auto space-y-8">
@@ -187,7 +227,27 @@ export function RecipeDetailClient({ user, recipeId }: { user: any; recipeId: st
                 <div className="text-sm text-blue-600">minutes</div>
               </div>
               <div className="bg-green-50 p-4 rounded-lg">
-                <div className="text-2xl font-bold text-green-900">👥 {recipe.servings}</div>
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => adjustServings(-1)}
+                    disabled={(servings || 1) <= 1}
+                    className="w-7 h-7 rounded-full bg-green-100 text-green-900 font-bold hover:bg-green-200 disabled:opacity-50"
+                    aria-label="Decrease servings"
+                  >
+                    −
+                  </button>
+                  <div className="text-2xl font-bold text-green-900">👥 {servings || recipe.servings}</div>
+                  <button
+                    type="button"
+                    onClick={() => adjustServings(1)}
+                    disabled={(servings || 1) >= 100}
+                    className="w-7 h-7 rounded-full bg-green-100 text-green-900 font-bold hover:bg-green-200 disabled:opacity-50"
+                    aria-label="Increase servings"
+                  >
+                    +
+                  </button>
+                </div>
                 <div className="text-sm text-green-600">servings</div>
               </div>
               <div className="bg-purple-50 p-4 rounded-lg">
@@ -245,11 +305,40 @@ export function RecipeDetailClient({ user, recipeId }: { user: any; recipeId: st
         <Card>
           <CardHeader>
             <CardTitle>📝 Ingredients</CardTitle>
-            <CardDescription>Everything you&apos;ll need</CardDescription>
+            <CardDescription>
+              {isScaled
+                ? `Scaled for ${servings} servings (original recipe serves ${recipe.servings})`
+                : 'Everything you\'ll need'}
+            </CardDescription>
+            <div className="flex flex-wrap items-center gap-2">
+              <div className="flex gap-1">
+                <Button
+                  variant={recipe.measurementSystem === 'metric' ? 'outline' : 'default'}
+                  size="sm"
+                  onClick={() => handleMeasurementSystemChange('us')}
+                  disabled={isSavingUnits}
+                >
+                  US
+                </Button>
+                <Button
+                  variant={recipe.measurementSystem === 'metric' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => handleMeasurementSystemChange('metric')}
+                  disabled={isSavingUnits}
+                >
+                  Metric
+                </Button>
+              </div>
+              {isScaled && (
+                <Button variant="ghost" size="sm" onClick={() => setServings(recipe.servings)}>
+                  Reset to {recipe.servings} servings
+                </Button>
+              )}
+            </div>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {recipe.ingredients?.map((ingredient, index) => (
+              {scaledIngredients.map((ingredient, index) => (
                 <div key={index} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
                   <div className="w-12 h-12 bg-green-100 rounded flex items-center justify-center text-green-600 font-bold">
                     🥄
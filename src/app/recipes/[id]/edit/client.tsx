@@ -6,6 +6,8 @@ import { DashboardLayout } from '../../../../components/layouts/dashboard-layout
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../../../components/ui/card';
 import { Button } from '../../../../components/ui/button';
 import Link from 'next/link';
+import { normalizeIngredient } from '../../../../lib/ingredients';
+import { isExternalRecipeId } from '../../../../lib/recipe-providers/ids';
 
 interface Ingredient {
   name: string;
@@ -98,8 +100,8 @@ export function EditRecipeClient({ user, recipeId }: { user: any; recipeId: stri
           return;
         }
 
-        // Check if this is a Spoonacular recipe (can't edit external recipes)
-        if (/^\d+$/.test(recipeId)) {
+        // Can't edit external recipes
+        if (isExternalRecipeId(recipeId)) {
           alert('Cannot edit external recipes.');
           router.push('/recipes');
           return;
@@ -152,6 +154,17 @@ export function EditRecipeClient({ user, recipeId }: { user: any; recipeId: stri
     setIngredients(updated);
   };
   
+  // Split a full line typed into the name field, e.g. "1 1/2 cups flour, sifted"
+  const parseIngredientName = (index: number) => {
+    const ingredient = ingredients[index];
+    if (!ingredient.name.trim() || ingredient.amount.trim() || ingredient.unit.trim()) return;
+    
+    const normalized = normalizeIngredient(ingredient);
+    const updated = [...ingredients];
+    updated[index] = { ...normalized, notes: normalized.notes || '' };
+    setIngredients(updated);
+  };
+  
   const addInstruction = () => {
     setInstructions([...instructions, { step: instructions.length + 1, instruction: '' }]);
   };
@@ -488,8 +501,9 @@ export function EditRecipeClient({ user, recipeId }: { user: any; recipeId: stri
                       type="text"
                       value={ingredient.name}
                       onChange={(e) => updateIngredient(index, 'name', e.target.value)}
+                      onBlur={() => parseIngredientName(index)}
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
-                      placeholder="Ingredient name"
+                      placeholder="Ingredient (e.g. 1 1/2 cups flour, sifted)"
                     />
                   </div>
                   <div className="md:col-span-2">
@@ -14,7 +14,18 @@ async function getUser() {
   }
 }
 
-export default async function RecipeDetailPage({ params }: { params: { id: string } }) {
+export default async function RecipeDetailPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { servings?: string };
+}) {
   const user = await getUser();
-  return <RecipeDetailClient user={user} recipeId={params.id} />;
+
+  // Meal plans link here with the planned serving count
+  const servings = Number(searchParams.servings);
+  const initialServings = Number.isInteger(servings) && servings > 0 && servings <= 100 ? servings : undefined;
+
+  return <RecipeDetailClient user={user} recipeId={params.id} initialServings={initialServings} />;
 }
\ No newline at end of file
@@ -5,6 +5,9 @@ import { DashboardLayout } from '../../components/layouts/dashboard-layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
 import { Button } from '../../components/ui/button';
 import Link from 'next/link';
+import { AddToCollectionMenu, CollectionsTab } from './collections';
+import { WhatCanICookTab } from './cook-with';
+import { FacetSidebar, RecipeFacets, SearchRefinements, EMPTY_REFINEMENTS, refinementParams } from './facets';
 
 interface Recipe {
   id: string;
@@ -28,6 +31,10 @@ interface Recipe {
   sourceType: string;
   spoonacularId?: number;
   isFavorited?: boolean;
+  highlight?: {
+    title: string;
+    snippet: string;
+  };
 }
 
 interface SearchResponse {
@@ -38,7 +45,27 @@ interface SearchResponse {
     total: number;
     hasMore: boolean;
   };
+  facets?: RecipeFacets;
   source?: string;
+  degraded?: boolean;
+  notice?: string;
+}
+
+// Search highlights mark matches with <mark> tags; everything else is shown as plain text
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+        part.startsWith('<mark>') ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded px-0.5">
+            {part.slice('<mark>'.length, -'</mark>'.length)}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
 }
 
 function RecipeCard({ recipe, onFavorite, currentUserId }: { recipe: Recipe; onFavorite: (id: string) => void; currentUserId?: string }) {
@@ -81,9 +108,11 @@ function RecipeCard({ recipe, onFavorite, currentUserId }: { recipe: Recipe; onF
       </div>
       
       <CardHeader className="pb-2">
-        <CardTitle className="text-lg line-clamp-2">{recipe.title}</CardTitle>
+        <CardTitle className="text-lg line-clamp-2">
+          {recipe.highlight ? <Highlighted text={recipe.highlight.title} /> : recipe.title}
+        </CardTitle>
         <CardDescription className="line-clamp-2">
-          {recipe.summary}
+          {recipe.highlight?.snippet ? <Highlighted text={recipe.highlight.snippet} /> : recipe.summary}
         </CardDescription>
       </CardHeader>
       
@@ -111,11 +140,13 @@ function RecipeCard({ recipe, onFavorite, currentUserId }: { recipe: Recipe; onF
         )}
         
         <div className="space-y-2">
-          <Link href={`/recipes/${recipe.spoonacularId || (recipe.id.startsWith('spoon_') ? recipe.id.replace('spoon_', '') : recipe.id)}`}>
+          <Link href={`/recipes/${recipe.id}`}>
             <Button className="w-full" size="sm">
               View Recipe
             </Button>
           </Link>
+
+          <AddToCollectionMenu recipeId={recipe.id} />
           
           {/* Show edit button for user-owned recipes */}
           {recipe.sourceType === 'user' && currentUserId && !recipe.spoonacularId && (
@@ -136,11 +167,26 @@ export function RecipesPageClient({ user }: { user: any }) {
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [searchActive, setSearchActive] = useState(false);
-  const [activeTab, setActiveTab] = useState<'spoonacular' | 'user' | 'all'>('spoonacular');
+  const [activeTab, setActiveTab] = useState<'spoonacular' | 'user' | 'collections' | 'cook' | 'all'>('spoonacular');
+  const [facets, setFacets] = useState<RecipeFacets | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [refinements, setRefinements] = useState<SearchRefinements>(EMPTY_REFINEMENTS);
 
   useEffect(() => {
-    loadInitialRecipes();
-  }, [activeTab]);
+    if (activeTab !== 'collections' && activeTab !== 'cook') {
+      if (searchActive) {
+        searchRecipes(searchQuery);
+      } else {
+        loadInitialRecipes();
+      }
+    }
+  }, [activeTab, refinements]);
+
+  // The All Recipes tab searches with facet counts and the sidebar's refinements
+  const facetParams = () => {
+    const params = refinementParams(refinements);
+    return `&facets=true${params ? `&${params}` : ''}`;
+  };
 
   const loadInitialRecipes = async () => {
     try {
@@ -150,7 +196,7 @@ export function RecipesPageClient({ user }: { user: any }) {
       if (activeTab === 'user') {
         url = '/api/recipes/my-collection?limit=12';
       } else if (activeTab === 'all') {
-        url = '/api/recipes/search?source=all&limit=12';
+        url = `/api/recipes/search?source=all&limit=12${facetParams()}`;
       } else {
         url = '/api/recipes/search?source=spoonacular&limit=12&query=healthy';
       }
@@ -167,6 +213,8 @@ export function RecipesPageClient({ user }: { user: any }) {
         } else {
           setRecipes(data.recipes);
         }
+        setFacets(data.facets || null);
+        setNotice(data.notice || null);
       }
     } catch (error) {
       console.error('Failed to load recipes:', error);
@@ -192,7 +240,7 @@ export function RecipesPageClient({ user }: { user: any }) {
         url = `/api/recipes/my-collection?limit=50`; // Get more results to allow filtering
       } else {
         const source = activeTab === 'all' ? 'all' : 'spoonacular';
-        url = `/api/recipes/search?source=${source}&limit=12&query=${encodeURIComponent(query)}`;
+        url = `/api/recipes/search?source=${source}&limit=12&query=${encodeURIComponent(query)}${activeTab === 'all' ? facetParams() : ''}`;
       }
       
       const response = await fetch(url, {
@@ -213,6 +261,8 @@ export function RecipesPageClient({ user }: { user: any }) {
         } else {
           setRecipes(data.recipes);
         }
+        setFacets(data.facets || null);
+        setNotice(data.notice || null);
       }
     } catch (error) {
       console.error('Search failed:', error);
@@ -223,10 +273,7 @@ export function RecipesPageClient({ user }: { user: any }) {
 
   const handleFavorite = async (recipeId: string) => {
     try {
-      // For Spoonacular recipes, extract the numeric ID
-      const numericId = recipeId.startsWith('spoon_') ? recipeId.replace('spoon_', '') : recipeId;
-      
-      const response = await fetch(`/api/recipes/${numericId}/favorite/toggle`, {
+      const response = await fetch(`/api/recipes/${recipeId}/favorite/toggle`, {
         method: 'POST',
         credentials: 'include',
       });
@@ -295,6 +342,26 @@ export function RecipesPageClient({ user }: { user: any }) {
             >
               ❤️ My Collection
             </button>
+            <button
+              onClick={() => setActiveTab('collections')}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'collections'
+                  ? 'border-brand-500 text-brand-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              📚 Collections
+            </button>
+            <button
+              onClick={() => setActiveTab('cook')}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === 'cook'
+                  ? 'border-brand-500 text-brand-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              🧊 What Can I Cook?
+            </button>
             <button
               onClick={() => setActiveTab('all')}
               className={`py-2 px-1 border-b-2 font-medium text-sm ${
@@ -308,62 +375,88 @@ export function RecipesPageClient({ user }: { user: any }) {
           </nav>
         </div>
 
-        {/* Search Bar */}
-        <form onSubmit={handleSearch} className="flex gap-4">
-          <input
-            type="text"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            placeholder="Search recipes (e.g., pasta, chicken, vegan)..."
-            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
-          />
-          <Button type="submit" isLoading={loading}>
-            Search
-          </Button>
-          {searchActive && (
-            <Button 
-              variant="outline" 
-              onClick={() => {
-                setSearchQuery('');
-                loadInitialRecipes();
-              }}
-            >
-              Clear
-            </Button>
-          )}
-        </form>
+        {activeTab === 'collections' ? (
+          <CollectionsTab />
+        ) : activeTab === 'cook' ? (
+          <WhatCanICookTab />
+        ) : (
+          <>
+            {/* Search Bar */}
+            <form onSubmit={handleSearch} className="flex gap-4">
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search recipes (e.g., pasta, chicken, vegan)..."
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+              />
+              <Button type="submit" isLoading={loading}>
+                Search
+              </Button>
+              {searchActive && (
+                <Button 
+                  variant="outline" 
+                  onClick={() => {
+                    setSearchQuery('');
+                    loadInitialRecipes();
+                  }}
+                >
+                  Clear
+                </Button>
+              )}
+            </form>
 
-        {/* Loading State */}
-        {loading && (
-          <div className="text-center py-12">
-            <div className="text-gray-600">Loading delicious recipes...</div>
-          </div>
-        )}
+            <div className="flex flex-col lg:flex-row gap-6">
+              {/* Facets */}
+              {activeTab === 'all' && facets && (
+                <aside className="lg:w-64 shrink-0">
+                  <FacetSidebar facets={facets} refinements={refinements} onChange={setRefinements} />
+                </aside>
+              )}
 
-        {/* Results */}
-        {!loading && recipes.length > 0 && (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {recipes.map((recipe) => (
-              <RecipeCard
-                key={recipe.id}
-                recipe={recipe}
-                onFavorite={handleFavorite}
-                currentUserId={user.id}
-              />
-            ))}
-          </div>
-        )}
+              <div className="flex-1 min-w-0">
+                {/* Quota Notice */}
+                {notice && !loading && (
+                  <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                    ⚠️ {notice}
+                  </div>
+                )}
+
+                {/* Loading State */}
+                {loading && (
+                  <div className="text-center py-12">
+                    <div className="text-gray-600">Loading delicious recipes...</div>
+                  </div>
+                )}
+
+                {/* Results */}
+                {!loading && recipes.length > 0 && (
+                  <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 ${activeTab === 'all' && facets ? '' : 'xl:grid-cols-4'}`}>
+                    {recipes.map((recipe) => (
+                      <RecipeCard
+                        key={recipe.id}
+                        recipe={recipe}
+                        onFavorite={handleFavorite}
+                        currentUserId={user.id}
+                      />
+                    ))}
+                  </div>
+                )}
 
-        {/* No Results */}
-        {!loading && recipes.length === 0 && (
-          <div className="text-center py-12">
-            <div className="text-gray-600 mb-4">
-              {searchActive ? 'No recipes found for your search.' : 'No recipes available.'}
+                {/* No Results */}
+                {!loading && recipes.length === 0 && (
+                  <div className="text-center py-12">
+                    <div className="text-gray-600 mb-4">
+                      {searchActive ? 'No recipes found for your search.' : 'No recipes available.'}
+                    </div>
+                    <Button onClick={loadInitialRecipes}>
+                      Load Popular Recipes
+                    </Button>
+                  </div>
+                )}
+              </div>
             </div>
-            <Button onClick={loadInitialRecipes}>
-              Load Popular Recipes
-            </Button>
-          </div>
+          </>
         )}
 
         {/* Success Banner */}
@@ -0,0 +1,550 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Button } from '../../components/ui/button';
+import { Input } from '../../components/ui/input';
+import Link from 'next/link';
+
+interface Collection {
+  id: string;
+  name: string;
+  description: string | null;
+  isPublic: boolean;
+  familyGroup: {
+    id: string;
+    name: string;
+  } | null;
+  owner: {
+    id: string;
+    username: string;
+  };
+  itemCount: number;
+  isOwner: boolean;
+  canEditItems: boolean;
+  containsRecipe?: boolean;
+}
+
+interface CollectionRecipe {
+  id: string;
+  title: string;
+  readyInMinutes: number | null;
+  servings: number | null;
+  sourceType: string;
+}
+
+interface CollectionDetail {
+  id: string;
+  name: string;
+  description: string | null;
+  isPublic: boolean;
+  familyGroupId: string | null;
+  isOwner: boolean;
+  canEditItems: boolean;
+  recipes: CollectionRecipe[];
+}
+
+interface FamilyGroup {
+  id: string;
+  name: string;
+}
+
+const EMPTY_FORM = { name: '', description: '', familyGroupId: '', isPublic: false };
+
+// ============================================================================
+// Add to Collection Menu
+// ============================================================================
+
+export function AddToCollectionMenu({ recipeId }: { recipeId: string }) {
+  const [open, setOpen] = useState(false);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const toggleOpen = async () => {
+    if (open) {
+      setOpen(false);
+      return;
+    }
+
+    setOpen(true);
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/collections?recipe_id=${encodeURIComponent(recipeId)}`, {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setCollections(data.collections.filter((collection: Collection) => collection.canEditItems));
+      }
+    } catch (error) {
+      console.error('Failed to load collections:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleCollection = async (collection: Collection) => {
+    try {
+      const response = collection.containsRecipe
+        ? await fetch(`/api/collections/${collection.id}/recipes/${encodeURIComponent(recipeId)}`, {
+            method: 'DELETE',
+            credentials: 'include',
+          })
+        : await fetch(`/api/collections/${collection.id}/recipes`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            credentials: 'include',
+            body: JSON.stringify({ recipeId }),
+          });
+
+      if (response.ok) {
+        setCollections(prev => prev.map(c => c.id === collection.id
+          ? { ...c, containsRecipe: !c.containsRecipe, itemCount: c.itemCount + (c.containsRecipe ? -1 : 1) }
+          : c
+        ));
+      }
+    } catch (error) {
+      console.error('Failed to update collection:', error);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button variant="outline" className="w-full" size="sm" onClick={toggleOpen}>
+        📚 Add to Collection
+      </Button>
+      {open && (
+        <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg p-2 space-y-1">
+          {loading ? (
+            <div className="text-sm text-gray-500 p-2">Loading collections...</div>
+          ) : collections.length > 0 ? (
+            collections.map(collection => (
+              <button
+                key={collection.id}
+                type="button"
+                onClick={() => toggleCollection(collection)}
+                className="w-full flex justify-between items-center px-2 py-1 rounded text-sm hover:bg-gray-50"
+              >
+                <span className="truncate">{collection.name}</span>
+                <span>{collection.containsRecipe ? '✅' : '➕'}</span>
+              </button>
+            ))
+          ) : (
+            <div className="text-sm text-gray-500 p-2">
+              No collections yet. Create one in the Collections tab.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Collections Tab
+// ============================================================================
+
+export function CollectionsTab() {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [scope, setScope] = useState<'all' | 'public'>('all');
+  const [selectedCollection, setSelectedCollection] = useState<CollectionDetail | null>(null);
+  const [familyGroups, setFamilyGroups] = useState<FamilyGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    loadCollections();
+  }, [scope]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    loadFamilyGroups();
+  }, []);
+
+  const loadCollections = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/collections${scope === 'public' ? '?scope=public' : ''}`, {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setCollections(data.collections);
+      }
+    } catch (error) {
+      console.error('Failed to load collections:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadFamilyGroups = async () => {
+    try {
+      const response = await fetch('/api/family-groups', {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setFamilyGroups(data.familyGroups);
+      }
+    } catch (error) {
+      console.error('Failed to load family groups:', error);
+    }
+  };
+
+  const loadCollection = async (collectionId: string) => {
+    try {
+      const response = await fetch(`/api/collections/${collectionId}`, {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setSelectedCollection(data.collection);
+      }
+    } catch (error) {
+      console.error('Failed to load collection:', error);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) return;
+
+    try {
+      setSubmitting(true);
+      const response = await fetch('/api/collections', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          name: formData.name.trim(),
+          description: formData.description.trim() || undefined,
+          familyGroupId: formData.familyGroupId || null,
+          isPublic: formData.isPublic,
+        }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setShowCreateForm(false);
+        setFormData(EMPTY_FORM);
+        await loadCollections();
+        await loadCollection(data.collection.id);
+      } else {
+        const error = await response.json();
+        alert(`Failed to create collection: ${error.error?.message}`);
+      }
+    } catch (error) {
+      console.error('Failed to create collection:', error);
+      alert('Failed to create collection. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const updateSharing = async (changes: { familyGroupId?: string | null; isPublic?: boolean }) => {
+    if (!selectedCollection) return;
+
+    try {
+      const response = await fetch(`/api/collections/${selectedCollection.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify(changes),
+      });
+
+      if (response.ok) {
+        setSelectedCollection(prev => prev ? { ...prev, ...changes } : null);
+        await loadCollections();
+      }
+    } catch (error) {
+      console.error('Failed to update collection:', error);
+    }
+  };
+
+  const deleteCollection = async (collectionId: string) => {
+    if (!confirm('Delete this collection? The recipes themselves are kept.')) return;
+
+    try {
+      const response = await fetch(`/api/collections/${collectionId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        setSelectedCollection(null);
+        setCollections(prev => prev.filter(collection => collection.id !== collectionId));
+      }
+    } catch (error) {
+      console.error('Failed to delete collection:', error);
+    }
+  };
+
+  const removeRecipe = async (recipeId: string) => {
+    if (!selectedCollection) return;
+
+    try {
+      const response = await fetch(`/api/collections/${selectedCollection.id}/recipes/${encodeURIComponent(recipeId)}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        setSelectedCollection(prev => prev ? { ...prev, recipes: prev.recipes.filter(recipe => recipe.id !== recipeId) } : null);
+        setCollections(prev => prev.map(c => c.id === selectedCollection.id ? { ...c, itemCount: c.itemCount - 1 } : c));
+      }
+    } catch (error) {
+      console.error('Failed to remove recipe:', error);
+    }
+  };
+
+  const moveRecipe = async (index: number, offset: number) => {
+    if (!selectedCollection) return;
+    const target = index + offset;
+    if (target < 0 || target >= selectedCollection.recipes.length) return;
+
+    const reordered = [...selectedCollection.recipes];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSelectedCollection({ ...selectedCollection, recipes: reordered });
+
+    try {
+      const response = await fetch(`/api/collections/${selectedCollection.id}/recipes`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ recipeIds: reordered.map(recipe => recipe.id) }),
+      });
+
+      if (!response.ok) {
+        // Someone else changed the collection; show the current order
+        await loadCollection(selectedCollection.id);
+      }
+    } catch (error) {
+      console.error('Failed to reorder collection:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div className="flex gap-2">
+          <Button variant={scope === 'all' ? 'default' : 'outline'} size="sm" onClick={() => setScope('all')}>
+            👤 Mine & Family
+          </Button>
+          <Button variant={scope === 'public' ? 'default' : 'outline'} size="sm" onClick={() => setScope('public')}>
+            🌍 Public
+          </Button>
+        </div>
+        <Button size="sm" onClick={() => setShowCreateForm(true)}>
+          ➕ New Collection
+        </Button>
+      </div>
+
+      {/* Create Form */}
+      {showCreateForm && (
+        <Card className="border-brand-200">
+          <CardHeader>
+            <CardTitle>📚 New Collection</CardTitle>
+            <CardDescription>Group recipes for a theme, an occasion or your family&apos;s favorites</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <Input
+                placeholder="Collection name (e.g. Weeknight Dinners)"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+              />
+              <Input
+                placeholder="Description (optional)"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              />
+              {familyGroups.length > 0 && (
+                <select
+                  value={formData.familyGroupId}
+                  onChange={(e) => setFormData({ ...formData, familyGroupId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                >
+                  <option value="">Only me</option>
+                  {familyGroups.map(group => (
+                    <option key={group.id} value={group.id}>Share with {group.name}</option>
+                  ))}
+                </select>
+              )}
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.isPublic}
+                  onChange={(e) => setFormData({ ...formData, isPublic: e.target.checked })}
+                  className="w-4 h-4 text-brand-600 rounded focus:ring-brand-500"
+                />
+                Anyone can view this collection
+              </label>
+              <div className="flex gap-2">
+                <Button type="submit" isLoading={submitting}>
+                  Create Collection
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setShowCreateForm(false)} disabled={submitting}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="text-gray-600">Loading collections...</div>
+        </div>
+      ) : collections.length > 0 ? (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Collection List */}
+          <div className="space-y-4">
+            {collections.map(collection => (
+              <Card
+                key={collection.id}
+                className={`cursor-pointer transition-colors ${
+                  selectedCollection?.id === collection.id ? 'border-brand-500 bg-brand-50' : 'hover:border-gray-300'
+                }`}
+                onClick={() => loadCollection(collection.id)}
+              >
+                <CardContent className="pt-4">
+                  <div className="flex justify-between items-start mb-2">
+                    <h3 className="font-semibold">{collection.name}</h3>
+                    <span className="text-xs text-gray-500">
+                      {collection.itemCount} recipe{collection.itemCount === 1 ? '' : 's'}
+                    </span>
+                  </div>
+                  {collection.description && (
+                    <p className="text-sm text-gray-600 mb-2">{collection.description}</p>
+                  )}
+                  <div className="flex flex-wrap gap-2 text-xs">
+                    {collection.familyGroup && (
+                      <span className="px-2 py-1 rounded bg-blue-100 text-blue-800">👨‍👩‍👧‍👦 {collection.familyGroup.name}</span>
+                    )}
+                    {collection.isPublic && (
+                      <span className="px-2 py-1 rounded bg-green-100 text-green-800">🌍 Public</span>
+                    )}
+                    {!collection.isOwner && (
+                      <span className="px-2 py-1 rounded bg-gray-100 text-gray-700">by {collection.owner.username}</span>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* Selected Collection */}
+          {selectedCollection && (
+            <div className="space-y-4">
+              <div className="flex justify-between items-start">
+                <div>
+                  <h2 className="text-xl font-semibold">{selectedCollection.name}</h2>
+                  {selectedCollection.description && (
+                    <p className="text-sm text-gray-600">{selectedCollection.description}</p>
+                  )}
+                </div>
+                {selectedCollection.isOwner && (
+                  <Button variant="outline" size="sm" onClick={() => deleteCollection(selectedCollection.id)}>
+                    🗑️ Delete
+                  </Button>
+                )}
+              </div>
+
+              {selectedCollection.isOwner && (
+                <div className="flex flex-wrap gap-4 items-center text-sm text-gray-700">
+                  {familyGroups.length > 0 && (
+                    <select
+                      value={selectedCollection.familyGroupId || ''}
+                      onChange={(e) => updateSharing({ familyGroupId: e.target.value || null })}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                    >
+                      <option value="">Only me</option>
+                      {familyGroups.map(group => (
+                        <option key={group.id} value={group.id}>Share with {group.name}</option>
+                      ))}
+                    </select>
+                  )}
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedCollection.isPublic}
+                      onChange={(e) => updateSharing({ isPublic: e.target.checked })}
+                      className="w-4 h-4 text-brand-600 rounded focus:ring-brand-500"
+                    />
+                    Public
+                  </label>
+                </div>
+              )}
+
+              {selectedCollection.recipes.length > 0 ? (
+                <div className="space-y-2">
+                  {selectedCollection.recipes.map((recipe, index) => (
+                    <div key={recipe.id} className="flex items-center gap-3 p-3 rounded border bg-white">
+                      <span className="text-sm text-gray-500 w-6">{index + 1}.</span>
+                      <div className="flex-1">
+                        <Link href={`/recipes/${recipe.id}`} className="font-medium hover:text-brand-600">
+                          {recipe.title}
+                        </Link>
+                        <div className="text-xs text-gray-500">
+                          {recipe.sourceType === 'spoonacular' ? '🌟 Spoonacular' : '👤 Family recipe'}
+                          {recipe.readyInMinutes ? ` · ⏱️ ${recipe.readyInMinutes} min` : ''}
+                          {recipe.servings ? ` · 👥 ${recipe.servings} servings` : ''}
+                        </div>
+                      </div>
+                      {selectedCollection.canEditItems && (
+                        <>
+                          <Button size="sm" variant="ghost" onClick={() => moveRecipe(index, -1)} disabled={index === 0}>
+                            ↑
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => moveRecipe(index, 1)}
+                            disabled={index === selectedCollection.recipes.length - 1}
+                          >
+                            ↓
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => removeRecipe(recipe.id)}>
+                            ✕
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-sm text-gray-600">
+                  No recipes yet. Use &quot;📚 Add to Collection&quot; on any recipe to add it here.
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="text-center py-12 text-gray-600">
+            {scope === 'public'
+              ? 'No public collections yet.'
+              : 'No collections yet. Create one to start grouping your recipes.'}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Button } from '../../components/ui/button';
+import { Input } from '../../components/ui/input';
+import Link from 'next/link';
+
+interface MissingIngredient {
+  name: string;
+  amount: string;
+  unit: string;
+  category: string;
+}
+
+interface CookableRecipe {
+  id: string;
+  title: string;
+  imageUrl: string | null;
+  readyInMinutes: number | null;
+  sourceType: string | null;
+  coverage: number;
+  usedIngredients: string[];
+  missingIngredients: MissingIngredient[];
+}
+
+interface FamilyGroup {
+  id: string;
+  name: string;
+}
+
+function withIngredients(current: string[], text: string): string[] {
+  const added = text.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  return Array.from(new Set([...current, ...added]));
+}
+
+export function WhatCanICookTab() {
+  const [ingredients, setIngredients] = useState<string[]>([]);
+  const [ingredientInput, setIngredientInput] = useState('');
+  const [results, setResults] = useState<CookableRecipe[]>([]);
+  const [searched, setSearched] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [familyGroups, setFamilyGroups] = useState<FamilyGroup[]>([]);
+  const [familyGroupId, setFamilyGroupId] = useState('');
+  const [creatingListFor, setCreatingListFor] = useState<string | null>(null);
+  const [createdLists, setCreatedLists] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadFamilyGroups();
+  }, []);
+
+  const loadFamilyGroups = async () => {
+    try {
+      const response = await fetch('/api/family-groups', {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setFamilyGroups(data.familyGroups);
+        if (data.familyGroups.length > 0) {
+          setFamilyGroupId(data.familyGroups[0].id);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load family groups:', error);
+    }
+  };
+
+  const addIngredients = (text: string) => {
+    setIngredients(prev => withIngredients(prev, text));
+    setIngredientInput('');
+  };
+
+  const addPantryItems = async () => {
+    if (!familyGroupId) return;
+
+    try {
+      const response = await fetch(`/api/family-groups/${familyGroupId}/pantry`, {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        addIngredients(data.pantryItems.map((item: { name: string }) => item.name).join(','));
+      }
+    } catch (error) {
+      console.error('Failed to load pantry:', error);
+    }
+  };
+
+  const findRecipes = async (e: React.FormEvent) => {
+    e.preventDefault();
+    // Include whatever is still typed in the box
+    const all = withIngredients(ingredients, ingredientInput);
+    setIngredients(all);
+    setIngredientInput('');
+    if (all.length === 0) return;
+
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/recipes/by-ingredients?ingredients=${encodeURIComponent(all.join(','))}&limit=24`, {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setResults(data.recipes);
+        setSearched(true);
+      }
+    } catch (error) {
+      console.error('Failed to find recipes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createMissingItemsList = async (recipe: CookableRecipe) => {
+    if (!familyGroupId) return;
+
+    try {
+      setCreatingListFor(recipe.id);
+      const response = await fetch('/api/grocery-lists', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          familyGroupId,
+          name: `Missing for ${recipe.title}`.slice(0, 100),
+          ingredients: recipe.missingIngredients.map(ingredient => ({
+            ...ingredient,
+            checked: false,
+            recipeSources: [recipe.title],
+          })),
+        }),
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setCreatedLists(prev => ({ ...prev, [recipe.id]: data.groceryList.name }));
+      } else {
+        const error = await response.json();
+        alert(`Failed to create grocery list: ${error.error?.message}`);
+      }
+    } catch (error) {
+      console.error('Failed to create grocery list:', error);
+    } finally {
+      setCreatingListFor(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>What can I cook?</CardTitle>
+          <CardDescription>List what you have and we&apos;ll rank recipes by how much of them you can already make.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={findRecipes} className="flex gap-4">
+            <Input
+              value={ingredientInput}
+              onChange={(e) => setIngredientInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === ',' && ingredientInput.trim()) {
+                  e.preventDefault();
+                  addIngredients(ingredientInput);
+                }
+              }}
+              placeholder="e.g. chicken, rice, onion"
+              className="flex-1"
+            />
+            <Button type="submit" isLoading={loading} disabled={ingredients.length === 0 && !ingredientInput.trim()}>
+              Find Recipes
+            </Button>
+          </form>
+
+          {ingredients.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {ingredients.map(ingredient => (
+                <span key={ingredient} className="inline-flex items-center gap-1 px-2 py-1 bg-brand-100 text-brand-800 text-sm rounded-full">
+                  {ingredient}
+                  <button
+                    onClick={() => setIngredients(prev => prev.filter(name => name !== ingredient))}
+                    className="text-brand-600 hover:text-brand-900"
+                    aria-label={`Remove ${ingredient}`}
+                  >
+                    ✕
+                  </button>
+                </span>
+              ))}
+              <button onClick={() => setIngredients([])} className="text-sm text-gray-500 hover:text-gray-700">
+                Clear all
+              </button>
+            </div>
+          )}
+
+          {familyGroups.length > 0 && (
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              {familyGroups.length > 1 && (
+                <select
+                  value={familyGroupId}
+                  onChange={(e) => setFamilyGroupId(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded-md"
+                >
+                  {familyGroups.map(group => (
+                    <option key={group.id} value={group.id}>{group.name}</option>
+                  ))}
+                </select>
+              )}
+              <Button variant="outline" size="sm" onClick={addPantryItems}>
+                🥫 Add what&apos;s in the pantry
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {searched && results.length === 0 && !loading && (
+        <div className="text-center py-12 text-gray-600">No recipes use those ingredients yet.</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+        {results.map(recipe => {
+          const percentage = Math.round(recipe.coverage * 100);
+
+          return (
+            <Card key={recipe.id}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg line-clamp-2">{recipe.title}</CardTitle>
+                <CardDescription>
+                  {recipe.sourceType === 'spoonacular' ? '🌟 Spoonacular' : '👨‍🍳 Community'}
+                  {recipe.readyInMinutes ? ` · ⏱️ ${recipe.readyInMinutes} min` : ''}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-gray-600">You have</span>
+                    <span className="font-medium">{percentage}%</span>
+                  </div>
+                  <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-brand-500" style={{ width: `${percentage}%` }} />
+                  </div>
+                </div>
+
+                {recipe.missingIngredients.length > 0 ? (
+                  <div className="text-sm">
+                    <p className="text-gray-600 mb-1">Missing {recipe.missingIngredients.length}:</p>
+                    <p className="text-gray-900">
+                      {recipe.missingIngredients.map(ingredient => ingredient.name).join(', ')}
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-green-700">✅ You have everything</p>
+                )}
+
+                <div className="space-y-2">
+                  <Link href={`/recipes/${recipe.id}`}>
+                    <Button className="w-full" size="sm">
+                      View Recipe
+                    </Button>
+                  </Link>
+
+                  {recipe.missingIngredients.length > 0 && familyGroupId && (
+                    createdLists[recipe.id] ? (
+                      <Link href="/grocery-lists">
+                        <Button variant="outline" className="w-full" size="sm">
+                          ✅ Added to &ldquo;{createdLists[recipe.id]}&rdquo;
+                        </Button>
+                      </Link>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        size="sm"
+                        onClick={() => createMissingItemsList(recipe)}
+                        isLoading={creatingListFor === recipe.id}
+                      >
+                        🛒 Grocery list for missing items
+                      </Button>
+                    )
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
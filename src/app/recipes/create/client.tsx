@@ -6,6 +6,7 @@ import { DashboardLayout } from '../../../components/layouts/dashboard-layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../../components/ui/card';
 import { Button } from '../../../components/ui/button';
 import Link from 'next/link';
+import { normalizeIngredient } from '../../../lib/ingredients';
 
 interface Ingredient {
   name: string;
@@ -53,6 +54,78 @@ export function CreateRecipeClient({ user }: { user: any }) {
   // Tags
   const [tags, setTags] = useState('');
   
+  // Import from web page
+  const [importUrl, setImportUrl] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [sourceUrl, setSourceUrl] = useState<string | null>(null);
+  
+  const handleImport = async () => {
+    if (!importUrl.trim()) return;
+    
+    setIsImporting(true);
+    setImportMessage(null);
+    
+    try {
+      const response = await fetch('/api/recipes/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ url: importUrl.trim() }),
+      });
+      
+      const data = await response.json();
+      
+      if (!response.ok) {
+        setImportMessage({ type: 'error', text: data.error?.message || 'Failed to import recipe' });
+        return;
+      }
+      
+      applyDraft(data.recipe);
+      setImportMessage({ type: 'success', text: 'Recipe imported! Review the details below before saving.' });
+    } catch (error) {
+      console.error('Error importing recipe:', error);
+      setImportMessage({ type: 'error', text: 'Failed to import recipe. Please try again.' });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+  
+  const applyDraft = (draft: any) => {
+    setTitle(draft.title || '');
+    setDescription(draft.description || '');
+    setImageUrl(draft.imageUrl || '');
+    setServings(draft.servings || 4);
+    setPrepTimeMinutes(draft.prepTimeMinutes ? String(draft.prepTimeMinutes) : '');
+    setCookTimeMinutes(draft.cookTimeMinutes ? String(draft.cookTimeMinutes) : '');
+    setCuisine(draft.cuisine || '');
+    setTags((draft.tags || []).join(', '));
+    setIsVegetarian(!!draft.isVegetarian);
+    setIsVegan(!!draft.isVegan);
+    setIsGlutenFree(!!draft.isGlutenFree);
+    setIsDairyFree(!!draft.isDairyFree);
+    setSourceUrl(draft.sourceUrl || null);
+    
+    if (draft.ingredients?.length > 0) {
+      setIngredients(draft.ingredients.map((ing: any) => ({
+        name: ing.name || '',
+        amount: ing.amount || '',
+        unit: ing.unit || '',
+        notes: ing.notes || '',
+      })));
+    }
+    
+    if (draft.instructions?.length > 0) {
+      setInstructions(draft.instructions.map((inst: any, index: number) => ({
+        step: index + 1,
+        instruction: inst.instruction,
+        time: inst.time,
+      })));
+    }
+  };
+  
   const addIngredient = () => {
     setIngredients([...ingredients, { name: '', amount: '', unit: '', notes: '' }]);
   };
@@ -69,6 +142,17 @@ export function CreateRecipeClient({ user }: { user: any }) {
     setIngredients(updated);
   };
   
+  // Split a full line typed into the name field, e.g. "1 1/2 cups flour, sifted"
+  const parseIngredientName = (index: number) => {
+    const ingredient = ingredients[index];
+    if (!ingredient.name.trim() || ingredient.amount.trim() || ingredient.unit.trim()) return;
+    
+    const normalized = normalizeIngredient(ingredient);
+    const updated = [...ingredients];
+    updated[index] = { ...normalized, notes: normalized.notes || '' };
+    setIngredients(updated);
+  };
+  
   const addInstruction = () => {
     setInstructions([...instructions, { step: instructions.length + 1, instruction: '' }]);
   };
@@ -117,6 +201,7 @@ export function CreateRecipeClient({ user }: { user: any }) {
         tags: tags ? tags.split(',').map(tag => tag.trim()).filter(Boolean) : [],
         dishTypes: [], // Could be enhanced later
         diets: [], // Could be enhanced later
+        ...(sourceUrl && { sourceType: 'scraped', sourceUrl }),
         visibility: 'public',
         status: 'published',
       };
@@ -160,6 +245,38 @@ export function CreateRecipeClient({ user }: { user: any }) {
           </div>
         </div>
 
+        {/* Import from Web */}
+        <Card>
+          <CardHeader>
+            <CardTitle>🌐 Import from the Web</CardTitle>
+            <CardDescription>Paste a link to a recipe page to fill in the form automatically</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex gap-2">
+              <input
+                type="url"
+                value={importUrl}
+                onChange={(e) => setImportUrl(e.target.value)}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+                placeholder="https://example.com/best-banana-bread"
+              />
+              <Button type="button" onClick={handleImport} isLoading={isImporting} disabled={!importUrl.trim()}>
+                Import
+              </Button>
+            </div>
+            {importMessage && (
+              <div className={`text-sm ${importMessage.type === 'error' ? 'text-red-600' : 'text-green-700'}`}>
+                {importMessage.text}
+              </div>
+            )}
+            {sourceUrl && (
+              <div className="text-xs text-gray-500">
+                Source: <a href={sourceUrl} target="_blank" rel="noopener noreferrer" className="text-brand-600 hover:text-brand-700">{sourceUrl}</a>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         <form onSubmit={handleSubmit} className="space-y-8">
           {/* Basic Information */}
           <Card>
@@ -356,8 +473,9 @@ export function CreateRecipeClient({ user }: { user: any }) {
                       type="text"
                       value={ingredient.name}
                       onChange={(e) => updateIngredient(index, 'name', e.target.value)}
+                      onBlur={() => parseIngredientName(index)}
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
-                      placeholder="Ingredient name"
+                      placeholder="Ingredient (e.g. 1 1/2 cups flour, sifted)"
                     />
                   </div>
                   <div className="md:col-span-2">
@@ -0,0 +1,184 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { Button } from '../../components/ui/button';
+
+interface FacetCount<T = string> {
+  value: T;
+  count: number;
+}
+
+export interface RecipeFacets {
+  cuisines: FacetCount[];
+  dishTypes: FacetCount[];
+  dietary: FacetCount[];
+  difficulty: FacetCount[];
+  readyIn: FacetCount<number>[];
+}
+
+export interface SearchRefinements {
+  cuisine?: string;
+  difficulty?: string;
+  maxReadyTime?: number;
+  dietary: string[];
+  tags: string[];
+}
+
+export const EMPTY_REFINEMENTS: SearchRefinements = { dietary: [], tags: [] };
+
+const DIETARY_LABELS: Record<string, string> = {
+  'vegetarian': '🌱 Vegetarian',
+  'vegan': '🌿 Vegan',
+  'gluten-free': '🌾 Gluten free',
+  'dairy-free': '🥛 Dairy free',
+  'keto': '🥑 Keto',
+  'whole30': '🥗 Whole30',
+  'low-fodmap': '🫘 Low FODMAP',
+};
+
+const DIFFICULTY_LABELS: Record<string, string> = {
+  EASY: 'Easy',
+  MEDIUM: 'Medium',
+  HARD: 'Hard',
+};
+
+export function refinementParams(refinements: SearchRefinements): string {
+  const params = new URLSearchParams();
+  if (refinements.cuisine) params.set('cuisine', refinements.cuisine);
+  if (refinements.difficulty) params.set('difficulty', refinements.difficulty);
+  if (refinements.maxReadyTime) params.set('maxReadyTime', String(refinements.maxReadyTime));
+  if (refinements.dietary.length > 0) params.set('dietary', refinements.dietary.join(','));
+  if (refinements.tags.length > 0) params.set('tags', refinements.tags.join(','));
+  return params.toString();
+}
+
+export function hasRefinements(refinements: SearchRefinements): boolean {
+  return refinementParams(refinements) !== '';
+}
+
+function toggle(values: string[], value: string): string[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+}
+
+function FacetOption({ label, count, selected, onClick }: { label: string; count: number; selected: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      className={`w-full flex justify-between items-center px-2 py-1 rounded text-sm text-left ${
+        selected ? 'bg-brand-100 text-brand-800 font-medium' : 'text-gray-700 hover:bg-gray-100'
+      }`}
+    >
+      <span className="truncate">{selected ? '✓ ' : ''}{label}</span>
+      <span className="text-xs text-gray-500 ml-2">{count}</span>
+    </button>
+  );
+}
+
+function FacetSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">{title}</h4>
+      <div className="space-y-0.5">{children}</div>
+    </div>
+  );
+}
+
+export function FacetSidebar({ facets, refinements, onChange }: {
+  facets: RecipeFacets;
+  refinements: SearchRefinements;
+  onChange: (refinements: SearchRefinements) => void;
+}) {
+  // Keep selected values visible even when the current results no longer contain them
+  const withSelected = <T,>(counts: FacetCount<T>[], selected: T[]): FacetCount<T>[] => [
+    ...counts,
+    ...selected.filter(value => !counts.some(facet => facet.value === value)).map(value => ({ value, count: 0 })),
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-base">Refine</CardTitle>
+          {hasRefinements(refinements) && (
+            <Button variant="ghost" size="sm" onClick={() => onChange(EMPTY_REFINEMENTS)}>
+              Clear
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-gray-500">Counts cover community and family recipes, not Spoonacular results.</p>
+
+        {facets.cuisines.length > 0 && (
+          <FacetSection title="Cuisine">
+            {withSelected(facets.cuisines, refinements.cuisine ? [refinements.cuisine] : []).map(facet => (
+              <FacetOption
+                key={facet.value}
+                label={facet.value}
+                count={facet.count}
+                selected={refinements.cuisine === facet.value}
+                onClick={() => onChange({ ...refinements, cuisine: refinements.cuisine === facet.value ? undefined : facet.value })}
+              />
+            ))}
+          </FacetSection>
+        )}
+
+        {facets.dishTypes.length > 0 && (
+          <FacetSection title="Dish type">
+            {withSelected(facets.dishTypes, refinements.tags).map(facet => (
+              <FacetOption
+                key={facet.value}
+                label={facet.value}
+                count={facet.count}
+                selected={refinements.tags.includes(facet.value)}
+                onClick={() => onChange({ ...refinements, tags: toggle(refinements.tags, facet.value) })}
+              />
+            ))}
+          </FacetSection>
+        )}
+
+        {facets.dietary.length > 0 && (
+          <FacetSection title="Diet">
+            {withSelected(facets.dietary, refinements.dietary).map(facet => (
+              <FacetOption
+                key={facet.value}
+                label={DIETARY_LABELS[facet.value] || facet.value}
+                count={facet.count}
+                selected={refinements.dietary.includes(facet.value)}
+                onClick={() => onChange({ ...refinements, dietary: toggle(refinements.dietary, facet.value) })}
+              />
+            ))}
+          </FacetSection>
+        )}
+
+        {facets.difficulty.length > 0 && (
+          <FacetSection title="Difficulty">
+            {withSelected(facets.difficulty, refinements.difficulty ? [refinements.difficulty] : []).map(facet => (
+              <FacetOption
+                key={facet.value}
+                label={DIFFICULTY_LABELS[facet.value] || facet.value}
+                count={facet.count}
+                selected={refinements.difficulty === facet.value}
+                onClick={() => onChange({ ...refinements, difficulty: refinements.difficulty === facet.value ? undefined : facet.value })}
+              />
+            ))}
+          </FacetSection>
+        )}
+
+        {facets.readyIn.length > 0 && (
+          <FacetSection title="Ready in">
+            {withSelected(facets.readyIn, refinements.maxReadyTime ? [refinements.maxReadyTime] : []).map(facet => (
+              <FacetOption
+                key={facet.value}
+                label={`${facet.value} min or less`}
+                count={facet.count}
+                selected={refinements.maxReadyTime === facet.value}
+                onClick={() => onChange({ ...refinements, maxReadyTime: refinements.maxReadyTime === facet.value ? undefined : facet.value })}
+              />
+            ))}
+          </FacetSection>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,397 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { DashboardLayout } from '../../components/layouts/dashboard-layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/card';
+import { Button } from '../../components/ui/button';
+import { Input } from '../../components/ui/input';
+import Link from 'next/link';
+
+interface StoreAisle {
+  name: string;
+  categories: string[];
+}
+
+interface StoreProfile {
+  id: string;
+  name: string;
+  aisles: StoreAisle[];
+  isDefault: boolean;
+}
+
+interface FamilyGroup {
+  id: string;
+  name: string;
+  role: string;
+}
+
+const CATEGORIES = [
+  { id: 'produce', name: '🥬 Produce' },
+  { id: 'meat', name: '🥩 Meat & Seafood' },
+  { id: 'dairy', name: '🥛 Dairy' },
+  { id: 'pantry', name: '🥫 Pantry' },
+  { id: 'frozen', name: '🧊 Frozen' },
+  { id: 'bakery', name: '🍞 Bakery' },
+  { id: 'beverages', name: '🧃 Beverages' },
+  { id: 'other', name: '🛒 Other' },
+];
+
+// New stores start with one aisle per category, to be reordered and merged
+const DEFAULT_AISLES: StoreAisle[] = CATEGORIES.map(category => ({
+  name: category.name.replace(/^\S+\s/, ''),
+  categories: [category.id],
+}));
+
+const EMPTY_FORM = { name: '', aisles: DEFAULT_AISLES, isDefault: false };
+
+export function StoresClient({ user }: { user: any }) {
+  const [familyGroups, setFamilyGroups] = useState<FamilyGroup[]>([]);
+  const [selectedGroupId, setSelectedGroupId] = useState('');
+  const [stores, setStores] = useState<StoreProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    loadFamilyGroups();
+  }, []);
+
+  useEffect(() => {
+    if (selectedGroupId) {
+      loadStores(selectedGroupId);
+    }
+  }, [selectedGroupId]);
+
+  const loadFamilyGroups = async () => {
+    try {
+      const response = await fetch('/api/family-groups', {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setFamilyGroups(data.familyGroups);
+        if (data.familyGroups.length > 0) {
+          setSelectedGroupId(data.familyGroups[0].id);
+        } else {
+          setLoading(false);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load family groups:', error);
+      setLoading(false);
+    }
+  };
+
+  const loadStores = async (familyGroupId: string) => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/family-groups/${familyGroupId}/stores`, {
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setStores(data.storeProfiles);
+      }
+    } catch (error) {
+      console.error('Failed to load stores:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startCreating = () => {
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const startEditing = (store: StoreProfile) => {
+    setEditingId(store.id);
+    setFormData({ name: store.name, aisles: store.aisles, isDefault: store.isDefault });
+    setShowForm(true);
+  };
+
+  const updateAisle = (index: number, update: Partial<StoreAisle>) => {
+    setFormData(prev => ({
+      ...prev,
+      aisles: prev.aisles.map((aisle, i) => i === index ? { ...aisle, ...update } : aisle),
+    }));
+  };
+
+  const moveAisle = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= formData.aisles.length) return;
+
+    const aisles = [...formData.aisles];
+    [aisles[index], aisles[target]] = [aisles[target], aisles[index]];
+    setFormData({ ...formData, aisles });
+  };
+
+  // A category sits in one aisle; picking it for another aisle moves it there
+  const toggleAisleCategory = (index: number, categoryId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      aisles: prev.aisles.map((aisle, i) => {
+        if (i === index) {
+          return {
+            ...aisle,
+            categories: aisle.categories.includes(categoryId)
+              ? aisle.categories.filter(c => c !== categoryId)
+              : [...aisle.categories, categoryId],
+          };
+        }
+        return { ...aisle, categories: aisle.categories.filter(c => c !== categoryId) };
+      }),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) return;
+
+    try {
+      setSubmitting(true);
+      const response = await fetch(
+        editingId
+          ? `/api/family-groups/${selectedGroupId}/stores/${editingId}`
+          : `/api/family-groups/${selectedGroupId}/stores`,
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          credentials: 'include',
+          body: JSON.stringify({
+            ...formData,
+            aisles: formData.aisles.filter(aisle => aisle.name.trim()),
+          }),
+        }
+      );
+
+      if (response.ok) {
+        setShowForm(false);
+        setEditingId(null);
+        await loadStores(selectedGroupId);
+      } else {
+        const error = await response.json();
+        alert(`Failed to save store: ${error.error?.message}`);
+      }
+    } catch (error) {
+      console.error('Failed to save store:', error);
+      alert('Failed to save store. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (storeId: string) => {
+    if (!confirm('Delete this store layout?')) return;
+
+    try {
+      const response = await fetch(`/api/family-groups/${selectedGroupId}/stores/${storeId}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      if (response.ok) {
+        setStores(prev => prev.filter(store => store.id !== storeId));
+      }
+    } catch (error) {
+      console.error('Failed to delete store:', error);
+    }
+  };
+
+  const getCategoryName = (categoryId: string) =>
+    CATEGORIES.find(category => category.id === categoryId)?.name || categoryId;
+
+  return (
+    <DashboardLayout user={user}>
+      <div className="space-y-8">
+        {/* Header */}
+        <div className="flex justify-between items-start">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Stores</h1>
+            <p className="text-gray-600 mt-2">Aisle layouts for the stores you shop at, so lists follow your route through the store.</p>
+          </div>
+          <div className="flex gap-2 items-center">
+            {familyGroups.length > 1 && (
+              <select
+                value={selectedGroupId}
+                onChange={(e) => setSelectedGroupId(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+              >
+                {familyGroups.map((group) => (
+                  <option key={group.id} value={group.id}>{group.name}</option>
+                ))}
+              </select>
+            )}
+            <Link href="/grocery-lists">
+              <Button variant="outline">🛒 Grocery Lists</Button>
+            </Link>
+            {selectedGroupId && (
+              <Button onClick={startCreating}>🏬 Add Store</Button>
+            )}
+          </div>
+        </div>
+
+        {/* Store Form */}
+        {showForm && (
+          <Card className="border-brand-200">
+            <CardHeader>
+              <CardTitle>{editingId ? '✏️ Edit Store' : '🏬 New Store'}</CardTitle>
+              <CardDescription>
+                List the aisles in the order you walk them and pick what&apos;s shelved in each
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <Input
+                  placeholder="Store name (e.g. Corner Market)"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+
+                <div className="space-y-3">
+                  {formData.aisles.map((aisle, index) => (
+                    <div key={index} className="p-3 rounded border bg-white space-y-2">
+                      <div className="flex gap-2 items-center">
+                        <span className="text-sm text-gray-500 w-6">{index + 1}.</span>
+                        <div className="flex-1">
+                          <Input
+                            placeholder="Aisle name"
+                            value={aisle.name}
+                            onChange={(e) => updateAisle(index, { name: e.target.value })}
+                          />
+                        </div>
+                        <Button type="button" size="sm" variant="ghost" onClick={() => moveAisle(index, -1)} disabled={index === 0}>
+                          ↑
+                        </Button>
+                        <Button type="button" size="sm" variant="ghost" onClick={() => moveAisle(index, 1)} disabled={index === formData.aisles.length - 1}>
+                          ↓
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setFormData({ ...formData, aisles: formData.aisles.filter((_, i) => i !== index) })}
+                        >
+                          ✕
+                        </Button>
+                      </div>
+                      <div className="flex flex-wrap gap-2 pl-8">
+                        {CATEGORIES.map((category) => (
+                          <button
+                            key={category.id}
+                            type="button"
+                            onClick={() => toggleAisleCategory(index, category.id)}
+                            className={`px-2 py-1 rounded-full text-xs border ${
+                              aisle.categories.includes(category.id)
+                                ? 'bg-brand-100 border-brand-500 text-brand-800'
+                                : 'bg-white border-gray-300 text-gray-600'
+                            }`}
+                          >
+                            {category.name}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setFormData({ ...formData, aisles: [...formData.aisles, { name: '', categories: [] }] })}
+                  >
+                    ➕ Add Aisle
+                  </Button>
+                </div>
+
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.isDefault}
+                    onChange={(e) => setFormData({ ...formData, isDefault: e.target.checked })}
+                    className="w-4 h-4 text-brand-600 rounded focus:ring-brand-500"
+                  />
+                  Sort grocery lists for this store by default
+                </label>
+
+                <div className="flex gap-2">
+                  <Button type="submit" isLoading={submitting}>
+                    {editingId ? 'Save Store' : 'Create Store'}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => setShowForm(false)} disabled={submitting}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {!loading && familyGroups.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <div className="text-gray-600 mb-4">Join or create a family group to set up your stores.</div>
+              <Link href="/family">
+                <Button>👨‍👩‍👧‍👦 Go to Family</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        ) : loading ? (
+          <div className="text-center py-12">
+            <div className="text-gray-600">Loading stores...</div>
+          </div>
+        ) : stores.length > 0 ? (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {stores.map((store) => (
+              <Card key={store.id}>
+                <CardHeader>
+                  <div className="flex justify-between items-start">
+                    <CardTitle className="text-lg">
+                      {store.name}
+                      {store.isDefault && (
+                        <span className="ml-2 px-2 py-1 rounded-full text-xs font-medium bg-brand-100 text-brand-800">Default</span>
+                      )}
+                    </CardTitle>
+                    <div className="flex gap-1">
+                      <Button size="sm" variant="ghost" onClick={() => startEditing(store)}>
+                        ✏️
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDelete(store.id)}>
+                        🗑️
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <ol className="space-y-1 text-sm text-gray-700 list-decimal list-inside">
+                    {store.aisles.map((aisle, index) => (
+                      <li key={index}>
+                        <span className="font-medium">{aisle.name}</span>
+                        {aisle.categories.length > 0 && (
+                          <span className="text-gray-500"> · {aisle.categories.map(getCategoryName).join(', ')}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="text-center py-12 text-gray-600">
+              No stores yet. Add the stores you shop at to sort grocery lists in the order you walk the aisles.
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,21 @@
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '../../lib/auth';
+import { StoresClient } from './client';
+
+async function getUser() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      redirect('/auth/login');
+    }
+    return user;
+  } catch (error) {
+    redirect('/auth/login');
+  }
+}
+
+export default async function StoresPage() {
+  const user = await getUser();
+
+  return <StoresClient user={user} />;
+}
\ No newline at end of file
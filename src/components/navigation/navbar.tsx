@@ -4,6 +4,7 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { Button } from '../ui/button';
+import { clearOfflineData, getQueuedOperations, syncQueuedOperations } from '../../lib/offline';
 
 interface User {
   id: string;
@@ -26,7 +27,20 @@ export function Navbar({ user }: NavbarProps) {
   const handleLogout = async () => {
     setIsLoggingOut(true);
     try {
+      // Logging out discards offline grocery changes, so send them while the session lasts
+      if (getQueuedOperations().length > 0) {
+        await syncQueuedOperations().catch(error => console.error('Sync before logout failed:', error));
+        const unsynced = getQueuedOperations().length;
+        if (
+          unsynced > 0 &&
+          !confirm(`${unsynced} grocery list change${unsynced === 1 ? '' : 's'} made offline could not be synced and will be lost. Log out anyway?`)
+        ) {
+          return;
+        }
+      }
+
       await fetch('/api/auth/logout', { method: 'POST' });
+      await clearOfflineData();
       router.push('/');
       router.refresh();
     } catch (error) {
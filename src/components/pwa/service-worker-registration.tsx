@@ -0,0 +1,18 @@
+'use client';
+
+import { useEffect } from 'react';
+
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    // The dev server rebuilds assets constantly; only cache production builds
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) {
+      return;
+    }
+
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error('Service worker registration failed:', error);
+    });
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,143 @@
+/**
+ * API Errors
+ * Errors route handlers throw to end a request. Each carries its HTTP status and a
+ * machine-readable code, and all of them reach clients in the same JSON shape.
+ */
+
+import { ZodError } from 'zod';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// The body of every error response
+export interface ApiErrorBody {
+  error: {
+    code: string;
+    message: string;
+    details?: unknown;
+  };
+}
+
+interface ApiErrorOptions {
+  code?: string; // Overrides the class's default code, e.g. EMAIL_NOT_VERIFIED
+  details?: unknown;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly details?: unknown;
+
+  constructor(status: number, code: string, message: string, details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+
+  toJSON(): ApiErrorBody {
+    return {
+      error: {
+        code: this.code,
+        message: this.message,
+        ...(this.details !== undefined && { details: this.details }),
+      },
+    };
+  }
+}
+
+export class BadRequestError extends ApiError {
+  constructor(message = 'Bad request', options: ApiErrorOptions = {}) {
+    super(400, options.code || 'BAD_REQUEST', message, options.details);
+    this.name = 'BadRequestError';
+  }
+}
+
+// Details are zod's issues, each with the path of the field it's about
+export class ValidationError extends ApiError {
+  constructor(details: unknown, message = 'Validation failed') {
+    super(400, 'VALIDATION_FAILED', message, details);
+    this.name = 'ValidationError';
+  }
+
+  static fromZod(error: ZodError): ValidationError {
+    return new ValidationError(error.errors);
+  }
+}
+
+export class AuthenticationError extends ApiError {
+  constructor(message = 'Authentication required', options: ApiErrorOptions = {}) {
+    super(401, options.code || 'UNAUTHENTICATED', message, options.details);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message = 'Access denied', options: ApiErrorOptions = {}) {
+    super(403, options.code || 'FORBIDDEN', message, options.details);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = 'Not found', options: ApiErrorOptions = {}) {
+    super(404, options.code || 'NOT_FOUND', message, options.details);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message = 'Conflict', options: ApiErrorOptions = {}) {
+    super(409, options.code || 'CONFLICT', message, options.details);
+    this.name = 'ConflictError';
+  }
+}
+
+// Responses also carry a Retry-After header
+export class RateLimitError extends ApiError {
+  readonly retryAfterSeconds: number;
+
+  constructor(message: string, retryAfterSeconds: number, options: ApiErrorOptions = {}) {
+    super(429, options.code || 'RATE_LIMITED', message, options.details ?? { retryAfterSeconds });
+    this.name = 'RateLimitError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export class InternalServerError extends ApiError {
+  constructor(message = 'Internal server error', options: ApiErrorOptions = {}) {
+    super(500, options.code || 'INTERNAL_ERROR', message, options.details);
+    this.name = 'InternalServerError';
+  }
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * The ApiError to report for anything a handler threw. Zod failures become validation
+ * errors; anything unexpected is an internal error, with nothing about it sent to clients.
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (error instanceof ZodError) {
+    return ValidationError.fromZod(error);
+  }
+  return new InternalServerError();
+}
+
+export function errorResponseInit(error: ApiError): ResponseInit {
+  return {
+    status: error.status,
+    headers: error instanceof RateLimitError ? { 'Retry-After': String(error.retryAfterSeconds) } : undefined,
+  };
+}
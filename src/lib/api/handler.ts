@@ -0,0 +1,110 @@
+/**
+ * Route Handlers
+ * Wraps API route handlers so each one resolves the caller once, from the session cookie or
+ * an Authorization header, and reports every thrown error in the shared JSON shape.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser, requireAuth, AuthUser, TokenScope } from '../auth';
+import { BadRequestError, ForbiddenError, toApiError, errorResponseInit } from './errors';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RouteContext<P, U> {
+  params: P;
+  user: U;
+}
+
+export type RouteHandler<P, U> = (request: NextRequest, context: RouteContext<P, U>) => Promise<Response>;
+
+// The signature Next.js calls route exports with
+export type NextRouteHandler<P> = (request: NextRequest, context: { params: P }) => Promise<Response>;
+
+export interface RequiredAuthOptions {
+  auth: 'required';
+  scope?: TokenScope; // What a personal access token must grant; without one, only sessions work
+  role?: 'ADMIN';
+}
+
+export interface OptionalAuthOptions {
+  auth: 'optional';
+  scope?: TokenScope;
+}
+
+type RouteOptions = RequiredAuthOptions | OptionalAuthOptions | { auth: 'none' };
+
+// ============================================================================
+// Wrapper
+// ============================================================================
+
+/**
+ * Turns a handler into a route export. With `auth: 'required'` the handler only runs for
+ * a signed-in user (401 otherwise, 403 for a token without the scope); with 'optional' it
+ * gets the user or null. Handlers throw ApiErrors, or let zod's parse throw, to fail.
+ */
+export function apiHandler<P = Record<string, never>>(
+  handler: RouteHandler<P, null>
+): NextRouteHandler<P>;
+export function apiHandler<P = Record<string, never>>(
+  options: OptionalAuthOptions,
+  handler: RouteHandler<P, AuthUser | null>
+): NextRouteHandler<P>;
+export function apiHandler<P = Record<string, never>>(
+  options: RequiredAuthOptions,
+  handler: RouteHandler<P, AuthUser>
+): NextRouteHandler<P>;
+export function apiHandler<P, U extends AuthUser | null>(
+  optionsOrHandler: RouteOptions | RouteHandler<P, U>,
+  maybeHandler?: RouteHandler<P, U>
+): NextRouteHandler<P> {
+  const options: RouteOptions = typeof optionsOrHandler === 'function' ? { auth: 'none' } : optionsOrHandler;
+  const handler = (typeof optionsOrHandler === 'function' ? optionsOrHandler : maybeHandler) as RouteHandler<P, U>;
+
+  return async (request, { params }) => {
+    try {
+      // The overloads pair each auth option with the user type resolveUser gives for it
+      const user = (await resolveUser(options)) as U;
+      return await handler(request, { params, user });
+    } catch (error) {
+      const apiError = toApiError(error);
+      if (apiError.status >= 500) {
+        console.error(`${request.method} ${request.nextUrl.pathname} error:`, error);
+      }
+      return NextResponse.json(apiError.toJSON(), errorResponseInit(apiError));
+    }
+  };
+}
+
+async function resolveUser(options: RouteOptions): Promise<AuthUser | null> {
+  if (options.auth === 'none') {
+    return null;
+  }
+
+  if (options.auth === 'optional') {
+    return await getCurrentUser(options.scope);
+  }
+
+  const user = await requireAuth(options.scope);
+  if (options.role && user.role !== options.role) {
+    throw new ForbiddenError('Admin access required');
+  }
+  return user;
+}
+
+// ============================================================================
+// Request Parsing
+// ============================================================================
+
+// The JSON body, validated; malformed JSON and failed validation both end the request with a 400
+export async function parseJsonBody<T extends z.ZodTypeAny>(request: NextRequest, schema: T): Promise<z.output<T>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new BadRequestError('Request body must be valid JSON', { code: 'INVALID_JSON' });
+  }
+  return schema.parse(body);
+}
@@ -0,0 +1,8 @@
+/**
+ * API Routes
+ * The shared plumbing for route handlers: typed errors with one JSON shape, and a wrapper
+ * that authenticates the caller and turns thrown errors into responses.
+ */
+
+export * from './errors';
+export * from './handler';
@@ -0,0 +1,143 @@
+import { Session, NewSession } from '../../db/schema';
+import { createSession, rotateRefreshToken } from '../sessions';
+import { REFRESH_TOKEN_TTL_SECONDS } from '../session-cookies';
+
+// Just enough of drizzle to hold one session row. Conditions aren't evaluated, except that
+// updates (rotation and revocation alike) only touch a session that isn't revoked yet.
+jest.mock('../../db', () => {
+  const store: { session: Session | null } = { session: null };
+
+  const update = () => ({
+    set: (changes: Partial<Session>) => ({
+      where: () => {
+        let updated: { id: string }[] = [];
+        if (store.session && !store.session.revokedAt) {
+          store.session = { ...store.session, ...changes };
+          updated = [{ id: store.session.id }];
+        }
+        return Object.assign(Promise.resolve(), { returning: async () => updated });
+      },
+    }),
+  });
+
+  return {
+    mockStore: store,
+    db: {
+      insert: () => ({
+        values: async (values: NewSession) => {
+          store.session = {
+            previousRefreshTokenHash: null,
+            rotatedAt: null,
+            userAgent: null,
+            ipAddress: null,
+            createdAt: new Date(),
+            lastSeenAt: new Date(),
+            revokedAt: null,
+            revokedReason: null,
+            ...values,
+          } as Session;
+        },
+      }),
+      select: () => ({
+        from: () => ({
+          where: () => ({
+            limit: async () => (store.session ? [store.session] : []),
+          }),
+        }),
+      }),
+      update,
+    },
+  };
+});
+
+const { mockStore } = jest.requireMock<{ mockStore: { session: Session | null } }>('../../db');
+const METADATA = { userAgent: 'Mozilla/5.0 (Macintosh) Firefox/128.0', ipAddress: '203.0.113.7' };
+
+describe('refresh token rotation', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') });
+    mockStore.session = null;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('names the session in the token and stores only its hash', async () => {
+    const { sessionId, refreshToken } = await createSession('user-1', METADATA);
+
+    expect(refreshToken.startsWith(`${sessionId}.`)).toBe(true);
+    expect(mockStore.session).toMatchObject({ id: sessionId, userId: 'user-1', ipAddress: '203.0.113.7' });
+    expect(mockStore.session!.refreshTokenHash).not.toContain(refreshToken.split('.')[1]);
+  });
+
+  it('trades a token for a new one and extends the session', async () => {
+    const { sessionId, refreshToken } = await createSession('user-1', METADATA);
+    jest.advanceTimersByTime(60 * 60 * 1000);
+
+    const result = await rotateRefreshToken(refreshToken, { userAgent: null, ipAddress: '198.51.100.1' });
+
+    expect(result).toEqual({ sessionId, userId: 'user-1', refreshToken: expect.stringMatching(`^${sessionId}\\.`) });
+    expect('refreshToken' in result && result.refreshToken).not.toBe(refreshToken);
+    expect(mockStore.session!.expiresAt).toEqual(new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000));
+    // Missing metadata keeps what was known
+    expect(mockStore.session).toMatchObject({ userAgent: METADATA.userAgent, ipAddress: '198.51.100.1' });
+  });
+
+  it('keeps working with each newly issued token', async () => {
+    let { refreshToken } = await createSession('user-1', METADATA);
+
+    for (let i = 0; i < 3; i++) {
+      jest.advanceTimersByTime(60 * 1000);
+      const result = await rotateRefreshToken(refreshToken, METADATA);
+      if (!('refreshToken' in result) || !result.refreshToken) {
+        throw new Error(`Rotation ${i + 1} failed: ${JSON.stringify(result)}`);
+      }
+      refreshToken = result.refreshToken;
+    }
+
+    expect(mockStore.session!.revokedAt).toBeNull();
+  });
+
+  it('lets a concurrent refresh with the replaced token keep the current cookie', async () => {
+    const { sessionId, refreshToken } = await createSession('user-1', METADATA);
+    await rotateRefreshToken(refreshToken, METADATA);
+    jest.advanceTimersByTime(5 * 1000);
+
+    expect(await rotateRefreshToken(refreshToken, METADATA)).toEqual({ sessionId, userId: 'user-1', refreshToken: null });
+    expect(mockStore.session!.revokedAt).toBeNull();
+  });
+
+  it('revokes the session when a replaced token comes back later', async () => {
+    const { refreshToken } = await createSession('user-1', METADATA);
+    const rotated = await rotateRefreshToken(refreshToken, METADATA);
+    jest.advanceTimersByTime(60 * 1000);
+
+    expect(await rotateRefreshToken(refreshToken, METADATA)).toEqual({ error: 'TOKEN_REUSED' });
+    expect(mockStore.session).toMatchObject({ revokedReason: 'refresh_token_reuse' });
+
+    // The thief's copy and the owner's are both dead now
+    const current = 'refreshToken' in rotated ? rotated.refreshToken! : '';
+    expect(await rotateRefreshToken(current, METADATA)).toEqual({ error: 'INVALID_TOKEN' });
+  });
+
+  it('treats a token older than the previous one as reuse', async () => {
+    const { refreshToken: first } = await createSession('user-1', METADATA);
+    const second = await rotateRefreshToken(first, METADATA);
+    await rotateRefreshToken('refreshToken' in second ? second.refreshToken! : '', METADATA);
+
+    expect(await rotateRefreshToken(first, METADATA)).toEqual({ error: 'TOKEN_REUSED' });
+  });
+
+  it('rejects tokens without a session to refresh', async () => {
+    expect(await rotateRefreshToken('.secret', METADATA)).toEqual({ error: 'INVALID_TOKEN' });
+    expect(await rotateRefreshToken('unknown.secret', METADATA)).toEqual({ error: 'INVALID_TOKEN' });
+  });
+
+  it('rejects sessions that went unused for too long', async () => {
+    const { refreshToken } = await createSession('user-1', METADATA);
+    jest.advanceTimersByTime(REFRESH_TOKEN_TTL_SECONDS * 1000 + 1);
+
+    expect(await rotateRefreshToken(refreshToken, METADATA)).toEqual({ error: 'TOKEN_EXPIRED' });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Personal Access Tokens
+ * Long-lived tokens users create for scripts and integrations. Each carries a set of
+ * scopes, and routes only accept one that grants what they need.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { db } from '../db';
+import { personalAccessTokens } from '../db/schema';
+import { and, desc, eq } from 'drizzle-orm';
+
+const TOKEN_PREFIX = 'rup_pat_';
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+const LAST_USED_RESOLUTION_MS = 60 * 1000; // Skip the write when it was used under a minute ago
+
+// ============================================================================
+// Scopes
+// ============================================================================
+
+export const TOKEN_SCOPES = [
+  'profile:read',
+  'profile:write',
+  'recipes:read',
+  'recipes:write',
+  'collections:read',
+  'collections:write',
+  'meal-plans:read',
+  'meal-plans:write',
+  'grocery:read',
+  'grocery:write',
+  'pantry:read',
+  'pantry:write',
+  'family:read',
+  'family:write',
+] as const;
+
+export type TokenScope = typeof TOKEN_SCOPES[number];
+
+// A write scope also grants reading the same resource
+export function hasScope(granted: readonly string[], required: TokenScope): boolean {
+  if (granted.includes(required)) {
+    return true;
+  }
+  const [resource, access] = required.split(':');
+  return access === 'read' && granted.includes(`${resource}:write`);
+}
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AccessTokenSummary {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: TokenScope[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date | null;
+}
+
+export interface AuthenticatedAccessToken {
+  tokenId: string;
+  userId: string;
+  scopes: TokenScope[];
+}
+
+function hashAccessToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toSummary(row: typeof personalAccessTokens.$inferSelect): AccessTokenSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    tokenPrefix: row.tokenPrefix,
+    scopes: row.scopes as TokenScope[],
+    expiresAt: row.expiresAt,
+    lastUsedAt: row.lastUsedAt,
+    createdAt: row.createdAt,
+  };
+}
+
+// ============================================================================
+// Token Management
+// ============================================================================
+
+export function isPersonalAccessToken(token: string): boolean {
+  return token.startsWith(TOKEN_PREFIX);
+}
+
+/**
+ * Creates a token and returns it with its summary. The token itself is only available
+ * here; we keep just its hash.
+ */
+export async function createAccessToken(
+  userId: string,
+  data: { name: string; scopes: TokenScope[]; expiresAt?: Date | null }
+): Promise<{ token: string; accessToken: AccessTokenSummary }> {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+  const [created] = await db
+    .insert(personalAccessTokens)
+    .values({
+      userId,
+      name: data.name,
+      tokenHash: hashAccessToken(token),
+      tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+      scopes: Array.from(new Set(data.scopes)),
+      expiresAt: data.expiresAt ?? null,
+    })
+    .returning();
+
+  return { token, accessToken: toSummary(created) };
+}
+
+export async function listAccessTokens(userId: string): Promise<AccessTokenSummary[]> {
+  const rows = await db
+    .select()
+    .from(personalAccessTokens)
+    .where(eq(personalAccessTokens.userId, userId))
+    .orderBy(desc(personalAccessTokens.createdAt));
+
+  return rows.map(toSummary);
+}
+
+// Whether the user had a token with this id to revoke
+export async function revokeAccessToken(userId: string, tokenId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(personalAccessTokens)
+    .where(and(eq(personalAccessTokens.id, tokenId), eq(personalAccessTokens.userId, userId)))
+    .returning({ id: personalAccessTokens.id });
+
+  return deleted.length > 0;
+}
+
+// ============================================================================
+// Authentication
+// ============================================================================
+
+// The token's owner and scopes, or null if it's unknown or expired. Records the use.
+export async function authenticateAccessToken(token: string): Promise<AuthenticatedAccessToken | null> {
+  if (!isPersonalAccessToken(token)) {
+    return null;
+  }
+
+  const [row] = await db
+    .select()
+    .from(personalAccessTokens)
+    .where(eq(personalAccessTokens.tokenHash, hashAccessToken(token)))
+    .limit(1);
+
+  if (!row || (row.expiresAt && row.expiresAt <= new Date())) {
+    return null;
+  }
+
+  if (!row.lastUsedAt || Date.now() - row.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await db
+      .update(personalAccessTokens)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(personalAccessTokens.id, row.id));
+  }
+
+  return { tokenId: row.id, userId: row.userId, scopes: row.scopes as TokenScope[] };
+}
@@ -0,0 +1,218 @@
+/**
+ * Email Verification
+ * Confirms an account's address by emailing it a single-use link. Resends are throttled
+ * per account so the endpoint can't be used to flood an inbox.
+ */
+
+import { db } from '../db';
+import { users, emailVerificationTokens } from '../db/schema';
+import { and, desc, eq, gt, isNull } from 'drizzle-orm';
+import { sendMail } from '../mailer';
+import { generateEmailToken, hashEmailToken, appUrl } from './tokens';
+import type { AuthError } from '.';
+
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const RESEND_INTERVAL_MS = 60 * 1000;
+const RESEND_WINDOW_MS = 60 * 60 * 1000;
+const MAX_SENDS_PER_WINDOW = 5;
+
+// Features that can be limited to verified accounts with REQUIRE_VERIFIED_EMAIL
+export type VerifiedEmailFeature = 'family';
+
+// ============================================================================
+// Sending Links
+// ============================================================================
+
+/**
+ * Issues a token for the user's current address and emails them the link.
+ */
+export async function sendVerificationEmail(user: {
+  id: string;
+  email: string;
+  firstName?: string | null;
+}): Promise<void> {
+  const { token, tokenHash } = generateEmailToken();
+
+  await db.insert(emailVerificationTokens).values({
+    userId: user.id,
+    email: user.email,
+    tokenHash,
+    expiresAt: new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS),
+  });
+
+  const verifyUrl = appUrl(`/api/auth/verify-email?token=${encodeURIComponent(token)}`);
+  const greeting = user.firstName ? `Hi ${user.firstName},` : 'Hi,';
+
+  await sendMail({
+    to: user.email,
+    subject: 'Confirm your RecipeUp email address',
+    text: [
+      greeting,
+      '',
+      'Please confirm this is your email address by opening the link below:',
+      '',
+      verifyUrl,
+      '',
+      'The link expires in 24 hours. If you didn\'t create a RecipeUp account, you can ignore this email.',
+    ].join('\n'),
+  });
+}
+
+/**
+ * Sends a fresh link to a signed-in user who hasn't verified yet, at most once a minute
+ * and five times an hour.
+ */
+export async function resendVerificationEmail(userId: string): Promise<{ sent: true } | { error: AuthError }> {
+  const userResult = await db
+    .select({ id: users.id, email: users.email, firstName: users.firstName, emailVerified: users.emailVerified })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (userResult.length === 0) {
+    return {
+      error: {
+        message: 'User not found',
+        code: 'USER_NOT_FOUND',
+      },
+    };
+  }
+
+  const user = userResult[0];
+
+  if (user.emailVerified) {
+    return {
+      error: {
+        message: 'Your email address is already verified',
+        code: 'ALREADY_VERIFIED',
+      },
+    };
+  }
+
+  const windowStart = new Date(Date.now() - RESEND_WINDOW_MS);
+  const recentSends = await db
+    .select({ createdAt: emailVerificationTokens.createdAt })
+    .from(emailVerificationTokens)
+    .where(
+      and(
+        eq(emailVerificationTokens.userId, user.id),
+        gt(emailVerificationTokens.createdAt, windowStart)
+      )
+    )
+    .orderBy(desc(emailVerificationTokens.createdAt));
+
+  const now = Date.now();
+  const lastSentAt = recentSends[0]?.createdAt?.getTime();
+  let retryAt: number | null = null;
+
+  if (lastSentAt && now - lastSentAt < RESEND_INTERVAL_MS) {
+    retryAt = lastSentAt + RESEND_INTERVAL_MS;
+  } else if (recentSends.length >= MAX_SENDS_PER_WINDOW) {
+    // The window reopens when the oldest send in it ages out
+    const oldestSentAt = recentSends[MAX_SENDS_PER_WINDOW - 1].createdAt?.getTime() ?? now;
+    retryAt = oldestSentAt + RESEND_WINDOW_MS;
+  }
+
+  if (retryAt !== null) {
+    return {
+      error: {
+        message: 'Please wait before requesting another verification email',
+        code: 'RATE_LIMITED',
+        retryAfterSeconds: Math.max(1, Math.ceil((retryAt - now) / 1000)),
+      },
+    };
+  }
+
+  await sendVerificationEmail(user);
+
+  return { sent: true };
+}
+
+// ============================================================================
+// Consuming Links
+// ============================================================================
+
+export async function verifyEmail(token: string): Promise<{ userId: string } | { error: AuthError }> {
+  const tokenHash = hashEmailToken(token);
+
+  return await db.transaction(async (tx) => {
+    const [existing] = await tx
+      .select()
+      .from(emailVerificationTokens)
+      .where(eq(emailVerificationTokens.tokenHash, tokenHash))
+      .limit(1);
+
+    if (!existing || existing.usedAt) {
+      return {
+        error: {
+          message: 'This verification link is invalid or has already been used',
+          code: 'INVALID_TOKEN' as const,
+        },
+      };
+    }
+
+    if (existing.expiresAt <= new Date()) {
+      return {
+        error: {
+          message: 'This verification link has expired. Please request a new one.',
+          code: 'TOKEN_EXPIRED' as const,
+        },
+      };
+    }
+
+    // Claim the token atomically so it can only be used once
+    const claimed = await tx
+      .update(emailVerificationTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(emailVerificationTokens.id, existing.id), isNull(emailVerificationTokens.usedAt)))
+      .returning({ id: emailVerificationTokens.id });
+
+    if (claimed.length === 0) {
+      return {
+        error: {
+          message: 'This verification link is invalid or has already been used',
+          code: 'INVALID_TOKEN' as const,
+        },
+      };
+    }
+
+    // Only verifies the address the link was sent to
+    const verified = await tx
+      .update(users)
+      .set({ emailVerified: true, updatedAt: new Date() })
+      .where(and(eq(users.id, existing.userId), eq(users.email, existing.email)))
+      .returning({ id: users.id });
+
+    if (verified.length === 0) {
+      return {
+        error: {
+          message: 'This verification link is for an email address no longer on your account',
+          code: 'INVALID_TOKEN' as const,
+        },
+      };
+    }
+
+    // Retire any other links still out for this user
+    await tx
+      .update(emailVerificationTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(emailVerificationTokens.userId, existing.userId), isNull(emailVerificationTokens.usedAt)));
+
+    return { userId: existing.userId };
+  });
+}
+
+// ============================================================================
+// Feature Gating
+// ============================================================================
+
+/**
+ * Whether a feature is limited to verified accounts. REQUIRE_VERIFIED_EMAIL lists them,
+ * comma separated (e.g. "family"); nothing is gated by default.
+ */
+export function requiresVerifiedEmail(feature: VerifiedEmailFeature): boolean {
+  const gated = (process.env.REQUIRE_VERIFIED_EMAIL || '')
+    .split(',')
+    .map(name => name.trim().toLowerCase());
+  return gated.includes(feature);
+}
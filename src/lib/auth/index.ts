@@ -1,10 +1,49 @@
-import { SignJWT, jwtVerify } from 'jose';
-import { cookies } from 'next/headers';
+import { SignJWT, jwtVerify, errors as joseErrors } from 'jose';
+import { cookies, headers } from 'next/headers';
 import bcrypt from 'bcryptjs';
 import { db } from '../db';
-import { users } from '../db/schema';
+import { users, User } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
+import { sendVerificationEmail } from './email-verification';
+import { verifySecondFactor } from './two-factor';
+import {
+  createSession,
+  rotateRefreshToken,
+  isSessionActive,
+  revokeSessionById,
+  revokeSessionByRefreshToken,
+  SessionMetadata,
+} from './sessions';
+import {
+  ACCESS_COOKIE_NAME,
+  REFRESH_COOKIE_NAME,
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_SECONDS,
+} from './session-cookies';
+import { authenticateAccessToken, hasScope, isPersonalAccessToken, TokenScope } from './access-tokens';
+import { claimLoginAttempt, clearLoginFailures } from './login-throttle';
+import { getClientIp } from '../rate-limit';
+import { findOrCreateOidcUser, OidcProviderConfig, OidcClaims, OidcErrorCode } from './oidc';
+import { AuthenticationError, ForbiddenError } from '../api/errors';
+
+export { requestPasswordReset, resetPassword } from './password-reset';
+export { sendVerificationEmail, resendVerificationEmail, verifyEmail, requiresVerifiedEmail } from './email-verification';
+export type { VerifiedEmailFeature } from './email-verification';
+export { beginTwoFactorEnrollment, confirmTwoFactorEnrollment, disableTwoFactor } from './two-factor';
+export { listSessions, revokeSession, revokeAllSessions, describeUserAgent } from './sessions';
+export type { SessionSummary } from './sessions';
+export { TOKEN_SCOPES, createAccessToken, listAccessTokens, revokeAccessToken } from './access-tokens';
+export type { TokenScope, AccessTokenSummary } from './access-tokens';
+export {
+  OIDC_FLOW_COOKIE_NAME,
+  OIDC_FLOW_TTL_SECONDS,
+  getOidcProviders,
+  getOidcProvider,
+  beginOidcLogin,
+  completeOidcCallback,
+} from './oidc';
+export type { OidcProviderConfig, OidcClaims, OidcErrorCode } from './oidc';
 
 // ============================================================================
 // Types and Configuration
@@ -20,37 +59,91 @@ export interface AuthUser {
   role: 'USER' | 'ADMIN';
   subscriptionTier: 'FREE' | 'PREMIUM' | 'FAMILY';
   emailVerified: boolean;
+  measurementSystem: 'us' | 'metric';
+  sessionId?: string; // The session the request's access token belongs to
+  scopes?: TokenScope[]; // Set when authenticated with a personal access token
 }
 
 export interface AuthError {
   message: string;
-  code: 'INVALID_CREDENTIALS' | 'USER_NOT_FOUND' | 'EMAIL_TAKEN' | 'USERNAME_TAKEN' | 'INVALID_TOKEN' | 'TOKEN_EXPIRED';
+  code:
+    | 'INVALID_CREDENTIALS'
+    | 'USER_NOT_FOUND'
+    | 'EMAIL_TAKEN'
+    | 'USERNAME_TAKEN'
+    | 'INVALID_TOKEN'
+    | 'TOKEN_EXPIRED'
+    | 'ALREADY_VERIFIED'
+    | 'RATE_LIMITED'
+    | 'ACCOUNT_LOCKED'
+    | 'TWO_FACTOR_ENABLED'
+    | 'TWO_FACTOR_DISABLED'
+    | 'INVALID_CODE';
+  retryAfterSeconds?: number; // Set with RATE_LIMITED and ACCOUNT_LOCKED
 }
 
 const JWT_SECRET = new TextEncoder().encode(process.env.JWT_SECRET || 'your-secret-key');
-const TOKEN_EXPIRY = '7d';
-const COOKIE_NAME = 'auth-token';
+const TWO_FACTOR_CHALLENGE_EXPIRY = '5m';
+const TWO_FACTOR_PURPOSE = 'two-factor-challenge';
+
+// Why a request has no user: no valid credentials, or a personal access token that
+// doesn't grant what the route needs
+type Authentication = { user: AuthUser } | { error: 'UNAUTHENTICATED' | 'INSUFFICIENT_SCOPE' };
+
+// Returned by login() in place of a user when a second factor is still needed
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+function toAuthUser(user: User): AuthUser {
+  return {
+    id: user.id,
+    email: user.email,
+    username: user.username,
+    firstName: user.firstName || undefined,
+    lastName: user.lastName || undefined,
+    avatarUrl: user.avatarUrl || undefined,
+    role: user.role || 'USER',
+    subscriptionTier: user.subscriptionTier || 'FREE',
+    emailVerified: user.emailVerified || false,
+    measurementSystem: user.measurementSystem || 'us',
+  };
+}
 
 // ============================================================================
 // JWT Token Management
 // ============================================================================
 
-export async function createToken(user: AuthUser): Promise<string> {
+// Short-lived access token for a session; refreshSession issues the next one
+export async function createToken(user: AuthUser, sessionId: string): Promise<string> {
   return await new SignJWT({
     sub: user.id,
+    sid: sessionId,
     email: user.email,
     username: user.username,
     role: user.role,
   })
     .setProtectedHeader({ alg: 'HS256' })
     .setIssuedAt()
-    .setExpirationTime(TOKEN_EXPIRY)
+    .setExpirationTime(`${ACCESS_TOKEN_TTL_SECONDS}s`)
     .sign(JWT_SECRET);
 }
 
 export async function verifyToken(token: string): Promise<AuthUser | null> {
   try {
     const { payload } = await jwtVerify(token, JWT_SECRET);
+
+    // Challenge tokens share the signing key but must never work as sessions
+    if (payload.purpose) {
+      return null;
+    }
+
+    // Every access token belongs to a session, which may have been revoked since
+    const sessionId = payload.sid;
+    if (typeof sessionId !== 'string' || !(await isSessionActive(sessionId, payload.sub as string))) {
+      return null;
+    }
     
     // Get fresh user data from database
     const userResult = await db
@@ -64,19 +157,40 @@ export async function verifyToken(token: string): Promise<AuthUser | null> {
     }
 
     const user = userResult[0];
-    return {
-      id: user.id,
-      email: user.email,
-      username: user.username,
-      firstName: user.firstName || undefined,
-      lastName: user.lastName || undefined,
-      avatarUrl: user.avatarUrl || undefined,
-      role: user.role || 'USER',
-      subscriptionTier: user.subscriptionTier || 'FREE',
-      emailVerified: user.emailVerified || false,
-    };
+
+    // Changing the password signs out every session started before it
+    if (user.passwordChangedAt && (payload.iat ?? 0) * 1000 < user.passwordChangedAt.getTime()) {
+      return null;
+    }
+
+    return { ...toAuthUser(user), sessionId };
   } catch (error) {
-    console.error('Token verification failed:', error);
+    // Expiry is routine with short-lived tokens
+    if (!(error instanceof joseErrors.JWTExpired)) {
+      console.error('Token verification failed:', error);
+    }
+    return null;
+  }
+}
+
+async function createTwoFactorChallenge(userId: string): Promise<string> {
+  return await new SignJWT({ purpose: TWO_FACTOR_PURPOSE })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(userId)
+    .setIssuedAt()
+    .setExpirationTime(TWO_FACTOR_CHALLENGE_EXPIRY)
+    .sign(JWT_SECRET);
+}
+
+// The user a pending challenge belongs to, or null if it's invalid or expired
+async function verifyTwoFactorChallenge(challengeToken: string): Promise<string | null> {
+  try {
+    const { payload } = await jwtVerify(challengeToken, JWT_SECRET);
+    if (payload.purpose !== TWO_FACTOR_PURPOSE || !payload.sub) {
+      return null;
+    }
+    return payload.sub;
+  } catch {
     return null;
   }
 }
@@ -85,43 +199,89 @@ export async function verifyToken(token: string): Promise<AuthUser | null> {
 // Cookie Management
 // ============================================================================
 
-export async function setAuthCookie(user: AuthUser): Promise<void> {
-  const token = await createToken(user);
+// The address comes from the same trusted-proxy rule the rate limits use
+async function getRequestMetadata(): Promise<SessionMetadata> {
+  const headerStore = await headers();
+
+  return {
+    userAgent: headerStore.get('user-agent'),
+    ipAddress: getClientIp({ headers: headerStore }),
+  };
+}
+
+// A null refresh token leaves the current refresh cookie in place
+async function setSessionCookies(accessToken: string, refreshToken: string | null): Promise<void> {
   const cookieStore = await cookies();
-  
-  cookieStore.set(COOKIE_NAME, token, {
+  const options = {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
-    maxAge: 7 * 24 * 60 * 60, // 7 days in seconds
+    sameSite: 'lax' as const,
     path: '/',
-  });
+  };
+
+  cookieStore.set(ACCESS_COOKIE_NAME, accessToken, { ...options, maxAge: ACCESS_TOKEN_TTL_SECONDS });
+  if (refreshToken) {
+    cookieStore.set(REFRESH_COOKIE_NAME, refreshToken, { ...options, maxAge: REFRESH_TOKEN_TTL_SECONDS });
+  }
+}
+
+// Starts a session for this device and sets its cookies
+export async function setAuthCookie(user: AuthUser): Promise<void> {
+  const { sessionId, refreshToken } = await createSession(user.id, await getRequestMetadata());
+  await setSessionCookies(await createToken(user, sessionId), refreshToken);
 }
 
 export async function removeAuthCookie(): Promise<void> {
   const cookieStore = await cookies();
-  cookieStore.delete(COOKIE_NAME);
+  cookieStore.delete(ACCESS_COOKIE_NAME);
+  cookieStore.delete(REFRESH_COOKIE_NAME);
 }
 
 export async function getAuthCookie(): Promise<string | null> {
   const cookieStore = await cookies();
-  return cookieStore.get(COOKIE_NAME)?.value || null;
+  return cookieStore.get(ACCESS_COOKIE_NAME)?.value || null;
 }
 
 // ============================================================================
 // User Authentication
 // ============================================================================
 
-export async function getCurrentUser(): Promise<AuthUser | null> {
-  const token = await getAuthCookie();
-  if (!token) {
-    return null;
+/**
+ * The signed-in user, from the session cookie or an Authorization header. Personal access
+ * tokens only count when they grant `scope`, so a route that names no scope can't be
+ * reached with one.
+ */
+export async function getCurrentUser(scope?: TokenScope): Promise<AuthUser | null> {
+  const result = await authenticate(scope);
+  return 'user' in result ? result.user : null;
+}
+
+async function authenticate(scope?: TokenScope): Promise<Authentication> {
+  const authHeader = (await headers()).get('authorization');
+  if (authHeader) {
+    return await authenticateBearerToken(authHeader, scope);
   }
-  return await verifyToken(token);
+
+  const token = await getAuthCookie();
+  const user = token ? await verifyToken(token) : null;
+  return user ? { user } : { error: 'UNAUTHENTICATED' };
 }
 
-export async function login(email: string, password: string): Promise<{ user: AuthUser } | { error: AuthError }> {
+/**
+ * Signs in with email and password. When the account has 2FA on, no cookie is set yet:
+ * the caller gets a challenge to exchange, along with a code, in completeTwoFactorLogin.
+ * Repeated failures for an email are delayed and eventually locked out.
+ */
+export async function login(
+  email: string,
+  password: string
+): Promise<{ user: AuthUser } | TwoFactorChallenge | { error: AuthError }> {
   try {
+    const throttled = await claimLoginAttempt(email);
+    if (throttled) {
+      return { error: throttled };
+    }
+
     // Find user by email
     const userResult = await db
       .select()
@@ -140,8 +300,8 @@ export async function login(email: string, password: string): Promise<{ user: Au
 
     const user = userResult[0];
 
-    // Verify password
-    const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
+    // Verify password; accounts created through an identity provider may not have one
+    const isPasswordValid = user.passwordHash !== null && await bcrypt.compare(password, user.passwordHash);
     if (!isPasswordValid) {
       return {
         error: {
@@ -151,18 +311,16 @@ export async function login(email: string, password: string): Promise<{ user: Au
       };
     }
 
-    // Create auth user object
-    const authUser: AuthUser = {
-      id: user.id,
-      email: user.email,
-      username: user.username,
-      firstName: user.firstName || undefined,
-      lastName: user.lastName || undefined,
-      avatarUrl: user.avatarUrl || undefined,
-      role: user.role || 'USER',
-      subscriptionTier: user.subscriptionTier || 'FREE',
-      emailVerified: user.emailVerified || false,
-    };
+    if (user.twoFactorEnabled) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: await createTwoFactorChallenge(user.id),
+      };
+    }
+
+    await clearLoginFailures(email);
+
+    const authUser = toAuthUser(user);
 
     // Set auth cookie
     await setAuthCookie(authUser);
@@ -179,6 +337,103 @@ export async function login(email: string, password: string): Promise<{ user: Au
   }
 }
 
+// Finishes a login() that returned a challenge, with an authenticator or recovery code
+export async function completeTwoFactorLogin(
+  challengeToken: string,
+  code: string
+): Promise<{ user: AuthUser } | { error: AuthError }> {
+  try {
+    const userId = await verifyTwoFactorChallenge(challengeToken);
+    if (!userId) {
+      return {
+        error: {
+          message: 'Your sign-in attempt has expired. Please sign in again.',
+          code: 'TOKEN_EXPIRED',
+        },
+      };
+    }
+
+    const userResult = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    if (userResult.length === 0) {
+      return {
+        error: {
+          message: 'User not found',
+          code: 'USER_NOT_FOUND',
+        },
+      };
+    }
+
+    const user = userResult[0];
+
+    // Wrong codes count against the account the same way wrong passwords do
+    const throttled = await claimLoginAttempt(user.email);
+    if (throttled) {
+      return { error: throttled };
+    }
+
+    if (!(await verifySecondFactor(userId, code))) {
+      return {
+        error: {
+          message: 'Invalid authentication code',
+          code: 'INVALID_CODE',
+        },
+      };
+    }
+
+    await clearLoginFailures(user.email);
+
+    const authUser = toAuthUser(user);
+
+    // Set auth cookie
+    await setAuthCookie(authUser);
+
+    return { user: authUser };
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    return {
+      error: {
+        message: 'An error occurred during login',
+        code: 'INVALID_CREDENTIALS',
+      },
+    };
+  }
+}
+
+/**
+ * Signs in the user an identity provider vouched for, linking or creating the account as
+ * needed. 2FA still applies, the same way as in login().
+ */
+export async function loginWithOidc(
+  provider: OidcProviderConfig,
+  claims: OidcClaims
+): Promise<{ user: AuthUser } | TwoFactorChallenge | { error: OidcErrorCode }> {
+  const result = await findOrCreateOidcUser(provider, claims);
+  if ('error' in result) {
+    return result;
+  }
+
+  const { user } = result;
+
+  if (user.twoFactorEnabled) {
+    return {
+      twoFactorRequired: true,
+      challengeToken: await createTwoFactorChallenge(user.id),
+    };
+  }
+
+  const authUser = toAuthUser(user);
+
+  // Set auth cookie
+  await setAuthCookie(authUser);
+
+  return { user: authUser };
+}
+
 export async function register(data: {
   email: string;
   username: string;
@@ -248,18 +503,14 @@ export async function register(data: {
 
     const newUser = newUserResult[0];
 
-    // Create auth user object
-    const authUser: AuthUser = {
-      id: newUser.id,
-      email: newUser.email,
-      username: newUser.username,
-      firstName: newUser.firstName || undefined,
-      lastName: newUser.lastName || undefined,
-      avatarUrl: newUser.avatarUrl || undefined,
-      role: newUser.role || 'USER',
-      subscriptionTier: newUser.subscriptionTier || 'FREE',
-      emailVerified: newUser.emailVerified || false,
-    };
+    // A mail outage shouldn't block sign-up; the user can ask for another link later
+    try {
+      await sendVerificationEmail(newUser);
+    } catch (error) {
+      console.error('Verification email error:', error);
+    }
+
+    const authUser = toAuthUser(newUser);
 
     // Set auth cookie
     await setAuthCookie(authUser);
@@ -276,7 +527,66 @@ export async function register(data: {
   }
 }
 
+/**
+ * Exchanges the refresh cookie for a new access token and, usually, a new refresh token.
+ * Only callable where cookies can be written (route handlers); the middleware calls it
+ * through /api/auth/refresh before pages and API routes run.
+ */
+export async function refreshSession(): Promise<{ user: AuthUser } | { error: AuthError }> {
+  const cookieStore = await cookies();
+  const refreshToken = cookieStore.get(REFRESH_COOKIE_NAME)?.value;
+
+  if (!refreshToken) {
+    return {
+      error: {
+        message: 'No session to refresh',
+        code: 'INVALID_TOKEN',
+      },
+    };
+  }
+
+  const result = await rotateRefreshToken(refreshToken, await getRequestMetadata());
+
+  if ('error' in result) {
+    return {
+      error: {
+        message: result.error === 'TOKEN_EXPIRED' ? 'Your session has expired' : 'Your session is no longer valid',
+        code: result.error === 'TOKEN_EXPIRED' ? 'TOKEN_EXPIRED' : 'INVALID_TOKEN',
+      },
+    };
+  }
+
+  const userResult = await db
+    .select()
+    .from(users)
+    .where(eq(users.id, result.userId))
+    .limit(1);
+
+  if (userResult.length === 0) {
+    return {
+      error: {
+        message: 'User not found',
+        code: 'USER_NOT_FOUND',
+      },
+    };
+  }
+
+  const authUser: AuthUser = { ...toAuthUser(userResult[0]), sessionId: result.sessionId };
+  await setSessionCookies(await createToken(authUser, result.sessionId), result.refreshToken);
+
+  return { user: authUser };
+}
+
 export async function logout(): Promise<void> {
+  // The access token may already have expired, so fall back to the refresh token
+  const user = await getCurrentUser();
+  const refreshToken = (await cookies()).get(REFRESH_COOKIE_NAME)?.value;
+
+  if (user?.sessionId) {
+    await revokeSessionById(user.sessionId, 'logout');
+  } else if (refreshToken) {
+    await revokeSessionByRefreshToken(refreshToken, 'logout');
+  }
   await removeAuthCookie();
 }
 
@@ -284,18 +594,28 @@ export async function logout(): Promise<void> {
 // Authorization Helpers
 // ============================================================================
 
-export async function requireAuth(): Promise<AuthUser> {
-  const user = await getCurrentUser();
-  if (!user) {
-    throw new Error('Authentication required');
+// Throws an AuthenticationError or ForbiddenError, which route handlers report as 401 or 403
+export async function requireAuth(scope?: TokenScope): Promise<AuthUser> {
+  const result = await authenticate(scope);
+  if ('user' in result) {
+    return result.user;
   }
-  return user;
+
+  if (result.error === 'INSUFFICIENT_SCOPE') {
+    throw new ForbiddenError(
+      scope
+        ? `This access token does not have the ${scope} scope`
+        : 'Personal access tokens cannot be used here',
+      { code: 'INSUFFICIENT_SCOPE' }
+    );
+  }
+  throw new AuthenticationError();
 }
 
 export async function requireAdmin(): Promise<AuthUser> {
   const user = await requireAuth();
   if (user.role !== 'ADMIN') {
-    throw new Error('Admin access required');
+    throw new ForbiddenError('Admin access required');
   }
   return user;
 }
@@ -304,15 +624,52 @@ export async function requireAdmin(): Promise<AuthUser> {
 // Header Token Authentication (for API routes)
 // ============================================================================
 
-export async function verifyBearerToken(authHeader: string | null): Promise<AuthUser | null> {
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+// Accepts session access tokens, and personal access tokens that grant `scope`
+export async function verifyBearerToken(authHeader: string | null, scope?: TokenScope): Promise<AuthUser | null> {
+  if (!authHeader) {
     return null;
   }
+  const result = await authenticateBearerToken(authHeader, scope);
+  return 'user' in result ? result.user : null;
+}
+
+async function authenticateBearerToken(authHeader: string, scope?: TokenScope): Promise<Authentication> {
+  if (!authHeader.startsWith('Bearer ')) {
+    return { error: 'UNAUTHENTICATED' };
+  }
 
   const token = authHeader.substring(7);
-  return await verifyToken(token);
+  if (!isPersonalAccessToken(token)) {
+    const user = await verifyToken(token);
+    return user ? { user } : { error: 'UNAUTHENTICATED' };
+  }
+
+  const accessToken = await authenticateAccessToken(token);
+  if (!accessToken) {
+    return { error: 'UNAUTHENTICATED' };
+  }
+
+  if (!scope || !hasScope(accessToken.scopes, scope)) {
+    return { error: 'INSUFFICIENT_SCOPE' };
+  }
+
+  const userResult = await db
+    .select()
+    .from(users)
+    .where(eq(users.id, accessToken.userId))
+    .limit(1);
+
+  if (userResult.length === 0) {
+    return { error: 'UNAUTHENTICATED' };
+  }
+
+  return { user: { ...toAuthUser(userResult[0]), scopes: accessToken.scopes } };
 }
 
+// An access token for the user's current session, for clients that send headers instead of cookies
 export async function createBearerToken(user: AuthUser): Promise<string> {
-  return await createToken(user);
+  if (!user.sessionId) {
+    throw new Error('Bearer tokens can only be issued for a signed-in session');
+  }
+  return await createToken(user, user.sessionId);
 }
\ No newline at end of file
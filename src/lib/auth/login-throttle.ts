@@ -0,0 +1,54 @@
+/**
+ * Login Throttling
+ * Slows down password guessing against a single account: after a few failures each attempt
+ * has to wait longer than the last, and enough failures lock the account for a while.
+ * Applies to unknown emails too, so the responses don't reveal which accounts exist.
+ *
+ * Every attempt is counted up front, in the same statement that checks the limit, and a
+ * successful sign-in clears the count; concurrent guesses can't all slip past one check.
+ */
+
+import { claimRateLimit, resetRateLimit, formatRetryAfter, RateLimitRule } from '../rate-limit';
+import type { AuthError } from '.';
+
+const LOGIN_FAILURES: RateLimitRule = {
+  name: 'login-failures',
+  limit: 10, // Failures before the account locks
+  windowMs: 15 * 60 * 1000,
+};
+const FREE_FAILURES = 3; // Failures before delays start
+const MAX_DELAY_SECONDS = 60;
+
+// 1s after the 3rd failure, then 2s, 4s... up to a minute
+function delayAfter(failures: number): number {
+  if (failures < FREE_FAILURES) {
+    return 0;
+  }
+  return Math.min(2 ** (failures - FREE_FAILURES), MAX_DELAY_SECONDS);
+}
+
+// Counts an attempt for the account, or returns an error if it can't attempt a login right now
+export async function claimLoginAttempt(email: string): Promise<AuthError | null> {
+  const result = await claimRateLimit(LOGIN_FAILURES, email, failures => delayAfter(Math.floor(failures)) * 1000);
+  if (result.allowed) {
+    return null;
+  }
+
+  if (result.remaining === 0) {
+    return {
+      message: `Too many failed sign-in attempts. This account is locked for ${formatRetryAfter(result.retryAfterSeconds)}.`,
+      code: 'ACCOUNT_LOCKED',
+      retryAfterSeconds: result.retryAfterSeconds,
+    };
+  }
+
+  return {
+    message: `Too many failed sign-in attempts. Please wait ${formatRetryAfter(result.retryAfterSeconds)} and try again.`,
+    code: 'RATE_LIMITED',
+    retryAfterSeconds: result.retryAfterSeconds,
+  };
+}
+
+export async function clearLoginFailures(email: string): Promise<void> {
+  await resetRateLimit(LOGIN_FAILURES, email);
+}
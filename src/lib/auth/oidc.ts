@@ -0,0 +1,405 @@
+/**
+ * OpenID Connect
+ * Sign-in through any standards-compliant identity provider using the authorization code
+ * flow with PKCE. Providers are configured entirely from the environment and found through
+ * their discovery documents, so a local mock issuer works the same as a real one.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { SignJWT, jwtVerify, createRemoteJWKSet } from 'jose';
+import { db } from '../db';
+import { users, userIdentities, twoFactorRecoveryCodes, User } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { appUrl } from './tokens';
+import { revokeAllSessions } from './sessions';
+
+export const OIDC_FLOW_COOKIE_NAME = 'oidc-flow';
+export const OIDC_FLOW_TTL_SECONDS = 10 * 60;
+
+const FLOW_SECRET = new TextEncoder().encode(process.env.JWT_SECRET || 'your-secret-key');
+const FLOW_PURPOSE = 'oidc-flow';
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_SCOPES = 'openid email profile';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface OidcProviderConfig {
+  id: string; // Used in URLs and stored with identities
+  name: string; // Shown on the sign-in button
+  issuer: string;
+  clientId: string;
+  clientSecret: string | null; // Null for public clients, which rely on PKCE alone
+  scopes: string;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  preferred_username?: string;
+  picture?: string;
+}
+
+export type OidcErrorCode =
+  | 'unknown_provider'
+  | 'invalid_state'
+  | 'provider_error'
+  | 'email_required'
+  | 'email_conflict';
+
+// ============================================================================
+// Provider Configuration
+// ============================================================================
+
+/**
+ * Providers listed in OIDC_PROVIDERS (comma separated ids), each configured with
+ * OIDC_<ID>_ISSUER, OIDC_<ID>_CLIENT_ID and optionally OIDC_<ID>_CLIENT_SECRET,
+ * OIDC_<ID>_NAME and OIDC_<ID>_SCOPES. Incomplete entries are skipped.
+ */
+export function getOidcProviders(): OidcProviderConfig[] {
+  const ids = (process.env.OIDC_PROVIDERS || '')
+    .split(',')
+    .map(id => id.trim().toLowerCase())
+    .filter(id => /^[a-z0-9-]+$/.test(id));
+
+  return ids.flatMap(id => {
+    const prefix = `OIDC_${id.toUpperCase().replace(/-/g, '_')}_`;
+    const issuer = process.env[`${prefix}ISSUER`];
+    const clientId = process.env[`${prefix}CLIENT_ID`];
+
+    if (!issuer || !clientId) {
+      console.warn(`OIDC provider "${id}" is missing ${prefix}ISSUER or ${prefix}CLIENT_ID`);
+      return [];
+    }
+
+    return [{
+      id,
+      name: process.env[`${prefix}NAME`] || id.charAt(0).toUpperCase() + id.slice(1),
+      issuer: issuer.replace(/\/+$/, ''),
+      clientId,
+      clientSecret: process.env[`${prefix}CLIENT_SECRET`] || null,
+      scopes: process.env[`${prefix}SCOPES`] || DEFAULT_SCOPES,
+    }];
+  });
+}
+
+export function getOidcProvider(id: string): OidcProviderConfig | null {
+  return getOidcProviders().find(provider => provider.id === id) || null;
+}
+
+function redirectUri(provider: OidcProviderConfig): string {
+  return appUrl(`/api/auth/oidc/${provider.id}/callback`);
+}
+
+// ============================================================================
+// Discovery
+// ============================================================================
+
+const discoveryCache = new Map<string, { document: DiscoveryDocument; fetchedAt: number }>();
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+async function discover(issuer: string): Promise<DiscoveryDocument> {
+  const cached = discoveryCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) {
+    return cached.document;
+  }
+
+  const response = await fetch(`${issuer}/.well-known/openid-configuration`);
+  if (!response.ok) {
+    throw new Error(`OIDC discovery for ${issuer} failed: ${response.status}`);
+  }
+
+  const document = await response.json() as DiscoveryDocument;
+  if (!document.authorization_endpoint || !document.token_endpoint || !document.jwks_uri) {
+    throw new Error(`OIDC discovery for ${issuer} is missing required endpoints`);
+  }
+
+  discoveryCache.set(issuer, { document, fetchedAt: Date.now() });
+  return document;
+}
+
+function getJwks(jwksUri: string): ReturnType<typeof createRemoteJWKSet> {
+  let jwks = jwksCache.get(jwksUri);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(jwksUri));
+    jwksCache.set(jwksUri, jwks);
+  }
+  return jwks;
+}
+
+// ============================================================================
+// Authorization Flow
+// ============================================================================
+
+function randomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+// Only same-site paths, so the flow can't be used as an open redirect
+function safeReturnTo(returnTo: string | null): string {
+  return returnTo && returnTo.startsWith('/') && !returnTo.startsWith('//') ? returnTo : '/dashboard';
+}
+
+/**
+ * The provider's authorization URL, and the signed flow state the browser must bring
+ * back to the callback in a cookie.
+ */
+export async function beginOidcLogin(
+  provider: OidcProviderConfig,
+  returnTo: string | null
+): Promise<{ authorizationUrl: string; flowState: string }> {
+  const discovery = await discover(provider.issuer);
+  const state = randomToken();
+  const nonce = randomToken();
+  const codeVerifier = randomToken();
+  const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+
+  const flowState = await new SignJWT({
+    purpose: FLOW_PURPOSE,
+    provider: provider.id,
+    state,
+    nonce,
+    codeVerifier,
+    returnTo: safeReturnTo(returnTo),
+  })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime(`${OIDC_FLOW_TTL_SECONDS}s`)
+    .sign(FLOW_SECRET);
+
+  const authorizationUrl = new URL(discovery.authorization_endpoint);
+  authorizationUrl.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: redirectUri(provider),
+    scope: provider.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return { authorizationUrl: authorizationUrl.toString(), flowState };
+}
+
+/**
+ * Checks the callback against the flow cookie, redeems the code and verifies the ID token.
+ * Returns the verified claims and where to send the user afterwards.
+ */
+export async function completeOidcCallback(
+  provider: OidcProviderConfig,
+  params: { code: string | null; state: string | null },
+  flowState: string | undefined
+): Promise<{ claims: OidcClaims; returnTo: string } | { error: OidcErrorCode }> {
+  let flow: { provider: string; state: string; nonce: string; codeVerifier: string; returnTo: string };
+  try {
+    const { payload } = await jwtVerify(flowState || '', FLOW_SECRET);
+    if (payload.purpose !== FLOW_PURPOSE) {
+      return { error: 'invalid_state' };
+    }
+    flow = payload as unknown as typeof flow;
+  } catch {
+    return { error: 'invalid_state' };
+  }
+
+  if (flow.provider !== provider.id || !params.state || params.state !== flow.state || !params.code) {
+    return { error: 'invalid_state' };
+  }
+
+  const discovery = await discover(provider.issuer);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: params.code,
+    redirect_uri: redirectUri(provider),
+    code_verifier: flow.codeVerifier,
+    client_id: provider.clientId,
+  });
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+    Accept: 'application/json',
+  };
+  if (provider.clientSecret) {
+    // client_secret_basic, the spec's default client authentication
+    const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+
+  const tokenResponse = await fetch(discovery.token_endpoint, { method: 'POST', headers, body });
+  if (!tokenResponse.ok) {
+    console.error(`OIDC token exchange with ${provider.id} failed:`, tokenResponse.status, await tokenResponse.text());
+    return { error: 'provider_error' };
+  }
+
+  const tokens = await tokenResponse.json() as { id_token?: string };
+  if (!tokens.id_token) {
+    return { error: 'provider_error' };
+  }
+
+  try {
+    const { payload } = await jwtVerify(tokens.id_token, getJwks(discovery.jwks_uri), {
+      issuer: discovery.issuer,
+      audience: provider.clientId,
+    });
+
+    if (payload.nonce !== flow.nonce || !payload.sub) {
+      return { error: 'invalid_state' };
+    }
+
+    return { claims: payload as unknown as OidcClaims, returnTo: flow.returnTo };
+  } catch (error) {
+    console.error(`OIDC ID token from ${provider.id} failed verification:`, error);
+    return { error: 'provider_error' };
+  }
+}
+
+// ============================================================================
+// Accounts
+// ============================================================================
+
+async function uniqueUsername(claims: OidcClaims): Promise<string> {
+  const base = (claims.preferred_username || claims.email?.split('@')[0] || 'user')
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]/g, '')
+    .slice(0, 15)
+    .padEnd(3, '0');
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const candidate = attempt === 0 ? base : `${base}-${Math.floor(1000 + Math.random() * 9000)}`;
+    const [taken] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.username, candidate))
+      .limit(1);
+    if (!taken) {
+      return candidate;
+    }
+  }
+  return `${base}-${nanoid(6).toLowerCase()}`;
+}
+
+/**
+ * The user an identity signs in as: the one already linked to it, else the account with
+ * the same verified email (linking it), else a new account without a password.
+ */
+export async function findOrCreateOidcUser(
+  provider: OidcProviderConfig,
+  claims: OidcClaims
+): Promise<{ user: User } | { error: OidcErrorCode }> {
+  const [linked] = await db
+    .select({ user: users })
+    .from(userIdentities)
+    .innerJoin(users, eq(userIdentities.userId, users.id))
+    .where(and(eq(userIdentities.provider, provider.id), eq(userIdentities.subject, claims.sub)))
+    .limit(1);
+
+  if (linked) {
+    await db
+      .update(userIdentities)
+      .set({ lastLoginAt: new Date(), email: claims.email?.toLowerCase() || null })
+      .where(and(eq(userIdentities.provider, provider.id), eq(userIdentities.subject, claims.sub)));
+    return { user: linked.user };
+  }
+
+  if (!claims.email) {
+    return { error: 'email_required' };
+  }
+
+  const email = claims.email.toLowerCase();
+  const [existing] = await db
+    .select()
+    .from(users)
+    .where(eq(users.email, email))
+    .limit(1);
+
+  if (existing) {
+    // Only an address the provider vouches for may take over a sign-in to an existing account
+    if (claims.email_verified !== true) {
+      return { error: 'email_conflict' };
+    }
+
+    const user = await db.transaction(async (tx) => {
+      let account = existing;
+
+      // Someone may have registered this address without owning it. The verified identity
+      // wins: drop the password and 2FA they set so they can't get back in.
+      if (!existing.emailVerified) {
+        [account] = await tx
+          .update(users)
+          .set({
+            emailVerified: true,
+            passwordHash: null,
+            twoFactorEnabled: false,
+            twoFactorSecret: null,
+            twoFactorLastStep: null,
+            updatedAt: new Date(),
+          })
+          .where(eq(users.id, existing.id))
+          .returning();
+        await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, existing.id));
+      }
+
+      await tx.insert(userIdentities).values({
+        userId: existing.id,
+        provider: provider.id,
+        subject: claims.sub,
+        email,
+        lastLoginAt: new Date(),
+      });
+
+      return account;
+    });
+
+    if (!existing.emailVerified) {
+      await revokeAllSessions(existing.id, 'revoked');
+    }
+
+    return { user };
+  }
+
+  const username = await uniqueUsername(claims);
+
+  const user = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(users)
+      .values({
+        id: nanoid(),
+        email,
+        username,
+        firstName: claims.given_name || claims.name || null,
+        lastName: claims.family_name || null,
+        avatarUrl: claims.picture || null,
+        passwordHash: null,
+        emailVerified: claims.email_verified === true,
+        twoFactorEnabled: false,
+        subscriptionTier: 'FREE',
+        role: 'USER',
+      })
+      .returning();
+
+    await tx.insert(userIdentities).values({
+      userId: created.id,
+      provider: provider.id,
+      subject: claims.sub,
+      email,
+      lastLoginAt: new Date(),
+    });
+
+    return created;
+  });
+
+  return { user };
+}
@@ -0,0 +1,165 @@
+/**
+ * Password Reset
+ * Emails a link carrying an expiring, single-use token, and sets a new password for
+ * whoever presents it. Changing the password revokes every existing session.
+ */
+
+import bcrypt from 'bcryptjs';
+import { db } from '../db';
+import { users, passwordResetTokens } from '../db/schema';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { sendMail } from '../mailer';
+import { generateEmailToken, hashEmailToken, appUrl } from './tokens';
+import { revokeAllSessions } from './sessions';
+import type { AuthError } from '.';
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+const RESET_REQUEST_INTERVAL_MS = 60 * 1000; // At most one email a minute per account
+
+// ============================================================================
+// Requesting a Reset
+// ============================================================================
+
+/**
+ * Emails a reset link if the address belongs to an account. Callers respond the same way
+ * either way, so the endpoint can't be used to find out who has an account.
+ */
+export async function requestPasswordReset(email: string): Promise<void> {
+  const userResult = await db
+    .select({ id: users.id, email: users.email, firstName: users.firstName })
+    .from(users)
+    .where(eq(users.email, email.toLowerCase()))
+    .limit(1);
+
+  if (userResult.length === 0) {
+    return;
+  }
+
+  const user = userResult[0];
+
+  // Don't let repeated requests flood someone's inbox
+  const recentRequest = await db
+    .select({ id: passwordResetTokens.id })
+    .from(passwordResetTokens)
+    .where(
+      and(
+        eq(passwordResetTokens.userId, user.id),
+        gt(passwordResetTokens.createdAt, new Date(Date.now() - RESET_REQUEST_INTERVAL_MS))
+      )
+    )
+    .limit(1);
+
+  if (recentRequest.length > 0) {
+    return;
+  }
+
+  const { token, tokenHash } = generateEmailToken();
+
+  // Only the newest link works
+  await db.transaction(async (tx) => {
+    await tx.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, user.id));
+    await tx.insert(passwordResetTokens).values({
+      userId: user.id,
+      tokenHash,
+      expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+    });
+  });
+
+  const resetUrl = appUrl(`/auth/reset-password?token=${encodeURIComponent(token)}`);
+  const greeting = user.firstName ? `Hi ${user.firstName},` : 'Hi,';
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your RecipeUp password',
+    text: [
+      greeting,
+      '',
+      'We received a request to reset the password for your RecipeUp account. Use the link below to choose a new one:',
+      '',
+      resetUrl,
+      '',
+      'The link expires in 1 hour and can only be used once. If you didn\'t ask to reset your password, you can ignore this email.',
+    ].join('\n'),
+  });
+}
+
+// ============================================================================
+// Completing a Reset
+// ============================================================================
+
+export async function resetPassword(
+  token: string,
+  newPassword: string
+): Promise<{ userId: string } | { error: AuthError }> {
+  const tokenHash = hashEmailToken(token);
+
+  const tokenResult = await db
+    .select({ expiresAt: passwordResetTokens.expiresAt, usedAt: passwordResetTokens.usedAt })
+    .from(passwordResetTokens)
+    .where(eq(passwordResetTokens.tokenHash, tokenHash))
+    .limit(1);
+
+  if (tokenResult.length === 0 || tokenResult[0].usedAt) {
+    return {
+      error: {
+        message: 'This reset link is invalid or has already been used',
+        code: 'INVALID_TOKEN',
+      },
+    };
+  }
+
+  if (tokenResult[0].expiresAt <= new Date()) {
+    return {
+      error: {
+        message: 'This reset link has expired. Please request a new one.',
+        code: 'TOKEN_EXPIRED',
+      },
+    };
+  }
+
+  const saltRounds = 12;
+  const passwordHash = await bcrypt.hash(newPassword, saltRounds);
+
+  const result = await db.transaction(async (tx) => {
+    // Claim the token atomically so two concurrent requests can't both use it
+    const claimed = await tx
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, new Date())
+        )
+      )
+      .returning({ userId: passwordResetTokens.userId });
+
+    if (claimed.length === 0) {
+      return {
+        error: {
+          message: 'This reset link is invalid or has already been used',
+          code: 'INVALID_TOKEN' as const,
+        },
+      };
+    }
+
+    const { userId } = claimed[0];
+
+    // JWTs only carry whole seconds in iat, so round down to keep tokens issued after the
+    // reset (in the same second) valid
+    const passwordChangedAt = new Date(Math.floor(Date.now() / 1000) * 1000);
+
+    await tx
+      .update(users)
+      .set({ passwordHash, passwordChangedAt, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+
+    return { userId };
+  });
+
+  if (!('error' in result)) {
+    await revokeAllSessions(result.userId, 'password_reset');
+  }
+
+  return result;
+}
@@ -0,0 +1,11 @@
+/**
+ * Session Cookies
+ * Cookie names and lifetimes shared by the auth library and the edge middleware, which
+ * can't import anything that touches the database
+ */
+
+export const ACCESS_COOKIE_NAME = 'auth-token';
+export const REFRESH_COOKIE_NAME = 'refresh-token';
+
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60; // 15 minutes
+export const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days since the session was last used
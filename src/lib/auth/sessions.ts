@@ -0,0 +1,283 @@
+/**
+ * Sessions
+ * Server-side records of each signed-in device. Access tokens name their session, so
+ * revoking it signs the device out at once; refresh tokens rotate on every use, and an
+ * old one coming back revokes the session it belonged to.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { db } from '../db';
+import { sessions, Session } from '../db/schema';
+import { and, desc, eq, gt, isNull, ne, or } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { REFRESH_TOKEN_TTL_SECONDS } from './session-cookies';
+
+// Two requests refreshing at once (parallel fetches, several tabs) both present the same
+// token; the slower one within this window isn't treated as theft
+const ROTATION_GRACE_MS = 30 * 1000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SessionMetadata {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+export interface SessionSummary {
+  id: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date | null;
+  lastSeenAt: Date | null;
+  current: boolean;
+}
+
+export type SessionRevokedReason = NonNullable<Session['revokedReason']>;
+
+export type RefreshResult =
+  | { sessionId: string; userId: string; refreshToken: string | null } // Null inside the grace window: keep the current cookie
+  | { error: 'INVALID_TOKEN' | 'TOKEN_EXPIRED' | 'TOKEN_REUSED' };
+
+// ============================================================================
+// Refresh Tokens
+// ============================================================================
+
+// "<session id>.<secret>", so a stale token still identifies the session to revoke
+function generateRefreshToken(sessionId: string): { token: string; tokenHash: string } {
+  const token = `${sessionId}.${randomBytes(32).toString('base64url')}`;
+  return { token, tokenHash: hashRefreshToken(token) };
+}
+
+function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function refreshExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000);
+}
+
+// ============================================================================
+// Session Lifecycle
+// ============================================================================
+
+export async function createSession(
+  userId: string,
+  metadata: SessionMetadata
+): Promise<{ sessionId: string; refreshToken: string }> {
+  const sessionId = nanoid();
+  const { token, tokenHash } = generateRefreshToken(sessionId);
+
+  await db.insert(sessions).values({
+    id: sessionId,
+    userId,
+    refreshTokenHash: tokenHash,
+    userAgent: metadata.userAgent,
+    ipAddress: metadata.ipAddress,
+    expiresAt: refreshExpiry(),
+  });
+
+  return { sessionId, refreshToken: token };
+}
+
+/**
+ * Trades a refresh token for a new one. Presenting a token that has already been rotated
+ * (outside the grace window) revokes the session, since either the thief or the owner is
+ * now holding a copy.
+ */
+export async function rotateRefreshToken(refreshToken: string, metadata: SessionMetadata): Promise<RefreshResult> {
+  const sessionId = refreshToken.split('.')[0];
+  if (!sessionId) {
+    return { error: 'INVALID_TOKEN' };
+  }
+
+  const [session] = await db
+    .select()
+    .from(sessions)
+    .where(eq(sessions.id, sessionId))
+    .limit(1);
+
+  if (!session || session.revokedAt) {
+    return { error: 'INVALID_TOKEN' };
+  }
+
+  if (session.expiresAt <= new Date()) {
+    return { error: 'TOKEN_EXPIRED' };
+  }
+
+  const tokenHash = hashRefreshToken(refreshToken);
+
+  if (tokenHash !== session.refreshTokenHash) {
+    const withinGrace = tokenHash === session.previousRefreshTokenHash
+      && session.rotatedAt !== null
+      && Date.now() - session.rotatedAt.getTime() < ROTATION_GRACE_MS;
+
+    if (withinGrace) {
+      return { sessionId: session.id, userId: session.userId, refreshToken: null };
+    }
+
+    await revokeSessionById(session.id, 'refresh_token_reuse');
+    return { error: 'TOKEN_REUSED' };
+  }
+
+  const next = generateRefreshToken(session.id);
+  const now = new Date();
+
+  // Conditional on the hash we read, so only one of two racing rotations wins
+  const rotated = await db
+    .update(sessions)
+    .set({
+      refreshTokenHash: next.tokenHash,
+      previousRefreshTokenHash: tokenHash,
+      rotatedAt: now,
+      lastSeenAt: now,
+      expiresAt: refreshExpiry(),
+      userAgent: metadata.userAgent ?? session.userAgent,
+      ipAddress: metadata.ipAddress ?? session.ipAddress,
+    })
+    .where(and(eq(sessions.id, session.id), eq(sessions.refreshTokenHash, tokenHash), isNull(sessions.revokedAt)))
+    .returning({ id: sessions.id });
+
+  if (rotated.length === 0) {
+    // Lost the race to a concurrent refresh with the same token
+    return { sessionId: session.id, userId: session.userId, refreshToken: null };
+  }
+
+  return { sessionId: session.id, userId: session.userId, refreshToken: next.token };
+}
+
+// The session an access token names, if it's still active
+export async function isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+  const [session] = await db
+    .select({ id: sessions.id })
+    .from(sessions)
+    .where(
+      and(
+        eq(sessions.id, sessionId),
+        eq(sessions.userId, userId),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, new Date())
+      )
+    )
+    .limit(1);
+
+  return Boolean(session);
+}
+
+export async function revokeSessionById(sessionId: string, reason: SessionRevokedReason): Promise<void> {
+  await db
+    .update(sessions)
+    .set({ revokedAt: new Date(), revokedReason: reason })
+    .where(and(eq(sessions.id, sessionId), isNull(sessions.revokedAt)));
+}
+
+// For signing out with only a refresh token; a forged one naming someone else's session does nothing
+export async function revokeSessionByRefreshToken(refreshToken: string, reason: SessionRevokedReason): Promise<void> {
+  const tokenHash = hashRefreshToken(refreshToken);
+
+  await db
+    .update(sessions)
+    .set({ revokedAt: new Date(), revokedReason: reason })
+    .where(
+      and(
+        eq(sessions.id, refreshToken.split('.')[0]),
+        or(eq(sessions.refreshTokenHash, tokenHash), eq(sessions.previousRefreshTokenHash, tokenHash)),
+        isNull(sessions.revokedAt)
+      )
+    );
+}
+
+// ============================================================================
+// Managing a User's Sessions
+// ============================================================================
+
+export async function listSessions(userId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+  const activeSessions = await db
+    .select()
+    .from(sessions)
+    .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt), gt(sessions.expiresAt, new Date())))
+    .orderBy(desc(sessions.lastSeenAt));
+
+  return activeSessions.map(session => ({
+    id: session.id,
+    device: describeUserAgent(session.userAgent),
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt,
+    current: session.id === currentSessionId,
+  }));
+}
+
+// Whether there was an active session with this id for the user to revoke
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const revoked = await db
+    .update(sessions)
+    .set({ revokedAt: new Date(), revokedReason: 'revoked' })
+    .where(and(eq(sessions.id, sessionId), eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+    .returning({ id: sessions.id });
+
+  return revoked.length > 0;
+}
+
+/**
+ * Revokes every session the user has, except `exceptSessionId` when given. Returns how
+ * many were revoked.
+ */
+export async function revokeAllSessions(
+  userId: string,
+  reason: SessionRevokedReason,
+  exceptSessionId?: string
+): Promise<number> {
+  const revoked = await db
+    .update(sessions)
+    .set({ revokedAt: new Date(), revokedReason: reason })
+    .where(
+      and(
+        eq(sessions.userId, userId),
+        isNull(sessions.revokedAt),
+        exceptSessionId ? ne(sessions.id, exceptSessionId) : undefined
+      )
+    )
+    .returning({ id: sessions.id });
+
+  return revoked.length;
+}
+
+// ============================================================================
+// Device Descriptions
+// ============================================================================
+
+const BROWSER_PATTERNS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const OS_PATTERNS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+// A short label like "Chrome on macOS" for the sessions list
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = BROWSER_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OS_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && os) {
+    return `${browser} on ${os}`;
+  }
+  return browser || os || 'Unknown device';
+}
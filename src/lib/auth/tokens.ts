@@ -0,0 +1,22 @@
+/**
+ * Emailed Tokens
+ * Random single-use tokens sent in links. Only their SHA-256 is stored, so a leaked
+ * table can't be used to take over accounts.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+export function hashEmailToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function generateEmailToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashEmailToken(token) };
+}
+
+// Links are built from configuration rather than the request's Host header, which a client controls
+export function appUrl(path: string): string {
+  const base = (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+  return `${base}${path}`;
+}
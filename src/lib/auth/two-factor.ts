@@ -0,0 +1,238 @@
+/**
+ * Two-Factor Authentication
+ * TOTP enrollment, confirmation and removal, and checking the second factor at sign-in.
+ * Secrets are encrypted at rest and recovery codes are stored hashed.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import bcrypt from 'bcryptjs';
+import { db } from '../db';
+import { users, twoFactorRecoveryCodes } from '../db/schema';
+import { and, eq, isNull, lt, or } from 'drizzle-orm';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri, encodeBase32 } from './totp';
+import type { AuthError } from '.';
+
+const ISSUER = 'RecipeUp';
+const RECOVERY_CODE_COUNT = 10;
+
+// ============================================================================
+// Secret Encryption
+// ============================================================================
+
+function encryptionKey(): Buffer {
+  const keyMaterial = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || 'your-secret-key';
+  return createHash('sha256').update(keyMaterial).digest();
+}
+
+// AES-256-GCM, stored as "iv.tag.ciphertext" in base64url
+function sealSecret(secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+}
+
+function openSecret(sealed: string): string {
+  const [iv, tag, ciphertext] = sealed.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+// ============================================================================
+// Recovery Codes
+// ============================================================================
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+// Codes like "k3j9q-w7mzp", 50 random bits each
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = encodeBase32(randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+// ============================================================================
+// Enrollment
+// ============================================================================
+
+/**
+ * Starts enrollment with a new secret. 2FA stays off until a code from it is confirmed,
+ * so starting over just replaces the pending secret.
+ */
+export async function beginTwoFactorEnrollment(
+  userId: string
+): Promise<{ secret: string; otpauthUri: string } | { error: AuthError }> {
+  const [user] = await db
+    .select({ email: users.email, twoFactorEnabled: users.twoFactorEnabled })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user) {
+    return { error: { message: 'User not found', code: 'USER_NOT_FOUND' } };
+  }
+
+  if (user.twoFactorEnabled) {
+    return { error: { message: 'Two-factor authentication is already enabled', code: 'TWO_FACTOR_ENABLED' } };
+  }
+
+  const secret = generateTotpSecret();
+
+  await db
+    .update(users)
+    .set({ twoFactorSecret: sealSecret(secret), twoFactorLastStep: null, updatedAt: new Date() })
+    .where(eq(users.id, userId));
+
+  return { secret, otpauthUri: buildOtpauthUri(secret, user.email, ISSUER) };
+}
+
+/**
+ * Turns 2FA on once the user proves their app has the pending secret, and returns the
+ * recovery codes. This is the only time the codes are shown.
+ */
+export async function confirmTwoFactorEnrollment(
+  userId: string,
+  code: string
+): Promise<{ recoveryCodes: string[] } | { error: AuthError }> {
+  const [user] = await db
+    .select({ twoFactorEnabled: users.twoFactorEnabled, twoFactorSecret: users.twoFactorSecret })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user) {
+    return { error: { message: 'User not found', code: 'USER_NOT_FOUND' } };
+  }
+
+  if (user.twoFactorEnabled) {
+    return { error: { message: 'Two-factor authentication is already enabled', code: 'TWO_FACTOR_ENABLED' } };
+  }
+
+  if (!user.twoFactorSecret) {
+    return { error: { message: 'Start two-factor enrollment first', code: 'TWO_FACTOR_DISABLED' } };
+  }
+
+  const step = verifyTotp(openSecret(user.twoFactorSecret), code);
+  if (step === null) {
+    return { error: { message: 'Invalid authentication code', code: 'INVALID_CODE' } };
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+
+  await db.transaction(async (tx) => {
+    await tx
+      .update(users)
+      .set({ twoFactorEnabled: true, twoFactorLastStep: step, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+
+    await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    await tx.insert(twoFactorRecoveryCodes).values(
+      recoveryCodes.map(recoveryCode => ({ userId, codeHash: hashRecoveryCode(recoveryCode) }))
+    );
+  });
+
+  return { recoveryCodes };
+}
+
+/**
+ * Turns 2FA off. Needs the password (if the account has one) and a current code or
+ * recovery code, so a hijacked session alone can't remove it.
+ */
+export async function disableTwoFactor(
+  userId: string,
+  password: string,
+  code: string
+): Promise<{ disabled: true } | { error: AuthError }> {
+  const [user] = await db
+    .select({ passwordHash: users.passwordHash, twoFactorEnabled: users.twoFactorEnabled })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user) {
+    return { error: { message: 'User not found', code: 'USER_NOT_FOUND' } };
+  }
+
+  if (!user.twoFactorEnabled) {
+    return { error: { message: 'Two-factor authentication is not enabled', code: 'TWO_FACTOR_DISABLED' } };
+  }
+
+  // Accounts that only sign in through an identity provider have no password to check
+  const isPasswordValid = user.passwordHash === null || await bcrypt.compare(password, user.passwordHash);
+  if (!isPasswordValid) {
+    return { error: { message: 'Incorrect password', code: 'INVALID_CREDENTIALS' } };
+  }
+
+  if (!(await verifySecondFactor(userId, code))) {
+    return { error: { message: 'Invalid authentication code', code: 'INVALID_CODE' } };
+  }
+
+  await db.transaction(async (tx) => {
+    await tx
+      .update(users)
+      .set({ twoFactorEnabled: false, twoFactorSecret: null, twoFactorLastStep: null, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+
+    await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+  });
+
+  return { disabled: true };
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Checks an authenticator code or an unused recovery code for a user with 2FA on.
+ * Each accepted code is spent: TOTP codes can't be replayed within their window and
+ * recovery codes are marked used.
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<boolean> {
+  const [user] = await db
+    .select({ twoFactorEnabled: users.twoFactorEnabled, twoFactorSecret: users.twoFactorSecret })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user?.twoFactorEnabled || !user.twoFactorSecret) {
+    return false;
+  }
+
+  const step = verifyTotp(openSecret(user.twoFactorSecret), code);
+  if (step !== null) {
+    // Only accept a step later than the last one used, atomically
+    const accepted = await db
+      .update(users)
+      .set({ twoFactorLastStep: step })
+      .where(
+        and(
+          eq(users.id, userId),
+          or(isNull(users.twoFactorLastStep), lt(users.twoFactorLastStep, step))
+        )
+      )
+      .returning({ id: users.id });
+    return accepted.length > 0;
+  }
+
+  const claimed = await db
+    .update(twoFactorRecoveryCodes)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, hashRecoveryCode(code)),
+        isNull(twoFactorRecoveryCodes.usedAt)
+      )
+    )
+    .returning({ id: twoFactorRecoveryCodes.id });
+  return claimed.length > 0;
+}
@@ -0,0 +1,86 @@
+/**
+ * Learned Ingredient Categories
+ * Remembers the category a family gives an ingredient by hand so later lists shelve it the same way
+ */
+
+import { db } from '../db';
+import { ingredientCategories } from '../db/schema';
+import { ingredientKey } from '../ingredients';
+import { LearnedCategories } from '../grocery';
+import { eq, sql } from 'drizzle-orm';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface CategorizedItem {
+  id?: string;
+  name: string;
+  category: string;
+}
+
+// ============================================================================
+// Lookup
+// ============================================================================
+
+export async function getLearnedCategories(familyGroupId: string): Promise<LearnedCategories> {
+  const rows = await db
+    .select({
+      normalizedName: ingredientCategories.normalizedName,
+      category: ingredientCategories.category,
+    })
+    .from(ingredientCategories)
+    .where(eq(ingredientCategories.familyGroupId, familyGroupId));
+
+  return new Map(rows.map(row => [row.normalizedName, row.category]));
+}
+
+// ============================================================================
+// Learning
+// ============================================================================
+
+/**
+ * Records manual categorizations; the latest choice for an ingredient wins.
+ */
+export async function learnCategories(familyGroupId: string, userId: string, items: CategorizedItem[]): Promise<void> {
+  const learned = new Map<string, string>();
+  items.forEach(item => {
+    const normalizedName = ingredientKey(item.name);
+    if (normalizedName && item.category) {
+      learned.set(normalizedName, item.category);
+    }
+  });
+
+  if (learned.size === 0) {
+    return;
+  }
+
+  await db
+    .insert(ingredientCategories)
+    .values(Array.from(learned.entries()).map(([normalizedName, category]) => ({
+      familyGroupId,
+      normalizedName,
+      category,
+      updatedBy: userId,
+    })))
+    .onConflictDoUpdate({
+      target: [ingredientCategories.familyGroupId, ingredientCategories.normalizedName],
+      set: {
+        category: sql`excluded.category`,
+        updatedBy: userId,
+        updatedAt: new Date(),
+      },
+    });
+}
+
+/**
+ * Finds items whose category changed between two versions of a list, matched by item id.
+ */
+export function findRecategorizedItems<T extends CategorizedItem>(before: T[], after: T[]): T[] {
+  const previousCategories = new Map(before.filter(item => item.id).map(item => [item.id, item.category]));
+
+  return after.filter(item => {
+    const previous = item.id ? previousCategories.get(item.id) : undefined;
+    return previous !== undefined && previous !== item.category;
+  });
+}
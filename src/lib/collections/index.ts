@@ -0,0 +1,149 @@
+/**
+ * Recipe Collections
+ * Access rules and item handling for personal, family-shared and public collections
+ */
+
+import { db } from '../db';
+import { recipeCollections, recipeCollectionItems, recipes, familyGroupMembers, RecipeCollection } from '../db/schema';
+import { getRecipeProvider, parseExternalRecipeId } from '../recipe-providers';
+import { eq, and, asc, max } from 'drizzle-orm';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CollectionAccess {
+  collection: RecipeCollection;
+  isOwner: boolean;
+  canEditItems: boolean; // Owners, and family members for family-shared collections
+}
+
+export interface RecipeSnapshot {
+  title: string;
+  imageUrl: string | null;
+}
+
+// ============================================================================
+// Access
+// ============================================================================
+
+/**
+ * Resolves what a user may do with a collection. Returns null when they can't see it at all.
+ */
+export async function getCollectionAccess(collectionId: string, userId: string): Promise<CollectionAccess | null> {
+  const [collection] = await db
+    .select()
+    .from(recipeCollections)
+    .where(eq(recipeCollections.id, collectionId))
+    .limit(1);
+
+  if (!collection) {
+    return null;
+  }
+
+  if (collection.userId === userId) {
+    return { collection, isOwner: true, canEditItems: true };
+  }
+
+  if (collection.familyGroupId) {
+    const [membership] = await db
+      .select({ role: familyGroupMembers.role })
+      .from(familyGroupMembers)
+      .where(
+        and(
+          eq(familyGroupMembers.familyGroupId, collection.familyGroupId),
+          eq(familyGroupMembers.userId, userId)
+        )
+      )
+      .limit(1);
+
+    if (membership) {
+      return { collection, isOwner: false, canEditItems: true };
+    }
+  }
+
+  return collection.isPublic ? { collection, isOwner: false, canEditItems: false } : null;
+}
+
+// ============================================================================
+// Items
+// ============================================================================
+
+/**
+ * Looks up the title and image stored alongside a collected recipe. Private local recipes
+ * can only be collected by their author; external recipes are fetched once here so
+ * listing a collection doesn't spend API quota.
+ */
+export async function getRecipeSnapshot(recipeId: string, userId: string): Promise<RecipeSnapshot | null> {
+  const externalRef = parseExternalRecipeId(recipeId);
+  if (externalRef) {
+    try {
+      const provider = getRecipeProvider(externalRef.provider);
+      const externalRecipe = provider ? await provider.getById(externalRef.externalId, { includeNutrition: false }) : null;
+      if (!provider || !externalRecipe) {
+        return null;
+      }
+
+      const recipe = provider.transformToRecipe(externalRecipe);
+      return { title: recipe.title, imageUrl: recipe.imageUrl || null };
+    } catch (error) {
+      console.error(`Failed to fetch external recipe ${recipeId}:`, error);
+      return null;
+    }
+  }
+
+  const [recipe] = await db
+    .select({
+      title: recipes.title,
+      imageUrl: recipes.imageUrl,
+      userId: recipes.userId,
+      visibility: recipes.visibility,
+    })
+    .from(recipes)
+    .where(eq(recipes.id, recipeId))
+    .limit(1);
+
+  if (!recipe || (recipe.visibility === 'private' && recipe.userId !== userId)) {
+    return null;
+  }
+
+  return { title: recipe.title, imageUrl: recipe.imageUrl };
+}
+
+export async function getNextItemPosition(collectionId: string): Promise<number> {
+  const [result] = await db
+    .select({ maxPosition: max(recipeCollectionItems.position) })
+    .from(recipeCollectionItems)
+    .where(eq(recipeCollectionItems.collectionId, collectionId));
+
+  return result?.maxPosition === null || result?.maxPosition === undefined ? 0 : result.maxPosition + 1;
+}
+
+/**
+ * Rewrites item positions to follow the given recipe order. The order must list every
+ * recipe in the collection exactly once; returns false otherwise.
+ */
+export async function reorderCollectionItems(collectionId: string, recipeIds: string[]): Promise<boolean> {
+  return await db.transaction(async (tx) => {
+    const items = await tx
+      .select({ id: recipeCollectionItems.id, recipeId: recipeCollectionItems.recipeId })
+      .from(recipeCollectionItems)
+      .where(eq(recipeCollectionItems.collectionId, collectionId))
+      .orderBy(asc(recipeCollectionItems.position))
+      .for('update');
+
+    const itemsByRecipe = new Map(items.map(item => [item.recipeId, item.id]));
+    if (recipeIds.length !== items.length || new Set(recipeIds).size !== items.length || !recipeIds.every(id => itemsByRecipe.has(id))) {
+      return false;
+    }
+
+    for (let position = 0; position < recipeIds.length; position++) {
+      await tx
+        .update(recipeCollectionItems)
+        .set({ position })
+        .where(eq(recipeCollectionItems.id, itemsByRecipe.get(recipeIds[position])!));
+    }
+
+    return true;
+  });
+}
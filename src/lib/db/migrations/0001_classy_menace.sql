@@ -0,0 +1,3 @@
+ALTER TABLE "recipe_favorites" DROP CONSTRAINT IF EXISTS "recipe_favorites_recipe_id_recipes_id_fk";
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "measurement_system" text DEFAULT 'us';
\ No newline at end of file
@@ -0,0 +1,28 @@
+CREATE TABLE IF NOT EXISTS "pantry_items" (
+	"id" text PRIMARY KEY NOT NULL,
+	"family_group_id" text NOT NULL,
+	"name" text NOT NULL,
+	"normalized_name" text NOT NULL,
+	"amount" text DEFAULT '' NOT NULL,
+	"unit" text DEFAULT '' NOT NULL,
+	"category" text DEFAULT 'pantry',
+	"notes" text,
+	"updated_by" text,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "pantry_items" ADD CONSTRAINT "pantry_items_family_group_id_family_groups_id_fk" FOREIGN KEY ("family_group_id") REFERENCES "public"."family_groups"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "pantry_items" ADD CONSTRAINT "pantry_items_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_pantry_items_family_group" ON "pantry_items" USING btree ("family_group_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_pantry_items_normalized_name" ON "pantry_items" USING btree ("family_group_id","normalized_name");
\ No newline at end of file
@@ -0,0 +1,9 @@
+ALTER TABLE "grocery_lists" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+UPDATE "grocery_lists" SET "ingredients" = (
+	SELECT COALESCE(jsonb_agg(CASE WHEN item ? 'id' THEN item ELSE item || jsonb_build_object('id', substr(md5(random()::text), 1, 10)) END), '[]'::jsonb)
+	FROM jsonb_array_elements("ingredients") AS item
+);--> statement-breakpoint
+UPDATE "grocery_lists" SET "additional_items" = (
+	SELECT COALESCE(jsonb_agg(CASE WHEN item ? 'id' THEN item ELSE item || jsonb_build_object('id', substr(md5(random()::text), 1, 10)) END), '[]'::jsonb)
+	FROM jsonb_array_elements("additional_items") AS item
+) WHERE "additional_items" IS NOT NULL;
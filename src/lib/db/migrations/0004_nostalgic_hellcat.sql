@@ -0,0 +1,47 @@
+CREATE TABLE IF NOT EXISTS "ingredient_categories" (
+	"id" text PRIMARY KEY NOT NULL,
+	"family_group_id" text NOT NULL,
+	"normalized_name" text NOT NULL,
+	"category" text NOT NULL,
+	"updated_by" text,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "unique_family_ingredient_category" UNIQUE("family_group_id","normalized_name")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "store_profiles" (
+	"id" text PRIMARY KEY NOT NULL,
+	"family_group_id" text NOT NULL,
+	"name" text NOT NULL,
+	"aisles" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"is_default" boolean DEFAULT false,
+	"created_by" text,
+	"created_at" timestamp with time zone DEFAULT now(),
+	"updated_at" timestamp with time zone DEFAULT now()
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ingredient_categories" ADD CONSTRAINT "ingredient_categories_family_group_id_family_groups_id_fk" FOREIGN KEY ("family_group_id") REFERENCES "public"."family_groups"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ingredient_categories" ADD CONSTRAINT "ingredient_categories_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "store_profiles" ADD CONSTRAINT "store_profiles_family_group_id_family_groups_id_fk" FOREIGN KEY ("family_group_id") REFERENCES "public"."family_groups"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "store_profiles" ADD CONSTRAINT "store_profiles_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_store_profiles_family_group" ON "store_profiles" USING btree ("family_group_id");
\ No newline at end of file
@@ -0,0 +1,18 @@
+ALTER TABLE "recipe_collection_items" DROP CONSTRAINT IF EXISTS "recipe_collection_items_recipe_id_recipes_id_fk";
+--> statement-breakpoint
+ALTER TABLE "recipe_collection_items" ADD COLUMN "position" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "recipe_collection_items" ADD COLUMN "title" text;--> statement-breakpoint
+ALTER TABLE "recipe_collection_items" ADD COLUMN "image_url" text;--> statement-breakpoint
+ALTER TABLE "recipe_collection_items" ADD COLUMN "added_by" text;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "recipe_collection_items" ADD CONSTRAINT "recipe_collection_items_added_by_users_id_fk" FOREIGN KEY ("added_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+UPDATE "recipe_collection_items" SET "position" = ordered."position"
+FROM (
+  SELECT "id", ROW_NUMBER() OVER (PARTITION BY "collection_id" ORDER BY "added_at") - 1 AS "position"
+  FROM "recipe_collection_items"
+) AS ordered
+WHERE "recipe_collection_items"."id" = ordered."id";
@@ -0,0 +1,11 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+ALTER TABLE "recipes" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(cuisine, '')), 'B') ||
+    setweight(jsonb_to_tsvector('english', coalesce(tags, '[]'::jsonb) || coalesce(dish_types, '[]'::jsonb), '["string"]'), 'B') ||
+    setweight(jsonb_to_tsvector('english', jsonb_path_query_array(ingredients, '$[*].name'), '["string"]'), 'C') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'D') ||
+    setweight(jsonb_to_tsvector('english', jsonb_path_query_array(coalesce(instructions, '[]'::jsonb), '$[*].instruction'), '["string"]'), 'D')
+  ) STORED;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_recipes_search_vector" ON "recipes" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_recipes_title_trgm" ON "recipes" USING gin ("title" gin_trgm_ops);
\ No newline at end of file
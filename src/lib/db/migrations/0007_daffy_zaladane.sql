@@ -0,0 +1,9 @@
+CREATE TABLE IF NOT EXISTS "api_quota_usage" (
+	"id" text PRIMARY KEY NOT NULL,
+	"provider" text NOT NULL,
+	"day" date NOT NULL,
+	"points_used" double precision DEFAULT 0 NOT NULL,
+	"request_count" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now(),
+	CONSTRAINT "unique_api_quota_provider_day" UNIQUE("provider","day")
+);
@@ -0,0 +1,3 @@
+-- Spoonacular recipes used to be referenced by their bare numeric id
+UPDATE "recipe_favorites" SET "recipe_id" = 'spoonacular:' || "recipe_id" WHERE "recipe_id" ~ '^[0-9]+$';--> statement-breakpoint
+UPDATE "recipe_collection_items" SET "recipe_id" = 'spoonacular:' || "recipe_id" WHERE "recipe_id" ~ '^[0-9]+$';
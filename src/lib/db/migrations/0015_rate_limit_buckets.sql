@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS "rate_limit_buckets" (
+	"id" text PRIMARY KEY NOT NULL,
+	"key" text NOT NULL,
+	"window_start" timestamp with time zone NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now(),
+	"expires_at" timestamp with time zone NOT NULL,
+	CONSTRAINT "unique_rate_limit_key_window" UNIQUE("key","window_start")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_rate_limit_buckets_expires" ON "rate_limit_buckets" USING btree ("expires_at");
\ No newline at end of file
@@ -0,0 +1,18 @@
+-- Planned Spoonacular meals still reference their recipes by bare numeric id
+UPDATE "meal_plans" SET "meals" = (
+  SELECT jsonb_object_agg(
+    "day"."key",
+    CASE WHEN jsonb_typeof("day"."value") = 'object' THEN COALESCE((
+      SELECT jsonb_object_agg(
+        "meal"."key",
+        CASE WHEN "meal"."value"->>'recipeId' ~ '^[0-9]+$'
+          THEN jsonb_set("meal"."value", '{recipeId}', to_jsonb('spoonacular:' || ("meal"."value"->>'recipeId')))
+          ELSE "meal"."value"
+        END
+      )
+      FROM jsonb_each("day"."value") AS "meal"
+    ), '{}'::jsonb) ELSE "day"."value" END
+  )
+  FROM jsonb_each("meals") AS "day"
+)
+WHERE jsonb_typeof("meals") = 'object' AND "meals"::text ~ '"recipeId": "[0-9]+"';
@@ -1,4 +1,5 @@
-import { pgTable, text, integer, decimal, boolean, timestamp, jsonb, index, unique } from 'drizzle-orm/pg-core';
+import { pgTable, text, integer, decimal, boolean, timestamp, jsonb, index, unique, customType, date, doublePrecision } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
 import { nanoid } from 'nanoid';
 
 // ============================================================================
@@ -9,6 +10,12 @@ function createId() {
   return nanoid();
 }
 
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
+
 // ============================================================================
 // Core User Management
 // ============================================================================
@@ -20,11 +27,15 @@ export const users = pgTable('users', {
   firstName: text('first_name'),
   lastName: text('last_name'),
   avatarUrl: text('avatar_url'),
-  passwordHash: text('password_hash').notNull(),
+  passwordHash: text('password_hash'), // Null for accounts that only sign in through an identity provider
   emailVerified: boolean('email_verified').default(false),
   twoFactorEnabled: boolean('two_factor_enabled').default(false),
+  twoFactorSecret: text('two_factor_secret'), // Encrypted; set at enrollment, before it's confirmed
+  twoFactorLastStep: integer('two_factor_last_step'), // Time step of the last accepted code, to stop replays
   subscriptionTier: text('subscription_tier', { enum: ['FREE', 'PREMIUM', 'FAMILY'] }).default('FREE'),
   role: text('role', { enum: ['USER', 'ADMIN'] }).default('USER'),
+  measurementSystem: text('measurement_system', { enum: ['us', 'metric'] }).default('us'),
+  passwordChangedAt: timestamp('password_changed_at', { withTimezone: true }), // Tokens issued before this are rejected
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
 }, (table) => ({
@@ -32,6 +43,90 @@ export const users = pgTable('users', {
   usernameIdx: index('idx_users_username').on(table.username),
 }));
 
+// One row per signed-in device. The refresh token rotates on every use; presenting an
+// already-rotated one means it was copied, and revokes the session.
+export const sessions = pgTable('sessions', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  refreshTokenHash: text('refresh_token_hash').notNull().unique(),
+  previousRefreshTokenHash: text('previous_refresh_token_hash'),
+  rotatedAt: timestamp('rotated_at', { withTimezone: true }),
+  userAgent: text('user_agent'),
+  ipAddress: text('ip_address'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  lastSeenAt: timestamp('last_seen_at', { withTimezone: true }).defaultNow(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  revokedReason: text('revoked_reason', { enum: ['logout', 'revoked', 'refresh_token_reuse', 'password_reset'] }),
+}, (table) => ({
+  userIdx: index('idx_sessions_user').on(table.userId),
+}));
+
+// Accounts at OpenID Connect providers that sign in as a user
+export const userIdentities = pgTable('user_identities', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  provider: text('provider').notNull(), // Provider id from configuration
+  subject: text('subject').notNull(), // The provider's stable "sub" claim
+  email: text('email'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  lastLoginAt: timestamp('last_login_at', { withTimezone: true }),
+}, (table) => ({
+  userIdx: index('idx_user_identities_user').on(table.userId),
+  uniqueProviderSubject: unique('unique_user_identity_provider_subject').on(table.provider, table.subject),
+}));
+
+// Tokens scripts use with the Bearer API, limited to the scopes they were created with
+export const personalAccessTokens = pgTable('personal_access_tokens', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  tokenHash: text('token_hash').notNull().unique(),
+  tokenPrefix: text('token_prefix').notNull(), // Start of the token, to tell them apart in lists
+  scopes: jsonb('scopes').$type<string[]>().notNull().default([]),
+  expiresAt: timestamp('expires_at', { withTimezone: true }), // Null never expires
+  lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  userIdx: index('idx_personal_access_tokens_user').on(table.userId),
+}));
+
+// Only a SHA-256 of each token is stored; the token itself exists only in the emailed link
+export const passwordResetTokens = pgTable('password_reset_tokens', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: text('token_hash').notNull().unique(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  usedAt: timestamp('used_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  userIdx: index('idx_password_reset_tokens_user').on(table.userId),
+}));
+
+// Bound to the address it was sent to, so changing email doesn't verify the new one
+export const emailVerificationTokens = pgTable('email_verification_tokens', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  email: text('email').notNull(),
+  tokenHash: text('token_hash').notNull().unique(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  usedAt: timestamp('used_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  userIdx: index('idx_email_verification_tokens_user').on(table.userId),
+}));
+
+// Only SHA-256 hashes are stored; each code signs in once when the authenticator is lost
+export const twoFactorRecoveryCodes = pgTable('two_factor_recovery_codes', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  codeHash: text('code_hash').notNull(),
+  usedAt: timestamp('used_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  userIdx: index('idx_two_factor_recovery_codes_user').on(table.userId),
+}));
+
 // ============================================================================
 // Family Groups
 // ============================================================================
@@ -181,6 +276,16 @@ export const recipes = pgTable('recipes', {
     [key: string]: number | undefined;
   }>(),
   
+  // Full-text search, weighted title > tags and cuisine > ingredients > description and instructions
+  searchVector: tsvector('search_vector').generatedAlwaysAs(sql`
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(cuisine, '')), 'B') ||
+    setweight(jsonb_to_tsvector('english', coalesce(tags, '[]'::jsonb) || coalesce(dish_types, '[]'::jsonb), '["string"]'), 'B') ||
+    setweight(jsonb_to_tsvector('english', jsonb_path_query_array(ingredients, '$[*].name'), '["string"]'), 'C') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'D') ||
+    setweight(jsonb_to_tsvector('english', jsonb_path_query_array(coalesce(instructions, '[]'::jsonb), '$[*].instruction'), '["string"]'), 'D')
+  `),
+
   // Visibility and status
   visibility: text('visibility', { enum: ['public', 'family', 'private'] }).default('private'),
   status: text('status', { enum: ['draft', 'published', 'archived'] }).default('draft'),
@@ -198,6 +303,8 @@ export const recipes = pgTable('recipes', {
   cookTimeIdx: index('idx_recipes_cook_time').on(table.cookTimeMinutes),
   healthScoreIdx: index('idx_recipes_health_score').on(table.healthScore),
   dietaryIdx: index('idx_recipes_dietary').on(table.isVegetarian, table.isVegan, table.isGlutenFree),
+  searchVectorIdx: index('idx_recipes_search_vector').using('gin', table.searchVector),
+  titleTrigramIdx: index('idx_recipes_title_trgm').using('gin', sql`${table.title} gin_trgm_ops`),
 }));
 
 // ============================================================================
@@ -236,7 +343,11 @@ export const recipeCollections = pgTable('recipe_collections', {
 export const recipeCollectionItems = pgTable('recipe_collection_items', {
   id: text('id').primaryKey().$defaultFn(() => createId()),
   collectionId: text('collection_id').notNull().references(() => recipeCollections.id, { onDelete: 'cascade' }),
-  recipeId: text('recipe_id').notNull().references(() => recipes.id, { onDelete: 'cascade' }),
+  recipeId: text('recipe_id').notNull(), // No foreign key so Spoonacular recipes can be collected too
+  position: integer('position').notNull().default(0),
+  title: text('title'), // Snapshot for Spoonacular recipes, which aren't stored locally
+  imageUrl: text('image_url'),
+  addedBy: text('added_by').references(() => users.id, { onDelete: 'set null' }),
   addedAt: timestamp('added_at', { withTimezone: true }).defaultNow(),
 }, (table) => ({
   collectionIdx: index('idx_recipe_collection_items_collection').on(table.collectionId),
@@ -308,6 +419,7 @@ export const groceryLists = pgTable('grocery_lists', {
   name: text('name').notNull(),
   createdBy: text('created_by').notNull().references(() => users.id, { onDelete: 'cascade' }),
   ingredients: jsonb('ingredients').$type<{
+    id?: string;
     name: string;
     amount: string;
     unit: string;
@@ -315,14 +427,22 @@ export const groceryLists = pgTable('grocery_lists', {
     checked: boolean;
     recipeSources?: string[];
     notes?: string;
+    breakdown?: {
+      recipeId: string;
+      recipeName: string;
+      amount: string;
+      unit: string;
+    }[];
   }[]>().notNull().default([]),
   additionalItems: jsonb('additional_items').$type<{
+    id?: string;
     name: string;
     category: string;
     checked: boolean;
     notes?: string;
   }[]>().default([]),
   status: text('status', { enum: ['active', 'completed', 'archived'] }).default('active'),
+  version: integer('version').notNull().default(1), // Bumped on every change so live clients can detect missed events
   completedAt: timestamp('completed_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
@@ -333,6 +453,60 @@ export const groceryLists = pgTable('grocery_lists', {
   statusIdx: index('idx_grocery_lists_status').on(table.status),
 }));
 
+// ============================================================================
+// Pantry
+// ============================================================================
+
+export const pantryItems = pgTable('pantry_items', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  familyGroupId: text('family_group_id').notNull().references(() => familyGroups.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  normalizedName: text('normalized_name').notNull(), // ingredientKey(name), used for matching
+  amount: text('amount').notNull().default(''), // Empty means "always stocked" (salt, oil)
+  unit: text('unit').notNull().default(''),
+  category: text('category').default('pantry'),
+  notes: text('notes'),
+  updatedBy: text('updated_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  familyGroupIdx: index('idx_pantry_items_family_group').on(table.familyGroupId),
+  normalizedNameIdx: index('idx_pantry_items_normalized_name').on(table.familyGroupId, table.normalizedName),
+}));
+
+// ============================================================================
+// Store Layouts
+// ============================================================================
+
+export const storeProfiles = pgTable('store_profiles', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  familyGroupId: text('family_group_id').notNull().references(() => familyGroups.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  aisles: jsonb('aisles').$type<{
+    name: string;
+    categories: string[]; // Grocery categories shelved in this aisle, in walking order
+  }[]>().notNull().default([]),
+  isDefault: boolean('is_default').default(false),
+  createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  familyGroupIdx: index('idx_store_profiles_family_group').on(table.familyGroupId),
+}));
+
+// Categories a family assigned by hand, preferred over the keyword matcher on later lists
+export const ingredientCategories = pgTable('ingredient_categories', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  familyGroupId: text('family_group_id').notNull().references(() => familyGroups.id, { onDelete: 'cascade' }),
+  normalizedName: text('normalized_name').notNull(), // ingredientKey(name)
+  category: text('category').notNull(),
+  updatedBy: text('updated_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow(),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  uniqueFamilyIngredient: unique('unique_family_ingredient_category').on(table.familyGroupId, table.normalizedName),
+}));
+
 // ============================================================================
 // Search and Caching
 // ============================================================================
@@ -350,6 +524,32 @@ export const recipeSearchCache = pgTable('recipe_search_cache', {
   expiresAtIdx: index('idx_recipe_search_cache_expires').on(table.expiresAt),
 }));
 
+// Points spent per external API per billing day, shared by every server instance
+export const apiQuotaUsage = pgTable('api_quota_usage', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  provider: text('provider').notNull(),
+  day: date('day', { mode: 'string' }).notNull(), // UTC, matching the provider's daily reset
+  pointsUsed: doublePrecision('points_used').notNull().default(0),
+  requestCount: integer('request_count').notNull().default(0),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(),
+}, (table) => ({
+  uniqueProviderDay: unique('unique_api_quota_provider_day').on(table.provider, table.day),
+}));
+
+// Hits per rate limit key in fixed windows; limits weigh the current and previous window
+// to approximate a sliding one
+export const rateLimitBuckets = pgTable('rate_limit_buckets', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  key: text('key').notNull(), // Rule name and identifier, e.g. "login-ip:203.0.113.7"
+  windowStart: timestamp('window_start', { withTimezone: true }).notNull(),
+  count: integer('count').notNull().default(0),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow(), // Time of the latest hit
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(), // Once it can't affect any window
+}, (table) => ({
+  uniqueKeyWindow: unique('unique_rate_limit_key_window').on(table.key, table.windowStart),
+  expiresAtIdx: index('idx_rate_limit_buckets_expires').on(table.expiresAt),
+}));
+
 // ============================================================================
 // Export Types
 // ============================================================================
@@ -357,6 +557,24 @@ export const recipeSearchCache = pgTable('recipe_search_cache', {
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 
+export type Session = typeof sessions.$inferSelect;
+export type NewSession = typeof sessions.$inferInsert;
+
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type NewUserIdentity = typeof userIdentities.$inferInsert;
+
+export type PersonalAccessToken = typeof personalAccessTokens.$inferSelect;
+export type NewPersonalAccessToken = typeof personalAccessTokens.$inferInsert;
+
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type NewPasswordResetToken = typeof passwordResetTokens.$inferInsert;
+
+export type EmailVerificationToken = typeof emailVerificationTokens.$inferSelect;
+export type NewEmailVerificationToken = typeof emailVerificationTokens.$inferInsert;
+
+export type TwoFactorRecoveryCode = typeof twoFactorRecoveryCodes.$inferSelect;
+export type NewTwoFactorRecoveryCode = typeof twoFactorRecoveryCodes.$inferInsert;
+
 export type FamilyGroup = typeof familyGroups.$inferSelect;
 export type NewFamilyGroup = typeof familyGroups.$inferInsert;
 
@@ -372,6 +590,9 @@ export type NewRecipeFavorite = typeof recipeFavorites.$inferInsert;
 export type RecipeCollection = typeof recipeCollections.$inferSelect;
 export type NewRecipeCollection = typeof recipeCollections.$inferInsert;
 
+export type RecipeCollectionItem = typeof recipeCollectionItems.$inferSelect;
+export type NewRecipeCollectionItem = typeof recipeCollectionItems.$inferInsert;
+
 export type RecipeReview = typeof recipeReviews.$inferSelect;
 export type NewRecipeReview = typeof recipeReviews.$inferInsert;
 
@@ -379,4 +600,10 @@ export type MealPlan = typeof mealPlans.$inferSelect;
 export type NewMealPlan = typeof mealPlans.$inferInsert;
 
 export type GroceryList = typeof groceryLists.$inferSelect;
-export type NewGroceryList = typeof groceryLists.$inferInsert;
\ No newline at end of file
+export type NewGroceryList = typeof groceryLists.$inferInsert;
+
+export type PantryItem = typeof pantryItems.$inferSelect;
+export type NewPantryItem = typeof pantryItems.$inferInsert;
+
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
+export type NewRateLimitBucket = typeof rateLimitBuckets.$inferInsert;
@@ -0,0 +1,128 @@
+import { StoredIngredient } from '../../ingredients';
+import { GroceryItem, RecipeContribution, aggregateIngredients, convertGroceryItems } from '..';
+
+function contribution(recipeId: string, ingredients: Array<Partial<StoredIngredient>>, factor = 1): RecipeContribution {
+  return {
+    recipeId,
+    recipeName: recipeId[0].toUpperCase() + recipeId.slice(1),
+    ingredients: ingredients.map(ingredient => ({ name: '', amount: '', unit: '', ...ingredient })),
+    factor,
+  };
+}
+
+const lines = (items: GroceryItem[]) => items.map(item => `${item.amount} ${item.unit} ${item.name}`.replace(/\s+/g, ' ').trim());
+
+describe('aggregateIngredients', () => {
+  it('sums volumes across units and reports each recipe\'s share', () => {
+    const [flour] = aggregateIngredients([
+      contribution('bread', [{ name: 'flour', amount: '1', unit: 'cup' }]),
+      contribution('pancakes', [{ name: 'flour', amount: '4', unit: 'tbsp' }]),
+    ]);
+
+    expect(flour).toMatchObject({ name: 'flour', amount: '1 1/4', unit: 'cup', checked: false, recipeSources: ['Bread', 'Pancakes'] });
+    expect(flour.breakdown).toEqual([
+      { recipeId: 'bread', recipeName: 'Bread', amount: '1', unit: 'cup' },
+      { recipeId: 'pancakes', recipeName: 'Pancakes', amount: '1/4', unit: 'cup' },
+    ]);
+  });
+
+  it('sums masses across units', () => {
+    const items = aggregateIngredients([
+      contribution('cake', [{ name: 'sugar', amount: '500', unit: 'g' }]),
+      contribution('jam', [{ name: 'sugar', amount: '1', unit: 'kg' }]),
+    ]);
+
+    expect(lines(items)).toEqual(['1 1/2 kg sugar']);
+  });
+
+  it('sums counts of the same ingredient, singular or plural', () => {
+    const items = aggregateIngredients([
+      contribution('soup', [{ name: 'onions', amount: '2', unit: '' }]),
+      contribution('salsa', [{ name: 'onion', amount: '1', unit: '' }]),
+    ]);
+
+    expect(lines(items)).toEqual(['3 onions']);
+  });
+
+  it('keeps incompatible units on separate lines', () => {
+    const items = aggregateIngredients([
+      contribution('bread', [{ name: 'flour', amount: '1', unit: 'cup' }]),
+      contribution('pasta', [{ name: 'flour', amount: '200', unit: 'g' }]),
+    ]);
+
+    expect(lines(items)).toEqual(['1 cup flour', '200 g flour']);
+  });
+
+  it('scales each recipe by its factor and adds ranges end to end', () => {
+    const items = aggregateIngredients([
+      contribution('pancakes', [{ name: 'milk', amount: '2', unit: 'cup' }], 1.5),
+      contribution('curry', [{ name: 'garlic', amount: '1-2', unit: 'clove' }]),
+      contribution('stir-fry', [{ name: 'garlic', amount: '2', unit: 'clove' }]),
+    ]);
+
+    expect(lines(items)).toEqual(['3 cup milk', '3-4 clove garlic']);
+  });
+
+  it('counts an ingredient listed twice in one recipe once in its breakdown', () => {
+    const [butter] = aggregateIngredients([
+      contribution('cake', [
+        { name: 'butter', amount: '1/2', unit: 'cup', notes: 'softened' },
+        { name: 'butter', amount: '2', unit: 'tbsp', notes: 'melted' },
+      ]),
+    ]);
+
+    expect(butter).toMatchObject({ amount: '5/8', unit: 'cup', notes: 'softened; melted' });
+    expect(butter.breakdown).toEqual([{ recipeId: 'cake', recipeName: 'Cake', amount: '5/8', unit: 'cup' }]);
+  });
+
+  it('folds unmeasured amounts into a measured line for the ingredient', () => {
+    const items = aggregateIngredients([
+      contribution('bread', [{ name: 'salt', amount: '1', unit: 'tsp' }]),
+      contribution('soup', [{ name: 'salt', amount: 'to taste', unit: '' }, { name: 'pepper', amount: '', unit: '' }]),
+    ]);
+
+    expect(lines(items)).toEqual(['1 tsp salt', 'pepper']);
+    expect(items[0].breakdown).toEqual([
+      { recipeId: 'bread', recipeName: 'Bread', amount: '1', unit: 'tsp' },
+      { recipeId: 'soup', recipeName: 'Soup', amount: '', unit: '' },
+    ]);
+  });
+
+  it('skips ingredients without a name', () => {
+    expect(aggregateIngredients([contribution('cake', [{ name: '', amount: '1', unit: 'cup' }])])).toEqual([]);
+  });
+});
+
+
+describe('convertGroceryItems', () => {
+  it("converts each line and every recipe's share of it", () => {
+    const flour: GroceryItem = {
+      id: 'flour',
+      name: 'flour',
+      amount: '3',
+      unit: 'cup',
+      category: 'baking',
+      checked: true,
+      breakdown: [
+        { recipeId: 'bread', recipeName: 'Bread', amount: '2', unit: 'cup' },
+        { recipeId: 'pancakes', recipeName: 'Pancakes', amount: '1', unit: 'cup' },
+      ],
+    };
+
+    expect(convertGroceryItems([flour], 'metric')).toEqual([{
+      ...flour,
+      amount: '375',
+      unit: 'g',
+      breakdown: [
+        { recipeId: 'bread', recipeName: 'Bread', amount: '250', unit: 'g' },
+        { recipeId: 'pancakes', recipeName: 'Pancakes', amount: '125', unit: 'g' },
+      ],
+    }]);
+  });
+
+  it('leaves lines without a breakdown or an amount as they are', () => {
+    const salt: GroceryItem = { id: 'salt', name: 'salt', amount: '', unit: '', category: 'spices', checked: false };
+
+    expect(convertGroceryItems([salt], 'metric')).toEqual([salt]);
+  });
+});
@@ -0,0 +1,392 @@
+/**
+ * Grocery Lists
+ * Merges recipe ingredients into shopping lines, summing compatible quantities,
+ * and applies per-item operations so concurrent shoppers don't overwrite each other
+ */
+
+import { nanoid } from 'nanoid';
+import { StoredIngredient, ingredientKey, normalizeIngredient } from '../ingredients';
+import { Measure, UnitSystem, convertIngredient, formatMeasure, toMeasure } from '../units';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface GroceryItemSource {
+  recipeId: string;
+  recipeName: string;
+  amount: string;
+  unit: string;
+}
+
+export interface GroceryItem {
+  id?: string;
+  name: string;
+  amount: string;
+  unit: string;
+  category: string;
+  checked: boolean;
+  recipeSources?: string[];
+  notes?: string;
+  breakdown?: GroceryItemSource[];
+}
+
+export interface AdditionalGroceryItem {
+  id?: string;
+  name: string;
+  category: string;
+  checked: boolean;
+  notes?: string;
+}
+
+export interface GroceryListItems {
+  ingredients: GroceryItem[];
+  additionalItems: AdditionalGroceryItem[];
+}
+
+export type GroceryItemChanges = Partial<Pick<GroceryItem, 'name' | 'amount' | 'unit' | 'category' | 'notes'>>;
+
+export type GroceryOperation =
+  | { op: 'check'; itemId: string }
+  | { op: 'uncheck'; itemId: string }
+  | { op: 'edit'; itemId: string; changes: GroceryItemChanges }
+  | { op: 'add'; list: keyof GroceryListItems; item: GroceryItem | AdditionalGroceryItem }
+  | { op: 'remove'; itemId: string };
+
+export interface RecipeContribution {
+  recipeId: string;
+  recipeName: string;
+  ingredients: StoredIngredient[];
+  factor: number; // Planned servings relative to the recipe's own servings
+}
+
+export interface StoreAisle {
+  name: string;
+  categories: string[]; // Grocery categories shelved in this aisle, in walking order
+}
+
+export interface AisleGroup<T> {
+  name: string;
+  items: T[];
+}
+
+// ingredientKey(name) -> category the family picked by hand
+export type LearnedCategories = Map<string, string>;
+
+interface QuantityTotal {
+  min: number;
+  max: number;
+}
+
+interface LineAccumulator extends Pick<Measure, 'dimension' | 'system' | 'unit'> {
+  name: string;
+  category: string;
+  total: QuantityTotal | null;
+  notes: string[];
+  sources: Map<string, { recipeName: string; total: QuantityTotal | null }>;
+}
+
+// ============================================================================
+// Categorization
+// ============================================================================
+
+/**
+ * Picks a grocery category for an item, preferring what the family chose for it before
+ * over the keyword matcher.
+ */
+export function categorizeIngredient(name: string, learned?: LearnedCategories): string {
+  const learnedCategory = learned?.get(ingredientKey(name));
+  if (learnedCategory) {
+    return learnedCategory;
+  }
+
+  const lowerName = name.toLowerCase();
+
+  if (lowerName.includes('milk') || lowerName.includes('cheese') || lowerName.includes('yogurt') || lowerName.includes('butter')) {
+    return 'dairy';
+  }
+  if (lowerName.includes('chicken') || lowerName.includes('beef') || lowerName.includes('pork') || lowerName.includes('fish') || lowerName.includes('meat')) {
+    return 'meat';
+  }
+  if (lowerName.includes('apple') || lowerName.includes('banana') || lowerName.includes('tomato') || lowerName.includes('onion') || lowerName.includes('lettuce')) {
+    return 'produce';
+  }
+  if (lowerName.includes('bread') || lowerName.includes('rolls') || lowerName.includes('bagel')) {
+    return 'bakery';
+  }
+  if (lowerName.includes('frozen')) {
+    return 'frozen';
+  }
+  if (lowerName.includes('juice') || lowerName.includes('soda') || lowerName.includes('water') || lowerName.includes('beer') || lowerName.includes('wine')) {
+    return 'beverages';
+  }
+
+  return 'pantry'; // Default category
+}
+
+export function applyLearnedCategories<T extends { name: string; category: string }>(
+  items: T[],
+  learned: LearnedCategories
+): T[] {
+  return items.map(item => {
+    const category = learned.get(ingredientKey(item.name));
+    return category && category !== item.category ? { ...item, category } : item;
+  });
+}
+
+// ============================================================================
+// Store Layouts
+// ============================================================================
+
+/**
+ * Orders items the way a store is walked: aisle by aisle, and within an aisle by the
+ * order of its categories. Items in categories the store doesn't place come last.
+ */
+export function groupItemsByAisle<T extends { category: string }>(items: T[], aisles: StoreAisle[]): AisleGroup<T>[] {
+  const groups: AisleGroup<T>[] = aisles.map(aisle => ({ name: aisle.name, items: [] }));
+  const unplaced: T[] = [];
+
+  const positions = new Map<string, { aisle: number; rank: number }>();
+  aisles.forEach((aisle, aisleIndex) => {
+    aisle.categories.forEach((category, rank) => {
+      if (!positions.has(category)) {
+        positions.set(category, { aisle: aisleIndex, rank });
+      }
+    });
+  });
+
+  items.forEach(item => {
+    const position = positions.get(item.category);
+    if (position) {
+      groups[position.aisle].items.push(item);
+    } else {
+      unplaced.push(item);
+    }
+  });
+
+  groups.forEach(group => {
+    group.items.sort((a, b) => positions.get(a.category)!.rank - positions.get(b.category)!.rank);
+  });
+
+  return [
+    ...groups,
+    { name: 'Everything else', items: unplaced },
+  ].filter(group => group.items.length > 0);
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+/**
+ * Builds grocery lines from scaled recipe ingredients. Quantities of the same ingredient are
+ * summed when their units are compatible (cups + tbsp, g + kg, 2 onions + 1 onion); incompatible
+ * units stay as separate lines. Amounts that can't be parsed ("to taste") never add a line of
+ * their own when a measured line for the ingredient exists.
+ */
+export function aggregateIngredients(contributions: RecipeContribution[]): GroceryItem[] {
+  const lines = new Map<string, LineAccumulator>();
+  const unmeasured: Array<{ contribution: RecipeContribution; ingredient: StoredIngredient }> = [];
+
+  contributions.forEach(contribution => {
+    contribution.ingredients.forEach(rawIngredient => {
+      if (!rawIngredient.name) return;
+      const ingredient = normalizeIngredient(rawIngredient);
+      const key = ingredientKey(ingredient.name);
+      if (!key) return;
+
+      const measure = toMeasure(ingredient.amount, ingredient.unit);
+      if (!measure) {
+        unmeasured.push({ contribution, ingredient });
+        return;
+      }
+
+      const total = {
+        min: measure.value * contribution.factor,
+        max: measure.valueMax * contribution.factor,
+      };
+
+      // Volumes and masses sum across units; anything else only with the exact same unit
+      const line = getOrCreateLine(lines, `${key}|${measure.group}`, ingredient, measure);
+
+      line.total = addTotals(line.total, total);
+      addSource(line, contribution, total);
+    });
+  });
+
+  unmeasured.forEach(({ contribution, ingredient }) => {
+    const key = ingredientKey(ingredient.name);
+    const existing = Array.from(lines.entries()).find(([lineKey]) => lineKey.startsWith(`${key}|`));
+    const line = existing
+      ? existing[1]
+      : getOrCreateLine(lines, `${key}|`, ingredient, { dimension: null, system: 'us', unit: '' });
+
+    addSource(line, contribution, null);
+  });
+
+  return Array.from(lines.values()).map(line => {
+    const breakdown = Array.from(line.sources.entries()).map(([recipeId, source]) => ({
+      recipeId,
+      recipeName: source.recipeName,
+      ...formatTotal(source.total, line),
+    }));
+
+    return {
+      name: line.name,
+      ...formatTotal(line.total, line),
+      category: line.category,
+      checked: false,
+      recipeSources: Array.from(new Set(breakdown.map(source => source.recipeName))),
+      notes: line.notes.join('; '),
+      breakdown,
+    };
+  });
+}
+
+/**
+ * Converts grocery lines, including each recipe's share, to the viewer's measurement system.
+ */
+export function convertGroceryItems<T extends GroceryItem>(items: T[], system: UnitSystem): T[] {
+  return items.map(item => ({
+    ...convertIngredient(item, system),
+    ...(item.breakdown && {
+      breakdown: item.breakdown.map(source => {
+        const { amount, unit } = convertIngredient({ name: item.name, amount: source.amount, unit: source.unit }, system);
+        return { ...source, amount, unit };
+      }),
+    }),
+  }));
+}
+
+// ============================================================================
+// Item Operations
+// ============================================================================
+
+/**
+ * Gives every item a stable id so operations can target it regardless of position.
+ */
+export function assignItemIds<T extends { id?: string }>(items: T[]): T[] {
+  return items.map(item => item.id ? item : { ...item, id: nanoid(10) });
+}
+
+export function hasMissingItemIds(lists: GroceryListItems): boolean {
+  return [...lists.ingredients, ...lists.additionalItems].some(item => !item.id);
+}
+
+/**
+ * Applies item operations to the latest list state. Operations address items by id and set
+ * values rather than toggling them, so two shoppers checking different items (or the same one)
+ * both land. Operations on items that no longer exist are skipped and left out of `applied`.
+ * Shared by the API, which applies them under a row lock, and clients replaying pushed events.
+ */
+export function applyGroceryOperations(
+  lists: GroceryListItems,
+  operations: GroceryOperation[]
+): { lists: GroceryListItems; applied: GroceryOperation[] } {
+  let { ingredients, additionalItems } = lists;
+  const applied: GroceryOperation[] = [];
+
+  const hasItem = (itemId: string) =>
+    ingredients.some(item => item.id === itemId) || additionalItems.some(item => item.id === itemId);
+
+  const updateItem = (itemId: string, update: <T extends GroceryItem | AdditionalGroceryItem>(item: T) => T) => {
+    ingredients = ingredients.map(item => item.id === itemId ? update(item) : item);
+    additionalItems = additionalItems.map(item => item.id === itemId ? update(item) : item);
+  };
+
+  operations.forEach(operation => {
+    switch (operation.op) {
+      case 'check':
+      case 'uncheck': {
+        if (!hasItem(operation.itemId)) return;
+        const checked = operation.op === 'check';
+        updateItem(operation.itemId, item => ({ ...item, checked }));
+        break;
+      }
+      case 'edit': {
+        if (!hasItem(operation.itemId)) return;
+        const { name, category, notes } = operation.changes;
+        ingredients = ingredients.map(item => item.id === operation.itemId ? { ...item, ...operation.changes } : item);
+        additionalItems = additionalItems.map(item => item.id === operation.itemId
+          ? {
+              ...item,
+              ...(name !== undefined && { name }),
+              ...(category !== undefined && { category }),
+              ...(notes !== undefined && { notes }),
+            }
+          : item);
+        break;
+      }
+      case 'add': {
+        if (!operation.item.id || hasItem(operation.item.id)) return;
+        if (operation.list === 'additionalItems') {
+          const { id, name, category, checked, notes } = operation.item;
+          additionalItems = [...additionalItems, { id, name, category, checked, ...(notes && { notes }) }];
+        } else {
+          ingredients = [...ingredients, operation.item as GroceryItem];
+        }
+        break;
+      }
+      case 'remove': {
+        if (!hasItem(operation.itemId)) return;
+        ingredients = ingredients.filter(item => item.id !== operation.itemId);
+        additionalItems = additionalItems.filter(item => item.id !== operation.itemId);
+        break;
+      }
+    }
+    applied.push(operation);
+  });
+
+  return { lists: { ingredients, additionalItems }, applied };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function getOrCreateLine(
+  lines: Map<string, LineAccumulator>,
+  key: string,
+  ingredient: StoredIngredient,
+  measure: Pick<Measure, 'dimension' | 'system' | 'unit'>
+): LineAccumulator {
+  let line = lines.get(key);
+  if (!line) {
+    line = {
+      name: ingredient.name,
+      category: ingredient.category || categorizeIngredient(ingredient.name),
+      dimension: measure.dimension,
+      system: measure.system,
+      unit: measure.unit,
+      total: null,
+      notes: [],
+      sources: new Map(),
+    };
+    lines.set(key, line);
+  }
+
+  if (ingredient.notes && !line.notes.includes(ingredient.notes)) {
+    line.notes.push(ingredient.notes);
+  }
+
+  return line;
+}
+
+function addSource(line: LineAccumulator, contribution: RecipeContribution, total: QuantityTotal | null) {
+  const source = line.sources.get(contribution.recipeId);
+  if (source) {
+    source.total = addTotals(source.total, total);
+  } else {
+    line.sources.set(contribution.recipeId, { recipeName: contribution.recipeName, total });
+  }
+}
+
+function addTotals(a: QuantityTotal | null, b: QuantityTotal | null): QuantityTotal | null {
+  if (!a) return b;
+  if (!b) return a;
+  return { min: a.min + b.min, max: a.max + b.max };
+}
+
+function formatTotal(total: QuantityTotal | null, line: LineAccumulator): { amount: string; unit: string } {
+  return total ? formatMeasure(total.min, total.max, line) : { amount: '', unit: '' };
+}
@@ -0,0 +1,150 @@
+import {
+  parseNumber,
+  parseQuantity,
+  formatQuantity,
+  formatQuantityRange,
+  canonicalizeUnit,
+  parseIngredientLine,
+  normalizeIngredient,
+  ingredientKey,
+} from '..';
+
+describe('parseNumber', () => {
+  it.each([
+    ['2', 2],
+    ['1.5', 1.5],
+    ['1,5', 1.5],
+    ['1/2', 0.5],
+    ['1 1/2', 1.5],
+    ['1-1/2', 1.5],
+    ['½', 0.5],
+    ['1½', 1.5],
+    ['1 ¾', 1.75],
+    ['a', 1],
+    ['dozen', 12],
+    ['1/0', null],
+    ['lots', null],
+  ])('parses %p as %p', (text, value) => {
+    expect(parseNumber(text)).toBe(value);
+  });
+});
+
+describe('parseQuantity', () => {
+  it.each([
+    ['3', { quantity: 3, quantityMax: null }],
+    ['2-3', { quantity: 2, quantityMax: 3 }],
+    ['2 to 3', { quantity: 2, quantityMax: 3 }],
+    ['1–2', { quantity: 1, quantityMax: 2 }],
+    ['1-1/2', { quantity: 1.5, quantityMax: null }],
+    ['1 1/2-2', { quantity: 1.5, quantityMax: 2 }],
+    ['1-1 1/2', { quantity: 1, quantityMax: 1.5 }],
+    ['1/2-1', { quantity: 0.5, quantityMax: 1 }],
+    ['3-2', { quantity: 2, quantityMax: 3 }],
+    ['2-2', { quantity: 2, quantityMax: null }],
+    ['some', null],
+    ['', null],
+  ])('parses %p', (text, expected) => {
+    expect(parseQuantity(text)).toEqual(expected);
+  });
+});
+
+describe('formatQuantity', () => {
+  it.each([
+    [1.5, '1 1/2'],
+    [0.333, '1/3'],
+    [2, '2'],
+    [2.99, '3'],
+    [2.45, '2.45'],
+    [25.5, '25.5'],
+    [0, '0'],
+  ])('formats %p as %p', (value, text) => {
+    expect(formatQuantity(value)).toBe(text);
+  });
+
+  it('formats ranges with both ends', () => {
+    expect(formatQuantityRange(2, 3)).toBe('2-3');
+    expect(formatQuantityRange(1.5, null)).toBe('1 1/2');
+    expect(formatQuantityRange(null, null)).toBe('');
+  });
+});
+
+describe('canonicalizeUnit', () => {
+  it.each([
+    ['Tablespoons', 'tbsp'],
+    ['T', 'tbsp'],
+    ['t', 'tsp'],
+    ['fl. oz.', 'fl oz'],
+    ['lbs.', 'lb'],
+    ['Grams', 'g'],
+    ['handful', 'handful'],
+    ['smidgen', null],
+    ['', null],
+  ])('maps %p to %p', (unit, canonical) => {
+    expect(canonicalizeUnit(unit)).toBe(canonical);
+  });
+});
+
+describe('parseIngredientLine', () => {
+  it.each([
+    ['1 1/2 cups flour, sifted', { quantity: 1.5, quantityMax: null, unit: 'cup', name: 'flour', preparation: 'sifted' }],
+    ['1-1/2 cups oats', { quantity: 1.5, quantityMax: null, unit: 'cup', name: 'oats', preparation: null }],
+    ['2-3 cloves garlic, minced', { quantity: 2, quantityMax: 3, unit: 'clove', name: 'garlic', preparation: 'minced' }],
+    ['½ tsp salt', { quantity: 0.5, quantityMax: null, unit: 'tsp', name: 'salt', preparation: null }],
+    ['2 large eggs', { quantity: 2, quantityMax: null, unit: null, name: 'eggs', preparation: 'large' }],
+    ['2 heaping tbsp sugar', { quantity: 2, quantityMax: null, unit: 'tbsp', name: 'sugar', preparation: 'heaping' }],
+    ['1 (14 oz) can diced tomatoes', { quantity: 1, quantityMax: null, unit: 'can', name: 'tomatoes', preparation: 'diced, 14 oz' }],
+    ['a pinch of nutmeg', { quantity: 1, quantityMax: null, unit: 'pinch', name: 'nutmeg', preparation: null }],
+    ['1 cup finely chopped onion', { quantity: 1, quantityMax: null, unit: 'cup', name: 'onion', preparation: 'finely chopped' }],
+    ['2 T butter (cold)', { quantity: 2, quantityMax: null, unit: 'tbsp', name: 'butter', preparation: 'cold' }],
+    ['salt and pepper to taste', { quantity: null, quantityMax: null, unit: null, name: 'salt and pepper', preparation: 'to taste' }],
+    ['a little olive oil', { quantity: null, quantityMax: null, unit: null, name: 'a little olive oil', preparation: null }],
+    ['- 200 g dark chocolate', { quantity: 200, quantityMax: null, unit: 'g', name: 'dark chocolate', preparation: null }],
+  ])('parses %p', (line, expected) => {
+    expect(parseIngredientLine(line)).toEqual({ ...expected, original: line });
+  });
+
+  it('gives sized and plain ingredients the same key', () => {
+    expect(ingredientKey(parseIngredientLine('2 large eggs').name)).toBe(ingredientKey('egg'));
+  });
+});
+
+describe('normalizeIngredient', () => {
+  it('parses a whole line written into the name', () => {
+    expect(normalizeIngredient({ name: '1-1/2 cups oats', amount: '', unit: '' })).toEqual({
+      name: 'oats',
+      amount: '1 1/2',
+      unit: 'cup',
+      notes: undefined,
+    });
+  });
+
+  it('cleans up an amount and unit in place', () => {
+    expect(normalizeIngredient({ name: ' Flour ', amount: '1.50', unit: 'Cups' })).toEqual({
+      name: 'Flour',
+      amount: '1 1/2',
+      unit: 'cup',
+    });
+  });
+
+  it('keeps amounts it cannot parse', () => {
+    expect(normalizeIngredient({ name: 'Salt', amount: 'some', unit: '' })).toEqual({
+      name: 'Salt',
+      amount: 'some',
+      unit: '',
+    });
+  });
+});
+
+describe('ingredientKey', () => {
+  it.each([
+    ['Onions', 'onion'],
+    ['Tomatoes', 'tomato'],
+    ['Cherries', 'cherry'],
+    ['Peaches', 'peach'],
+    ['Red Bell Peppers (roasted)', 'red bell pepper'],
+    ['Asparagus', 'asparagus'],
+    ['Swiss', 'swiss'],
+  ])('keys %p as %p', (name, key) => {
+    expect(ingredientKey(name)).toBe(key);
+  });
+});
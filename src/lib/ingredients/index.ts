@@ -0,0 +1,439 @@
+/**
+ * Ingredient Line Parser
+ * Turns free-text ingredient lines ("1 1/2 cups flour, sifted") into structured data
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ParsedIngredient {
+  quantity: number | null;
+  quantityMax: number | null; // Upper bound for ranges like "2-3"
+  unit: string | null; // Canonical unit, e.g. "tbsp"
+  name: string;
+  preparation: string | null; // e.g. "sifted", "finely chopped"
+  original: string;
+}
+
+export interface StoredIngredient {
+  name: string;
+  amount: string;
+  unit: string;
+  notes?: string;
+  category?: string;
+}
+
+// ============================================================================
+// Unit Vocabulary
+// ============================================================================
+
+const UNIT_ALIASES: Record<string, string[]> = {
+  tsp: ['tsp', 'tsps', 'teaspoon', 'teaspoons', 'tsp.', 'ts'],
+  tbsp: ['tbsp', 'tbsps', 'tablespoon', 'tablespoons', 'tbsp.', 'tbs', 'tbl', 'tbls', 'tb'],
+  cup: ['cup', 'cups', 'c', 'c.'],
+  'fl oz': ['fl oz', 'fl. oz.', 'fl. oz', 'fluid ounce', 'fluid ounces', 'floz'],
+  pt: ['pt', 'pint', 'pints', 'pt.'],
+  qt: ['qt', 'quart', 'quarts', 'qt.'],
+  gal: ['gal', 'gallon', 'gallons'],
+  ml: ['ml', 'mls', 'milliliter', 'milliliters', 'millilitre', 'millilitres'],
+  cl: ['cl', 'centiliter', 'centiliters', 'centilitre', 'centilitres'],
+  dl: ['dl', 'deciliter', 'deciliters', 'decilitre', 'decilitres'],
+  l: ['l', 'liter', 'liters', 'litre', 'litres', 'lt'],
+  mg: ['mg', 'milligram', 'milligrams'],
+  g: ['g', 'gr', 'gram', 'grams', 'gramme', 'grammes', 'g.'],
+  kg: ['kg', 'kgs', 'kilogram', 'kilograms', 'kilo', 'kilos'],
+  oz: ['oz', 'ounce', 'ounces', 'oz.'],
+  lb: ['lb', 'lbs', 'pound', 'pounds', 'lb.', 'lbs.'],
+  pinch: ['pinch', 'pinches'],
+  dash: ['dash', 'dashes'],
+  drop: ['drop', 'drops'],
+  clove: ['clove', 'cloves'],
+  can: ['can', 'cans', 'tin', 'tins'],
+  jar: ['jar', 'jars'],
+  bottle: ['bottle', 'bottles'],
+  package: ['package', 'packages', 'pkg', 'pkgs', 'packet', 'packets', 'pack', 'packs'],
+  bag: ['bag', 'bags'],
+  box: ['box', 'boxes'],
+  stick: ['stick', 'sticks'],
+  slice: ['slice', 'slices'],
+  piece: ['piece', 'pieces', 'pc', 'pcs'],
+  bunch: ['bunch', 'bunches'],
+  sprig: ['sprig', 'sprigs'],
+  head: ['head', 'heads'],
+  stalk: ['stalk', 'stalks'],
+  handful: ['handful', 'handfuls'],
+  serving: ['serving', 'servings'],
+};
+
+const UNIT_LOOKUP = new Map<string, string>(
+  Object.entries(UNIT_ALIASES).flatMap(([canonical, aliases]) =>
+    aliases.map(alias => [alias, canonical] as [string, string])
+  )
+);
+
+// Longest aliases first so "fl oz" wins over "fl" and "tbsp." over "tbsp"
+const MULTI_WORD_UNITS = Array.from(UNIT_LOOKUP.keys())
+  .filter(alias => alias.includes(' '))
+  .sort((a, b) => b.length - a.length);
+
+const SIZE_WORDS = new Set(['small', 'medium', 'large', 'extra-large', 'heaping', 'heaped', 'level', 'scant', 'generous']);
+
+const PREPARATION_WORDS = new Set([
+  'chopped', 'diced', 'minced', 'sliced', 'grated', 'shredded', 'crushed', 'melted', 'softened',
+  'beaten', 'sifted', 'peeled', 'cubed', 'julienned', 'halved', 'quartered', 'toasted', 'cooked',
+  'drained', 'rinsed', 'trimmed', 'pitted', 'seeded', 'zested', 'juiced', 'mashed', 'packed',
+  'ground', 'whisked', 'thawed', 'divided', 'crumbled', 'roasted',
+]);
+
+const PREPARATION_ADVERBS = new Set(['finely', 'roughly', 'coarsely', 'thinly', 'thickly', 'freshly', 'lightly', 'firmly', 'well']);
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 1 / 4, '¾': 3 / 4, '⅕': 1 / 5, '⅖': 2 / 5,
+  '⅗': 3 / 5, '⅘': 4 / 5, '⅙': 1 / 6, '⅚': 5 / 6, '⅛': 1 / 8, '⅜': 3 / 8, '⅝': 5 / 8, '⅞': 7 / 8,
+};
+
+const WORD_NUMBERS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, dozen: 12, half: 0.5,
+};
+
+const UNICODE_FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join('');
+const NUMBER_PATTERN = `(?:\\d+(?:[.,]\\d+)?(?:\\s*[${UNICODE_FRACTION_CHARS}])?(?:(?:\\s+|-)\\d+\\/\\d+)?(?:\\/\\d+)?|[${UNICODE_FRACTION_CHARS}])`;
+const QUANTITY_PATTERN = new RegExp(`^(${NUMBER_PATTERN})(?:\\s*(?:-|–|—|to|or)\\s*(${NUMBER_PATTERN}))?`, 'i');
+
+// ============================================================================
+// Quantity Parsing and Formatting
+// ============================================================================
+
+/**
+ * Parses a single number: "2", "1.5", "1,5", "1/2", "1 1/2", "1-1/2", "½", "1½".
+ */
+export function parseNumber(text: string): number | null {
+  const value = text.trim();
+  if (!value) return null;
+
+  const lower = value.toLowerCase();
+  if (WORD_NUMBERS[lower] !== undefined) return WORD_NUMBERS[lower];
+
+  // Mixed number with a unicode fraction: "1½" or "1 ½"
+  const unicodeMatch = value.match(new RegExp(`^(\\d+)?\\s*([${UNICODE_FRACTION_CHARS}])$`));
+  if (unicodeMatch) {
+    return Number(unicodeMatch[1] || 0) + UNICODE_FRACTIONS[unicodeMatch[2]];
+  }
+
+  // Mixed number: "1 1/2", or "1-1/2" as US recipes often write it
+  const mixedMatch = value.match(/^(\d+)(?:\s+|-)(\d+)\/(\d+)$/);
+  if (mixedMatch) {
+    const denominator = Number(mixedMatch[3]);
+    return denominator ? Number(mixedMatch[1]) + Number(mixedMatch[2]) / denominator : null;
+  }
+
+  // Simple fraction: "1/2"
+  const fractionMatch = value.match(/^(\d+)\/(\d+)$/);
+  if (fractionMatch) {
+    const denominator = Number(fractionMatch[2]);
+    return denominator ? Number(fractionMatch[1]) / denominator : null;
+  }
+
+  // Decimal with a dot or European comma
+  if (/^\d+(?:[.,]\d+)?$/.test(value)) {
+    return Number(value.replace(',', '.'));
+  }
+
+  return null;
+}
+
+/**
+ * Parses an amount string that may contain a range ("2-3", "2 to 3"). "1-1/2" is the mixed
+ * number 1 1/2, not a range. A range written high to low is put the right way round, and
+ * one with equal ends is a single amount.
+ */
+export function parseQuantity(text: string): { quantity: number; quantityMax: number | null } | null {
+  const value = text.trim();
+  if (!value) return null;
+
+  const wordValue = parseNumber(value);
+  if (wordValue !== null) {
+    return { quantity: wordValue, quantityMax: null };
+  }
+
+  const match = value.match(QUANTITY_PATTERN);
+  if (!match || match[0].length !== value.length) return null;
+
+  const quantity = parseNumber(match[1]);
+  if (quantity === null) return null;
+
+  const quantityMax = match[2] ? parseNumber(match[2]) : null;
+  if (quantityMax === null || quantityMax === quantity) {
+    return { quantity, quantityMax: null };
+  }
+  return quantityMax > quantity
+    ? { quantity, quantityMax }
+    : { quantity: quantityMax, quantityMax: quantity };
+}
+
+const FORMAT_FRACTIONS: Array<[number, string]> = [
+  [1 / 8, '1/8'], [1 / 4, '1/4'], [1 / 3, '1/3'], [3 / 8, '3/8'], [1 / 2, '1/2'],
+  [5 / 8, '5/8'], [2 / 3, '2/3'], [3 / 4, '3/4'], [7 / 8, '7/8'],
+];
+
+/**
+ * Formats a number as a cook-friendly string: 1.5 -> "1 1/2", 0.333 -> "1/3", 2.45 -> "2.45".
+ */
+export function formatQuantity(value: number): string {
+  if (!isFinite(value) || value <= 0) return '0';
+
+  const whole = Math.floor(value);
+  const remainder = value - whole;
+
+  if (remainder < 0.02) return whole.toString();
+  if (remainder > 0.98) return (whole + 1).toString();
+
+  // Only use fractions for small amounts where cooks expect them
+  if (value < 20) {
+    const [fractionValue, fractionText] = FORMAT_FRACTIONS.reduce((best, candidate) =>
+      Math.abs(candidate[0] - remainder) < Math.abs(best[0] - remainder) ? candidate : best
+    );
+    if (Math.abs(fractionValue - remainder) < 0.02) {
+      return whole > 0 ? `${whole} ${fractionText}` : fractionText;
+    }
+  }
+
+  return (Math.round(value * 100) / 100).toString();
+}
+
+export function formatQuantityRange(quantity: number | null, quantityMax: number | null): string {
+  if (quantity === null) return '';
+  if (quantityMax === null) return formatQuantity(quantity);
+  return `${formatQuantity(quantity)}-${formatQuantity(quantityMax)}`;
+}
+
+// ============================================================================
+// Unit Canonicalization
+// ============================================================================
+
+/**
+ * Maps a unit alias to its canonical form ("Tablespoons" -> "tbsp"). Returns null for unknown units.
+ */
+export function canonicalizeUnit(unit: string | null | undefined): string | null {
+  if (!unit) return null;
+  const value = unit.trim();
+  if (!value) return null;
+
+  // Recipe shorthand: capital "T" is a tablespoon, lowercase "t" a teaspoon
+  if (value === 'T' || value === 'T.') return 'tbsp';
+  if (value === 't' || value === 't.') return 'tsp';
+
+  const lower = value.toLowerCase().replace(/\s+/g, ' ');
+  return UNIT_LOOKUP.get(lower) ?? UNIT_LOOKUP.get(lower.replace(/\.$/, '')) ?? null;
+}
+
+function readUnit(text: string): { unit: string; length: number } | null {
+  const lower = text.toLowerCase();
+
+  for (const alias of MULTI_WORD_UNITS) {
+    if (lower.startsWith(alias) && !/[a-z]/i.test(text.charAt(alias.length))) {
+      return { unit: UNIT_LOOKUP.get(alias)!, length: alias.length };
+    }
+  }
+
+  const wordMatch = text.match(/^([a-zA-Z]+\.?)(?=[\s,(]|$)/);
+  if (!wordMatch) return null;
+
+  const unit = canonicalizeUnit(wordMatch[1]);
+  if (!unit) return null;
+
+  // A bare "c" or "t" is only a unit when something follows it
+  if (wordMatch[1].length === 1 && text.substring(wordMatch[1].length).trim() === '') return null;
+
+  return { unit, length: wordMatch[1].length };
+}
+
+// ============================================================================
+// Line Parsing
+// ============================================================================
+
+export function parseIngredientLine(line: string): ParsedIngredient {
+  const original = line;
+  let rest = line
+    .replace(/\s+/g, ' ')
+    .replace(/^[-*•·]\s*/, '')
+    .trim();
+
+  const notes: string[] = [];
+  let quantity: number | null = null;
+  let quantityMax: number | null = null;
+  let unit: string | null = null;
+
+  // Quantity, e.g. "1 1/2", "½", "2-3", "a"
+  const quantityMatch = rest.match(QUANTITY_PATTERN);
+  if (quantityMatch) {
+    const parsed = parseQuantity(quantityMatch[0]);
+    if (parsed) {
+      quantity = parsed.quantity;
+      quantityMax = parsed.quantityMax;
+      rest = rest.substring(quantityMatch[0].length).trim();
+    }
+  } else {
+    const wordMatch = rest.match(/^([a-zA-Z]+)\s+/);
+    const wordValue = wordMatch ? WORD_NUMBERS[wordMatch[1].toLowerCase()] : undefined;
+    // Number words only count when a unit follows ("a pinch", "two cups"), not "a little"
+    if (wordMatch && wordValue !== undefined && readUnit(rest.substring(wordMatch[0].length))) {
+      quantity = wordValue;
+      rest = rest.substring(wordMatch[0].length).trim();
+    }
+  }
+
+  // Package sizes: "1 (14 oz) can tomatoes"
+  const sizeMatch = rest.match(/^\(([^)]*)\)\s*/);
+  if (quantity !== null && sizeMatch) {
+    notes.push(sizeMatch[1].trim());
+    rest = rest.substring(sizeMatch[0].length);
+  }
+
+  // Size adjectives before the unit or the name: "2 heaping tbsp sugar", "2 large eggs"
+  const sizeWordMatch = rest.match(/^([a-zA-Z-]+)\s+/);
+  if (quantity !== null && sizeWordMatch && SIZE_WORDS.has(sizeWordMatch[1].toLowerCase())) {
+    notes.push(sizeWordMatch[1].toLowerCase());
+    rest = rest.substring(sizeWordMatch[0].length);
+  }
+
+  const unitMatch = readUnit(rest);
+  if (unitMatch) {
+    unit = unitMatch.unit;
+    rest = rest.substring(unitMatch.length).trim();
+  }
+
+  rest = rest.replace(/^of\s+/i, '');
+
+  // Trailing preparation after a comma: "flour, sifted"
+  const commaIndex = rest.indexOf(',');
+  if (commaIndex !== -1) {
+    const preparation = rest.substring(commaIndex + 1).trim();
+    if (preparation) notes.push(preparation);
+    rest = rest.substring(0, commaIndex).trim();
+  }
+
+  // Parenthetical remarks: "butter (cold)"
+  rest = rest.replace(/\s*\(([^)]*)\)\s*/g, (_, remark: string) => {
+    if (remark.trim()) notes.push(remark.trim());
+    return ' ';
+  }).trim();
+
+  // Leading preparation words: "finely chopped onion"
+  const leading: string[] = [];
+  let words = rest.split(' ');
+  while (words.length > 1) {
+    const word = words[0].toLowerCase();
+    if (PREPARATION_WORDS.has(word) || (PREPARATION_ADVERBS.has(word) && PREPARATION_WORDS.has(words[1].toLowerCase()))) {
+      leading.push(words.shift()!);
+    } else {
+      break;
+    }
+  }
+  if (leading.length > 0) {
+    notes.unshift(leading.join(' ').toLowerCase());
+    rest = words.join(' ');
+  }
+
+  // "salt and pepper to taste"
+  const tasteMatch = rest.match(/\s+(to taste|as needed|for serving|for garnish|optional)$/i);
+  if (tasteMatch) {
+    notes.push(tasteMatch[1].toLowerCase());
+    rest = rest.substring(0, tasteMatch.index).trim();
+  }
+
+  return {
+    quantity,
+    quantityMax,
+    unit,
+    name: rest.trim() || original.trim(),
+    preparation: notes.length > 0 ? notes.join(', ') : null,
+    original,
+  };
+}
+
+// ============================================================================
+// Stored Ingredient Helpers
+// ============================================================================
+
+export function toStoredIngredient(parsed: ParsedIngredient, category?: string): StoredIngredient {
+  return {
+    name: parsed.name,
+    amount: formatQuantityRange(parsed.quantity, parsed.quantityMax),
+    unit: parsed.unit || '',
+    ...(parsed.preparation && { notes: parsed.preparation }),
+    ...(category && { category }),
+  };
+}
+
+/**
+ * Normalizes a stored ingredient. When only the name is filled in, the name is
+ * parsed as a full line; otherwise amount and unit are cleaned up in place.
+ */
+export function normalizeIngredient<T extends StoredIngredient>(ingredient: T): T {
+  const name = ingredient.name.trim();
+  const amount = (ingredient.amount || '').trim();
+  const unit = (ingredient.unit || '').trim();
+
+  if (!amount && !unit) {
+    const parsed = parseIngredientLine(name);
+    if (parsed.quantity === null && parsed.unit === null) {
+      return { ...ingredient, name };
+    }
+    const stored = toStoredIngredient(parsed);
+    return {
+      ...ingredient,
+      name: stored.name,
+      amount: stored.amount,
+      unit: stored.unit,
+      notes: [stored.notes, ingredient.notes?.trim()].filter(Boolean).join(', ') || undefined,
+    };
+  }
+
+  const quantity = parseQuantity(amount);
+  return {
+    ...ingredient,
+    name,
+    amount: quantity ? formatQuantityRange(quantity.quantity, quantity.quantityMax) : amount,
+    unit: canonicalizeUnit(unit) ?? unit,
+  };
+}
+
+/**
+ * Parses a stored ingredient's amount and unit into structured form.
+ */
+export function parseStoredIngredient(ingredient: StoredIngredient): ParsedIngredient {
+  const quantity = parseQuantity(ingredient.amount || '');
+  return {
+    quantity: quantity?.quantity ?? null,
+    quantityMax: quantity?.quantityMax ?? null,
+    unit: canonicalizeUnit(ingredient.unit) ?? (ingredient.unit?.trim() || null),
+    name: ingredient.name.trim(),
+    preparation: ingredient.notes?.trim() || null,
+    original: [ingredient.amount, ingredient.unit, ingredient.name].filter(Boolean).join(' '),
+  };
+}
+
+/**
+ * Key used to match the same ingredient across recipes ("Onions" and "onion").
+ */
+export function ingredientKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, '')
+    .replace(/[^a-z0-9\s-]/g, '')
+    .trim()
+    .split(/\s+/)
+    .map(singularize)
+    .join(' ');
+}
+
+function singularize(word: string): string {
+  if (word.length <= 3 || word.endsWith('ss') || word.endsWith('us')) return word;
+  if (word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (/(?:oes|ches|shes|xes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+}
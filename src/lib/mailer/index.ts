@@ -0,0 +1,105 @@
+/**
+ * Mailer
+ * Sends transactional email through a swappable transport. The built-in transports log
+ * messages or write them to disk for local development and tests; production deployments
+ * plug in a real one with setMailTransport.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { nanoid } from 'nanoid';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface OutgoingMail extends MailMessage {
+  from: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: OutgoingMail): Promise<void>;
+}
+
+const DEFAULT_FROM = 'RecipeUp <no-reply@recipeup.local>';
+const DEFAULT_OUTBOX_DIR = '.mail-outbox';
+
+// ============================================================================
+// Transports
+// ============================================================================
+
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: OutgoingMail): Promise<void> {
+    console.log(
+      `[mail] To: ${message.to}\n[mail] From: ${message.from}\n[mail] Subject: ${message.subject}\n\n${message.text}\n`
+    );
+  }
+}
+
+// Writes each message to its own JSON file, so tests and developers can read links back out
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+  private directory: string;
+
+  constructor(directory?: string) {
+    this.directory = resolve(process.cwd(), directory || DEFAULT_OUTBOX_DIR);
+  }
+
+  async send(message: OutgoingMail): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${nanoid(8)}.json`;
+    await writeFile(
+      join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+// ============================================================================
+// Transport Selection
+// ============================================================================
+
+const TRANSPORT_FACTORIES: Record<string, () => MailTransport> = {
+  console: () => new ConsoleMailTransport(),
+  file: () => new FileMailTransport(process.env.MAIL_OUTBOX_DIR),
+};
+
+let transport: MailTransport | null = null;
+
+/**
+ * The transport mail goes out through, chosen with MAIL_TRANSPORT ("console" by default)
+ * unless one was installed with setMailTransport.
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT || 'console';
+    const factory = TRANSPORT_FACTORIES[name];
+    if (!factory) {
+      throw new Error(`Unknown mail transport: ${name}`);
+    }
+    transport = factory();
+  }
+  return transport;
+}
+
+// Replaces the transport, e.g. with an SMTP or API-backed one at startup. Null restores the default.
+export function setMailTransport(next: MailTransport | null): void {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send({
+    ...message,
+    from: process.env.MAIL_FROM || DEFAULT_FROM,
+  });
+}
@@ -0,0 +1,158 @@
+import { QueuedOperation, getQueuedOperations, queueOperation, resolveQueuedOperations, syncQueuedOperations } from '..';
+import { GroceryItem, GroceryListItems, GroceryOperation } from '../../grocery';
+
+const milk: GroceryItem = { id: 'milk', name: 'milk', amount: '1', unit: 'l', category: 'dairy', checked: false };
+const eggs: GroceryItem = { id: 'eggs', name: 'eggs', amount: '6', unit: '', category: 'dairy', checked: false };
+
+// localStorage is all the offline module needs from the browser
+function installLocalStorage() {
+  const store = new Map<string, string>();
+  Object.assign(globalThis, {
+    window: {
+      localStorage: {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => store.set(key, value),
+        removeItem: (key: string) => store.delete(key),
+      },
+    },
+  });
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return { ok: status >= 200 && status < 300, status, json: async () => body } as Response;
+}
+
+describe('syncQueuedOperations', () => {
+  beforeEach(installLocalStorage);
+
+  it('keeps changes queued while a sync is in flight', async () => {
+    queueOperation('list-1', { op: 'check', itemId: 'milk' }, milk);
+
+    const fetchMock = jest.fn(async (_url: string, init?: RequestInit) => {
+      if (!init?.method) {
+        // The shopper checks off another item while the list is being fetched
+        queueOperation('list-1', { op: 'check', itemId: 'eggs' }, eggs);
+        return jsonResponse({ groceryList: { ingredients: [milk, eggs], additionalItems: [] } });
+      }
+      return jsonResponse({});
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const results = await syncQueuedOperations();
+
+    expect(results).toEqual([{ listId: 'list-1', applied: 1, messages: [] }]);
+    expect(JSON.parse(fetchMock.mock.calls[1][1]!.body as string)).toEqual({ operations: [{ op: 'check', itemId: 'milk' }] });
+    expect(getQueuedOperations().map(entry => entry.operation)).toEqual([{ op: 'check', itemId: 'eggs' }]);
+  });
+
+  it('keeps the queue when the list could not be updated', async () => {
+    queueOperation('list-1', { op: 'check', itemId: 'milk' }, milk);
+    global.fetch = jest.fn(async (_url: string, init?: RequestInit) =>
+      init?.method
+        ? jsonResponse({}, 503)
+        : jsonResponse({ groceryList: { ingredients: [milk], additionalItems: [] } })
+    ) as unknown as typeof fetch;
+
+    expect(await syncQueuedOperations()).toEqual([]);
+    expect(getQueuedOperations()).toHaveLength(1);
+  });
+
+  it('drops changes to lists that are gone', async () => {
+    queueOperation('list-1', { op: 'check', itemId: 'milk' }, milk);
+    global.fetch = jest.fn(async () => jsonResponse({}, 404)) as unknown as typeof fetch;
+
+    const [result] = await syncQueuedOperations();
+
+    expect(result.messages).toEqual(['A grocery list you changed offline is no longer available.']);
+    expect(getQueuedOperations()).toEqual([]);
+  });
+
+  it('gives entries queued without an id one that sticks', () => {
+    window.localStorage.setItem('recipeup:grocery-queue', JSON.stringify([
+      { listId: 'list-1', operation: { op: 'check', itemId: 'milk' }, base: milk, queuedAt: '2024-01-01T00:00:00.000Z' },
+    ]));
+
+    const [entry] = getQueuedOperations();
+
+    expect(entry.id).toEqual(expect.any(String));
+    expect(getQueuedOperations()[0].id).toBe(entry.id);
+  });
+});
+
+describe('resolveQueuedOperations', () => {
+  const list = (...ingredients: GroceryItem[]): GroceryListItems => ({ ingredients, additionalItems: [] });
+  const queued = (operation: GroceryOperation, base: GroceryItem | null): QueuedOperation =>
+    ({ id: 'op', listId: 'list-1', operation, base, queuedAt: '2024-01-01T00:00:00.000Z' });
+
+  it('drops changes to items someone else removed', () => {
+    const result = resolveQueuedOperations(list(eggs), [
+      queued({ op: 'check', itemId: 'milk' }, milk),
+      queued({ op: 'edit', itemId: 'milk', changes: { amount: '2' } }, milk),
+      queued({ op: 'remove', itemId: 'milk' }, milk),
+    ]);
+
+    expect(result.operations).toEqual([]);
+    expect(result.messages).toEqual([
+      '"milk" was removed by someone else, so your change was dropped.',
+      '"milk" was removed by someone else, so your edit was dropped.',
+    ]);
+  });
+
+  it('lets a check land and keeps items someone else checked checked', () => {
+    const checkedMilk = { ...milk, checked: true };
+
+    expect(resolveQueuedOperations(list(milk), [queued({ op: 'check', itemId: 'milk' }, milk)]))
+      .toEqual({ operations: [{ op: 'check', itemId: 'milk' }], messages: [] });
+    expect(resolveQueuedOperations(list(checkedMilk), [queued({ op: 'uncheck', itemId: 'milk' }, milk)]))
+      .toEqual({ operations: [], messages: ['"milk" was checked off by someone else, so it stays checked.'] });
+    expect(resolveQueuedOperations(list(checkedMilk), [queued({ op: 'check', itemId: 'milk' }, milk)]))
+      .toEqual({ operations: [], messages: ['"milk" was already checked off by someone else.'] });
+  });
+
+  it('merges edits field by field, keeping fields someone else changed', () => {
+    const result = resolveQueuedOperations(list({ ...milk, amount: '2' }), [
+      queued({ op: 'edit', itemId: 'milk', changes: { amount: '3', notes: 'oat' } }, milk),
+    ]);
+
+    expect(result.operations).toEqual([{ op: 'edit', itemId: 'milk', changes: { notes: 'oat' } }]);
+    expect(result.messages).toEqual(['Kept the amount of "milk" that someone else changed.']);
+  });
+
+  it('does not treat the same change made elsewhere as a conflict', () => {
+    const result = resolveQueuedOperations(list({ ...milk, amount: '2' }), [
+      queued({ op: 'edit', itemId: 'milk', changes: { amount: '2' } }, milk),
+    ]);
+
+    expect(result).toEqual({ operations: [{ op: 'edit', itemId: 'milk', changes: { amount: '2' } }], messages: [] });
+  });
+
+  it('applies changes in queue order, so earlier ones are not conflicts for later ones', () => {
+    const result = resolveQueuedOperations(list(milk), [
+      queued({ op: 'edit', itemId: 'milk', changes: { amount: '2' } }, milk),
+      queued({ op: 'remove', itemId: 'milk' }, milk),
+    ]);
+
+    expect(result.operations.map(operation => operation.op)).toEqual(['edit', 'remove']);
+    expect(result.messages).toEqual([]);
+  });
+
+  it('keeps items someone else edited instead of removing them', () => {
+    const result = resolveQueuedOperations(list({ ...milk, unit: 'gal' }), [queued({ op: 'remove', itemId: 'milk' }, milk)]);
+
+    expect(result).toEqual({ operations: [], messages: ['"milk" was changed by someone else, so it was kept on the list.'] });
+  });
+
+  it('skips additions someone else already made', () => {
+    const bread: GroceryItem = { id: 'bread', name: 'bread', amount: '1', unit: '', category: 'bakery', checked: false };
+    const otherEggs: GroceryItem = { ...eggs, id: 'eggs-2', name: 'Eggs' };
+
+    const result = resolveQueuedOperations(list(eggs, bread), [
+      queued({ op: 'add', list: 'ingredients', item: otherEggs }, null),
+      queued({ op: 'add', list: 'ingredients', item: bread }, null),
+      queued({ op: 'add', list: 'ingredients', item: milk }, null),
+    ]);
+
+    expect(result.operations).toEqual([{ op: 'add', list: 'ingredients', item: milk }]);
+    expect(result.messages).toEqual(['"Eggs" was already added by someone else.']);
+  });
+});
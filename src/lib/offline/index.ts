@@ -0,0 +1,292 @@
+/**
+ * Offline Grocery Sync
+ * Local copies of active grocery lists, a queue of changes made without a connection,
+ * and the rules for merging that queue with what other shoppers did in the meantime.
+ * Browser-only: state lives in localStorage.
+ */
+
+import {
+  AdditionalGroceryItem,
+  GroceryItem,
+  GroceryItemChanges,
+  GroceryListItems,
+  GroceryOperation,
+  applyGroceryOperations,
+} from '../grocery';
+import { ingredientKey } from '../ingredients';
+import { nanoid } from 'nanoid';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type ListItem = GroceryItem | AdditionalGroceryItem;
+
+export interface QueuedOperation {
+  id: string;
+  listId: string;
+  operation: GroceryOperation;
+  base: ListItem | null; // The item as the shopper saw it when making the change
+  queuedAt: string;
+}
+
+export interface SyncResult {
+  listId: string;
+  applied: number;
+  messages: string[];
+}
+
+const SNAPSHOT_KEY = 'recipeup:grocery-lists';
+const QUEUE_KEY = 'recipeup:grocery-queue';
+
+// ============================================================================
+// Local Storage
+// ============================================================================
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const value = window.localStorage.getItem(key);
+    return value ? JSON.parse(value) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function writeJson(key: string, value: unknown) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error('Failed to save offline grocery data:', error);
+  }
+}
+
+export function saveListSnapshots<T extends { id: string }>(lists: T[]) {
+  writeJson(SNAPSHOT_KEY, lists);
+}
+
+export function loadListSnapshots<T extends { id: string }>(): T[] {
+  return readJson<T[]>(SNAPSHOT_KEY, []);
+}
+
+function readQueue(): QueuedOperation[] {
+  const queue = readJson<QueuedOperation[]>(QUEUE_KEY, []);
+  if (queue.every(entry => entry.id)) {
+    return queue;
+  }
+
+  // Entries queued before they carried ids get one, so a sync can remove them individually
+  const withIds = queue.map(entry => (entry.id ? entry : { ...entry, id: nanoid() }));
+  writeJson(QUEUE_KEY, withIds);
+  return withIds;
+}
+
+export function getQueuedOperations(listId?: string): QueuedOperation[] {
+  const queue = readQueue();
+  return listId ? queue.filter(entry => entry.listId === listId) : queue;
+}
+
+export function queueOperation(listId: string, operation: GroceryOperation, base: ListItem | null) {
+  writeJson(QUEUE_KEY, [
+    ...readQueue(),
+    { id: nanoid(), listId, operation, base, queuedAt: new Date().toISOString() },
+  ]);
+}
+
+// Removes just these entries; anything queued since they were read stays for the next sync
+function removeQueuedOperations(entries: QueuedOperation[]) {
+  const ids = new Set(entries.map(entry => entry.id));
+  writeJson(QUEUE_KEY, readQueue().filter(entry => !ids.has(entry.id)));
+}
+
+/**
+ * Forgets every list snapshot and queued change, and has the service worker drop the pages
+ * it cached, so whoever uses this device next can't read or replay them. Called on logout.
+ */
+export async function clearOfflineData() {
+  try {
+    window.localStorage.removeItem(SNAPSHOT_KEY);
+    window.localStorage.removeItem(QUEUE_KEY);
+  } catch (error) {
+    console.error('Failed to clear offline grocery data:', error);
+  }
+
+  if (!('serviceWorker' in navigator)) {
+    return;
+  }
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    registration?.active?.postMessage({ type: 'CLEAR_USER_DATA' });
+  } catch (error) {
+    console.error('Failed to clear offline pages:', error);
+  }
+}
+
+// ============================================================================
+// Conflict Resolution
+// ============================================================================
+
+const EDITABLE_FIELDS: Array<keyof GroceryItemChanges> = ['name', 'amount', 'unit', 'category', 'notes'];
+
+/**
+ * Rewrites queued operations against the list as it is on the server now. Rules, applied
+ * in queue order so later changes see earlier ones:
+ * - Changes to items someone else removed are dropped.
+ * - Checking always wins: an offline check lands, an offline uncheck is dropped when
+ *   someone else changed the item's checked state meanwhile.
+ * - Edits merge field by field; a field someone else also changed keeps their value.
+ * - Additions are skipped when an unchecked item with the same name was added meanwhile.
+ * - Removals are skipped when someone else edited the item meanwhile.
+ */
+export function resolveQueuedOperations(
+  server: GroceryListItems,
+  queued: QueuedOperation[]
+): { operations: GroceryOperation[]; messages: string[] } {
+  let current = server;
+  const operations: GroceryOperation[] = [];
+  const messages: string[] = [];
+  // Items as our own accepted changes left them, so later queued changes don't conflict with them
+  const ownStates = new Map<string, ListItem>();
+
+  const findItem = (itemId: string): ListItem | undefined =>
+    [...current.ingredients, ...current.additionalItems].find(item => item.id === itemId);
+
+  const accept = (operation: GroceryOperation) => {
+    current = applyGroceryOperations(current, [operation]).lists;
+    operations.push(operation);
+
+    const itemId = operation.op === 'add' ? operation.item.id : operation.itemId;
+    const item = itemId && findItem(itemId);
+    if (item) ownStates.set(item.id!, item);
+  };
+
+  queued.forEach(({ operation, base: queuedBase }) => {
+    const base = (operation.op !== 'add' && ownStates.get(operation.itemId)) || queuedBase;
+    const label = `"${base?.name || ('item' in operation ? operation.item.name : 'An item')}"`;
+
+    switch (operation.op) {
+      case 'check':
+      case 'uncheck': {
+        const item = findItem(operation.itemId);
+        if (!item) {
+          messages.push(`${label} was removed by someone else, so your change was dropped.`);
+          return;
+        }
+        const wantChecked = operation.op === 'check';
+        if (item.checked === wantChecked) {
+          if (base && base.checked !== item.checked) {
+            messages.push(`${label} was already ${wantChecked ? 'checked off' : 'unchecked'} by someone else.`);
+          }
+          return;
+        }
+        if (!wantChecked && base && base.checked !== item.checked) {
+          messages.push(`${label} was checked off by someone else, so it stays checked.`);
+          return;
+        }
+        accept(operation);
+        return;
+      }
+      case 'edit': {
+        const item = findItem(operation.itemId);
+        if (!item) {
+          messages.push(`${label} was removed by someone else, so your edit was dropped.`);
+          return;
+        }
+        const changes: GroceryItemChanges = {};
+        EDITABLE_FIELDS.forEach(field => {
+          if (operation.changes[field] === undefined) return;
+          const theirs = (item as GroceryItem)[field];
+          const original = base ? (base as GroceryItem)[field] : theirs;
+          if (theirs !== original && theirs !== operation.changes[field]) {
+            messages.push(`Kept the ${field} of ${label} that someone else changed.`);
+            return;
+          }
+          changes[field] = operation.changes[field];
+        });
+        if (Object.keys(changes).length > 0) {
+          accept({ ...operation, changes });
+        }
+        return;
+      }
+      case 'add': {
+        // Already landed on an earlier sync attempt
+        if (operation.item.id && findItem(operation.item.id)) return;
+        const key = ingredientKey(operation.item.name);
+        const duplicate = current[operation.list].some(item =>
+          !item.checked && item.id !== operation.item.id && ingredientKey(item.name) === key
+        );
+        if (duplicate) {
+          messages.push(`"${operation.item.name}" was already added by someone else.`);
+          return;
+        }
+        accept(operation);
+        return;
+      }
+      case 'remove': {
+        const item = findItem(operation.itemId);
+        if (!item) return;
+        const editedElsewhere = base && EDITABLE_FIELDS.some(field =>
+          (item as GroceryItem)[field] !== (base as GroceryItem)[field]
+        );
+        if (editedElsewhere) {
+          messages.push(`${label} was changed by someone else, so it was kept on the list.`);
+          return;
+        }
+        accept(operation);
+        return;
+      }
+    }
+  });
+
+  return { operations, messages };
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+/**
+ * Replays queued changes for every list against the grocery-lists API. Lists that fail to
+ * sync keep their queue and are retried on the next call. Only the entries that were sent
+ * (or resolved away) are removed, so changes queued while a sync is in flight survive it.
+ */
+export async function syncQueuedOperations(): Promise<SyncResult[]> {
+  const queue = getQueuedOperations();
+  const listIds = Array.from(new Set(queue.map(entry => entry.listId)));
+  const results: SyncResult[] = [];
+
+  for (const listId of listIds) {
+    const response = await fetch(`/api/grocery-lists/${listId}`, { credentials: 'include' });
+
+    const entries = queue.filter(entry => entry.listId === listId);
+
+    if (response.status === 404 || response.status === 403) {
+      removeQueuedOperations(entries);
+      results.push({ listId, applied: 0, messages: ['A grocery list you changed offline is no longer available.'] });
+      continue;
+    }
+    if (!response.ok) continue;
+
+    const { groceryList } = await response.json();
+    const { operations, messages } = resolveQueuedOperations(
+      { ingredients: groceryList.ingredients, additionalItems: groceryList.additionalItems || [] },
+      entries
+    );
+
+    if (operations.length > 0) {
+      const patchResponse = await fetch(`/api/grocery-lists/${listId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({ operations }),
+      });
+      if (!patchResponse.ok) continue;
+    }
+
+    removeQueuedOperations(entries);
+    results.push({ listId, applied: operations.length, messages });
+  }
+
+  return results;
+}
@@ -0,0 +1,176 @@
+/**
+ * Household Pantry
+ * Subtracts pantry stock from generated grocery lists and restocks it from completed ones
+ */
+
+import { db } from '../db';
+import { pantryItems, PantryItem } from '../db/schema';
+import { ingredientKey } from '../ingredients';
+import { formatMeasure, toMeasure } from '../units';
+import { GroceryItem, categorizeIngredient } from '../grocery';
+import { eq } from 'drizzle-orm';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PantryStock = Pick<PantryItem, 'name' | 'normalizedName' | 'amount' | 'unit'>;
+
+// The database, or a transaction on it
+type DbExecutor = Pick<typeof db, 'select' | 'insert' | 'update'>;
+
+export interface RestockItem {
+  name: string;
+  amount?: string;
+  unit?: string;
+  category?: string;
+}
+
+// ============================================================================
+// Grocery Subtraction
+// ============================================================================
+
+/**
+ * Removes what the household already has from grocery lines. Staples without an amount
+ * cover any quantity; measured stock is subtracted when the units are compatible and the
+ * line is dropped once nothing is left to buy.
+ */
+export function subtractPantryStock<T extends GroceryItem>(items: T[], pantry: PantryStock[]): T[] {
+  const stockByKey = new Map<string, PantryStock[]>();
+  pantry.forEach(stock => {
+    stockByKey.set(stock.normalizedName, [...(stockByKey.get(stock.normalizedName) || []), stock]);
+  });
+
+  return items.flatMap(item => {
+    const stocks = stockByKey.get(ingredientKey(item.name));
+    if (!stocks?.length) {
+      return [item];
+    }
+
+    if (stocks.some(stock => !stock.amount)) {
+      return [];
+    }
+
+    const needed = toMeasure(item.amount, item.unit);
+    if (!needed) {
+      // "Salt to taste" is covered by any amount on hand
+      return [];
+    }
+
+    let remainingMin = needed.value;
+    let remainingMax = needed.valueMax;
+    const used: string[] = [];
+
+    stocks.forEach(stock => {
+      const onHand = toMeasure(stock.amount, stock.unit);
+      if (!onHand || onHand.group !== needed.group || remainingMax <= 0) return;
+
+      remainingMin -= onHand.value;
+      remainingMax -= onHand.value;
+      used.push(`${stock.amount} ${stock.unit}`.trim());
+    });
+
+    if (used.length === 0) {
+      return [item];
+    }
+    if (remainingMax <= 0) {
+      return [];
+    }
+
+    const remaining = formatMeasure(remainingMin > 0 ? remainingMin : remainingMax, remainingMax, needed);
+    const pantryNote = `${used.join(' + ')} in pantry`;
+
+    return [{
+      ...item,
+      ...remaining,
+      notes: item.notes ? `${item.notes}; ${pantryNote}` : pantryNote,
+    }];
+  });
+}
+
+// ============================================================================
+// Pantry Persistence
+// ============================================================================
+
+export async function getPantryStock(familyGroupId: string): Promise<PantryStock[]> {
+  return await db
+    .select({
+      name: pantryItems.name,
+      normalizedName: pantryItems.normalizedName,
+      amount: pantryItems.amount,
+      unit: pantryItems.unit,
+    })
+    .from(pantryItems)
+    .where(eq(pantryItems.familyGroupId, familyGroupId));
+}
+
+/**
+ * Adds purchased items to the pantry, topping up matching entries with compatible units
+ * and creating new entries for everything else. Returns the number of items restocked.
+ * Pass a transaction to restock as part of it.
+ */
+export async function restockPantry(
+  familyGroupId: string,
+  userId: string,
+  items: RestockItem[],
+  executor: DbExecutor = db
+): Promise<number> {
+  if (items.length === 0) {
+    return 0;
+  }
+
+  const existingItems = await executor
+    .select()
+    .from(pantryItems)
+    .where(eq(pantryItems.familyGroupId, familyGroupId));
+
+  let restocked = 0;
+
+  for (const item of items) {
+    const normalizedName = ingredientKey(item.name);
+    if (!normalizedName) continue;
+
+    const purchased = toMeasure(item.amount || '', item.unit || '');
+    const matches = existingItems.filter(existing => existing.normalizedName === normalizedName);
+
+    // Staples stay unmeasured; there's nothing to top up
+    if (matches.some(existing => !existing.amount)) {
+      restocked++;
+      continue;
+    }
+
+    const match = purchased
+      ? matches.find(existing => toMeasure(existing.amount, existing.unit)?.group === purchased.group)
+      : undefined;
+
+    if (match && purchased) {
+      const onHand = toMeasure(match.amount, match.unit)!;
+      const { amount, unit } = formatMeasure(onHand.value + purchased.value, onHand.valueMax + purchased.valueMax, onHand);
+
+      const [updated] = await executor
+        .update(pantryItems)
+        .set({ amount, unit, updatedBy: userId, updatedAt: new Date() })
+        .where(eq(pantryItems.id, match.id))
+        .returning();
+      existingItems.splice(existingItems.indexOf(match), 1, updated);
+    } else {
+      const [created] = await executor
+        .insert(pantryItems)
+        .values({
+          familyGroupId,
+          name: item.name.trim(),
+          normalizedName,
+          amount: purchased ? item.amount || '' : '',
+          unit: purchased ? item.unit || '' : '',
+          category: item.category || categorizeIngredient(item.name),
+          updatedBy: userId,
+        })
+        .returning();
+      existingItems.push(created);
+    }
+
+    restocked++;
+  }
+
+  return restocked;
+}
@@ -0,0 +1,86 @@
+import { consumeClientRateLimit, getClientIp } from '..';
+import { secondsUntilAllowed, weightedCount, windowStartFor } from '../window';
+
+// Only the address logic is exercised here; nothing should reach the database
+jest.mock('../../db', () => ({ db: {} }));
+
+const RULE = { name: 'test', limit: 10, windowMs: 60_000 };
+const WINDOW_START = 600_000;
+
+describe('sliding window', () => {
+  it('aligns windows to multiples of their length', () => {
+    expect(windowStartFor(RULE, WINDOW_START)).toBe(WINDOW_START);
+    expect(windowStartFor(RULE, WINDOW_START + 59_999)).toBe(WINDOW_START);
+    expect(windowStartFor(RULE, WINDOW_START + 60_000)).toBe(WINDOW_START + 60_000);
+  });
+
+  it.each([
+    [0, 10, 4, 14],
+    [15_000, 10, 4, 11.5],
+    [30_000, 10, 4, 9],
+    [45_000, 10, 4, 6.5],
+  ])('%i ms into the window weights %i previous and %i current hits as %d', (elapsed, previous, current, count) => {
+    expect(weightedCount(RULE, previous, current, WINDOW_START + elapsed)).toBeCloseTo(count);
+  });
+
+  it('waits for the next window when the current one alone is full', () => {
+    // 30s left in this window, then 10% of it has to slide out
+    expect(secondsUntilAllowed(RULE, 0, 10, WINDOW_START + 30_000)).toBe(36);
+  });
+
+  it('waits for enough of the previous window to slide out', () => {
+    // 10 * (1 - elapsed) + 5 must drop to 9, at 36s into the window
+    expect(secondsUntilAllowed(RULE, 10, 5, WINDOW_START + 30_000)).toBe(6);
+  });
+
+  it('never reports less than a second', () => {
+    expect(secondsUntilAllowed(RULE, 0, 0, WINDOW_START)).toBe(1);
+  });
+});
+
+describe('getClientIp', () => {
+  const originalProxyCount = process.env.TRUSTED_PROXY_COUNT;
+
+  afterEach(() => {
+    if (originalProxyCount === undefined) {
+      delete process.env.TRUSTED_PROXY_COUNT;
+    } else {
+      process.env.TRUSTED_PROXY_COUNT = originalProxyCount;
+    }
+  });
+
+  function request(forwardedFor?: string, ip?: string) {
+    return { headers: new Headers(forwardedFor ? { 'x-forwarded-for': forwardedFor } : {}), ip };
+  }
+
+  it('prefers the address the platform reports', () => {
+    process.env.TRUSTED_PROXY_COUNT = '1';
+    expect(getClientIp(request('198.51.100.1', '203.0.113.7'))).toBe('203.0.113.7');
+  });
+
+  it('ignores X-Forwarded-For without trusted proxies', () => {
+    delete process.env.TRUSTED_PROXY_COUNT;
+    expect(getClientIp(request('198.51.100.1'))).toBeNull();
+  });
+
+  it('takes the entry the outermost trusted proxy added', () => {
+    process.env.TRUSTED_PROXY_COUNT = '1';
+    expect(getClientIp(request('1.2.3.4, 198.51.100.1'))).toBe('198.51.100.1');
+
+    process.env.TRUSTED_PROXY_COUNT = '2';
+    expect(getClientIp(request('1.2.3.4, 198.51.100.1, 10.0.0.2'))).toBe('198.51.100.1');
+  });
+
+  it('returns null when the header is shorter than the proxy chain', () => {
+    process.env.TRUSTED_PROXY_COUNT = '2';
+    expect(getClientIp(request('198.51.100.1'))).toBeNull();
+  });
+
+  it('skips per-address limits when the address is unknown', async () => {
+    delete process.env.TRUSTED_PROXY_COUNT;
+    await expect(consumeClientRateLimit(RULE, request('198.51.100.1'))).resolves.toMatchObject({
+      allowed: true,
+      remaining: 10,
+    });
+  });
+});
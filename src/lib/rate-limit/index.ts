@@ -0,0 +1,258 @@
+/**
+ * Rate Limiting
+ * Sliding window limits counted in the database, so every server instance enforces the
+ * same budget. Each rule counts hits per identifier, such as an IP address or an account.
+ */
+
+import { db } from '../db';
+import { rateLimitBuckets } from '../db/schema';
+import { and, eq, inArray, lt, lte, sql } from 'drizzle-orm';
+import { secondsUntilAllowed, weightedCount, windowStartFor } from './window';
+
+const PRUNE_PROBABILITY = 0.01; // Share of hits that also clear out expired buckets
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RateLimitRule {
+  name: string; // Namespaces the rule's keys
+  limit: number; // Hits allowed in any window
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  count: number; // Weighted hits in the sliding window, including this one when consumed
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+  lastHitAt: Date | null;
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+// Sign-in attempts from one address, across all accounts (password and 2FA steps)
+export const LOGIN_IP_LIMIT: RateLimitRule = { name: 'login-ip', limit: 30, windowMs: 15 * 60 * 1000 };
+
+export const REGISTER_IP_LIMIT: RateLimitRule = { name: 'register-ip', limit: 5, windowMs: 60 * 60 * 1000 };
+
+// Invite codes are short enough to guess, so attempts are limited per account and address
+export const FAMILY_JOIN_USER_LIMIT: RateLimitRule = { name: 'family-join-user', limit: 10, windowMs: 15 * 60 * 1000 };
+export const FAMILY_JOIN_IP_LIMIT: RateLimitRule = { name: 'family-join-ip', limit: 30, windowMs: 15 * 60 * 1000 };
+
+function bucketKey(rule: RateLimitRule, identifier: string): string {
+  return `${rule.name}:${identifier.toLowerCase()}`;
+}
+
+async function readBuckets(
+  key: string,
+  rule: RateLimitRule,
+  now: number
+): Promise<{ previous: number; current: number; lastHitAt: Date | null }> {
+  const windowStart = windowStartFor(rule, now);
+  const rows = await db
+    .select({
+      windowStart: rateLimitBuckets.windowStart,
+      count: rateLimitBuckets.count,
+      updatedAt: rateLimitBuckets.updatedAt,
+    })
+    .from(rateLimitBuckets)
+    .where(
+      and(
+        eq(rateLimitBuckets.key, key),
+        inArray(rateLimitBuckets.windowStart, [new Date(windowStart - rule.windowMs), new Date(windowStart)])
+      )
+    );
+
+  const current = rows.find(row => row.windowStart.getTime() === windowStart);
+  const previous = rows.find(row => row.windowStart.getTime() !== windowStart);
+  const lastHitAt = current?.updatedAt ?? previous?.updatedAt ?? null;
+
+  return { previous: previous?.count ?? 0, current: current?.count ?? 0, lastHitAt };
+}
+
+function toResult(
+  rule: RateLimitRule,
+  previous: number,
+  current: number,
+  now: number,
+  lastHitAt: Date | null,
+  allowed: boolean
+): RateLimitResult {
+  const count = weightedCount(rule, previous, current, now);
+  return {
+    allowed,
+    count,
+    remaining: Math.max(Math.floor(rule.limit - count), 0),
+    retryAfterSeconds: allowed ? 0 : secondsUntilAllowed(rule, previous, current, now),
+    lastHitAt,
+  };
+}
+
+// ============================================================================
+// Limits
+// ============================================================================
+
+/**
+ * Records a hit and reports whether it was within the limit. Rejected hits count too, so
+ * a client that keeps hammering stays blocked rather than getting through in bursts.
+ */
+export async function consumeRateLimit(rule: RateLimitRule, identifier: string): Promise<RateLimitResult> {
+  const key = bucketKey(rule, identifier);
+  const now = Date.now();
+  const windowStart = windowStartFor(rule, now);
+
+  const { previous, lastHitAt } = await readBuckets(key, rule, now);
+
+  const [bucket] = await db
+    .insert(rateLimitBuckets)
+    .values({
+      key,
+      windowStart: new Date(windowStart),
+      count: 1,
+      updatedAt: new Date(now),
+      expiresAt: new Date(windowStart + 2 * rule.windowMs),
+    })
+    .onConflictDoUpdate({
+      target: [rateLimitBuckets.key, rateLimitBuckets.windowStart],
+      set: {
+        count: sql`${rateLimitBuckets.count} + 1`,
+        updatedAt: new Date(now),
+      },
+    })
+    .returning({ count: rateLimitBuckets.count });
+
+  if (Math.random() < PRUNE_PROBABILITY) {
+    await pruneRateLimitBuckets();
+  }
+
+  const allowed = weightedCount(rule, previous, bucket.count, now) <= rule.limit;
+  return toResult(rule, previous, bucket.count, now, lastHitAt, allowed);
+}
+
+/**
+ * Records a hit only if it's within the limit and at least minIntervalMs after the one
+ * before it. The check and the increment are a single statement, so concurrent hits can't
+ * all pass the same check; rejected hits aren't recorded. `minIntervalMs` is given the
+ * weighted count of earlier hits.
+ */
+export async function claimRateLimit(
+  rule: RateLimitRule,
+  identifier: string,
+  minIntervalMs: (count: number) => number = () => 0
+): Promise<RateLimitResult> {
+  const key = bucketKey(rule, identifier);
+  const now = Date.now();
+  const windowStart = windowStartFor(rule, now);
+
+  const { previous, current, lastHitAt } = await readBuckets(key, rule, now);
+  const intervalMs = minIntervalMs(weightedCount(rule, previous, current, now));
+  const notBefore = new Date(now - intervalMs);
+  // Hits this window can hold; the previous window's share only shrinks from here on
+  const maxCurrent = Math.floor(rule.limit - weightedCount(rule, previous, 0, now));
+
+  const rejected = async (): Promise<RateLimitResult> => {
+    const latest = await readBuckets(key, rule, now);
+    const result = toResult(rule, latest.previous, latest.current, now, latest.lastHitAt, false);
+    if (result.remaining > 0 && latest.lastHitAt) {
+      // Under the limit, so it's the interval that hasn't passed yet
+      const waitMs = latest.lastHitAt.getTime() + intervalMs - now;
+      result.retryAfterSeconds = Math.max(Math.ceil(waitMs / 1000), 1);
+    }
+    return result;
+  };
+
+  if (current >= maxCurrent || (lastHitAt && lastHitAt > notBefore)) {
+    return rejected();
+  }
+
+  const [bucket] = await db
+    .insert(rateLimitBuckets)
+    .values({
+      key,
+      windowStart: new Date(windowStart),
+      count: 1,
+      updatedAt: new Date(now),
+      expiresAt: new Date(windowStart + 2 * rule.windowMs),
+    })
+    .onConflictDoUpdate({
+      target: [rateLimitBuckets.key, rateLimitBuckets.windowStart],
+      set: {
+        count: sql`${rateLimitBuckets.count} + 1`,
+        updatedAt: new Date(now),
+      },
+      setWhere: and(lt(rateLimitBuckets.count, maxCurrent), lte(rateLimitBuckets.updatedAt, notBefore)),
+    })
+    .returning({ count: rateLimitBuckets.count });
+
+  // Another hit claimed the last slot between the read and the update
+  if (!bucket) {
+    return rejected();
+  }
+
+  return toResult(rule, previous, bucket.count, now, lastHitAt, true);
+}
+
+export async function resetRateLimit(rule: RateLimitRule, identifier: string): Promise<void> {
+  await db.delete(rateLimitBuckets).where(eq(rateLimitBuckets.key, bucketKey(rule, identifier)));
+}
+
+export async function pruneRateLimitBuckets(): Promise<void> {
+  await db.delete(rateLimitBuckets).where(lt(rateLimitBuckets.expiresAt, new Date()));
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * The client's address: the platform's own report of it when there is one, otherwise the
+ * X-Forwarded-For entry added by the outermost of TRUSTED_PROXY_COUNT proxies. Entries to
+ * the left of that came from the client and are ignored. Null when neither is available.
+ */
+export function getClientIp(request: { headers: Headers; ip?: string }): string | null {
+  if (request.ip) {
+    return request.ip;
+  }
+
+  const trustedProxies = parseInt(process.env.TRUSTED_PROXY_COUNT || '0', 10);
+  if (trustedProxies > 0) {
+    const forwardedFor = (request.headers.get('x-forwarded-for') || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean);
+    const clientEntry = forwardedFor[forwardedFor.length - trustedProxies];
+    if (clientEntry) {
+      return clientEntry;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Counts a hit against the client's address. Without a trustworthy address the rule is
+ * skipped: one shared bucket would let any client lock everyone else out, so per-account
+ * limits have to carry the load instead.
+ */
+export async function consumeClientRateLimit(
+  rule: RateLimitRule,
+  request: { headers: Headers; ip?: string }
+): Promise<RateLimitResult> {
+  const ip = getClientIp(request);
+  if (!ip) {
+    return { allowed: true, count: 0, remaining: rule.limit, retryAfterSeconds: 0, lastHitAt: null };
+  }
+  return consumeRateLimit(rule, ip);
+}
+
+// "30 seconds", "5 minutes", for messages that tell people how long to wait
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
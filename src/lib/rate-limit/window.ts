@@ -0,0 +1,43 @@
+/**
+ * Sliding Window Arithmetic
+ * Each rule counts hits in fixed windows; the sliding window ending now is estimated from
+ * the current window's hits and the share of the previous window it still overlaps.
+ */
+
+export interface WindowRule {
+  limit: number; // Hits allowed in any window
+  windowMs: number;
+}
+
+export function windowStartFor(rule: WindowRule, now: number): number {
+  return Math.floor(now / rule.windowMs) * rule.windowMs;
+}
+
+/**
+ * The previous window's hits count in proportion to how much of it still overlaps the
+ * sliding window ending now.
+ */
+export function weightedCount(rule: WindowRule, previous: number, current: number, now: number): number {
+  const elapsed = (now - windowStartFor(rule, now)) / rule.windowMs;
+  return previous * (1 - elapsed) + current;
+}
+
+// How long until one more hit would fit under the limit
+export function secondsUntilAllowed(rule: WindowRule, previous: number, current: number, now: number): number {
+  const windowStart = windowStartFor(rule, now);
+  const untilWindowEnd = windowStart + rule.windowMs - now;
+  const room = rule.limit - 1;
+
+  let waitMs: number;
+  if (current > room) {
+    // Only once this window becomes the previous one and enough of it has slid out
+    waitMs = untilWindowEnd + rule.windowMs * (1 - room / current);
+  } else if (previous > 0) {
+    const overlapAllowed = (room - current) / previous;
+    waitMs = Math.min(Math.max(rule.windowMs * (1 - overlapAllowed) - (now - windowStart), 0), untilWindowEnd);
+  } else {
+    waitMs = 0;
+  }
+
+  return Math.max(Math.ceil(waitMs / 1000), 1);
+}
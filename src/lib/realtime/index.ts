@@ -0,0 +1,57 @@
+/**
+ * Realtime Events
+ * In-process pub/sub used to push grocery list changes to open event streams
+ */
+
+import { GroceryListItems, GroceryOperation } from '../grocery';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GroceryListEvent =
+  | {
+      type: 'patch';
+      version: number;
+      operations: GroceryOperation[];
+      actor: { id: string; username: string };
+    }
+  | {
+      type: 'snapshot';
+      version: number;
+      lists: GroceryListItems;
+      status?: string | null;
+    };
+
+type GroceryListListener = (event: GroceryListEvent) => void;
+
+// ============================================================================
+// Subscriptions
+// ============================================================================
+
+// Subscribers only live in this server instance; streams also poll the list version
+// so changes handled by another instance still reach them.
+const listeners = new Map<string, Set<GroceryListListener>>();
+
+export function subscribeToGroceryList(listId: string, listener: GroceryListListener): () => void {
+  const listListeners = listeners.get(listId) || new Set<GroceryListListener>();
+  listListeners.add(listener);
+  listeners.set(listId, listListeners);
+
+  return () => {
+    listListeners.delete(listener);
+    if (listListeners.size === 0) {
+      listeners.delete(listId);
+    }
+  };
+}
+
+export function publishGroceryListEvent(listId: string, event: GroceryListEvent): void {
+  listeners.get(listId)?.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Grocery list listener error:', error);
+    }
+  });
+}
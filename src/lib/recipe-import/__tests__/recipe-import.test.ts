@@ -0,0 +1,175 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  importRecipeFromHtml,
+  extractJsonLdRecipes,
+  extractMicrodataRecipes,
+  parseDuration,
+  parseYield,
+} from '..';
+
+function loadFixture(name: string): string {
+  return readFileSync(join(process.cwd(), 'fixtures', 'recipe-import', name), 'utf8');
+}
+
+function importFixture(name: string) {
+  const result = importRecipeFromHtml(loadFixture(name), 'user-1', `https://example.com/${name}`);
+  if ('error' in result) {
+    throw new Error(`Expected a recipe in ${name}: ${result.error.message}`);
+  }
+  return result.recipe;
+}
+
+describe('JSON-LD Recipe', () => {
+  it('maps the fields of a plain Recipe node', () => {
+    const recipe = importFixture('json-ld.html');
+
+    expect(recipe.title).toBe('Classic Banana Bread');
+    expect(recipe.description).toBe('A moist loaf made with very ripe bananas & a little brown sugar.');
+    expect(recipe.sourceType).toBe('scraped');
+    expect(recipe.sourceUrl).toBe('https://example.com/json-ld.html');
+    expect(recipe.userId).toBe('user-1');
+    expect(recipe.cuisine).toBe('American');
+    expect(recipe.dishTypes).toEqual(['bread']);
+    expect(recipe.tags).toEqual(['banana', 'quick bread', 'baking']);
+    expect(recipe.isVegetarian).toBe(true);
+    expect(recipe.visibility).toBe('private');
+    expect(recipe.status).toBe('draft');
+  });
+
+  it('parses ingredient lines into amount, unit and name', () => {
+    const recipe = importFixture('json-ld.html');
+
+    expect(recipe.ingredients).toHaveLength(4);
+    expect(recipe.ingredients?.[1]).toMatchObject({ amount: '1/3', unit: 'cup', name: 'butter', notes: 'melted' });
+  });
+
+  it('maps durations, yield and image', () => {
+    const recipe = importFixture('json-ld.html');
+
+    expect(recipe.prepTimeMinutes).toBe(15);
+    expect(recipe.cookTimeMinutes).toBe(60);
+    expect(recipe.readyInMinutes).toBe(75);
+    expect(recipe.servings).toBe(1);
+    expect(recipe.imageUrl).toBe('https://example.com/images/banana-bread.jpg');
+    expect(recipe.mediaUrls).toEqual(['https://example.com/images/banana-bread.jpg']);
+  });
+
+  it('numbers HowToStep instructions in order', () => {
+    const recipe = importFixture('json-ld.html');
+
+    expect(recipe.instructions).toEqual([
+      { step: 1, instruction: 'Heat the oven to 350°F and butter a loaf pan.' },
+      { step: 2, instruction: 'Mix the bananas, butter and sugar.' },
+      { step: 3, instruction: 'Fold in the flour and bake for 60 minutes.' },
+    ]);
+  });
+});
+
+describe('JSON-LD @graph', () => {
+  it('finds the Recipe among the other graph nodes', () => {
+    const recipes = extractJsonLdRecipes(loadFixture('json-ld-graph.html'));
+
+    expect(recipes).toHaveLength(1);
+    expect(recipes[0].name).toBe('Weeknight Chicken Curry');
+  });
+
+  it('flattens HowToSection instructions into numbered steps', () => {
+    const recipe = importFixture('json-ld-graph.html');
+
+    expect(recipe.instructions).toEqual([
+      { step: 1, instruction: 'Fry the onion in the oil until soft.' },
+      { step: 2, instruction: 'Add the tomatoes and simmer for 10 minutes.' },
+      { step: 3, instruction: 'Stir in the chicken and cook for 25 minutes.' },
+    ]);
+  });
+
+  it('reads ImageObject urls, an array yield and sums the times without a totalTime', () => {
+    const recipe = importFixture('json-ld-graph.html');
+
+    expect(recipe.imageUrl).toBe('https://example.com/images/curry-16x9.jpg');
+    expect(recipe.mediaUrls).toEqual([
+      'https://example.com/images/curry-16x9.jpg',
+      'https://example.com/images/curry-4x3.jpg',
+    ]);
+    expect(recipe.servings).toBe(6);
+    expect(recipe.prepTimeMinutes).toBe(20);
+    expect(recipe.cookTimeMinutes).toBe(35);
+    expect(recipe.readyInMinutes).toBe(55);
+  });
+});
+
+describe('microdata Recipe', () => {
+  it('is used when the page has no JSON-LD', () => {
+    const html = loadFixture('microdata.html');
+
+    expect(extractJsonLdRecipes(html)).toHaveLength(0);
+    expect(extractMicrodataRecipes(html)).toHaveLength(1);
+  });
+
+  it('maps itemprops, ignoring those of nested items', () => {
+    const recipe = importFixture('microdata.html');
+
+    expect(recipe.title).toBe('Roasted Tomato Soup');
+    expect(recipe.description).toBe('Roasting the tomatoes first gives this soup a deeper flavor.');
+    expect(recipe.imageUrl).toBe('https://example.com/images/tomato-soup.jpg');
+    expect(recipe.prepTimeMinutes).toBe(10);
+    expect(recipe.cookTimeMinutes).toBe(45);
+    expect(recipe.servings).toBe(4);
+    expect(recipe.ingredients).toHaveLength(3);
+    expect(recipe.ingredients?.[2]).toMatchObject({ amount: '750', unit: 'ml', name: 'vegetable stock' });
+    expect(recipe.instructions).toEqual([
+      { step: 1, instruction: 'Roast the tomatoes with the oil at 200°C for 30 minutes.' },
+      { step: 2, instruction: 'Simmer with the stock for 15 minutes, then blend until smooth.' },
+    ]);
+  });
+});
+
+describe('importRecipeFromHtml', () => {
+  it('reports pages without a recipe', () => {
+    const result = importRecipeFromHtml('<html><body><h1>Just a blog post</h1></body></html>', 'user-1');
+
+    expect(result).toEqual({ error: { message: 'No schema.org Recipe found on this page', code: 'NO_RECIPE_FOUND' } });
+  });
+
+  it('leaves numeric entities that are not characters as written', () => {
+    const html = '<div itemscope itemtype="https://schema.org/Recipe"><h1 itemprop="name">Pie &#99999999; &#xD800; &#233;</h1></div>';
+    const result = importRecipeFromHtml(html, 'user-1');
+
+    expect('recipe' in result && result.recipe.title).toBe('Pie &#99999999; &#xD800; é');
+  });
+});
+
+describe('parseDuration', () => {
+  it.each([
+    ['PT15M', 15],
+    ['PT1H30M', 90],
+    ['P1DT2H', 1560],
+    ['PT90S', 2],
+    ['pt0.5h', 30],
+    ['25', 25],
+  ])('parses %s as %i minutes', (value, minutes) => {
+    expect(parseDuration(value)).toBe(minutes);
+  });
+
+  it('returns null for empty or zero durations', () => {
+    expect(parseDuration('')).toBeNull();
+    expect(parseDuration('PT0M')).toBeNull();
+    expect(parseDuration(undefined)).toBeNull();
+  });
+});
+
+describe('parseYield', () => {
+  it.each([
+    [8, 8],
+    ['4 servings', 4],
+    ['Makes 12 cookies', 12],
+    [['6', '6 servings'], 6],
+  ])('parses %p as %i', (value, servings) => {
+    expect(parseYield(value)).toBe(servings);
+  });
+
+  it('returns null when there is no count', () => {
+    expect(parseYield('a few')).toBeNull();
+  });
+});
@@ -0,0 +1,564 @@
+/**
+ * Recipe Import Service
+ * Extracts schema.org/Recipe data (JSON-LD and microdata) from web pages
+ */
+
+import { NewRecipe } from '../db/schema';
+import { parseIngredientLine, toStoredIngredient } from '../ingredients';
+import { fetchPublicUrl, readTextUpTo, UnsafeUrlError } from './safe-fetch';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RecipeImportError {
+  message: string;
+  code: 'INVALID_URL' | 'FETCH_FAILED' | 'NO_RECIPE_FOUND';
+}
+
+export interface SchemaOrgRecipe {
+  name?: unknown;
+  description?: unknown;
+  image?: unknown;
+  url?: unknown;
+  recipeIngredient?: unknown;
+  ingredients?: unknown;
+  recipeInstructions?: unknown;
+  prepTime?: unknown;
+  cookTime?: unknown;
+  totalTime?: unknown;
+  recipeYield?: unknown;
+  recipeCuisine?: unknown;
+  recipeCategory?: unknown;
+  keywords?: unknown;
+  suitableForDiet?: unknown;
+  nutrition?: unknown;
+}
+
+type RecipeDraft = NewRecipe & { sourceType: 'scraped' };
+
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_HTML_BYTES = 5 * 1024 * 1024;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export async function importRecipeFromUrl(
+  url: string,
+  userId: string
+): Promise<{ recipe: RecipeDraft } | { error: RecipeImportError }> {
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    return { error: { message: 'Invalid URL', code: 'INVALID_URL' } };
+  }
+
+  if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
+    return { error: { message: 'Only http and https URLs can be imported', code: 'INVALID_URL' } };
+  }
+
+  let html: string;
+  try {
+    html = await fetchHtml(parsedUrl);
+  } catch (error) {
+    if (error instanceof UnsafeUrlError) {
+      return { error: { message: error.message, code: 'INVALID_URL' } };
+    }
+
+    console.error('Recipe import fetch error:', error);
+    return {
+      error: {
+        message: error instanceof Error ? error.message : 'Failed to fetch page',
+        code: 'FETCH_FAILED',
+      },
+    };
+  }
+
+  return importRecipeFromHtml(html, userId, parsedUrl.toString());
+}
+
+export function importRecipeFromHtml(
+  html: string,
+  userId: string,
+  sourceUrl?: string
+): { recipe: RecipeDraft } | { error: RecipeImportError } {
+  const schemaRecipe = extractSchemaRecipe(html);
+
+  if (!schemaRecipe) {
+    return {
+      error: {
+        message: 'No schema.org Recipe found on this page',
+        code: 'NO_RECIPE_FOUND',
+      },
+    };
+  }
+
+  return { recipe: transformToRecipe(schemaRecipe, userId, sourceUrl) };
+}
+
+/**
+ * Returns the first schema.org Recipe on the page, preferring JSON-LD over microdata.
+ */
+export function extractSchemaRecipe(html: string): SchemaOrgRecipe | null {
+  return extractJsonLdRecipes(html)[0] || extractMicrodataRecipes(html)[0] || null;
+}
+
+// ============================================================================
+// HTTP Client
+// ============================================================================
+
+async function fetchHtml(url: URL): Promise<string> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    const response = await fetchPublicUrl(url, {
+      method: 'GET',
+      headers: {
+        'User-Agent': 'RecipeUp/2.0.0',
+        'Accept': 'text/html,application/xhtml+xml',
+      },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Page request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const contentLength = Number(response.headers.get('content-length'));
+    if (contentLength > MAX_HTML_BYTES) {
+      await response.body?.cancel();
+      throw new Error('Page is too large to import');
+    }
+
+    return await readTextUpTo(response, MAX_HTML_BYTES);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error('Page request timed out');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// ============================================================================
+// JSON-LD Extraction
+// ============================================================================
+
+const JSON_LD_PATTERN = /<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi;
+
+export function extractJsonLdRecipes(html: string): SchemaOrgRecipe[] {
+  const found: SchemaOrgRecipe[] = [];
+
+  for (const match of Array.from(html.matchAll(JSON_LD_PATTERN))) {
+    const raw = match[1].trim();
+    if (!raw) continue;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      // Some sites emit trailing commas or stray control characters
+      try {
+        data = JSON.parse(raw.replace(/,\s*([\]}])/g, '$1').replace(/[\u0000-\u001f]+/g, ' '));
+      } catch {
+        continue;
+      }
+    }
+
+    collectRecipeNodes(data, found, 0);
+  }
+
+  return found;
+}
+
+function collectRecipeNodes(node: unknown, found: SchemaOrgRecipe[], depth: number): void {
+  if (depth > 8 || !node || typeof node !== 'object') return;
+
+  if (Array.isArray(node)) {
+    node.forEach(child => collectRecipeNodes(child, found, depth + 1));
+    return;
+  }
+
+  const record = node as Record<string, unknown>;
+  if (isRecipeType(record['@type'])) {
+    found.push(record as SchemaOrgRecipe);
+    return;
+  }
+
+  Object.values(record).forEach(value => collectRecipeNodes(value, found, depth + 1));
+}
+
+function isRecipeType(type: unknown): boolean {
+  const types = Array.isArray(type) ? type : [type];
+  return types.some(t => typeof t === 'string' && /(^|[/:])Recipe$/i.test(t));
+}
+
+// ============================================================================
+// Microdata Extraction
+// ============================================================================
+
+const TAG_PATTERN = /<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/g;
+const VOID_ELEMENTS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const LIST_PROPS = new Set(['recipeIngredient', 'ingredients', 'recipeInstructions', 'image', 'recipeCategory', 'recipeCuisine', 'keywords']);
+
+interface OpenElement {
+  tag: string;
+  contentStart: number;
+  itemprop?: string;
+  scope?: Record<string, unknown>;
+  isRecipeScope?: boolean;
+}
+
+export function extractMicrodataRecipes(html: string): SchemaOrgRecipe[] {
+  const found: SchemaOrgRecipe[] = [];
+  const source = html.replace(/<!--[\s\S]*?-->/g, '').replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, '');
+  const stack: OpenElement[] = [];
+
+  for (const match of Array.from(source.matchAll(TAG_PATTERN))) {
+    const [fullTag, closing, rawTag, rawAttrs, selfClosing] = match;
+    const tag = rawTag.toLowerCase();
+    const index = match.index ?? 0;
+
+    if (closing) {
+      const openIndex = findLastIndex(stack, el => el.tag === tag);
+      if (openIndex === -1) continue;
+
+      while (stack.length > openIndex) {
+        const element = stack.pop()!;
+        if (element.itemprop) {
+          assignProperty(stack, element.itemprop, cleanText(stripTags(source.substring(element.contentStart, index))));
+        }
+      }
+      continue;
+    }
+
+    const attrs = parseAttributes(rawAttrs);
+    const itemprop = attrs.itemprop?.split(/\s+/)[0];
+    const hasScope = 'itemscope' in attrs;
+    const isRecipeScope = hasScope && isRecipeType(attrs.itemtype?.split(/\s+/).pop());
+    const attributeValue = readAttributeValue(tag, attrs);
+    const isVoid = VOID_ELEMENTS.has(tag) || !!selfClosing;
+
+    if (itemprop && attributeValue !== null && !hasScope) {
+      assignProperty(stack, itemprop, cleanText(attributeValue));
+      if (isVoid) continue;
+      stack.push({ tag, contentStart: index + fullTag.length });
+      continue;
+    }
+
+    if (isVoid) continue;
+
+    const element: OpenElement = { tag, contentStart: index + fullTag.length, itemprop };
+    if (hasScope) {
+      element.scope = {};
+      element.isRecipeScope = isRecipeScope;
+      if (isRecipeScope) {
+        found.push(element.scope as SchemaOrgRecipe);
+      }
+    }
+    stack.push(element);
+  }
+
+  return found;
+}
+
+function assignProperty(stack: OpenElement[], prop: string, value: string): void {
+  // The owner of a property is the nearest enclosing itemscope
+  const owner = findLast(stack, el => !!el.scope);
+  if (!owner?.isRecipeScope || !value) return;
+
+  const scope = owner.scope!;
+  if (LIST_PROPS.has(prop)) {
+    const existing = scope[prop];
+    scope[prop] = Array.isArray(existing) ? [...existing, value] : [value];
+  } else if (scope[prop] === undefined) {
+    scope[prop] = value;
+  }
+}
+
+function readAttributeValue(tag: string, attrs: Record<string, string>): string | null {
+  if (attrs.content !== undefined) return attrs.content;
+  if (tag === 'meta') return '';
+  if ((tag === 'img' || tag === 'source') && attrs.src) return attrs.src;
+  if ((tag === 'a' || tag === 'link') && attrs.href && attrs.itemprop === 'image') return attrs.href;
+  if (tag === 'link' && attrs.href) return attrs.href;
+  if (tag === 'time' && attrs.datetime) return attrs.datetime;
+  return null;
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+  for (const match of Array.from(raw.matchAll(pattern))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+
+  return attrs;
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
+
+function findLast<T>(items: T[], predicate: (item: T) => boolean): T | undefined {
+  const index = findLastIndex(items, predicate);
+  return index === -1 ? undefined : items[index];
+}
+
+// ============================================================================
+// Data Transformation
+// ============================================================================
+
+export function transformToRecipe(schemaRecipe: SchemaOrgRecipe, userId: string, sourceUrl?: string): RecipeDraft {
+  const description = cleanText(asText(schemaRecipe.description));
+  const prepTimeMinutes = parseDuration(schemaRecipe.prepTime);
+  const cookTimeMinutes = parseDuration(schemaRecipe.cookTime);
+  const totalTimeMinutes = parseDuration(schemaRecipe.totalTime);
+  const imageUrls = extractImages(schemaRecipe.image);
+  const ingredientLines = asTextList(schemaRecipe.recipeIngredient ?? schemaRecipe.ingredients);
+  const categories = asTextList(schemaRecipe.recipeCategory);
+  const cuisines = asTextList(schemaRecipe.recipeCuisine);
+  const diets = extractDiets(schemaRecipe.suitableForDiet);
+
+  return {
+    title: cleanText(asText(schemaRecipe.name)) || 'Imported Recipe',
+    description: description || null,
+    summary: description ? truncateText(description, 200) : null,
+    userId,
+    familyGroupId: null,
+
+    // Source tracking
+    sourceType: 'scraped',
+    sourceUrl: sourceUrl || asText(schemaRecipe.url) || null,
+
+    // Timing
+    prepTimeMinutes,
+    cookTimeMinutes,
+    readyInMinutes: totalTimeMinutes ?? (prepTimeMinutes || cookTimeMinutes ? (prepTimeMinutes || 0) + (cookTimeMinutes || 0) : null),
+    servings: parseYield(schemaRecipe.recipeYield) ?? 4,
+
+    // Media
+    imageUrl: imageUrls[0] || null,
+    mediaUrls: imageUrls,
+
+    // Dietary flags
+    isVegetarian: diets.includes('vegetarian'),
+    isVegan: diets.includes('vegan'),
+    isGlutenFree: diets.includes('gluten free'),
+    isDairyFree: diets.includes('dairy free') || diets.includes('lactose free'),
+
+    // Categorization
+    tags: extractKeywords(schemaRecipe.keywords),
+    dishTypes: categories.map(category => category.toLowerCase()),
+    diets,
+    occasions: [],
+    cuisine: cuisines[0] || null,
+
+    // Recipe content
+    ingredients: ingredientLines.map(line => toStoredIngredient(parseIngredientLine(line))),
+    instructions: extractInstructions(schemaRecipe.recipeInstructions),
+    equipment: [],
+
+    // Additional data
+    nutrition: transformNutrition(schemaRecipe.nutrition),
+
+    // Imported recipes start as private drafts until the user reviews them
+    visibility: 'private',
+    status: 'draft',
+  };
+}
+
+function extractInstructions(value: unknown) {
+  const texts: string[] = [];
+  collectInstructionText(value, texts, 0);
+
+  return texts.map((instruction, index) => ({
+    step: index + 1,
+    instruction,
+  }));
+}
+
+function collectInstructionText(value: unknown, texts: string[], depth: number): void {
+  if (depth > 5 || value === null || value === undefined) return;
+
+  if (typeof value === 'string') {
+    // A single block of text: split on line breaks or block-level tags
+    value
+      .split(/<\/?(?:p|li|br|ol|ul)[^>]*>|\r?\n/i)
+      .map(part => cleanText(stripTags(part)).replace(/^\d+[.)]\s+/, ''))
+      .filter(Boolean)
+      .forEach(part => texts.push(part));
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach(item => collectInstructionText(item, texts, depth + 1));
+    return;
+  }
+
+  if (typeof value === 'object') {
+    const node = value as Record<string, unknown>;
+    if (node.itemListElement) {
+      collectInstructionText(node.itemListElement, texts, depth + 1);
+    } else {
+      const text = cleanText(stripTags(asText(node.text) || asText(node.name)));
+      if (text) texts.push(text);
+    }
+  }
+}
+
+function extractImages(value: unknown): string[] {
+  const urls = new Set<string>();
+
+  const visit = (item: unknown) => {
+    if (!item) return;
+    if (typeof item === 'string') {
+      if (/^https?:\/\//i.test(item.trim())) urls.add(item.trim());
+    } else if (Array.isArray(item)) {
+      item.forEach(visit);
+    } else if (typeof item === 'object') {
+      const node = item as Record<string, unknown>;
+      visit(node.url ?? node.contentUrl ?? node['@id']);
+    }
+  };
+
+  visit(value);
+  return Array.from(urls);
+}
+
+function extractKeywords(value: unknown): string[] {
+  const keywords = asTextList(value)
+    .flatMap(keyword => keyword.split(','))
+    .map(keyword => keyword.trim().toLowerCase())
+    .filter(Boolean);
+
+  return Array.from(new Set(keywords));
+}
+
+function extractDiets(value: unknown): string[] {
+  // e.g. "https://schema.org/VeganDiet" -> "vegan"
+  return asTextList(value)
+    .map(diet => diet.split('/').pop() || '')
+    .map(diet => diet.replace(/Diet$/, '').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase())
+    .filter(Boolean);
+}
+
+function transformNutrition(value: unknown) {
+  if (!value || typeof value !== 'object') return null;
+
+  const nutritionMap: Record<string, string> = {
+    calories: 'calories',
+    fatContent: 'fat',
+    saturatedFatContent: 'saturatedFat',
+    carbohydrateContent: 'carbohydrates',
+    sugarContent: 'sugar',
+    cholesterolContent: 'cholesterol',
+    sodiumContent: 'sodium',
+    proteinContent: 'protein',
+    fiberContent: 'fiber',
+  };
+
+  const result: Record<string, number> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([key, raw]) => {
+    const mappedKey = nutritionMap[key];
+    const amount = parseFloat(asText(raw));
+    if (mappedKey && !isNaN(amount)) {
+      result[mappedKey] = amount;
+    }
+  });
+
+  return Object.keys(result).length > 0 ? result : null;
+}
+
+// ============================================================================
+// Value Parsing Helpers
+// ============================================================================
+
+/**
+ * Converts an ISO 8601 duration (e.g. "PT1H30M") to whole minutes.
+ */
+export function parseDuration(value: unknown): number | null {
+  const text = asText(value).trim();
+  if (!text) return null;
+
+  const match = text.match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (match) {
+    const [, days, hours, minutes, seconds] = match;
+    const total = Number(days || 0) * 1440 + Number(hours || 0) * 60 + Number(minutes || 0) + Number(seconds || 0) / 60;
+    return total > 0 ? Math.round(total) : null;
+  }
+
+  const plainMinutes = parseInt(text, 10);
+  return !isNaN(plainMinutes) && plainMinutes > 0 ? plainMinutes : null;
+}
+
+export function parseYield(value: unknown): number | null {
+  const candidates = Array.isArray(value) ? value : [value];
+
+  for (const candidate of candidates) {
+    if (typeof candidate === 'number' && candidate > 0) {
+      return Math.round(candidate);
+    }
+    const match = asText(candidate).match(/\d+/);
+    if (match && parseInt(match[0], 10) > 0) {
+      return parseInt(match[0], 10);
+    }
+  }
+
+  return null;
+}
+
+function asText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return value.toString();
+  if (Array.isArray(value)) return asText(value[0]);
+  if (value && typeof value === 'object') {
+    const node = value as Record<string, unknown>;
+    return asText(node.name ?? node['@value'] ?? node.text ?? '');
+  }
+  return '';
+}
+
+function asTextList(value: unknown): string[] {
+  if (value === null || value === undefined) return [];
+  const items = Array.isArray(value) ? value : [value];
+  return items.map(item => cleanText(stripTags(asText(item)))).filter(Boolean);
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ');
+}
+
+function cleanText(text: string): string {
+  return decodeEntities(text).replace(/\s+/g, ' ').trim();
+}
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+    frac12: '½', frac14: '¼', frac34: '¾', deg: '°', ndash: '–', mdash: '—',
+  };
+
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      // Out of range or a lone surrogate: not a character, so leave the entity as written
+      const invalid = isNaN(point) || point > 0x10ffff || (point >= 0xd800 && point <= 0xdfff);
+      return invalid ? entity : String.fromCodePoint(point);
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  return text.substring(0, maxLength).replace(/\s+\S*$/, '') + '...';
+}
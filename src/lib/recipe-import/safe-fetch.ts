@@ -0,0 +1,121 @@
+/**
+ * Safe Page Fetching
+ * Fetches user-supplied URLs without letting them reach the server's own network: every
+ * hop, redirects included, must be http(s) and resolve only to public addresses, and
+ * bodies are read only up to a byte limit.
+ */
+
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local and unique-local ranges, plus other addresses that never
+// belong to a public web server. IPv4-mapped IPv6 addresses are checked against the IPv4 rules.
+const BLOCKED_ADDRESSES = new BlockList();
+BLOCKED_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+BLOCKED_ADDRESSES.addSubnet('224.0.0.0', 3, 'ipv4'); // Multicast and reserved
+BLOCKED_ADDRESSES.addAddress('::', 'ipv6');
+BLOCKED_ADDRESSES.addAddress('::1', 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+BLOCKED_ADDRESSES.addSubnet('ff00::', 8, 'ipv6');
+
+// Thrown when a URL, or a redirect, points somewhere the server must not fetch
+export class UnsafeUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Throws an UnsafeUrlError unless the URL is http(s) and every address its host resolves
+ * to is public.
+ */
+export async function assertFetchableUrl(url: URL): Promise<void> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnsafeUrlError('Only http and https URLs can be imported');
+  }
+
+  // IPv6 literals come back from URL wrapped in brackets
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : (await lookup(hostname, { all: true, verbatim: true }).catch(() => {
+        throw new Error(`Could not resolve ${hostname}`);
+      })).map(entry => entry.address);
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new UnsafeUrlError('This address cannot be imported');
+  }
+}
+
+/**
+ * GETs the URL, following redirects by hand so each hop is checked before it's requested.
+ */
+export async function fetchPublicUrl(url: URL, init: RequestInit): Promise<Response> {
+  let current = url;
+
+  for (let redirects = 0; ; redirects++) {
+    await assertFetchableUrl(current);
+
+    const response = await fetch(current.toString(), { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error('Too many redirects');
+    }
+    current = new URL(location, current);
+  }
+}
+
+/**
+ * The body as text, reading no more than maxBytes of it; longer pages are cut off there.
+ */
+export async function readTextUpTo(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) {
+    return '';
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (received < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    const chunk = value.byteLength > maxBytes - received ? value.subarray(0, maxBytes - received) : value;
+    chunks.push(chunk);
+    received += chunk.byteLength;
+  }
+  await reader.cancel().catch(() => undefined);
+
+  const body = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(body);
+}
@@ -0,0 +1,88 @@
+import { formatExternalRecipeId, parseExternalRecipeId, parseLegacyRecipeId, isExternalRecipeId } from '../ids';
+import { FixtureRecipeProvider } from '../fixtures';
+import { RecipeSearchFilters } from '../../recipe-search';
+
+jest.mock('../../db', () => ({ db: {} }));
+
+const NO_FILTERS: RecipeSearchFilters = {
+  tags: [],
+  dietary: [],
+  includeIngredients: [],
+  excludeIngredients: [],
+  sortBy: 'relevance',
+  sortOrder: 'desc',
+};
+
+describe('external recipe ids', () => {
+  it('round-trips "<provider>:<id>"', () => {
+    const id = formatExternalRecipeId('spoonacular', 716429);
+
+    expect(id).toBe('spoonacular:716429');
+    expect(parseExternalRecipeId(id)).toEqual({ provider: 'spoonacular', externalId: '716429' });
+    expect(isExternalRecipeId(id)).toBe(true);
+  });
+
+  it('does not mistake local ids for external ones', () => {
+    expect(parseExternalRecipeId('x7k2m9q4')).toBeNull();
+    expect(isExternalRecipeId('716429')).toBe(false);
+  });
+
+  it('reads bare numeric ids as legacy Spoonacular ids', () => {
+    expect(parseLegacyRecipeId('716429')).toEqual({ provider: 'spoonacular', externalId: '716429' });
+    expect(parseLegacyRecipeId('x7k2m9q4')).toBeNull();
+  });
+});
+
+describe('FixtureRecipeProvider', () => {
+  const provider = new FixtureRecipeProvider();
+
+  it('searches with the same filters as local recipes', async () => {
+    const { results, totalResults } = await provider.search(
+      { ...NO_FILTERS, dietary: ['vegetarian'], tags: ['quick'] },
+      { number: 10, offset: 0 }
+    );
+
+    expect(results.map(recipe => recipe.id)).toEqual(['chickpea-curry', 'tomato-basil-pasta']);
+    expect(totalResults).toBe(2);
+  });
+
+  it('sorts and pages the matches', async () => {
+    const { results, totalResults } = await provider.search(
+      { ...NO_FILTERS, sortBy: 'rating', sortOrder: 'desc' },
+      { number: 2, offset: 1 }
+    );
+
+    expect(results.map(recipe => recipe.id)).toEqual(['salmon-rice-bowl', 'lemon-herb-chicken']);
+    expect(totalResults).toBe(5);
+  });
+
+  it('transforms a recipe under its namespaced id, with parsed ingredients', async () => {
+    const fixture = await provider.getById('chickpea-curry');
+    const recipe = provider.transformToRecipe(fixture!);
+
+    expect(recipe.id).toBe('fixture:chickpea-curry');
+    expect(parseExternalRecipeId(recipe.id)).toEqual({ provider: 'fixture', externalId: 'chickpea-curry' });
+    expect(recipe.readyInMinutes).toBe(30);
+    expect(recipe.isVegan).toBe(true);
+    expect(recipe.ingredients?.[0]).toMatchObject({ amount: '1', unit: 'tbsp', name: 'vegetable oil' });
+    expect(recipe.instructions?.[0].step).toBe(1);
+  });
+
+  it('returns null for an unknown id', async () => {
+    expect(await provider.getById('missing')).toBeNull();
+  });
+
+  it('ranks recipes by how many of the given ingredients they use', async () => {
+    const matches = await provider.findByIngredients(['garlic', 'spaghetti'], 2);
+
+    expect(matches[0]).toMatchObject({ id: 'fixture:tomato-basil-pasta', sourceType: 'fixture' });
+    expect(matches).toHaveLength(2);
+    expect(matches.every(match => match.usedIngredients.length > 0)).toBe(true);
+  });
+
+  it('picks random recipes carrying every requested tag', async () => {
+    const picks = await provider.random(5, ['Vegetarian']);
+
+    expect(picks.map(recipe => recipe.id).sort()).toEqual(['chickpea-curry', 'overnight-oats', 'tomato-basil-pasta']);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Fixture Recipe Provider
+ * Serves recipes from a JSON file so external search works in development and tests
+ * without network access or an API key
+ */
+
+import { readFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { parseIngredientLine, toStoredIngredient, ingredientKey } from '../ingredients';
+import { categorizeIngredient } from '../grocery';
+import {
+  RecipeSearchFilters,
+  matchesRecipeFilters,
+  compareSearchResults,
+  scoreIngredientCoverage,
+  compareIngredientCoverage,
+} from '../recipe-search';
+import { ProviderIngredientMatch, ProviderPage, ProviderRecipe, ProviderSearchResult, RecipeProvider, TransformOptions } from '.';
+import { formatExternalRecipeId } from './ids';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FixtureRecipe {
+  id: string;
+  title: string;
+  summary?: string;
+  imageUrl?: string;
+  sourceUrl?: string;
+  cuisine?: string;
+  dishTypes?: string[];
+  diets?: string[];
+  tags?: string[];
+  difficulty?: 'EASY' | 'MEDIUM' | 'HARD';
+  prepTimeMinutes?: number;
+  cookTimeMinutes?: number;
+  readyInMinutes?: number;
+  servings?: number;
+  healthScore?: number;
+  rating?: number;
+  vegetarian?: boolean;
+  vegan?: boolean;
+  glutenFree?: boolean;
+  dairyFree?: boolean;
+  ketogenic?: boolean;
+  whole30?: boolean;
+  lowFodmap?: boolean;
+  ingredients: string[]; // Lines like "2 cups basmati rice, rinsed"
+  instructions: string[];
+}
+
+const DEFAULT_FIXTURES_PATH = join('fixtures', 'recipes.json');
+
+// ============================================================================
+// Fixture Provider
+// ============================================================================
+
+export class FixtureRecipeProvider implements RecipeProvider<FixtureRecipe> {
+  readonly name = 'fixture';
+  readonly label = 'Sample recipes';
+  private filePath: string;
+  private recipes: Promise<FixtureRecipe[]> | null = null;
+
+  constructor(filePath?: string) {
+    this.filePath = resolve(process.cwd(), filePath || DEFAULT_FIXTURES_PATH);
+  }
+
+  private loadRecipes(): Promise<FixtureRecipe[]> {
+    if (!this.recipes) {
+      this.recipes = readFile(this.filePath, 'utf8').then(contents => {
+        const recipes = JSON.parse(contents);
+        if (!Array.isArray(recipes)) {
+          throw new Error(`Recipe fixtures in ${this.filePath} must be a JSON array`);
+        }
+        return recipes as FixtureRecipe[];
+      });
+      // Let a fixed file be picked up on the next call
+      this.recipes.catch(() => {
+        this.recipes = null;
+      });
+    }
+    return this.recipes;
+  }
+
+  async search(filters: RecipeSearchFilters, page: ProviderPage): Promise<ProviderSearchResult<FixtureRecipe>> {
+    const matches = (await this.loadRecipes())
+      .map(recipe => ({ recipe, transformed: this.transformToRecipe(recipe) }))
+      .filter(({ transformed }) => matchesRecipeFilters(transformed, filters));
+
+    // Relevance keeps file order; fixtures have no creation date to sort by
+    if (filters.sortBy !== 'relevance') {
+      const compare = compareSearchResults(filters.sortBy, filters.sortOrder);
+      const sortable = (recipe: ProviderRecipe) => ({
+        sourceType: recipe.sourceType,
+        rating: recipe.rating,
+        readyInMinutes: recipe.readyInMinutes ?? null,
+        healthScore: recipe.healthScore ?? null,
+        createdAt: null,
+      });
+      matches.sort((a, b) => compare(sortable(a.transformed), sortable(b.transformed)));
+    }
+
+    return {
+      results: matches.slice(page.offset, page.offset + page.number).map(({ recipe }) => recipe),
+      totalResults: matches.length,
+    };
+  }
+
+  async getById(externalId: string): Promise<FixtureRecipe | null> {
+    const recipes = await this.loadRecipes();
+    return recipes.find(recipe => recipe.id === externalId) || null;
+  }
+
+  async random(count: number, tags: string[] = []): Promise<FixtureRecipe[]> {
+    const wanted = tags.map(tag => tag.toLowerCase());
+    const candidates = (await this.loadRecipes()).filter(recipe => {
+      const recipeTags = [...(recipe.tags || []), ...(recipe.dishTypes || []), ...(recipe.diets || [])].map(tag => tag.toLowerCase());
+      return wanted.every(tag => recipeTags.includes(tag));
+    });
+
+    // Partial Fisher-Yates shuffle
+    for (let i = 0; i < Math.min(count, candidates.length); i++) {
+      const j = i + Math.floor(Math.random() * (candidates.length - i));
+      [candidates[i], candidates[j]] = [candidates[j], candidates[i]];
+    }
+    return candidates.slice(0, count);
+  }
+
+  transformToRecipe(recipe: FixtureRecipe, options: TransformOptions = {}): ProviderRecipe {
+    const readyInMinutes = recipe.readyInMinutes
+      ?? (recipe.prepTimeMinutes !== undefined && recipe.cookTimeMinutes !== undefined ? recipe.prepTimeMinutes + recipe.cookTimeMinutes : null);
+
+    return {
+      id: formatExternalRecipeId(this.name, recipe.id),
+      title: recipe.title,
+      description: recipe.summary || null,
+      summary: recipe.summary || null,
+      userId: options.userId ?? null,
+      familyGroupId: options.familyGroupId ?? null,
+      sourceType: this.name,
+      sourceUrl: recipe.sourceUrl || null,
+      prepTimeMinutes: recipe.prepTimeMinutes ?? null,
+      cookTimeMinutes: recipe.cookTimeMinutes ?? null,
+      readyInMinutes,
+      servings: recipe.servings,
+      imageUrl: recipe.imageUrl || null,
+      mediaUrls: recipe.imageUrl ? [recipe.imageUrl] : [],
+      difficulty: recipe.difficulty || null,
+      healthScore: recipe.healthScore ?? null,
+      isVegetarian: recipe.vegetarian || false,
+      isVegan: recipe.vegan || false,
+      isGlutenFree: recipe.glutenFree || false,
+      isDairyFree: recipe.dairyFree || false,
+      ketogenic: recipe.ketogenic || false,
+      whole30: recipe.whole30 || false,
+      fodmapFriendly: recipe.lowFodmap || false,
+      tags: recipe.tags || [],
+      dishTypes: recipe.dishTypes || [],
+      diets: recipe.diets || [],
+      cuisine: recipe.cuisine || null,
+      ingredients: recipe.ingredients.map(line => {
+        const parsed = parseIngredientLine(line);
+        return toStoredIngredient(parsed, categorizeIngredient(parsed.name));
+      }),
+      instructions: recipe.instructions.map((instruction, index) => ({ step: index + 1, instruction })),
+      visibility: 'public',
+      status: 'published',
+      rating: recipe.rating ?? null,
+    };
+  }
+
+  async findByIngredients(ingredients: string[], limit: number): Promise<ProviderIngredientMatch[]> {
+    const onHandKeys = ingredients.map(ingredientKey).filter(Boolean);
+
+    return (await this.loadRecipes())
+      .map(recipe => {
+        const transformed = this.transformToRecipe(recipe);
+        return {
+          id: transformed.id,
+          title: transformed.title,
+          imageUrl: transformed.imageUrl ?? null,
+          readyInMinutes: transformed.readyInMinutes ?? null,
+          servings: transformed.servings ?? null,
+          sourceType: this.name,
+          ...scoreIngredientCoverage(transformed.ingredients || [], onHandKeys),
+        };
+      })
+      .filter(match => match.usedIngredients.length > 0)
+      .sort(compareIngredientCoverage)
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * External Recipe Ids
+ * Recipes from an external provider are addressed as "<provider>:<id>", e.g. "spoonacular:716429".
+ * Local recipe ids never contain a colon, so the two can't be confused.
+ */
+
+export interface ExternalRecipeRef {
+  provider: string;
+  externalId: string;
+}
+
+const EXTERNAL_ID_PATTERN = /^([a-z][a-z0-9-]*):(.+)$/;
+
+export function formatExternalRecipeId(provider: string, externalId: string | number): string {
+  return `${provider}:${externalId}`;
+}
+
+export function parseExternalRecipeId(recipeId: string): ExternalRecipeRef | null {
+  const match = EXTERNAL_ID_PATTERN.exec(recipeId);
+  return match ? { provider: match[1], externalId: match[2] } : null;
+}
+
+// Spoonacular recipes used to be addressed by their bare numeric id, and old links still are.
+// Nothing stops a local id from being all digits too, so only try this once no local recipe matched.
+export function parseLegacyRecipeId(recipeId: string): ExternalRecipeRef | null {
+  return /^\d+$/.test(recipeId) ? { provider: 'spoonacular', externalId: recipeId } : null;
+}
+
+export function isExternalRecipeId(recipeId: string): boolean {
+  return EXTERNAL_ID_PATTERN.test(recipeId);
+}
@@ -0,0 +1,113 @@
+/**
+ * External Recipe Providers
+ * A common interface over the services recipes can come from besides our own database,
+ * looked up by the namespace in their recipe ids
+ */
+
+import { NewRecipe } from '../db/schema';
+import { UnitSystem } from '../units';
+import { IngredientCoverage, RecipeSearchFilters } from '../recipe-search';
+import { SpoonacularRecipeProvider } from './spoonacular';
+import { FixtureRecipeProvider } from './fixtures';
+
+export * from './ids';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ProviderPage {
+  number: number;
+  offset: number;
+}
+
+export interface ProviderSearchResult<TRecipe> {
+  results: TRecipe[];
+  totalResults: number;
+}
+
+export interface TransformOptions {
+  userId?: string | null; // Set when saving a copy to someone's collection
+  familyGroupId?: string | null;
+  unitSystem?: UnitSystem;
+}
+
+// A provider's recipe in our recipe fields, addressed by its namespaced id
+export type ProviderRecipe = Omit<NewRecipe, 'id' | 'userId' | 'sourceType'> & {
+  id: string;
+  userId: string | null;
+  sourceType: string; // The provider's name
+  rating: number | null; // 0-5, on the same scale as reviews
+};
+
+export interface ProviderIngredientMatch extends IngredientCoverage {
+  id: string;
+  title: string;
+  imageUrl: string | null;
+  readyInMinutes: number | null;
+  servings: number | null;
+  sourceType: string;
+}
+
+export interface RecipeProvider<TRecipe = any> {
+  readonly name: string; // Namespace of the provider's recipe ids
+  readonly label: string;
+
+  /**
+   * A page of recipes matching the filters. Providers apply what they can and drop results
+   * failing the rest, so a page may come back short.
+   */
+  search(filters: RecipeSearchFilters, page: ProviderPage): Promise<ProviderSearchResult<TRecipe>>;
+
+  // Null when the provider has no recipe with this id
+  getById(externalId: string, options?: { includeNutrition?: boolean }): Promise<TRecipe | null>;
+
+  random(count: number, tags?: string[]): Promise<TRecipe[]>;
+
+  transformToRecipe(recipe: TRecipe, options?: TransformOptions): ProviderRecipe;
+
+  // Recipes ranked by how many of the given ingredients they use
+  findByIngredients?(ingredients: string[], limit: number): Promise<ProviderIngredientMatch[]>;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const PROVIDER_FACTORIES: Record<string, () => RecipeProvider> = {
+  spoonacular: () => new SpoonacularRecipeProvider(),
+  fixture: () => new FixtureRecipeProvider(process.env.RECIPE_FIXTURES_PATH),
+};
+
+const providers = new Map<string, RecipeProvider>();
+
+/**
+ * The provider owning an id namespace, or null for one we don't know. Providers are created
+ * on first use, so a missing API key only matters once its recipes are asked for.
+ */
+export function getRecipeProvider(name: string): RecipeProvider | null {
+  const factory = PROVIDER_FACTORIES[name];
+  if (!factory) {
+    return null;
+  }
+
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = factory();
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * The provider external searches go to, chosen with RECIPE_PROVIDER. Set it to "fixture"
+ * to work without network access or an API key.
+ */
+export function getDefaultRecipeProvider(): RecipeProvider {
+  const name = process.env.RECIPE_PROVIDER || 'spoonacular';
+  const provider = getRecipeProvider(name);
+  if (!provider) {
+    throw new Error(`Unknown recipe provider: ${name}`);
+  }
+  return provider;
+}
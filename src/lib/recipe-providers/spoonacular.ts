@@ -0,0 +1,96 @@
+/**
+ * Spoonacular Recipe Provider
+ * Serves Spoonacular recipes through the provider interface, on top of the cached,
+ * quota-tracked Spoonacular service
+ */
+
+import { getSpoonacularService, SpoonacularRecipe, SpoonacularService } from '../spoonacular';
+import { formatQuantity } from '../ingredients';
+import { categorizeIngredient } from '../grocery';
+import {
+  RecipeSearchFilters,
+  toSpoonacularSearchParams,
+  matchesSpoonacularFilters,
+  spoonacularRating,
+} from '../recipe-search';
+import { ProviderIngredientMatch, ProviderPage, ProviderRecipe, ProviderSearchResult, RecipeProvider, TransformOptions } from '.';
+import { formatExternalRecipeId } from './ids';
+
+export class SpoonacularRecipeProvider implements RecipeProvider<SpoonacularRecipe> {
+  readonly name = 'spoonacular';
+  readonly label = 'Spoonacular';
+  private service: SpoonacularService;
+
+  constructor(service?: SpoonacularService) {
+    this.service = service || getSpoonacularService();
+  }
+
+  async search(filters: RecipeSearchFilters, page: ProviderPage): Promise<ProviderSearchResult<SpoonacularRecipe>> {
+    // Spoonacular has no difficulty data, so nothing there can match a difficulty filter
+    if (filters.difficulty) {
+      return { results: [], totalResults: 0 };
+    }
+
+    // Default to popular if there's nothing else to search by
+    const hasCriteria = Boolean(filters.query || filters.cuisine || filters.diet || filters.dietary.length > 0 || filters.includeIngredients.length > 0);
+    const response = await this.service.searchRecipes({
+      ...toSpoonacularSearchParams({ ...filters, query: hasCriteria ? filters.query : 'popular' }),
+      number: page.number,
+      offset: page.offset,
+      addRecipeNutrition: false,
+    });
+
+    return {
+      // Filters the API can't express are applied to the returned page
+      results: response.results.filter(recipe => matchesSpoonacularFilters(recipe, filters)),
+      totalResults: response.totalResults,
+    };
+  }
+
+  async getById(externalId: string, options: { includeNutrition?: boolean } = {}): Promise<SpoonacularRecipe | null> {
+    if (!/^\d+$/.test(externalId)) {
+      return null;
+    }
+
+    return this.service.getRecipeInformation(parseInt(externalId), options.includeNutrition ?? true);
+  }
+
+  async random(count: number, tags: string[] = []): Promise<SpoonacularRecipe[]> {
+    const response = await this.service.getRandomRecipes(count, tags.length > 0 ? tags.join(',') : undefined);
+    return response.recipes;
+  }
+
+  transformToRecipe(recipe: SpoonacularRecipe, options: TransformOptions = {}): ProviderRecipe {
+    return {
+      ...this.service.transformToRecipe(recipe, options.userId ?? null, options.familyGroupId, options.unitSystem),
+      id: formatExternalRecipeId(this.name, recipe.id),
+      sourceType: this.name,
+      rating: spoonacularRating(recipe),
+    };
+  }
+
+  async findByIngredients(ingredients: string[], limit: number): Promise<ProviderIngredientMatch[]> {
+    const matches = await this.service.findRecipesByIngredients(ingredients, limit);
+
+    return matches.map(match => {
+      const total = match.usedIngredientCount + match.missedIngredientCount;
+
+      return {
+        id: formatExternalRecipeId(this.name, match.id),
+        title: match.title,
+        imageUrl: match.image || null,
+        readyInMinutes: null, // Not part of findByIngredients results
+        servings: null,
+        sourceType: this.name,
+        coverage: total > 0 ? match.usedIngredientCount / total : 0,
+        usedIngredients: match.usedIngredients.map(ingredient => ingredient.name),
+        missingIngredients: match.missedIngredients.map(ingredient => ({
+          name: ingredient.name,
+          amount: ingredient.amount > 0 ? formatQuantity(ingredient.amount) : '',
+          unit: ingredient.unit || '',
+          category: categorizeIngredient(ingredient.name),
+        })),
+      };
+    });
+  }
+}
@@ -0,0 +1,24 @@
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { escapeLikePattern, hasIngredientSql } from '..';
+
+jest.mock('../../db', () => ({ db: {} }));
+
+describe('escapeLikePattern', () => {
+  it.each([
+    ['garlic', 'garlic'],
+    ['50% dark chocolate', '50\\% dark chocolate'],
+    ['rice_flour', 'rice\\_flour'],
+    ['a\\b', 'a\\\\b'],
+  ])('escapes %p as %p', (value, escaped) => {
+    expect(escapeLikePattern(value)).toBe(escaped);
+  });
+});
+
+describe('hasIngredientSql', () => {
+  it('matches the name literally, with a backslash escape', () => {
+    const query = new PgDialect().sqlToQuery(hasIngredientSql('100%_rye'));
+
+    expect(query.sql).toContain("ILIKE $1 ESCAPE '\\'");
+    expect(query.params).toEqual(['%100\\%\\_rye%']);
+  });
+});
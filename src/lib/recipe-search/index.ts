@@ -0,0 +1,529 @@
+/**
+ * Recipe Search Filters
+ * Applies the same search filters and sort orders to local recipes (as SQL), to Spoonacular
+ * results (as API params plus a post-filter for what the API can't express) and to recipes
+ * an external provider holds in memory
+ */
+
+import { db } from '../db';
+import { recipes, recipeReviews, familyGroupMembers, NewRecipe } from '../db/schema';
+import { SpoonacularRecipe, SpoonacularSearchParams } from '../spoonacular';
+import { StoredIngredient, ingredientKey } from '../ingredients';
+import { categorizeIngredient } from '../grocery';
+import { and, or, asc, desc, eq, lte, gte, count, isNotNull, sql, SQL } from 'drizzle-orm';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const DIETARY_FILTERS = ['vegetarian', 'vegan', 'gluten-free', 'dairy-free', 'keto', 'whole30', 'low-fodmap'] as const;
+
+export type DietaryFilter = typeof DIETARY_FILTERS[number];
+
+export type RecipeSortBy = 'relevance' | 'rating' | 'cookTime' | 'healthScore' | 'created';
+
+export interface RecipeSearchFilters {
+  query?: string;
+  cuisine?: string;
+  diet?: string;
+  difficulty?: 'EASY' | 'MEDIUM' | 'HARD';
+  maxCookTime?: number;
+  maxPrepTime?: number;
+  maxReadyTime?: number;
+  minHealthScore?: number;
+  tags: string[];
+  dietary: DietaryFilter[];
+  includeIngredients: string[];
+  excludeIngredients: string[];
+  sortBy: RecipeSortBy;
+  sortOrder: 'asc' | 'desc';
+}
+
+// Fields every search result carries, local or external, used to sort merged results
+export interface SortableRecipe {
+  sourceType: string | null;
+  rating: number | null;
+  readyInMinutes: number | null;
+  healthScore: number | null;
+  createdAt: Date | string | null;
+}
+
+export interface FacetCount<T = string> {
+  value: T;
+  count: number;
+}
+
+export interface RecipeFacets {
+  cuisines: FacetCount[];
+  dishTypes: FacetCount[];
+  dietary: FacetCount<DietaryFilter>[];
+  difficulty: FacetCount[];
+  readyIn: FacetCount<number>[]; // Recipes ready within `value` minutes
+}
+
+// Builds the full WHERE clause (visibility, text query and filters) for a set of filters
+export type SearchConditionsBuilder = (filters: RecipeSearchFilters) => (SQL | undefined)[];
+
+export interface TextSearch {
+  condition: SQL;
+  rank: SQL<number>;
+  highlight: {
+    title: SQL<string>;
+    snippet: SQL<string>;
+  };
+}
+
+type DietaryField = 'isVegetarian' | 'isVegan' | 'isGlutenFree' | 'isDairyFree' | 'ketogenic' | 'whole30' | 'fodmapFriendly';
+
+// Recipe fields an in-memory search can filter on
+export type FilterableRecipe = Pick<NewRecipe,
+  'title' | 'description' | 'cuisine' | 'diets' | 'tags' | 'dishTypes' | 'difficulty' | 'ingredients' |
+  'cookTimeMinutes' | 'prepTimeMinutes' | 'readyInMinutes' | 'healthScore' | DietaryField
+>;
+
+interface DietaryDefinition {
+  field: DietaryField;
+  spoonacularDiet?: string;
+  spoonacularIntolerance?: string;
+  matches: (recipe: SpoonacularRecipe) => boolean;
+}
+
+const DIETARY_DEFINITIONS: Record<DietaryFilter, DietaryDefinition> = {
+  'vegetarian': { field: 'isVegetarian', spoonacularDiet: 'vegetarian', matches: recipe => recipe.vegetarian },
+  'vegan': { field: 'isVegan', spoonacularDiet: 'vegan', matches: recipe => recipe.vegan },
+  'gluten-free': { field: 'isGlutenFree', spoonacularDiet: 'gluten free', matches: recipe => recipe.glutenFree },
+  'dairy-free': { field: 'isDairyFree', spoonacularIntolerance: 'dairy', matches: recipe => recipe.dairyFree },
+  'keto': { field: 'ketogenic', spoonacularDiet: 'ketogenic', matches: recipe => hasDiet(recipe, 'ketogenic') },
+  'whole30': { field: 'whole30', spoonacularDiet: 'whole30', matches: recipe => hasDiet(recipe, 'whole 30') },
+  'low-fodmap': { field: 'fodmapFriendly', spoonacularDiet: 'low fodmap', matches: recipe => recipe.lowFodmap || hasDiet(recipe, 'fodmap friendly') },
+};
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+export function parseList(value?: string): string[] {
+  return value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+}
+
+// ============================================================================
+// Local Recipes
+// ============================================================================
+
+// Drizzle leaves columns unqualified in a select list, where a bare "id" inside a subquery
+// would resolve to the subquery's own table
+const qualifiedRecipeId = sql`${recipes}.${sql.identifier(recipes.id.name)}`;
+
+// Average review rating, null when a recipe has no reviews
+export const recipeRatingSql = sql<number | null>`(
+  SELECT ROUND(AVG(${recipeReviews.rating})::numeric, 1)::float
+  FROM ${recipeReviews}
+  WHERE ${recipeReviews.recipeId} = ${qualifiedRecipeId}
+)`;
+
+const readyInMinutesSql = sql`COALESCE(${recipes.readyInMinutes}, ${recipes.prepTimeMinutes} + ${recipes.cookTimeMinutes}, ${recipes.cookTimeMinutes})`;
+
+/**
+ * SQL conditions for every filter except the text query, which each search mode matches its own way.
+ */
+export function buildRecipeFilterConditions(filters: RecipeSearchFilters): SQL[] {
+  const conditions: SQL[] = [];
+
+  if (filters.cuisine) {
+    conditions.push(sql`LOWER(${recipes.cuisine}) = LOWER(${filters.cuisine})`);
+  }
+
+  if (filters.diet) {
+    conditions.push(sql`EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(${recipes.diets}) AS diet
+      WHERE LOWER(diet) = LOWER(${filters.diet})
+    )`);
+  }
+
+  if (filters.difficulty) {
+    conditions.push(eq(recipes.difficulty, filters.difficulty));
+  }
+
+  if (filters.maxCookTime) {
+    conditions.push(lte(recipes.cookTimeMinutes, filters.maxCookTime));
+  }
+
+  if (filters.maxPrepTime) {
+    conditions.push(lte(recipes.prepTimeMinutes, filters.maxPrepTime));
+  }
+
+  if (filters.maxReadyTime) {
+    conditions.push(sql`${readyInMinutesSql} <= ${filters.maxReadyTime}`);
+  }
+
+  if (filters.minHealthScore !== undefined) {
+    conditions.push(gte(recipes.healthScore, filters.minHealthScore));
+  }
+
+  filters.tags.forEach(tag => {
+    conditions.push(sql`EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(${recipes.tags} || ${recipes.dishTypes} || ${recipes.diets}) AS tag
+      WHERE LOWER(tag) = LOWER(${tag})
+    )`);
+  });
+
+  filters.dietary.forEach(flag => {
+    conditions.push(eq(recipes[DIETARY_DEFINITIONS[flag].field], true));
+  });
+
+  filters.includeIngredients.forEach(ingredient => {
+    conditions.push(hasIngredientSql(ingredient));
+  });
+
+  filters.excludeIngredients.forEach(ingredient => {
+    conditions.push(sql`NOT ${hasIngredientSql(ingredient)}`);
+  });
+
+  return conditions;
+}
+
+/**
+ * Full-text match over the weighted search vector, with trigram similarity on the title
+ * catching misspellings the stemmer can't. Highlights wrap matched terms in <mark> tags;
+ * the surrounding text is not escaped, so render it as text rather than HTML.
+ */
+export function buildTextSearch(query: string): TextSearch {
+  const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+  const headlineOptions = 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2';
+  const ingredientNames = sql`(SELECT string_agg(ingredient->>'name', ', ') FROM jsonb_array_elements(${recipes.ingredients}) AS ingredient)`;
+
+  return {
+    condition: sql`(${recipes.searchVector} @@ ${tsQuery} OR ${recipes.title} % ${query} OR ${query} <% ${recipes.title})`,
+    rank: sql<number>`(ts_rank_cd(${recipes.searchVector}, ${tsQuery}, 32) + word_similarity(${query}, ${recipes.title}) * 0.5)`,
+    highlight: {
+      title: sql<string>`ts_headline('english', ${recipes.title}, ${tsQuery}, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>')`,
+      snippet: sql<string>`ts_headline('english', concat_ws(' — ', ${recipes.description}, ${ingredientNames}), ${tsQuery}, ${headlineOptions})`,
+    },
+  };
+}
+
+/**
+ * ORDER BY for local recipes. Relevance uses the text search rank when there is a query and
+ * otherwise falls back to the most recently updated first.
+ */
+export function buildRecipeOrderBy(sortBy: RecipeSortBy, sortOrder: 'asc' | 'desc', rank?: SQL<number>): SQL[] {
+  const direction = sortOrder === 'asc' ? asc : desc;
+  const nullsLast = (expression: SQL) => sql`${expression} ${sql.raw(sortOrder === 'asc' ? 'ASC' : 'DESC')} NULLS LAST`;
+
+  switch (sortBy) {
+    case 'rating':
+      return [nullsLast(recipeRatingSql), desc(recipes.updatedAt)];
+    case 'cookTime':
+      return [nullsLast(readyInMinutesSql), desc(recipes.updatedAt)];
+    case 'healthScore':
+      return [nullsLast(sql`${recipes.healthScore}`), desc(recipes.updatedAt)];
+    case 'created':
+      return [direction(recipes.createdAt)];
+    default:
+      return rank ? [desc(rank), desc(recipes.updatedAt)] : [desc(recipes.updatedAt)];
+  }
+}
+
+/**
+ * Recipes the user may see: public ones, their own, and family recipes whose owner shares
+ * one of the user's family groups. Signed out, only public recipes.
+ */
+export function recipeVisibleToSql(userId?: string): SQL {
+  if (!userId) {
+    return eq(recipes.visibility, 'public');
+  }
+
+  return or(
+    eq(recipes.visibility, 'public'),
+    eq(recipes.userId, userId),
+    and(
+      eq(recipes.visibility, 'family'),
+      sql`${recipes.userId} IN (
+        SELECT owner.user_id FROM ${familyGroupMembers} AS owner
+        JOIN ${familyGroupMembers} AS member ON member.family_group_id = owner.family_group_id
+        WHERE member.user_id = ${userId}
+      )`
+    )
+  )!;
+}
+
+export function hasIngredientSql(ingredient: string): SQL {
+  return sql`EXISTS (
+    SELECT 1 FROM jsonb_array_elements(${recipes.ingredients}) AS ingredient
+    WHERE ingredient->>'name' ILIKE ${`%${escapeLikePattern(ingredient)}%`} ESCAPE '\\'
+  )`;
+}
+
+// The value matched literally inside a LIKE pattern: "50%" is a name, not "50" and anything after
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+// ============================================================================
+// In-Memory Recipes
+// ============================================================================
+
+/**
+ * The filters of buildRecipeFilterConditions applied to a recipe already in memory, plus a
+ * plain every-word match for the text query. Missing values fail a limit, as NULL does in SQL.
+ */
+export function matchesRecipeFilters(recipe: FilterableRecipe, filters: RecipeSearchFilters): boolean {
+  const within = (value: number | null | undefined, max?: number) => !max || (value != null && value <= max);
+  const lower = (values: string[] | null | undefined) => (values || []).map(value => value.toLowerCase());
+  const ingredientNames = lower((recipe.ingredients || []).map(ingredient => ingredient.name));
+  const hasIngredient = (name: string) => ingredientNames.some(ingredientName => ingredientName.includes(name.toLowerCase()));
+  const readyIn = recipe.readyInMinutes
+    ?? (recipe.prepTimeMinutes != null && recipe.cookTimeMinutes != null ? recipe.prepTimeMinutes + recipe.cookTimeMinutes : recipe.cookTimeMinutes);
+  const recipeTags = lower([...(recipe.tags || []), ...(recipe.dishTypes || []), ...(recipe.diets || [])]);
+
+  if (filters.query) {
+    const text = [recipe.title, recipe.description, recipe.cuisine, ...recipeTags, ...ingredientNames].join(' ').toLowerCase();
+    const words = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!words.every(word => text.includes(word))) {
+      return false;
+    }
+  }
+
+  return (!filters.cuisine || recipe.cuisine?.toLowerCase() === filters.cuisine.toLowerCase())
+    && (!filters.diet || lower(recipe.diets).includes(filters.diet.toLowerCase()))
+    && (!filters.difficulty || recipe.difficulty === filters.difficulty)
+    && within(recipe.cookTimeMinutes, filters.maxCookTime)
+    && within(recipe.prepTimeMinutes, filters.maxPrepTime)
+    && within(readyIn, filters.maxReadyTime)
+    && (filters.minHealthScore === undefined || (recipe.healthScore != null && recipe.healthScore >= filters.minHealthScore))
+    && filters.tags.every(tag => recipeTags.includes(tag.toLowerCase()))
+    && filters.dietary.every(flag => recipe[DIETARY_DEFINITIONS[flag].field] === true)
+    && filters.includeIngredients.every(hasIngredient)
+    && !filters.excludeIngredients.some(hasIngredient);
+}
+
+// ============================================================================
+// Spoonacular
+// ============================================================================
+
+export function toSpoonacularSearchParams(filters: RecipeSearchFilters): SpoonacularSearchParams {
+  // Comma-separated diets and intolerances must all hold
+  const diets = [
+    ...(filters.diet ? [filters.diet] : []),
+    ...filters.dietary.flatMap(flag => DIETARY_DEFINITIONS[flag].spoonacularDiet || []),
+  ];
+  const intolerances = filters.dietary.flatMap(flag => DIETARY_DEFINITIONS[flag].spoonacularIntolerance || []);
+
+  return {
+    query: filters.query,
+    cuisine: filters.cuisine,
+    diet: diets.length > 0 ? diets.join(',') : undefined,
+    intolerances: intolerances.length > 0 ? intolerances.join(',') : undefined,
+    includeIngredients: filters.includeIngredients.length > 0 ? filters.includeIngredients.join(',') : undefined,
+    excludeIngredients: filters.excludeIngredients.length > 0 ? filters.excludeIngredients.join(',') : undefined,
+    maxReadyTime: minDefined(filters.maxCookTime, filters.maxReadyTime),
+    sort: toSpoonacularSort(filters.sortBy),
+    sortDirection: filters.sortOrder,
+  };
+}
+
+/**
+ * Filters Spoonacular has no search parameter for. Unknown prep times pass. Spoonacular has
+ * no difficulty data, so callers skip it entirely when filtering by difficulty.
+ */
+export function matchesSpoonacularFilters(recipe: SpoonacularRecipe, filters: RecipeSearchFilters): boolean {
+  if (filters.maxPrepTime && recipe.preparationMinutes && recipe.preparationMinutes > filters.maxPrepTime) {
+    return false;
+  }
+
+  if (filters.minHealthScore !== undefined && recipe.healthScore < filters.minHealthScore) {
+    return false;
+  }
+
+  if (!filters.dietary.every(flag => DIETARY_DEFINITIONS[flag].matches(recipe))) {
+    return false;
+  }
+
+  const recipeTags = [...(recipe.dishTypes || []), ...(recipe.cuisines || []), ...(recipe.diets || [])].map(tag => tag.toLowerCase());
+  return filters.tags.every(tag => recipeTags.includes(tag.toLowerCase()));
+}
+
+// Spoonacular scores recipes 0-100; reviews are 1-5 stars
+export function spoonacularRating(recipe: SpoonacularRecipe): number | null {
+  return recipe.spoonacularScore !== undefined ? Math.round(recipe.spoonacularScore / 2) / 10 : null;
+}
+
+function toSpoonacularSort(sortBy: RecipeSortBy): SpoonacularSearchParams['sort'] {
+  switch (sortBy) {
+    case 'rating':
+      return 'popularity';
+    case 'cookTime':
+      return 'time';
+    case 'healthScore':
+      return 'healthiness';
+    default:
+      return 'meta-score';
+  }
+}
+
+function minDefined(...values: (number | undefined)[]): number | undefined {
+  const defined = values.filter((value): value is number => value !== undefined);
+  return defined.length > 0 ? Math.min(...defined) : undefined;
+}
+
+function hasDiet(recipe: SpoonacularRecipe, diet: string): boolean {
+  return (recipe.diets || []).some(recipeDiet => recipeDiet.toLowerCase() === diet);
+}
+
+// ============================================================================
+// Merged Results
+// ============================================================================
+
+/**
+ * Comparator for local and Spoonacular results listed together. Missing values sort last
+ * either way; relevance has no shared score and keeps the incoming order.
+ */
+export function compareSearchResults(sortBy: RecipeSortBy, sortOrder: 'asc' | 'desc') {
+  const valueOf = (recipe: SortableRecipe): number | null => {
+    switch (sortBy) {
+      case 'rating':
+        return recipe.rating;
+      case 'cookTime':
+        return recipe.readyInMinutes || null;
+      case 'healthScore':
+        return recipe.healthScore;
+      case 'created':
+        // External recipes have no creation date of their own
+        return recipe.sourceType !== 'spoonacular' && recipe.createdAt ? new Date(recipe.createdAt).getTime() : null;
+      default:
+        return null;
+    }
+  };
+
+  return (a: SortableRecipe, b: SortableRecipe): number => {
+    const valueA = valueOf(a);
+    const valueB = valueOf(b);
+    if (valueA === valueB) return 0;
+    if (valueA === null) return 1;
+    if (valueB === null) return -1;
+    return sortOrder === 'asc' ? valueA - valueB : valueB - valueA;
+  };
+}
+
+// ============================================================================
+// Ingredients On Hand
+// ============================================================================
+
+export interface MissingIngredient {
+  name: string;
+  amount: string;
+  unit: string;
+  category: string;
+}
+
+export interface IngredientCoverage {
+  coverage: number; // Fraction of the recipe's ingredients already on hand, 0-1
+  usedIngredients: string[];
+  missingIngredients: MissingIngredient[];
+}
+
+/**
+ * Whether an ingredient is covered by what's on hand. Names match on whole words either way,
+ * so "chicken" covers "chicken breast" and "red onions" covers "onion".
+ */
+export function isOnHand(ingredientName: string, onHandKeys: string[]): boolean {
+  const key = ingredientKey(ingredientName);
+  if (!key) return false;
+
+  return onHandKeys.some(onHand =>
+    onHand === key || ` ${key} `.includes(` ${onHand} `) || ` ${onHand} `.includes(` ${key} `)
+  );
+}
+
+// Assumed to be in every kitchen, like Spoonacular's ignorePantry
+const PANTRY_STAPLES = new Set(['water', 'salt', 'pepper', 'black pepper', 'salt and pepper', 'ice', 'ice cube']);
+
+export function scoreIngredientCoverage(ingredients: StoredIngredient[], onHandKeys: string[]): IngredientCoverage {
+  const named = ingredients.filter(ingredient => ingredient.name?.trim() && !PANTRY_STAPLES.has(ingredientKey(ingredient.name)));
+  const used = named.filter(ingredient => isOnHand(ingredient.name, onHandKeys));
+  const missing = named.filter(ingredient => !isOnHand(ingredient.name, onHandKeys));
+
+  return {
+    coverage: named.length > 0 ? used.length / named.length : 0,
+    usedIngredients: used.map(ingredient => ingredient.name),
+    missingIngredients: missing.map(ingredient => ({
+      name: ingredient.name,
+      amount: ingredient.amount || '',
+      unit: ingredient.unit || '',
+      category: ingredient.category || categorizeIngredient(ingredient.name),
+    })),
+  };
+}
+
+// Best coverage first; ties go to the recipe with fewer items to buy
+export function compareIngredientCoverage(a: IngredientCoverage, b: IngredientCoverage): number {
+  return b.coverage - a.coverage || a.missingIngredients.length - b.missingIngredients.length;
+}
+
+// ============================================================================
+// Facets
+// ============================================================================
+
+export const READY_IN_BUCKETS = [15, 30, 45, 60, 90];
+
+const FACET_LIMIT = 20;
+
+/**
+ * Counts local recipes per facet value for the current search. Each facet ignores its own
+ * single-choice filter (cuisine, difficulty, ready-in time) so its other options stay
+ * visible; multi-select facets (dish types as tags, dietary flags) narrow as they're added.
+ */
+export async function getRecipeFacets(buildConditions: SearchConditionsBuilder, filters: RecipeSearchFilters): Promise<RecipeFacets> {
+  const where = (overrides: Partial<RecipeSearchFilters> = {}) => and(...buildConditions({ ...filters, ...overrides }));
+
+  const dishTypeRows = db
+    .select({ dishType: sql<string>`jsonb_array_elements_text(${recipes.dishTypes})`.as('dish_type') })
+    .from(recipes)
+    .where(where())
+    .as('recipe_dish_types');
+
+  const [cuisines, dishTypes, [dietaryCounts], difficulty, [readyInCounts]] = await Promise.all([
+    db
+      .select({ value: recipes.cuisine, count: count() })
+      .from(recipes)
+      .where(and(where({ cuisine: undefined }), isNotNull(recipes.cuisine)))
+      .groupBy(recipes.cuisine)
+      .orderBy(desc(count()))
+      .limit(FACET_LIMIT),
+    db
+      .select({ value: dishTypeRows.dishType, count: count() })
+      .from(dishTypeRows)
+      .groupBy(dishTypeRows.dishType)
+      .orderBy(desc(count()))
+      .limit(FACET_LIMIT),
+    db
+      .select(Object.fromEntries(DIETARY_FILTERS.map(flag => [
+        flag,
+        sql<number>`count(*) filter (where ${recipes[DIETARY_DEFINITIONS[flag].field]})`.mapWith(Number),
+      ])))
+      .from(recipes)
+      .where(where()),
+    db
+      .select({ value: recipes.difficulty, count: count() })
+      .from(recipes)
+      .where(and(where({ difficulty: undefined }), isNotNull(recipes.difficulty)))
+      .groupBy(recipes.difficulty),
+    db
+      .select(Object.fromEntries(READY_IN_BUCKETS.map(minutes => [
+        String(minutes),
+        sql<number>`count(*) filter (where ${readyInMinutesSql} <= ${minutes})`.mapWith(Number),
+      ])))
+      .from(recipes)
+      .where(where({ maxReadyTime: undefined })),
+  ]);
+
+  return {
+    cuisines: cuisines.map(row => ({ value: row.value!, count: row.count })),
+    dishTypes,
+    dietary: DIETARY_FILTERS.map(flag => ({ value: flag, count: dietaryCounts[flag] }))
+      .filter(facet => facet.count > 0),
+    difficulty: difficulty.map(row => ({ value: row.value!, count: row.count })),
+    readyIn: READY_IN_BUCKETS.map(minutes => ({ value: minutes, count: readyInCounts[String(minutes)] }))
+      .filter(facet => facet.count > 0),
+  };
+}
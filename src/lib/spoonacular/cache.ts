@@ -0,0 +1,148 @@
+/**
+ * Spoonacular Response Cache
+ * Persists API responses in recipe_search_cache so repeat lookups don't spend the daily quota
+ */
+
+import { createHash } from 'crypto';
+import { db } from '../db';
+import { recipeSearchCache } from '../db/schema';
+import { eq, lt } from 'drizzle-orm';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CachePolicy {
+  ttlMs: number; // Served as-is while younger than this
+  staleMs: number; // Then served while refreshing in the background for this much longer
+}
+
+export interface CachedResponse<T> {
+  data: T;
+  isFresh: boolean;
+}
+
+// ============================================================================
+// Policies
+// ============================================================================
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const CACHE_POLICIES: Array<{ pattern: RegExp; policy: CachePolicy | null }> = [
+  // Random picks should differ on every call
+  { pattern: /^\/recipes\/random$/, policy: null },
+  // Recipe details rarely change once published
+  { pattern: /^\/recipes\/\d+\/information$/, policy: { ttlMs: 7 * DAY, staleMs: 23 * DAY } },
+  { pattern: /^\/recipes\/complexSearch$/, policy: { ttlMs: 6 * HOUR, staleMs: 2 * DAY } },
+  { pattern: /^\/recipes\/findByIngredients$/, policy: { ttlMs: 6 * HOUR, staleMs: 2 * DAY } },
+];
+
+const DEFAULT_POLICY: CachePolicy = { ttlMs: HOUR, staleMs: DAY };
+
+/**
+ * How long responses from an endpoint may be cached; null when they shouldn't be.
+ */
+export function getCachePolicy(endpoint: string): CachePolicy | null {
+  const match = CACHE_POLICIES.find(entry => entry.pattern.test(endpoint));
+  return match ? match.policy : DEFAULT_POLICY;
+}
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+/**
+ * Hashes an endpoint and its params so equivalent requests share an entry: params are
+ * sorted, empty ones dropped, strings trimmed and lowercased, and list order ignored.
+ */
+export function cacheKey(endpoint: string, params: Record<string, any>): string {
+  const normalized = Object.keys(params)
+    .filter(key => key !== 'apiKey' && params[key] !== undefined && params[key] !== null && params[key] !== '')
+    .sort()
+    .map(key => [key, normalizeParam(params[key])]);
+
+  return createHash('sha256')
+    .update(`${endpoint}?${JSON.stringify(normalized)}`)
+    .digest('hex');
+}
+
+function normalizeParam(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => String(item).trim().toLowerCase()).sort().join(',');
+  }
+  if (typeof value === 'string') {
+    return value.trim().toLowerCase();
+  }
+  return value;
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Returns the cached response unless it has outlived its stale window.
+ */
+export async function readCache<T>(key: string, policy: CachePolicy): Promise<CachedResponse<T> | null> {
+  const [entry] = await db
+    .select({
+      results: recipeSearchCache.results,
+      createdAt: recipeSearchCache.createdAt,
+      expiresAt: recipeSearchCache.expiresAt,
+    })
+    .from(recipeSearchCache)
+    .where(eq(recipeSearchCache.queryHash, key))
+    .limit(1);
+
+  const now = Date.now();
+  if (!entry || entry.expiresAt.getTime() <= now) {
+    return null;
+  }
+
+  return {
+    data: entry.results as T,
+    isFresh: !!entry.createdAt && entry.createdAt.getTime() + policy.ttlMs > now,
+  };
+}
+
+/**
+ * Stores a response. Params must not include the API key.
+ */
+export async function writeCache(key: string, endpoint: string, params: Record<string, any>, data: unknown, policy: CachePolicy): Promise<void> {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + policy.ttlMs + policy.staleMs);
+  const totalResults = typeof (data as any)?.totalResults === 'number' ? (data as any).totalResults : null;
+
+  await db
+    .insert(recipeSearchCache)
+    .values({
+      queryHash: key,
+      queryParams: { endpoint, params },
+      results: data,
+      totalResults,
+      createdAt: now,
+      expiresAt,
+    })
+    .onConflictDoUpdate({
+      target: recipeSearchCache.queryHash,
+      set: {
+        results: data,
+        totalResults,
+        createdAt: now,
+        expiresAt,
+      },
+    });
+}
+
+/**
+ * Deletes entries past their stale window. Returns how many were removed.
+ */
+export async function sweepExpiredCache(): Promise<number> {
+  const removed = await db
+    .delete(recipeSearchCache)
+    .where(lt(recipeSearchCache.expiresAt, new Date()))
+    .returning({ id: recipeSearchCache.id });
+
+  return removed.length;
+}
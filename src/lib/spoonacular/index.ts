@@ -4,6 +4,21 @@
  */
 
 import { Recipe, NewRecipe } from '../db/schema';
+import { parseIngredientLine, formatQuantity, canonicalizeUnit } from '../ingredients';
+import { UnitSystem } from '../units';
+import { CachePolicy, getCachePolicy, cacheKey, readCache, writeCache, sweepExpiredCache } from './cache';
+import {
+  SpoonacularQuotaError,
+  getQuotaConfig,
+  getQuotaUsage,
+  estimateRequestPoints,
+  reservePoints,
+  settlePoints,
+  refundPoints,
+  markQuotaExhausted,
+} from './quota';
+
+export { SpoonacularQuotaError } from './quota';
 
 // ============================================================================
 // Types
@@ -22,6 +37,7 @@ export interface SpoonacularRecipe {
   cookingMinutes?: number;
   aggregateLikes: number;
   healthScore: number;
+  spoonacularScore?: number;
   creditsText?: string;
   sourceName?: string;
   pricePerServing: number;
@@ -166,6 +182,26 @@ export interface SpoonacularSearchResponse {
   totalResults: number;
 }
 
+export interface SpoonacularMatchedIngredient {
+  id: number;
+  name: string;
+  amount: number;
+  unit: string;
+  aisle?: string;
+  original?: string;
+}
+
+export interface SpoonacularIngredientMatch {
+  id: number;
+  title: string;
+  image: string;
+  likes: number;
+  usedIngredientCount: number;
+  missedIngredientCount: number;
+  usedIngredients: SpoonacularMatchedIngredient[];
+  missedIngredients: SpoonacularMatchedIngredient[];
+}
+
 export interface SpoonacularSearchParams {
   query?: string;
   cuisine?: string;
@@ -193,9 +229,9 @@ export interface SpoonacularSearchParams {
 export class SpoonacularService {
   private apiKey: string;
   private baseUrl = 'https://api.spoonacular.com';
-  private requestCount = 0;
-  private dailyLimit = 150; // Free tier
-  private lastResetTime = Date.now();
+  private cacheStats = { hits: 0, staleHits: 0, misses: 0 };
+  private revalidating = new Set<string>();
+  private lastSweepTime = 0;
 
   constructor(apiKey?: string) {
     this.apiKey = apiKey || process.env.SPOONACULAR_API_KEY || '';
@@ -208,13 +244,78 @@ export class SpoonacularService {
   // HTTP Client
   // ============================================================================
 
+  /**
+   * Serves from the response cache when possible. Stale entries are returned immediately
+   * and refreshed in the background; cache failures fall back to the API.
+   */
   private async makeRequest<T>(endpoint: string, params: Record<string, any> = {}): Promise<T> {
-    // Rate limiting check
-    this.checkRateLimit();
+    const policy = getCachePolicy(endpoint);
+    if (!policy) {
+      return this.fetchFromApi<T>(endpoint, params);
+    }
+
+    const key = cacheKey(endpoint, params);
+    const cached = await readCache<T>(key, policy).catch(error => {
+      console.error('Spoonacular cache read error:', error);
+      return null;
+    });
+
+    if (cached?.isFresh) {
+      this.cacheStats.hits++;
+      return cached.data;
+    }
+
+    if (cached) {
+      this.cacheStats.staleHits++;
+      this.revalidate(key, endpoint, params, policy);
+      return cached.data;
+    }
+
+    this.cacheStats.misses++;
+    const data = await this.fetchFromApi<T>(endpoint, params);
+    await this.storeInCache(key, endpoint, params, data, policy);
+    return data;
+  }
+
+  private revalidate(key: string, endpoint: string, params: Record<string, any>, policy: CachePolicy): void {
+    if (this.revalidating.has(key)) {
+      return;
+    }
+
+    this.revalidating.add(key);
+    this.fetchFromApi(endpoint, params)
+      .then(data => this.storeInCache(key, endpoint, params, data, policy))
+      .catch(error => console.error('Spoonacular cache revalidation error:', error))
+      .finally(() => this.revalidating.delete(key));
+  }
+
+  private async storeInCache(key: string, endpoint: string, params: Record<string, any>, data: unknown, policy: CachePolicy): Promise<void> {
+    try {
+      await writeCache(key, endpoint, params, data, policy);
+    } catch (error) {
+      console.error('Spoonacular cache write error:', error);
+    }
+
+    // Clear out expired entries at most once an hour
+    if (Date.now() - this.lastSweepTime > 60 * 60 * 1000) {
+      this.lastSweepTime = Date.now();
+      sweepExpiredCache().catch(error => console.error('Spoonacular cache sweep error:', error));
+    }
+  }
+
+  /**
+   * Calls the API after claiming its estimated points from the shared daily quota, then
+   * settles the claim with the cost Spoonacular reports in its response headers.
+   */
+  private async fetchFromApi<T>(endpoint: string, requestParams: Record<string, any> = {}): Promise<T> {
+    const estimate = estimateRequestPoints(endpoint, requestParams);
+    if (!(await reservePoints(estimate, endpoint))) {
+      throw new SpoonacularQuotaError();
+    }
 
     // Build URL
     const url = new URL(`${this.baseUrl}${endpoint}`);
-    params.apiKey = this.apiKey;
+    const params = { ...requestParams, apiKey: this.apiKey };
 
     // Add params to URL
     Object.entries(params).forEach(([key, value]) => {
@@ -227,14 +328,33 @@ export class SpoonacularService {
       }
     });
 
+    let response: Response;
     try {
-      const response = await fetch(url.toString(), {
+      response = await fetch(url.toString(), {
         method: 'GET',
         headers: {
           'User-Agent': 'RecipeUp/2.0.0',
           'Accept': 'application/json',
         },
       });
+    } catch (error) {
+      // Never reached Spoonacular, so nothing was charged
+      await refundPoints(estimate).catch(refundError => console.error('Spoonacular quota refund error:', refundError));
+      console.error('Spoonacular API error:', error);
+      throw error;
+    }
+
+    try {
+      if (response.status === 402) {
+        await markQuotaExhausted();
+        throw new SpoonacularQuotaError();
+      }
+
+      await settlePoints(
+        estimate,
+        parseQuotaHeader(response.headers.get('X-API-Quota-Request')),
+        parseQuotaHeader(response.headers.get('X-API-Quota-Used'))
+      );
 
       if (response.status === 429) {
         throw new Error('Rate limit exceeded');
@@ -245,7 +365,6 @@ export class SpoonacularService {
         throw new Error(`API request failed: ${response.status} ${response.statusText} - ${errorData?.message || 'Unknown error'}`);
       }
 
-      this.requestCount++;
       return await response.json();
     } catch (error) {
       console.error('Spoonacular API error:', error);
@@ -253,21 +372,6 @@ export class SpoonacularService {
     }
   }
 
-  private checkRateLimit(): void {
-    const now = Date.now();
-    const timeSinceReset = now - this.lastResetTime;
-    
-    // Reset counter daily
-    if (timeSinceReset > 24 * 60 * 60 * 1000) {
-      this.requestCount = 0;
-      this.lastResetTime = now;
-    }
-    
-    if (this.requestCount >= this.dailyLimit) {
-      throw new Error('Daily rate limit exceeded');
-    }
-  }
-
   // ============================================================================
   // API Methods
   // ============================================================================
@@ -290,6 +394,19 @@ export class SpoonacularService {
     });
   }
 
+  /**
+   * Recipes that use the given ingredients, ranked to use as many of them as possible.
+   * Pantry staples like water and salt are ignored on both sides.
+   */
+  async findRecipesByIngredients(ingredients: string[], number = 12): Promise<SpoonacularIngredientMatch[]> {
+    return this.makeRequest<SpoonacularIngredientMatch[]>('/recipes/findByIngredients', {
+      ingredients,
+      number,
+      ranking: 1,
+      ignorePantry: true,
+    });
+  }
+
   async getRandomRecipes(count = 1, tags?: string): Promise<{ recipes: SpoonacularRecipe[] }> {
     return this.makeRequest<{ recipes: SpoonacularRecipe[] }>('/recipes/random', {
       number: count,
@@ -301,7 +418,16 @@ export class SpoonacularService {
   // Data Transformation
   // ============================================================================
 
-  transformToRecipe(spoonRecipe: SpoonacularRecipe, userId: string, familyGroupId?: string): NewRecipe {
+  /**
+   * Maps a Spoonacular recipe to our recipe fields. Without a user it describes the recipe as
+   * served from Spoonacular rather than a copy saved to someone's collection.
+   */
+  transformToRecipe(
+    spoonRecipe: SpoonacularRecipe,
+    userId: string | null,
+    familyGroupId?: string | null,
+    system: UnitSystem = 'us'
+  ): Omit<NewRecipe, 'userId'> & { userId: string | null } {
     return {
       title: spoonRecipe.title,
       description: this.stripHtml(spoonRecipe.summary),
@@ -353,7 +479,7 @@ export class SpoonacularService {
       cuisine: spoonRecipe.cuisines?.[0] || null,
       
       // Recipe content
-      ingredients: this.transformIngredients(spoonRecipe.extendedIngredients || []),
+      ingredients: this.transformIngredients(spoonRecipe.extendedIngredients || [], system),
       instructions: this.transformInstructions(spoonRecipe.analyzedInstructions || []),
       equipment: this.transformEquipment(spoonRecipe.analyzedInstructions || []),
       
@@ -368,14 +494,8 @@ export class SpoonacularService {
     };
   }
 
-  private transformIngredients(ingredients: SpoonacularRecipe['extendedIngredients']) {
-    return ingredients.map(ingredient => ({
-      name: ingredient.nameClean || ingredient.name,
-      amount: ingredient.amount.toString(),
-      unit: ingredient.measures.us.unitShort,
-      notes: ingredient.original,
-      category: ingredient.aisle?.toLowerCase() || 'pantry',
-    }));
+  private transformIngredients(ingredients: SpoonacularRecipe['extendedIngredients'], system: UnitSystem) {
+    return ingredients.map(ingredient => transformIngredient(ingredient, system));
   }
 
   private transformInstructions(instructions: SpoonacularRecipe['analyzedInstructions']) {
@@ -489,19 +609,63 @@ export class SpoonacularService {
   // Status Methods
   // ============================================================================
 
-  getStatus() {
-    const remaining = Math.max(0, this.dailyLimit - this.requestCount);
-    const resetTime = new Date(this.lastResetTime + 24 * 60 * 60 * 1000);
-    
+  async getStatus() {
+    const { dailyPoints, detailReserve } = getQuotaConfig();
+    const usage = await getQuotaUsage();
+    const remaining = Math.max(0, dailyPoints - usage.pointsUsed);
+    const resetTime = new Date(`${usage.day}T00:00:00.000Z`);
+    resetTime.setUTCDate(resetTime.getUTCDate() + 1);
+
+    const { hits, staleHits, misses } = this.cacheStats;
+    const lookups = hits + staleHits + misses;
+
     return {
-      requestCount: this.requestCount,
-      remainingRequests: remaining,
+      requestCount: usage.requestCount,
+      pointsUsed: usage.pointsUsed,
+      remainingPoints: remaining,
+      detailReserve,
       resetTime: resetTime.toISOString(),
-      isHealthy: remaining > 0,
+      isHealthy: remaining > detailReserve,
+      cache: {
+        hits,
+        staleHits,
+        misses,
+        hitRate: lookups > 0 ? (hits + staleHits) / lookups : 0,
+      },
     };
   }
 }
 
+function parseQuotaHeader(value: string | null): number | null {
+  const points = value === null ? NaN : parseFloat(value);
+  return isFinite(points) ? points : null;
+}
+
+// ============================================================================
+// Ingredient Transformation
+// ============================================================================
+
+/**
+ * Maps a Spoonacular ingredient to our stored format, keeping preparation notes
+ * ("chopped", "at room temperature") instead of the whole original line.
+ * Spoonacular provides both US and metric measures; pick the one matching the viewer.
+ */
+export function transformIngredient(ingredient: SpoonacularRecipe['extendedIngredients'][number], system: UnitSystem = 'us') {
+  const parsed = parseIngredientLine(ingredient.original || '');
+  const preparation = ingredient.meta?.length ? ingredient.meta.join(', ') : parsed.preparation;
+  const measure = ingredient.measures?.[system];
+  const amount = measure?.amount ?? ingredient.amount;
+  const unit = measure?.unitShort ?? ingredient.unit;
+
+  return {
+    name: ingredient.nameClean || ingredient.name,
+    amount: amount ? formatQuantity(amount) : '',
+    unit: canonicalizeUnit(unit) ?? unit ?? '',
+    ...(preparation && { notes: preparation }),
+    category: ingredient.aisle?.toLowerCase() || 'pantry',
+  };
+}
+
 // ============================================================================
 // Singleton Export
 // ============================================================================
@@ -0,0 +1,167 @@
+/**
+ * Spoonacular Quota
+ * Tracks points spent per UTC day in the database so every server instance shares one
+ * budget, with part of it held back for recipe detail lookups
+ */
+
+import { db } from '../db';
+import { apiQuotaUsage } from '../db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+const PROVIDER = 'spoonacular';
+
+export interface QuotaConfig {
+  dailyPoints: number;
+  detailReserve: number; // Points only detail lookups may spend
+}
+
+export interface QuotaUsage {
+  day: string;
+  pointsUsed: number;
+  requestCount: number;
+}
+
+export class SpoonacularQuotaError extends Error {
+  constructor(message = 'Spoonacular daily quota exhausted') {
+    super(message);
+    this.name = 'SpoonacularQuotaError';
+  }
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export function getQuotaConfig(): QuotaConfig {
+  const dailyPoints = Number(process.env.SPOONACULAR_DAILY_POINTS) || 150; // Free tier
+  const detailReserve = Number(process.env.SPOONACULAR_DETAIL_RESERVE ?? 15);
+
+  return {
+    dailyPoints,
+    detailReserve: Math.min(Math.max(detailReserve || 0, 0), dailyPoints),
+  };
+}
+
+export function isDetailEndpoint(endpoint: string): boolean {
+  return /^\/recipes\/\d+\/information$/.test(endpoint);
+}
+
+/**
+ * Upper-bound estimate of a request's cost under Spoonacular's point billing: one point per
+ * call, a hundredth per result, and a fortieth per result for each add-on of recipe data.
+ */
+export function estimateRequestPoints(endpoint: string, params: Record<string, any>): number {
+  const results = isDetailEndpoint(endpoint) ? 1 : Number(params.number) || 10;
+  const addOns = ['addRecipeInformation', 'fillIngredients', 'addRecipeNutrition', 'includeNutrition']
+    .filter(flag => params[flag] === true).length;
+
+  return 1 + (isDetailEndpoint(endpoint) ? 0 : results * 0.01) + results * addOns * 0.025;
+}
+
+// Spoonacular's quota day starts at midnight UTC
+export function currentQuotaDay(now = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+// ============================================================================
+// Accounting
+// ============================================================================
+
+/**
+ * Atomically claims points for a request. Searches stop short of the detail reserve;
+ * detail lookups may use the whole budget. Returns false when the points aren't available.
+ */
+export async function reservePoints(points: number, endpoint: string): Promise<boolean> {
+  const { dailyPoints, detailReserve } = getQuotaConfig();
+  const limit = isDetailEndpoint(endpoint) ? dailyPoints : dailyPoints - detailReserve;
+
+  if (points > limit) {
+    return false;
+  }
+
+  const reserved = await db
+    .insert(apiQuotaUsage)
+    .values({
+      provider: PROVIDER,
+      day: currentQuotaDay(),
+      pointsUsed: points,
+      requestCount: 1,
+    })
+    .onConflictDoUpdate({
+      target: [apiQuotaUsage.provider, apiQuotaUsage.day],
+      set: {
+        pointsUsed: sql`${apiQuotaUsage.pointsUsed} + ${points}`,
+        requestCount: sql`${apiQuotaUsage.requestCount} + 1`,
+        updatedAt: new Date(),
+      },
+      setWhere: sql`${apiQuotaUsage.pointsUsed} + ${points} <= ${limit}`,
+    })
+    .returning({ id: apiQuotaUsage.id });
+
+  return reserved.length > 0;
+}
+
+/**
+ * Replaces a reservation with what Spoonacular actually charged. When it reports the day's
+ * total, that wins, since it also counts usage from outside this app.
+ */
+export async function settlePoints(reserved: number, charged: number | null, reportedTotal: number | null): Promise<void> {
+  const adjustment = charged !== null ? charged - reserved : 0;
+
+  await db
+    .update(apiQuotaUsage)
+    .set({
+      pointsUsed: reportedTotal !== null
+        ? sql`GREATEST(${apiQuotaUsage.pointsUsed} + ${adjustment}, ${reportedTotal})`
+        : sql`${apiQuotaUsage.pointsUsed} + ${adjustment}`,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(apiQuotaUsage.provider, PROVIDER), eq(apiQuotaUsage.day, currentQuotaDay())));
+}
+
+// Gives back points for a request that never reached Spoonacular
+export async function refundPoints(points: number): Promise<void> {
+  await db
+    .update(apiQuotaUsage)
+    .set({
+      pointsUsed: sql`GREATEST(${apiQuotaUsage.pointsUsed} - ${points}, 0)`,
+      requestCount: sql`GREATEST(${apiQuotaUsage.requestCount} - 1, 0)`,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(apiQuotaUsage.provider, PROVIDER), eq(apiQuotaUsage.day, currentQuotaDay())));
+}
+
+// Spoonacular refused a request for quota; nothing more can be spent today
+export async function markQuotaExhausted(): Promise<void> {
+  const { dailyPoints } = getQuotaConfig();
+
+  await db
+    .update(apiQuotaUsage)
+    .set({
+      pointsUsed: sql`GREATEST(${apiQuotaUsage.pointsUsed}, ${dailyPoints})`,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(apiQuotaUsage.provider, PROVIDER), eq(apiQuotaUsage.day, currentQuotaDay())));
+}
+
+export async function getQuotaUsage(): Promise<QuotaUsage> {
+  const day = currentQuotaDay();
+  const [usage] = await db
+    .select({
+      pointsUsed: apiQuotaUsage.pointsUsed,
+      requestCount: apiQuotaUsage.requestCount,
+    })
+    .from(apiQuotaUsage)
+    .where(and(eq(apiQuotaUsage.provider, PROVIDER), eq(apiQuotaUsage.day, day)))
+    .limit(1);
+
+  return {
+    day,
+    pointsUsed: usage?.pointsUsed ?? 0,
+    requestCount: usage?.requestCount ?? 0,
+  };
+}
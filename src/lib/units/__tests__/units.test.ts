@@ -0,0 +1,163 @@
+import { StoredIngredient } from '../../ingredients';
+import {
+  convertIngredient,
+  convertInstruction,
+  convertQuantity,
+  convertTemperature,
+  scaleIngredient,
+  scaleIngredients,
+  simplifyQuantity,
+} from '..';
+
+function ingredient(amount: string, unit: string, name = 'sugar'): StoredIngredient {
+  return { name, amount, unit };
+}
+
+describe('simplifyQuantity', () => {
+  it.each([
+    [24, 'tsp', 0.5, 'cup'],
+    [3, 'tsp', 1, 'tbsp'],
+    [4, 'tbsp', 0.25, 'cup'],
+    [1500, 'g', 1.5, 'kg'],
+    [0.5, 'kg', 500, 'g'],
+    [20, 'oz', 1.25, 'lb'],
+    [1500, 'ml', 1.5, 'l'],
+  ])('reads %p %s as %p %s', (value, unit, expectedValue, expectedUnit) => {
+    const simplified = simplifyQuantity(value, unit);
+
+    expect(simplified.value).toBeCloseTo(expectedValue, 3);
+    expect(simplified.unit).toBe(expectedUnit);
+  });
+
+  it('keeps fluid ounces, pints and quarts of a cup or more', () => {
+    expect(simplifyQuantity(16, 'fl oz')).toEqual({ value: 16, unit: 'fl oz' });
+    expect(simplifyQuantity(2, 'qt')).toEqual({ value: 2, unit: 'qt' });
+  });
+
+  it('leaves units it does not know as written', () => {
+    expect(simplifyQuantity(6, 'cloves')).toEqual({ value: 6, unit: 'cloves' });
+  });
+});
+
+describe('scaleIngredient', () => {
+  it.each([
+    ['1', 'cup', 0.5, '1/2', 'cup'],
+    ['1/4', 'cup', 0.25, '1', 'tbsp'],
+    ['1', 'tsp', 3, '1', 'tbsp'],
+    ['500', 'g', 3, '1 1/2', 'kg'],
+    ['3', 'fl oz', 0.5, '3', 'tbsp'],
+    ['2', 'cloves', 1.5, '3', 'cloves'],
+  ])('scales %s %s by %p to %s %s', (amount, unit, factor, expectedAmount, expectedUnit) => {
+    expect(scaleIngredient(ingredient(amount, unit), factor)).toMatchObject({ amount: expectedAmount, unit: expectedUnit });
+  });
+
+  it('carries the upper bound of a range in the unit chosen for the lower one', () => {
+    expect(scaleIngredient(ingredient('1-2', 'tbsp'), 4)).toMatchObject({ amount: '1/4-1/2', unit: 'cup' });
+    expect(scaleIngredient(ingredient('2-3', 'cloves'), 2)).toMatchObject({ amount: '4-6', unit: 'cloves' });
+  });
+
+  it('lets the upper bound pick the unit of a range starting at zero', () => {
+    expect(scaleIngredient(ingredient('0-1', 'tsp'), 3)).toMatchObject({ amount: '0-1', unit: 'tbsp' });
+  });
+
+  it('keeps the other fields', () => {
+    const scaled = scaleIngredient({ name: 'butter', amount: '2', unit: 'tbsp', notes: 'softened', category: 'dairy' }, 2);
+
+    expect(scaled).toEqual({ name: 'butter', amount: '1/4', unit: 'cup', notes: 'softened', category: 'dairy' });
+  });
+
+  it('returns ingredients without an amount, or an unusable factor, unchanged', () => {
+    const salt = ingredient('', '', 'salt');
+    const flour = ingredient('2', 'cup', 'flour');
+
+    expect(scaleIngredient(salt, 2)).toBe(salt);
+    expect(scaleIngredient(flour, 1)).toBe(flour);
+    expect(scaleIngredient(flour, 0)).toBe(flour);
+    expect(scaleIngredient(flour, Infinity)).toBe(flour);
+  });
+});
+
+describe('scaleIngredients', () => {
+  it('scales by the ratio of servings', () => {
+    const scaled = scaleIngredients([ingredient('8', 'tsp'), ingredient('1', 'egg', 'eggs')], 4, 12);
+
+    expect(scaled).toEqual([
+      { name: 'sugar', amount: '1/2', unit: 'cup' },
+      { name: 'eggs', amount: '3', unit: 'egg' },
+    ]);
+  });
+
+  it('returns the list unchanged without both serving counts', () => {
+    const ingredients = [ingredient('1', 'cup')];
+
+    expect(scaleIngredients(ingredients, 0, 4)).toBe(ingredients);
+    expect(scaleIngredients(ingredients, 4, 4)).toBe(ingredients);
+  });
+});
+
+describe('convertQuantity', () => {
+  it.each([
+    [1, 'cup', 'metric', undefined, 235, 'ml'],
+    [2, 'cup', 'metric', 'whole milk', 475, 'ml'],
+    [1, 'cup', 'metric', 'all-purpose flour', 125, 'g'],
+    [1, 'lb', 'metric', undefined, 455, 'g'],
+    [3, 'lb', 'metric', undefined, 1.36, 'kg'],
+    [200, 'g', 'us', 'sugar', 0.99, 'cup'],
+    [500, 'ml', 'us', undefined, 2.11, 'cup'],
+    [100, 'g', 'us', undefined, 3.53, 'oz'],
+  ] as const)('converts %p %s to %s (%s) as %p %s', (value, unit, system, name, expectedValue, expectedUnit) => {
+    const converted = convertQuantity(value, unit, system, name);
+
+    expect(converted.value).toBeCloseTo(expectedValue, 2);
+    expect(converted.unit).toBe(expectedUnit);
+  });
+
+  it('rounds metric amounts to what a scale or jug shows', () => {
+    expect(convertQuantity(1, 'fl oz', 'metric')).toEqual({ value: 30, unit: 'ml' });
+    expect(convertQuantity(1, 'oz', 'metric')).toEqual({ value: 28, unit: 'g' });
+  });
+
+  it('only simplifies amounts already in the system', () => {
+    expect(convertQuantity(1500, 'g', 'metric', 'flour')).toEqual({ value: 1.5, unit: 'kg' });
+    expect(convertQuantity(2, 'cup', 'us', 'flour')).toEqual({ value: 2, unit: 'cup' });
+  });
+
+  it('leaves spoon measures, counts and unknown units alone', () => {
+    expect(convertQuantity(2, 'tsp', 'metric', 'salt')).toEqual({ value: 2, unit: 'tsp' });
+    expect(convertQuantity(3, '', 'metric', 'eggs')).toEqual({ value: 3, unit: '' });
+    expect(convertQuantity(2, 'cloves', 'us', 'garlic')).toEqual({ value: 2, unit: 'cloves' });
+  });
+});
+
+describe('convertIngredient', () => {
+  it('formats the converted amount', () => {
+    expect(convertIngredient(ingredient('1 1/2', 'cup', 'flour'), 'metric')).toMatchObject({ amount: '190', unit: 'g' });
+    expect(convertIngredient(ingredient('200', 'g', 'sugar'), 'us')).toMatchObject({ amount: '1', unit: 'cup' });
+  });
+
+  it('converts both ends of a range', () => {
+    expect(convertIngredient(ingredient('1-2', 'cup', 'milk'), 'metric')).toMatchObject({ amount: '235-470', unit: 'ml' });
+  });
+
+  it('returns ingredients without an amount unchanged', () => {
+    const pepper = ingredient('', '', 'black pepper');
+
+    expect(convertIngredient(pepper, 'metric')).toBe(pepper);
+  });
+});
+
+describe('temperatures', () => {
+  it('converts between scales', () => {
+    expect(convertTemperature(212, 'F', 'C')).toBe(100);
+    expect(convertTemperature(180, 'C', 'F')).toBe(356);
+    expect(convertTemperature(350, 'F', 'F')).toBe(350);
+  });
+
+  it("rounds an instruction's oven temperature to 5 degrees on the system's scale", () => {
+    const step = { step: 1, instruction: 'Bake', temperature: { value: 350, unit: 'F' as const } };
+
+    expect(convertInstruction(step, 'metric').temperature).toEqual({ value: 175, unit: 'C' });
+    expect(convertInstruction(step, 'us')).toBe(step);
+    expect(convertInstruction({ step: 2, instruction: 'Rest', temperature: null }, 'metric').temperature).toBeNull();
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * Unit Math
+ * Unit definitions, quantity scaling, unit promotion (24 tsp -> 1/2 cup)
+ * and conversion between US and metric measurements
+ */
+
+import {
+  StoredIngredient,
+  canonicalizeUnit,
+  formatQuantityRange,
+  parseQuantity,
+} from '../ingredients';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type UnitDimension = 'volume' | 'mass';
+export type UnitSystem = 'us' | 'metric';
+export type TemperatureUnit = 'F' | 'C';
+
+export interface UnitDefinition {
+  dimension: UnitDimension;
+  system: UnitSystem;
+  toBase: number; // Milliliters for volume, grams for mass
+}
+
+/**
+ * A parsed amount ready for arithmetic. Volumes and masses are held in base units so
+ * they can be combined across units; other units only combine with themselves.
+ */
+export interface Measure {
+  group: string; // 'volume', 'mass', or the unit itself ("clove", "" for plain counts)
+  dimension: UnitDimension | null;
+  system: UnitSystem;
+  unit: string;
+  value: number;
+  valueMax: number;
+}
+
+// ============================================================================
+// Unit Definitions
+// ============================================================================
+
+export const UNITS: Record<string, UnitDefinition> = {
+  // US volume
+  tsp: { dimension: 'volume', system: 'us', toBase: 4.92892 },
+  tbsp: { dimension: 'volume', system: 'us', toBase: 14.7868 },
+  'fl oz': { dimension: 'volume', system: 'us', toBase: 29.5735 },
+  cup: { dimension: 'volume', system: 'us', toBase: 236.588 },
+  pt: { dimension: 'volume', system: 'us', toBase: 473.176 },
+  qt: { dimension: 'volume', system: 'us', toBase: 946.353 },
+  gal: { dimension: 'volume', system: 'us', toBase: 3785.41 },
+
+  // Metric volume
+  ml: { dimension: 'volume', system: 'metric', toBase: 1 },
+  cl: { dimension: 'volume', system: 'metric', toBase: 10 },
+  dl: { dimension: 'volume', system: 'metric', toBase: 100 },
+  l: { dimension: 'volume', system: 'metric', toBase: 1000 },
+
+  // US mass
+  oz: { dimension: 'mass', system: 'us', toBase: 28.3495 },
+  lb: { dimension: 'mass', system: 'us', toBase: 453.592 },
+
+  // Metric mass
+  mg: { dimension: 'mass', system: 'metric', toBase: 0.001 },
+  g: { dimension: 'mass', system: 'metric', toBase: 1 },
+  kg: { dimension: 'mass', system: 'metric', toBase: 1000 },
+};
+
+/**
+ * Units used when presenting a quantity, largest first, with the smallest amount
+ * (in base units) at which each one reads naturally.
+ */
+const DISPLAY_LADDERS: Record<UnitDimension, Record<UnitSystem, Array<{ unit: string; minimum: number }>>> = {
+  volume: {
+    us: [
+      { unit: 'gal', minimum: 3785.41 * 2 },
+      { unit: 'cup', minimum: 236.588 / 4 },
+      { unit: 'tbsp', minimum: 14.7868 },
+      { unit: 'tsp', minimum: 0 },
+    ],
+    metric: [
+      { unit: 'l', minimum: 1000 },
+      { unit: 'ml', minimum: 0 },
+    ],
+  },
+  mass: {
+    us: [
+      { unit: 'lb', minimum: 453.592 },
+      { unit: 'oz', minimum: 0 },
+    ],
+    metric: [
+      { unit: 'kg', minimum: 1000 },
+      { unit: 'g', minimum: 1 },
+      { unit: 'mg', minimum: 0 },
+    ],
+  },
+};
+
+/**
+ * Approximate densities for ingredients commonly measured by volume in US recipes
+ * and by weight in metric ones. `weighed` marks ingredients metric cooks put on a scale.
+ */
+const INGREDIENT_DENSITIES: Array<{ pattern: RegExp; gramsPerMl: number; weighed: boolean }> = [
+  { pattern: /\bbread flour\b/, gramsPerMl: 0.55, weighed: true },
+  { pattern: /\b(?:whole wheat|wholemeal) flour\b/, gramsPerMl: 0.51, weighed: true },
+  { pattern: /\bflour\b/, gramsPerMl: 0.53, weighed: true },
+  { pattern: /\b(?:powdered|icing|confectioners'?) sugar\b/, gramsPerMl: 0.51, weighed: true },
+  { pattern: /\bbrown sugar\b/, gramsPerMl: 0.93, weighed: true },
+  { pattern: /\bsugar\b/, gramsPerMl: 0.85, weighed: true },
+  { pattern: /\bcocoa\b/, gramsPerMl: 0.42, weighed: true },
+  { pattern: /\bbutter\b/, gramsPerMl: 0.96, weighed: true },
+  { pattern: /\b(?:rolled )?oats\b/, gramsPerMl: 0.38, weighed: true },
+  { pattern: /\brice\b/, gramsPerMl: 0.78, weighed: true },
+  { pattern: /\bchocolate chips?\b/, gramsPerMl: 0.72, weighed: true },
+  { pattern: /\b(?:bread ?crumbs|panko)\b/, gramsPerMl: 0.45, weighed: true },
+  { pattern: /\b(?:shredded|grated) (?:\w+ )?cheese\b|\bparmesan\b/, gramsPerMl: 0.42, weighed: true },
+  { pattern: /\b(?:almonds|walnuts|pecans|nuts)\b/, gramsPerMl: 0.51, weighed: true },
+  { pattern: /\bsalt\b/, gramsPerMl: 1.2, weighed: false },
+  { pattern: /\bhoney\b|\bmaple syrup\b/, gramsPerMl: 1.42, weighed: false },
+  { pattern: /\boil\b/, gramsPerMl: 0.92, weighed: false },
+  { pattern: /\b(?:milk|cream|buttermilk|yogurt)\b/, gramsPerMl: 1.03, weighed: false },
+  { pattern: /\b(?:water|stock|broth)\b/, gramsPerMl: 1, weighed: false },
+];
+
+// Spoon measures are used as-is in both US and metric kitchens
+const SYSTEM_NEUTRAL_UNITS = new Set(['tsp', 'tbsp']);
+
+// ============================================================================
+// Conversion Helpers
+// ============================================================================
+
+export function getUnitDefinition(unit: string | null | undefined): UnitDefinition | null {
+  const canonical = canonicalizeUnit(unit);
+  return canonical ? UNITS[canonical] ?? null : null;
+}
+
+export function toBaseUnits(value: number, unit: string): number | null {
+  const definition = getUnitDefinition(unit);
+  return definition ? value * definition.toBase : null;
+}
+
+/**
+ * Converts between two units of the same dimension. Returns null when incompatible.
+ */
+export function convertUnit(value: number, from: string, to: string): number | null {
+  const fromDefinition = getUnitDefinition(from);
+  const toDefinition = getUnitDefinition(to);
+
+  if (!fromDefinition || !toDefinition || fromDefinition.dimension !== toDefinition.dimension) {
+    return null;
+  }
+
+  return (value * fromDefinition.toBase) / toDefinition.toBase;
+}
+
+/**
+ * Picks the most readable unit for a base-unit amount within one measurement system.
+ */
+export function bestUnit(baseValue: number, dimension: UnitDimension, system: UnitSystem): { value: number; unit: string } {
+  const ladder = DISPLAY_LADDERS[dimension][system];
+  // Small tolerance so 3 tsp lands on exactly 1 tbsp despite rounded conversion factors
+  const step = ladder.find(candidate => baseValue >= candidate.minimum * 0.999) || ladder[ladder.length - 1];
+  return { value: baseValue / UNITS[step.unit].toBase, unit: step.unit };
+}
+
+/**
+ * Re-expresses a quantity in the most readable unit of its own system,
+ * e.g. 24 tsp -> 1/2 cup, 1500 g -> 1.5 kg. Unknown units are left as-is.
+ */
+export function simplifyQuantity(value: number, unit: string): { value: number; unit: string } {
+  const canonical = canonicalizeUnit(unit);
+  const definition = canonical ? UNITS[canonical] : undefined;
+  if (!definition) {
+    return { value, unit };
+  }
+
+  // Fluid ounces, pints and quarts read fine on their own unless they shrink below a cup
+  if ((canonical === 'fl oz' || canonical === 'pt' || canonical === 'qt') && value * definition.toBase >= UNITS.cup.toBase) {
+    return { value, unit: canonical };
+  }
+
+  return bestUnit(value * definition.toBase, definition.dimension, definition.system);
+}
+
+export function getIngredientDensity(name: string): { gramsPerMl: number; weighed: boolean } | null {
+  const value = name.toLowerCase();
+  const match = INGREDIENT_DENSITIES.find(entry => entry.pattern.test(value));
+  return match ? { gramsPerMl: match.gramsPerMl, weighed: match.weighed } : null;
+}
+
+/**
+ * Converts a quantity into the given measurement system. When the ingredient name is known,
+ * dry goods switch between cups and grams using their density; everything else keeps its
+ * dimension. Spoon measures and count units are left untouched.
+ */
+export function convertQuantity(
+  value: number,
+  unit: string,
+  system: UnitSystem,
+  ingredientName?: string
+): { value: number; unit: string } {
+  const canonical = canonicalizeUnit(unit);
+  const definition = canonical ? UNITS[canonical] : undefined;
+  if (!canonical || !definition || SYSTEM_NEUTRAL_UNITS.has(canonical)) {
+    return { value, unit };
+  }
+
+  if (definition.system === system) {
+    return simplifyQuantity(value, canonical);
+  }
+
+  const baseValue = value * definition.toBase;
+  const density = ingredientName ? getIngredientDensity(ingredientName) : null;
+
+  let converted: { value: number; unit: string };
+  if (density?.weighed && definition.dimension === 'volume' && system === 'metric') {
+    converted = bestUnit(baseValue * density.gramsPerMl, 'mass', system);
+  } else if (density?.weighed && definition.dimension === 'mass' && system === 'us') {
+    converted = bestUnit(baseValue / density.gramsPerMl, 'volume', system);
+  } else {
+    converted = bestUnit(baseValue, definition.dimension, system);
+  }
+
+  return { value: roundConvertedValue(converted.value, converted.unit), unit: converted.unit };
+}
+
+/**
+ * Rounds converted metric amounts to what a kitchen scale or jug can show (236.59 ml -> 235 ml).
+ */
+function roundConvertedValue(value: number, unit: string): number {
+  if (unit !== 'g' && unit !== 'ml') return value;
+  if (value >= 100) return Math.round(value / 5) * 5;
+  if (value >= 10) return Math.round(value);
+  return value;
+}
+
+export function convertTemperature(value: number, from: TemperatureUnit, to: TemperatureUnit): number {
+  if (from === to) return value;
+  return to === 'C' ? ((value - 32) * 5) / 9 : (value * 9) / 5 + 32;
+}
+
+export function temperatureUnitFor(system: UnitSystem): TemperatureUnit {
+  return system === 'metric' ? 'C' : 'F';
+}
+
+// ============================================================================
+// Measure Arithmetic
+// ============================================================================
+
+export function toMeasure(amount: string, unit: string): Measure | null {
+  const quantity = parseQuantity(amount || '');
+  if (!quantity) {
+    return null;
+  }
+
+  const canonical = canonicalizeUnit(unit);
+  const definition = canonical ? UNITS[canonical] : undefined;
+  const factor = definition?.toBase ?? 1;
+
+  return {
+    group: definition ? definition.dimension : (canonical ?? (unit || '').trim().toLowerCase()),
+    dimension: definition?.dimension ?? null,
+    system: definition?.system ?? 'us',
+    unit: canonical ?? unit ?? '',
+    value: quantity.quantity * factor,
+    valueMax: (quantity.quantityMax ?? quantity.quantity) * factor,
+  };
+}
+
+/**
+ * Formats a measure's value (in base units for volumes and masses) in the most readable unit.
+ */
+export function formatMeasure(
+  value: number,
+  valueMax: number,
+  measure: Pick<Measure, 'dimension' | 'system' | 'unit'>
+): { amount: string; unit: string } {
+  if (value <= 0) {
+    return { amount: '', unit: '' };
+  }
+
+  if (!measure.dimension) {
+    return {
+      amount: formatQuantityRange(value, valueMax > value ? valueMax : null),
+      unit: measure.unit,
+    };
+  }
+
+  const display = bestUnit(value, measure.dimension, measure.system);
+  const ratio = display.value / value;
+  return {
+    amount: formatQuantityRange(display.value, valueMax > value ? valueMax * ratio : null),
+    unit: display.unit,
+  };
+}
+
+// ============================================================================
+// Ingredient Helpers
+// ============================================================================
+
+/**
+ * Rewrites an ingredient's amount and unit, carrying the upper bound of a range along with
+ * the unit chosen for the lower bound. Ingredients without a numeric amount ("salt to taste")
+ * are returned unchanged.
+ */
+function mapIngredientQuantity<T extends StoredIngredient>(
+  ingredient: T,
+  transform: (value: number, unit: string) => { value: number; unit: string }
+): T {
+  const quantity = parseQuantity(ingredient.amount || '');
+  if (!quantity) {
+    return ingredient;
+  }
+
+  // A range starting at zero ("0-1 tsp") has no ratio to carry over, so the upper bound picks the unit
+  if (quantity.quantity === 0 && quantity.quantityMax !== null) {
+    const mappedMax = transform(quantity.quantityMax, ingredient.unit);
+    return {
+      ...ingredient,
+      amount: formatQuantityRange(0, mappedMax.value),
+      unit: mappedMax.unit,
+    };
+  }
+
+  const mapped = transform(quantity.quantity, ingredient.unit);
+  const mappedMax = quantity.quantityMax !== null
+    ? quantity.quantityMax * (mapped.value / quantity.quantity)
+    : null;
+
+  return {
+    ...ingredient,
+    amount: formatQuantityRange(mapped.value, mappedMax),
+    unit: mapped.unit,
+  };
+}
+
+/**
+ * Scales a stored ingredient by a factor, keeping ranges and promoting or demoting units.
+ */
+export function scaleIngredient<T extends StoredIngredient>(ingredient: T, factor: number): T {
+  if (!isFinite(factor) || factor <= 0 || factor === 1) {
+    return ingredient;
+  }
+
+  return mapIngredientQuantity(ingredient, (value, unit) => simplifyQuantity(value * factor, unit));
+}
+
+export function scaleIngredients<T extends StoredIngredient>(ingredients: T[], fromServings: number, toServings: number): T[] {
+  if (!fromServings || !toServings || fromServings === toServings) {
+    return ingredients;
+  }
+
+  const factor = toServings / fromServings;
+  return ingredients.map(ingredient => scaleIngredient(ingredient, factor));
+}
+
+export function convertIngredient<T extends StoredIngredient>(ingredient: T, system: UnitSystem): T {
+  return mapIngredientQuantity(ingredient, (value, unit) => convertQuantity(value, unit, system, ingredient.name));
+}
+
+export function convertIngredients<T extends StoredIngredient>(ingredients: T[], system: UnitSystem): T[] {
+  return ingredients.map(ingredient => convertIngredient(ingredient, system));
+}
+
+/**
+ * Converts an instruction's oven temperature to the system's scale, rounded to the nearest 5 degrees.
+ */
+export function convertInstruction<T extends { temperature?: { value: number; unit: TemperatureUnit } | null }>(
+  instruction: T,
+  system: UnitSystem
+): T {
+  const temperature = instruction.temperature;
+  const unit = temperatureUnitFor(system);
+  if (!temperature || temperature.unit === unit) {
+    return instruction;
+  }
+
+  const value = Math.round(convertTemperature(temperature.value, temperature.unit, unit) / 5) * 5;
+  return { ...instruction, temperature: { value, unit } };
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { decodeJwt } from 'jose';
+import { ACCESS_COOKIE_NAME, REFRESH_COOKIE_NAME } from './lib/auth/session-cookies';
+import { AuthenticationError } from './lib/api/errors';
+
+// Refresh a little early so the token doesn't expire partway through a request
+const REFRESH_MARGIN_SECONDS = 30;
+
+// API routes anyone may call. Everything else under /api needs credentials, and the route
+// itself decides whether they're good enough.
+const PUBLIC_API_ROUTES: { pattern: RegExp; methods?: string[] }[] = [
+  { pattern: /^\/api\/auth\/(login|register|refresh|logout|forgot-password|reset-password|oidc)(\/.*)?$/ },
+  { pattern: /^\/api\/auth\/verify-email$/ },
+  { pattern: /^\/api\/recipes\/(search|by-ingredients)$/, methods: ['GET'] },
+  { pattern: /^\/api\/recipes\/[^/]+(\/reviews)?$/, methods: ['GET'] },
+  { pattern: /^\/api\/setup\// }, // Guarded by the setup key instead
+];
+
+function needsRefresh(accessToken: string | undefined): boolean {
+  if (!accessToken) {
+    return true;
+  }
+  try {
+    const { exp } = decodeJwt(accessToken);
+    return !exp || exp - REFRESH_MARGIN_SECONDS <= Date.now() / 1000;
+  } catch {
+    return true;
+  }
+}
+
+function isPublicApiRoute(request: NextRequest): boolean {
+  const { pathname } = request.nextUrl;
+  return PUBLIC_API_ROUTES.some(route =>
+    route.pattern.test(pathname) && (!route.methods || route.methods.includes(request.method))
+  );
+}
+
+// Turns away API calls that carry no credentials at all, before any route code runs
+function rejectAnonymousApiRequest(request: NextRequest): NextResponse | null {
+  if (!request.nextUrl.pathname.startsWith('/api/') || isPublicApiRoute(request)) {
+    return null;
+  }
+  if (request.headers.get('authorization') || request.cookies.get(ACCESS_COOKIE_NAME)?.value) {
+    return null;
+  }
+
+  const error = new AuthenticationError();
+  return NextResponse.json(error.toJSON(), { status: error.status });
+}
+
+// ============================================================================
+// Session Refresh and Route Protection
+// ============================================================================
+
+/**
+ * Access tokens only last 15 minutes, and server components can't set cookies, so expired
+ * ones are renewed here before the page or API route runs. The edge runtime can't reach
+ * the database, so the rotation itself happens in /api/auth/refresh, and checking the
+ * credentials is left to the route (see apiHandler in lib/api).
+ */
+export async function middleware(request: NextRequest) {
+  const refreshToken = request.cookies.get(REFRESH_COOKIE_NAME)?.value;
+  if (!refreshToken || !needsRefresh(request.cookies.get(ACCESS_COOKIE_NAME)?.value)) {
+    return rejectAnonymousApiRequest(request) || NextResponse.next();
+  }
+
+  let refreshResponse: Response;
+  try {
+    refreshResponse = await fetch(new URL('/api/auth/refresh', request.url), {
+      method: 'POST',
+      headers: {
+        cookie: request.headers.get('cookie') || '',
+        'user-agent': request.headers.get('user-agent') || '',
+        'x-forwarded-for': request.headers.get('x-forwarded-for') || request.ip || '',
+      },
+    });
+  } catch (error) {
+    console.error('Session refresh error:', error);
+    return rejectAnonymousApiRequest(request) || NextResponse.next();
+  }
+
+  // Read the cookies the refresh set, then pass them on to this request and the browser
+  const refreshed = new NextResponse(null, { headers: refreshResponse.headers }).cookies.getAll();
+
+  for (const cookie of refreshed) {
+    if (cookie.value) {
+      request.cookies.set(cookie.name, cookie.value);
+    } else {
+      request.cookies.delete(cookie.name);
+    }
+  }
+
+  const response = rejectAnonymousApiRequest(request) || NextResponse.next({ request: { headers: request.headers } });
+  for (const cookie of refreshed) {
+    response.cookies.set(cookie);
+  }
+  return response;
+}
+
+export const config = {
+  // Everything except static assets and the auth routes that manage the cookies themselves
+  matcher: [
+    '/((?!_next/static|_next/image|favicon.ico|icons/|sw.js|manifest.json|api/auth/refresh|api/auth/logout).*)',
+  ],
+};